@@ -0,0 +1,648 @@
+// src/engines/drawing/ABRParser.ts
+import { BinaryReader } from './BinaryReader';
+
+/**
+ * Photoshop brush library (.abr) parser
+ * Reads v1/v2 libraries (computed and sampled tips) and v6+ libraries
+ * (sampled tips in the 'samp' section, presets in the 'desc' descriptor).
+ * Returns plain data; BrushEngine maps it onto Brush objects.
+ */
+export class ABRParser {
+  private reader: BinaryReader;
+  private warnings: string[] = [];
+
+  constructor(buffer: ArrayBuffer | Uint8Array) {
+    this.reader = new BinaryReader(buffer);
+  }
+
+  public parse(): ABRParseResult {
+    if (this.reader.length < 4) {
+      throw new Error('File is too small to be a Photoshop brush library');
+    }
+
+    const version = this.reader.readInt16();
+
+    switch (version) {
+      case 1:
+      case 2:
+        return { version, brushes: this.parseV12(version), warnings: this.warnings };
+      case 6:
+      case 7:
+      case 10:
+        return { version, brushes: this.parseV6(), warnings: this.warnings };
+      default:
+        throw new Error(`Unsupported ABR version: ${version}`);
+    }
+  }
+
+  // ===== VERSION 1/2 =====
+
+  private parseV12(version: number): PhotoshopBrush[] {
+    const count = this.reader.readInt16();
+    const brushes: PhotoshopBrush[] = [];
+
+    for (let i = 0; i < count && !this.reader.eof(); i++) {
+      const type = this.reader.readInt16();
+      const size = this.reader.readInt32();
+      const next = this.reader.position + size;
+
+      try {
+        if (type === 1) {
+          brushes.push(this.parseComputedV12(i));
+        } else if (type === 2) {
+          brushes.push(this.parseSampledV12(version, i));
+        } else {
+          this.warnings.push(`Brush ${i + 1}: unknown brush type ${type}, skipped`);
+        }
+      } catch (error) {
+        this.warnings.push(`Brush ${i + 1}: ${(error as Error).message}, skipped`);
+      }
+
+      this.reader.seek(Math.min(next, this.reader.length));
+    }
+
+    return brushes;
+  }
+
+  private parseComputedV12(index: number): PhotoshopBrush {
+    this.reader.skip(4); // misc
+    const spacing = this.reader.readInt16();
+    const diameter = this.reader.readInt16();
+    const roundness = this.reader.readInt16();
+    const angle = this.reader.readInt16();
+    const hardness = this.reader.readInt16();
+
+    return {
+      ...this.createEmptyBrush(`Brush ${index + 1}`),
+      diameter,
+      spacing,
+      roundness,
+      angle,
+      hardness,
+    };
+  }
+
+  private parseSampledV12(version: number, index: number): PhotoshopBrush {
+    this.reader.skip(4); // misc
+    const spacing = this.reader.readInt16();
+    const name = version === 2 ? this.reader.readUnicodeString() : '';
+    const antiAlias = this.reader.readUint8() !== 0;
+    this.reader.skip(8); // short bounds
+
+    const tip = this.readSampledTip();
+
+    return {
+      ...this.createEmptyBrush(name || `Brush ${index + 1}`),
+      tip,
+      diameter: Math.max(tip.width, tip.height),
+      spacing,
+      antiAlias,
+    };
+  }
+
+  // ===== VERSION 6+ =====
+
+  private parseV6(): PhotoshopBrush[] {
+    const subVersion = this.reader.readInt16();
+    if (subVersion !== 1 && subVersion !== 2) {
+      throw new Error(`Unsupported ABR sub-version: ${subVersion}`);
+    }
+
+    const samples: Map<string, ABRSampledTip> = new Map();
+    const sampleOrder: string[] = [];
+    let descriptor: ABRDescriptor | null = null;
+
+    while (this.reader.remaining >= 12) {
+      const signature = this.reader.readAscii(4);
+      if (signature !== '8BIM') {
+        this.warnings.push(`Unexpected section signature "${signature}", stopped reading`);
+        break;
+      }
+
+      const key = this.reader.readAscii(4);
+      const length = this.reader.readUint32();
+      const end = Math.min(this.reader.position + length, this.reader.length);
+
+      switch (key) {
+        case 'samp':
+          this.parseSampleSection(subVersion, end, samples, sampleOrder);
+          break;
+        case 'desc':
+          try {
+            this.reader.skip(4); // descriptor version (16)
+            descriptor = this.readDescriptor();
+          } catch (error) {
+            this.warnings.push(`Brush presets could not be read: ${(error as Error).message}`);
+          }
+          break;
+        case 'patt':
+          if (length > 0) {
+            this.warnings.push('Pattern textures are not imported; textured brushes will paint without their pattern');
+          }
+          break;
+        case 'phry':
+          break; // preset folder hierarchy, not used
+        default:
+          this.warnings.push(`Unknown section "${key}" skipped`);
+      }
+
+      this.reader.seek(end);
+    }
+
+    return this.buildV6Brushes(descriptor, samples, sampleOrder);
+  }
+
+  private parseSampleSection(
+    subVersion: number,
+    end: number,
+    samples: Map<string, ABRSampledTip>,
+    order: string[]
+  ): void {
+    while (this.reader.position + 4 < end) {
+      let size = this.reader.readUint32();
+      // Entries are padded to 4 bytes
+      while (size % 4 !== 0) size++;
+      const next = this.reader.position + size;
+
+      try {
+        const start = this.reader.position;
+        const id = this.reader.readPascalString();
+        // Skip the rest of the key block and the short bounds (sizes per sub-version)
+        const headerSize = subVersion === 1 ? 47 : 301;
+        this.reader.seek(start + headerSize);
+
+        const tip = this.readSampledTip();
+        samples.set(id, tip);
+        order.push(id);
+      } catch (error) {
+        this.warnings.push(`Sampled tip ${order.length + 1} could not be read: ${(error as Error).message}`);
+      }
+
+      this.reader.seek(Math.min(next, end));
+    }
+  }
+
+  private buildV6Brushes(
+    descriptor: ABRDescriptor | null,
+    samples: Map<string, ABRSampledTip>,
+    sampleOrder: string[]
+  ): PhotoshopBrush[] {
+    const presets = descriptor?.items['Brsh'];
+
+    // No preset descriptor: fall back to one brush per sampled tip
+    if (!presets || presets.type !== 'list') {
+      return sampleOrder.map((id, index) => {
+        const tip = samples.get(id)!;
+        return {
+          ...this.createEmptyBrush(`Sampled Brush ${index + 1}`),
+          sampleId: id,
+          tip,
+          diameter: Math.max(tip.width, tip.height),
+        };
+      });
+    }
+
+    const brushes: PhotoshopBrush[] = [];
+
+    presets.value.forEach((item, index) => {
+      if (item.type !== 'object') return;
+      brushes.push(this.convertPreset(item.value, index, samples));
+    });
+
+    return brushes;
+  }
+
+  private convertPreset(
+    preset: ABRDescriptor,
+    index: number,
+    samples: Map<string, ABRSampledTip>
+  ): PhotoshopBrush {
+    const name = this.getText(preset, 'Nm  ') || `Brush ${index + 1}`;
+    const brush = this.createEmptyBrush(name);
+    const tipValue = preset.items['Brsh'];
+
+    if (tipValue && tipValue.type === 'object') {
+      const tip = tipValue.value;
+      brush.diameter = this.getNumber(tip, 'Dmtr', brush.diameter);
+      brush.hardness = this.getNumber(tip, 'Hrdn', brush.hardness);
+      brush.angle = this.getNumber(tip, 'Angl', brush.angle);
+      brush.roundness = this.getNumber(tip, 'Rndn', brush.roundness);
+      brush.spacing = this.getBoolean(tip, 'Intr', true)
+        ? this.getNumber(tip, 'Spcn', brush.spacing)
+        : 0;
+      brush.flipX = this.getBoolean(tip, 'flipX', false);
+      brush.flipY = this.getBoolean(tip, 'flipY', false);
+
+      const sampleId = this.getText(tip, 'sampledData');
+      if (sampleId) {
+        brush.sampleId = sampleId;
+        const sample = samples.get(sampleId);
+        if (sample) {
+          brush.tip = sample;
+        } else {
+          brush.warnings.push('Sampled tip is missing from the library; using a round tip');
+        }
+      } else if (tip.classId !== 'computedBrush') {
+        brush.warnings.push(`Tip type "${tip.classId}" is not supported; using a round tip`);
+      }
+    }
+
+    // Shape dynamics
+    if (this.getBoolean(preset, 'useTipDynamics', false)) {
+      brush.shapeDynamics = {
+        size: this.getControl(preset, 'szVr'),
+        minimumDiameter: this.getNumber(preset, 'minimumDiameter', 0) / 100,
+        tiltScale: this.getNumber(preset, 'tiltScale', 0) / 100,
+        angle: this.getControl(preset, 'angleDynamics'),
+        roundness: this.getControl(preset, 'roundnessDynamics'),
+        minimumRoundness: this.getNumber(preset, 'minimumRoundness', 0) / 100,
+      };
+    }
+
+    // Scattering
+    if (this.getBoolean(preset, 'useScatter', false)) {
+      brush.scatter = {
+        amount: this.getControl(preset, 'scatterDynamics'),
+        bothAxes: this.getBoolean(preset, 'bothAxes', false),
+        count: this.getNumber(preset, 'Cnt ', 1),
+        countJitter: this.getControl(preset, 'countDynamics'),
+      };
+    }
+
+    // Transfer (opacity/flow)
+    if (this.getBoolean(preset, 'usePaintDynamics', false)) {
+      brush.transfer = {
+        opacity: this.getControl(preset, 'opVr'),
+        flow: this.getControl(preset, 'prVr'),
+      };
+    }
+
+    brush.wetEdges = this.getBoolean(preset, 'Wtdg', false);
+    brush.airbrush = this.getBoolean(preset, 'Rpt ', false);
+    brush.smoothing = this.getBoolean(preset, 'Smoo', false);
+
+    // Features we can read but not map
+    const dualBrush = preset.items['dualBrush'];
+    if (dualBrush && dualBrush.type === 'object' && this.getBoolean(dualBrush.value, 'useDualBrush', false)) {
+      brush.unsupportedFeatures.push('Dual Brush');
+    }
+    if (this.getBoolean(preset, 'useTexture', false)) brush.unsupportedFeatures.push('Texture');
+    if (this.getBoolean(preset, 'useColorDynamics', false)) brush.unsupportedFeatures.push('Color Dynamics');
+    if (this.getBoolean(preset, 'Nose', false)) brush.unsupportedFeatures.push('Noise');
+    if (this.getBoolean(preset, 'useBrushPose', false)) brush.unsupportedFeatures.push('Brush Pose');
+
+    return brush;
+  }
+
+  // ===== SAMPLED TIP DATA =====
+
+  private readSampledTip(): ABRSampledTip {
+    const top = this.reader.readInt32();
+    const left = this.reader.readInt32();
+    const bottom = this.reader.readInt32();
+    const right = this.reader.readInt32();
+    const depth = this.reader.readInt16();
+    const compression = this.reader.readUint8();
+
+    const width = right - left;
+    const height = bottom - top;
+
+    if (width <= 0 || height <= 0 || width > 8192 || height > 8192) {
+      throw new Error(`invalid tip bounds ${width}x${height}`);
+    }
+    if (depth !== 8 && depth !== 16) {
+      throw new Error(`unsupported tip bit depth ${depth}`);
+    }
+
+    const bytesPerPixel = depth / 8;
+    const rowBytes = width * bytesPerPixel;
+    const raw = compression === 0
+      ? this.reader.readBytes(rowBytes * height)
+      : this.readPackBitsRows(rowBytes, height);
+
+    // Normalize to 8-bit coverage
+    const data = new Uint8Array(width * height);
+    if (bytesPerPixel === 1) {
+      data.set(raw.subarray(0, data.length));
+    } else {
+      for (let i = 0; i < data.length; i++) {
+        data[i] = raw[i * 2];
+      }
+    }
+
+    return { width, height, depth, data };
+  }
+
+  private readPackBitsRows(rowBytes: number, rows: number): Uint8Array {
+    const rowLengths: number[] = [];
+    for (let i = 0; i < rows; i++) {
+      rowLengths.push(this.reader.readUint16());
+    }
+
+    const output = new Uint8Array(rowBytes * rows);
+    for (let row = 0; row < rows; row++) {
+      const packed = this.reader.readBytes(rowLengths[row]);
+      decodePackBits(packed, output, row * rowBytes, rowBytes);
+    }
+
+    return output;
+  }
+
+  // ===== ACTION DESCRIPTORS =====
+
+  private readDescriptor(): ABRDescriptor {
+    const name = this.reader.readUnicodeString();
+    const classId = this.readKey();
+    const count = this.reader.readUint32();
+    const items: Record<string, ABRDescriptorValue> = {};
+
+    for (let i = 0; i < count; i++) {
+      const key = this.readKey();
+      items[key] = this.readDescriptorValue();
+    }
+
+    return { name, classId, items };
+  }
+
+  private readDescriptorValue(): ABRDescriptorValue {
+    const type = this.reader.readAscii(4);
+
+    switch (type) {
+      case 'Objc':
+      case 'GlbO':
+        return { type: 'object', value: this.readDescriptor() };
+      case 'VlLs': {
+        const count = this.reader.readUint32();
+        const value: ABRDescriptorValue[] = [];
+        for (let i = 0; i < count; i++) {
+          value.push(this.readDescriptorValue());
+        }
+        return { type: 'list', value };
+      }
+      case 'doub':
+        return { type: 'number', value: this.reader.readFloat64() };
+      case 'UntF': {
+        const unit = this.reader.readAscii(4);
+        return { type: 'number', value: this.reader.readFloat64(), unit };
+      }
+      case 'UnFl': {
+        const unit = this.reader.readAscii(4);
+        const count = this.reader.readUint32();
+        const values: number[] = [];
+        for (let i = 0; i < count; i++) values.push(this.reader.readFloat64());
+        return { type: 'number', value: values[0] ?? 0, unit };
+      }
+      case 'long':
+        return { type: 'number', value: this.reader.readInt32() };
+      case 'comp':
+        return { type: 'number', value: this.reader.readInt32() * 4294967296 + this.reader.readUint32() };
+      case 'bool':
+        return { type: 'boolean', value: this.reader.readUint8() !== 0 };
+      case 'TEXT':
+        return { type: 'text', value: this.reader.readUnicodeString() };
+      case 'enum': {
+        const enumType = this.readKey();
+        return { type: 'enum', value: this.readKey(), enumType };
+      }
+      case 'type':
+      case 'GlbC':
+        this.reader.readUnicodeString();
+        return { type: 'text', value: this.readKey() };
+      case 'alis':
+      case 'tdta':
+      case 'Pth ': {
+        const length = this.reader.readUint32();
+        return { type: 'raw', value: this.reader.readBytes(length) };
+      }
+      case 'obj ':
+        this.skipReference();
+        return { type: 'raw', value: new Uint8Array(0) };
+      default:
+        throw new Error(`Unsupported descriptor value type "${type}"`);
+    }
+  }
+
+  private skipReference(): void {
+    const count = this.reader.readUint32();
+
+    for (let i = 0; i < count; i++) {
+      const type = this.reader.readAscii(4);
+      switch (type) {
+        case 'prop':
+          this.reader.readUnicodeString();
+          this.readKey();
+          this.readKey();
+          break;
+        case 'Clss':
+          this.reader.readUnicodeString();
+          this.readKey();
+          break;
+        case 'Enmr':
+          this.reader.readUnicodeString();
+          this.readKey();
+          this.readKey();
+          this.readKey();
+          break;
+        case 'rele':
+          this.reader.readUnicodeString();
+          this.readKey();
+          this.reader.skip(4);
+          break;
+        case 'Idnt':
+        case 'indx':
+          this.reader.skip(4);
+          break;
+        case 'name':
+          this.reader.readUnicodeString();
+          this.readKey();
+          this.reader.readUnicodeString();
+          break;
+        default:
+          throw new Error(`Unsupported reference type "${type}"`);
+      }
+    }
+  }
+
+  // Key: 4-byte length, or a 4-character ID when the length is zero
+  private readKey(): string {
+    const length = this.reader.readUint32();
+    return this.reader.readAscii(length === 0 ? 4 : length);
+  }
+
+  // ===== DESCRIPTOR HELPERS =====
+
+  private getNumber(descriptor: ABRDescriptor, key: string, fallback: number): number {
+    const value = descriptor.items[key];
+    return value && value.type === 'number' ? value.value : fallback;
+  }
+
+  private getBoolean(descriptor: ABRDescriptor, key: string, fallback: boolean): boolean {
+    const value = descriptor.items[key];
+    return value && value.type === 'boolean' ? value.value : fallback;
+  }
+
+  private getText(descriptor: ABRDescriptor, key: string): string | null {
+    const value = descriptor.items[key];
+    return value && value.type === 'text' ? value.value : null;
+  }
+
+  private getControl(descriptor: ABRDescriptor, key: string): ABRDynamicControl {
+    const value = descriptor.items[key];
+    if (!value || value.type !== 'object') {
+      return { control: 'off', jitter: 0, minimum: 0 };
+    }
+
+    const control = value.value;
+    const controlType = this.getNumber(control, 'bVTy', 0);
+
+    return {
+      control: ABR_CONTROLS[controlType] || 'off',
+      jitter: this.getNumber(control, 'jitter', 0) / 100,
+      minimum: this.getNumber(control, 'Mnm ', 0) / 100,
+      fadeSteps: this.getNumber(control, 'fStp', 25),
+    };
+  }
+
+  private createEmptyBrush(name: string): PhotoshopBrush {
+    return {
+      name,
+      diameter: 25,
+      spacing: 25,
+      angle: 0,
+      roundness: 100,
+      hardness: 100,
+      flipX: false,
+      flipY: false,
+      antiAlias: true,
+      wetEdges: false,
+      airbrush: false,
+      smoothing: false,
+      unsupportedFeatures: [],
+      warnings: [],
+    };
+  }
+}
+
+// Decodes one PackBits (Apple RLE) run into `output` starting at `offset`
+export function decodePackBits(
+  input: Uint8Array,
+  output: Uint8Array,
+  offset: number,
+  expectedLength: number
+): void {
+  let read = 0;
+  let written = 0;
+
+  while (read < input.length && written < expectedLength) {
+    const header = input[read] > 127 ? input[read] - 256 : input[read];
+    read++;
+
+    if (header >= 0) {
+      const count = Math.min(header + 1, expectedLength - written);
+      output.set(input.subarray(read, read + count), offset + written);
+      read += header + 1;
+      written += count;
+    } else if (header !== -128) {
+      const count = Math.min(1 - header, expectedLength - written);
+      output.fill(input[read], offset + written, offset + written + count);
+      read++;
+      written += count;
+    }
+  }
+}
+
+// Photoshop "bVTy" control indices
+const ABR_CONTROLS: Record<number, ABRControlType> = {
+  0: 'off',
+  1: 'fade',
+  2: 'pressure',
+  3: 'tilt',
+  4: 'stylus-wheel',
+  5: 'initial-direction',
+  6: 'direction',
+  7: 'rotation',
+};
+
+// ===== TYPES =====
+
+export type ABRControlType =
+  | 'off'
+  | 'fade'
+  | 'pressure'
+  | 'tilt'
+  | 'stylus-wheel'
+  | 'initial-direction'
+  | 'direction'
+  | 'rotation';
+
+export interface ABRDynamicControl {
+  control: ABRControlType;
+  jitter: number; // 0-1
+  minimum: number; // 0-1
+  fadeSteps?: number;
+}
+
+export interface ABRSampledTip {
+  width: number;
+  height: number;
+  depth: number;
+  data: Uint8Array; // 8-bit coverage, row-major
+}
+
+export interface PhotoshopBrush {
+  name: string;
+  sampleId?: string;
+  tip?: ABRSampledTip;
+  diameter: number; // px
+  spacing: number; // % of diameter, 0 = spacing disabled
+  angle: number; // degrees, -180..180
+  roundness: number; // 0-100
+  hardness: number; // 0-100
+  flipX: boolean;
+  flipY: boolean;
+  antiAlias: boolean;
+  shapeDynamics?: {
+    size: ABRDynamicControl;
+    minimumDiameter: number;
+    tiltScale: number;
+    angle: ABRDynamicControl;
+    roundness: ABRDynamicControl;
+    minimumRoundness: number;
+  };
+  scatter?: {
+    amount: ABRDynamicControl; // jitter = scatter in multiples of diameter
+    bothAxes: boolean;
+    count: number;
+    countJitter: ABRDynamicControl;
+  };
+  transfer?: {
+    opacity: ABRDynamicControl;
+    flow: ABRDynamicControl;
+  };
+  wetEdges: boolean;
+  airbrush: boolean;
+  smoothing: boolean;
+  unsupportedFeatures: string[];
+  warnings: string[];
+}
+
+export interface ABRParseResult {
+  version: number;
+  brushes: PhotoshopBrush[];
+  warnings: string[];
+}
+
+interface ABRDescriptor {
+  name: string;
+  classId: string;
+  items: Record<string, ABRDescriptorValue>;
+}
+
+type ABRDescriptorValue =
+  | { type: 'object'; value: ABRDescriptor }
+  | { type: 'list'; value: ABRDescriptorValue[] }
+  | { type: 'number'; value: number; unit?: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'text'; value: string }
+  | { type: 'enum'; value: string; enumType: string }
+  | { type: 'raw'; value: Uint8Array };
@@ -0,0 +1,295 @@
+// src/engines/drawing/Adjustments.ts
+import {
+  AdjustmentType,
+  LayerAdjustment,
+  CurvePoint,
+  GradientStop,
+} from '../../types/drawing';
+import { CompatSkia, SkImage, SkShader } from './SkiaCompatibility';
+import {
+  SkRuntimeEffect,
+  ColorType,
+  AlphaType,
+  TileMode,
+  FilterMode,
+  MipmapMode,
+} from '@shopify/react-native-skia';
+import { responseCurveManager } from './ResponseCurves';
+
+/**
+ * Adjustment Manager
+ * Color functions for adjustment layers. Curves, levels and gradient maps are baked
+ * into a 256-entry lookup image; hue/saturation and color balance are evaluated directly.
+ */
+export class AdjustmentManager {
+  private static instance: AdjustmentManager;
+
+  private readonly LUT_SIZE = 256;
+
+  // Shader modes, matching ADJUSTMENT_SKSL
+  private readonly MODES: Record<AdjustmentType, number> = {
+    curves: 0,
+    levels: 0,
+    'gradient-map': 1,
+    'hue-saturation': 2,
+    'color-balance': 3,
+  };
+
+  private effect: SkRuntimeEffect | null = null;
+
+  // Adjustments are replaced, not mutated, when edited
+  private lutCache: WeakMap<LayerAdjustment, SkImage> = new WeakMap();
+  private identityLut: SkImage | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): AdjustmentManager {
+    if (!AdjustmentManager.instance) {
+      AdjustmentManager.instance = new AdjustmentManager();
+    }
+    return AdjustmentManager.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public createDefault(type: AdjustmentType): LayerAdjustment {
+    const identity = (): CurvePoint[] => [{ x: 0, y: 0 }, { x: 1, y: 1 }];
+
+    switch (type) {
+      case 'curves':
+        return { type, master: identity(), red: identity(), green: identity(), blue: identity() };
+      case 'levels':
+        return { type, inputBlack: 0, inputWhite: 1, gamma: 1, outputBlack: 0, outputWhite: 1 };
+      case 'hue-saturation':
+        return { type, hue: 0, saturation: 0, lightness: 0, colorize: false };
+      case 'color-balance':
+        return {
+          type,
+          shadows: { r: 0, g: 0, b: 0 },
+          midtones: { r: 0, g: 0, b: 0 },
+          highlights: { r: 0, g: 0, b: 0 },
+          preserveLuminosity: true,
+        };
+      case 'gradient-map':
+        return {
+          type,
+          stops: [
+            { position: 0, color: { hex: '#000000', rgb: { r: 0, g: 0, b: 0 }, hsb: { h: 0, s: 0, b: 0 }, alpha: 1 } },
+            { position: 1, color: { hex: '#ffffff', rgb: { r: 255, g: 255, b: 255 }, hsb: { h: 0, s: 0, b: 100 }, alpha: 1 } },
+          ],
+        };
+    }
+  }
+
+  // Shader drawing `source` (the pixels beneath the adjustment layer) with the adjustment applied
+  public createShader(adjustment: LayerAdjustment, source: SkImage): SkShader | null {
+    const effect = this.getEffect();
+    const lut = this.getLut(adjustment);
+    if (!effect || !lut) return null;
+
+    const hsl = adjustment.type === 'hue-saturation'
+      ? [adjustment.hue / 360, adjustment.saturation, adjustment.lightness]
+      : [0, 0, 0];
+    const balance = adjustment.type === 'color-balance'
+      ? [adjustment.shadows, adjustment.midtones, adjustment.highlights].flatMap(range => [range.r, range.g, range.b])
+      : [0, 0, 0, 0, 0, 0, 0, 0, 0];
+    const flag = (value: boolean | undefined) => (value ? 1 : 0);
+
+    return effect.makeShaderWithChildren(
+      [
+        this.MODES[adjustment.type],
+        ...hsl,
+        flag(adjustment.type === 'hue-saturation' && adjustment.colorize),
+        ...balance,
+        flag(adjustment.type === 'color-balance' && adjustment.preserveLuminosity),
+      ],
+      [
+        source.makeShaderOptions(TileMode.Clamp, TileMode.Clamp, FilterMode.Nearest, MipmapMode.None),
+        lut.makeShaderOptions(TileMode.Clamp, TileMode.Clamp, FilterMode.Linear, MipmapMode.None),
+      ]
+    );
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private getEffect(): SkRuntimeEffect | null {
+    if (!this.effect) {
+      this.effect = CompatSkia.RuntimeEffect.Make(ADJUSTMENT_SKSL);
+    }
+    return this.effect;
+  }
+
+  // RGB rows of the lookup image; modes that don't use it share an identity table
+  private getLut(adjustment: LayerAdjustment): SkImage | null {
+    if (adjustment.type === 'hue-saturation' || adjustment.type === 'color-balance') {
+      if (!this.identityLut) {
+        this.identityLut = this.makeLutImage(x => [x, x, x]);
+      }
+      return this.identityLut;
+    }
+
+    const cached = this.lutCache.get(adjustment);
+    if (cached) return cached;
+
+    let lut: SkImage | null = null;
+    switch (adjustment.type) {
+      case 'curves': {
+        const curve = (points: CurvePoint[]) => ({ preset: 'custom' as const, points });
+        const master = curve(adjustment.master);
+        const channels = [curve(adjustment.red), curve(adjustment.green), curve(adjustment.blue)];
+        lut = this.makeLutImage(x => {
+          const value = responseCurveManager.evaluate(master, x);
+          return channels.map(channel => responseCurveManager.evaluate(channel, value));
+        });
+        break;
+      }
+      case 'levels': {
+        const { inputBlack, inputWhite, gamma, outputBlack, outputWhite } = adjustment;
+        const range = Math.max(1e-4, inputWhite - inputBlack);
+        const exponent = 1 / Math.max(0.1, Math.min(10, gamma));
+        lut = this.makeLutImage(x => {
+          const normalized = Math.max(0, Math.min(1, (x - inputBlack) / range));
+          const value = outputBlack + Math.pow(normalized, exponent) * (outputWhite - outputBlack);
+          return [value, value, value];
+        });
+        break;
+      }
+      case 'gradient-map':
+        lut = this.makeLutImage(x => this.sampleGradient(adjustment.stops, x));
+        break;
+    }
+
+    if (lut) {
+      this.lutCache.set(adjustment, lut);
+    }
+    return lut;
+  }
+
+  private makeLutImage(map: (x: number) => number[]): SkImage | null {
+    const bytes = new Uint8Array(this.LUT_SIZE * 4);
+    for (let i = 0; i < this.LUT_SIZE; i++) {
+      const [r, g, b] = map(i / (this.LUT_SIZE - 1));
+      bytes[i * 4] = Math.round(Math.max(0, Math.min(1, r)) * 255);
+      bytes[i * 4 + 1] = Math.round(Math.max(0, Math.min(1, g)) * 255);
+      bytes[i * 4 + 2] = Math.round(Math.max(0, Math.min(1, b)) * 255);
+      bytes[i * 4 + 3] = 255;
+    }
+
+    return CompatSkia.Image.MakeImage(
+      {
+        width: this.LUT_SIZE,
+        height: 1,
+        colorType: ColorType.RGBA_8888,
+        alphaType: AlphaType.Unpremul,
+      },
+      CompatSkia.Data.fromBytes(bytes),
+      this.LUT_SIZE * 4
+    );
+  }
+
+  private sampleGradient(stops: GradientStop[], x: number): number[] {
+    if (stops.length === 0) return [x, x, x];
+
+    const sorted = [...stops].sort((a, b) => a.position - b.position);
+    const toRgb = (stop: GradientStop) => [stop.color.rgb.r / 255, stop.color.rgb.g / 255, stop.color.rgb.b / 255];
+
+    if (x <= sorted[0].position) return toRgb(sorted[0]);
+    for (let i = 1; i < sorted.length; i++) {
+      const from = sorted[i - 1];
+      const to = sorted[i];
+      if (x <= to.position) {
+        const span = to.position - from.position;
+        const t = span > 0 ? (x - from.position) / span : 0;
+        const a = toRgb(from);
+        const b = toRgb(to);
+        return a.map((value, channel) => value + (b[channel] - value) * t);
+      }
+    }
+    return toRgb(sorted[sorted.length - 1]);
+  }
+}
+
+// Works on unpremultiplied colour; mode: 0 per-channel lookup, 1 gradient map,
+// 2 hue/saturation, 3 color balance
+const ADJUSTMENT_SKSL = `
+uniform shader image;
+uniform shader lut;
+uniform float mode;
+uniform float3 hsl;
+uniform float colorize;
+uniform float3 shadows;
+uniform float3 midtones;
+uniform float3 highlights;
+uniform float preserveLuminosity;
+
+half3 rgbToHsl(half3 c) {
+  half maxc = max(c.r, max(c.g, c.b));
+  half minc = min(c.r, min(c.g, c.b));
+  half l = (maxc + minc) * 0.5;
+  half d = maxc - minc;
+  if (d < 0.0001) {
+    return half3(0.0, 0.0, l);
+  }
+  half s = l > 0.5 ? d / (2.0 - maxc - minc) : d / (maxc + minc);
+  half h;
+  if (maxc == c.r) {
+    h = (c.g - c.b) / d + (c.g < c.b ? 6.0 : 0.0);
+  } else if (maxc == c.g) {
+    h = (c.b - c.r) / d + 2.0;
+  } else {
+    h = (c.r - c.g) / d + 4.0;
+  }
+  return half3(h / 6.0, s, l);
+}
+
+half3 hslToRgb(half3 c) {
+  half3 rgb = clamp(abs(mod(c.x * 6.0 + half3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+  half chroma = (1.0 - abs(2.0 * c.z - 1.0)) * c.y;
+  return c.z + chroma * (rgb - 0.5);
+}
+
+half4 main(float2 xy) {
+  half4 color = image.eval(xy);
+  if (color.a <= 0.0) {
+    return half4(0.0);
+  }
+  half3 rgb = color.rgb / color.a;
+
+  if (mode < 0.5) {
+    rgb = half3(
+      lut.eval(float2(rgb.r * 255.0 + 0.5, 0.5)).r,
+      lut.eval(float2(rgb.g * 255.0 + 0.5, 0.5)).g,
+      lut.eval(float2(rgb.b * 255.0 + 0.5, 0.5)).b
+    );
+  } else if (mode < 1.5) {
+    half luma = dot(rgb, half3(0.2126, 0.7152, 0.0722));
+    rgb = lut.eval(float2(luma * 255.0 + 0.5, 0.5)).rgb;
+  } else if (mode < 2.5) {
+    half3 c = rgbToHsl(rgb);
+    if (colorize > 0.5) {
+      c = half3(fract(hsl.x), clamp((hsl.y + 1.0) * 0.5, 0.0, 1.0), c.z);
+    } else {
+      c.x = fract(c.x + hsl.x);
+      c.y = clamp(c.y * (1.0 + hsl.y), 0.0, 1.0);
+    }
+    c.z = hsl.z < 0.0 ? c.z * (1.0 + hsl.z) : c.z + (1.0 - c.z) * hsl.z;
+    rgb = hslToRgb(c);
+  } else {
+    half l = rgbToHsl(rgb).z;
+    half shadowWeight = clamp((0.333 - l) / 0.25 + 0.5, 0.0, 1.0) * 0.7;
+    half highlightWeight = clamp((l - 0.667) / 0.25 + 0.5, 0.0, 1.0) * 0.7;
+    half midWeight = clamp((l - 0.333) / 0.25 + 0.5, 0.0, 1.0)
+      * clamp((1.0 - l - 0.333) / 0.25 + 0.5, 0.0, 1.0) * 0.7;
+    rgb = clamp(rgb + shadows * shadowWeight + midtones * midWeight + highlights * highlightWeight, 0.0, 1.0);
+    if (preserveLuminosity > 0.5) {
+      half3 c = rgbToHsl(rgb);
+      rgb = hslToRgb(half3(c.x, c.y, l));
+    }
+  }
+
+  return half4(clamp(rgb, 0.0, 1.0) * color.a, color.a);
+}
+`;
+
+// Export singleton instance
+export const adjustmentManager = AdjustmentManager.getInstance();
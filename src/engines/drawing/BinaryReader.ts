@@ -0,0 +1,196 @@
+// src/engines/drawing/BinaryReader.ts
+/**
+ * Big-endian binary reader used by the brush and document file parsers.
+ * Photoshop and Apple formats are big-endian, so that is the default.
+ */
+export class BinaryReader {
+  private view: DataView;
+  private bytes: Uint8Array;
+  private offset = 0;
+
+  constructor(buffer: ArrayBuffer | Uint8Array, private littleEndian: boolean = false) {
+    this.bytes = buffer instanceof Uint8Array
+      ? buffer
+      : new Uint8Array(buffer);
+    this.view = new DataView(this.bytes.buffer, this.bytes.byteOffset, this.bytes.byteLength);
+  }
+
+  // ===== POSITION =====
+
+  public get position(): number {
+    return this.offset;
+  }
+
+  public get length(): number {
+    return this.bytes.byteLength;
+  }
+
+  public get remaining(): number {
+    return this.bytes.byteLength - this.offset;
+  }
+
+  public eof(): boolean {
+    return this.offset >= this.bytes.byteLength;
+  }
+
+  public seek(position: number): void {
+    if (position < 0 || position > this.bytes.byteLength) {
+      throw new RangeError(`Seek out of bounds: ${position} (length ${this.bytes.byteLength})`);
+    }
+    this.offset = position;
+  }
+
+  public skip(count: number): void {
+    this.seek(this.offset + count);
+  }
+
+  // ===== PRIMITIVES =====
+
+  public readUint8(): number {
+    this.ensure(1);
+    return this.view.getUint8(this.offset++);
+  }
+
+  public readInt8(): number {
+    this.ensure(1);
+    return this.view.getInt8(this.offset++);
+  }
+
+  public readUint16(): number {
+    this.ensure(2);
+    const value = this.view.getUint16(this.offset, this.littleEndian);
+    this.offset += 2;
+    return value;
+  }
+
+  public readInt16(): number {
+    this.ensure(2);
+    const value = this.view.getInt16(this.offset, this.littleEndian);
+    this.offset += 2;
+    return value;
+  }
+
+  public readUint32(): number {
+    this.ensure(4);
+    const value = this.view.getUint32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  public readInt32(): number {
+    this.ensure(4);
+    const value = this.view.getInt32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  public readFloat32(): number {
+    this.ensure(4);
+    const value = this.view.getFloat32(this.offset, this.littleEndian);
+    this.offset += 4;
+    return value;
+  }
+
+  public readFloat64(): number {
+    this.ensure(8);
+    const value = this.view.getFloat64(this.offset, this.littleEndian);
+    this.offset += 8;
+    return value;
+  }
+
+  // Reads an unsigned integer of 1-8 bytes (precision is lost above 2^53)
+  public readUintN(byteCount: number): number {
+    let value = 0;
+    for (let i = 0; i < byteCount; i++) {
+      value = value * 256 + this.readUint8();
+    }
+    return value;
+  }
+
+  public readBytes(count: number): Uint8Array {
+    this.ensure(count);
+    const slice = this.bytes.subarray(this.offset, this.offset + count);
+    this.offset += count;
+    return slice;
+  }
+
+  // ===== STRINGS =====
+
+  public readAscii(count: number): string {
+    const bytes = this.readBytes(count);
+    let result = '';
+    for (let i = 0; i < bytes.length; i++) {
+      result += String.fromCharCode(bytes[i]);
+    }
+    return result;
+  }
+
+  // Length-prefixed (1 byte) string, optionally padded to a multiple of `padding`
+  public readPascalString(padding: number = 1): string {
+    const length = this.readUint8();
+    const value = this.readAscii(length);
+    const total = length + 1;
+    if (padding > 1 && total % padding !== 0) {
+      this.skip(padding - (total % padding));
+    }
+    return value;
+  }
+
+  // UTF-16 string of `count` code units
+  public readUtf16(count: number): string {
+    let result = '';
+    for (let i = 0; i < count; i++) {
+      result += String.fromCharCode(this.readUint16());
+    }
+    return result;
+  }
+
+  // Photoshop "Unicode string": 4-byte length in code units, then UTF-16 (often null-terminated)
+  public readUnicodeString(): string {
+    const length = this.readUint32();
+    return this.readUtf16(length).replace(/\u0000+$/, '');
+  }
+
+  public readUtf8(count: number): string {
+    const bytes = this.readBytes(count);
+    return decodeUtf8(bytes);
+  }
+
+  // ===== PRIVATE =====
+
+  private ensure(count: number): void {
+    if (this.offset + count > this.bytes.byteLength) {
+      throw new RangeError(
+        `Unexpected end of data: need ${count} bytes at ${this.offset}, have ${this.remaining}`
+      );
+    }
+  }
+}
+
+export function decodeUtf8(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+
+  while (i < bytes.length) {
+    const byte1 = bytes[i++];
+
+    if (byte1 < 0x80) {
+      result += String.fromCharCode(byte1);
+    } else if (byte1 >= 0xc0 && byte1 < 0xe0) {
+      const byte2 = bytes[i++] & 0x3f;
+      result += String.fromCharCode(((byte1 & 0x1f) << 6) | byte2);
+    } else if (byte1 >= 0xe0 && byte1 < 0xf0) {
+      const byte2 = bytes[i++] & 0x3f;
+      const byte3 = bytes[i++] & 0x3f;
+      result += String.fromCharCode(((byte1 & 0x0f) << 12) | (byte2 << 6) | byte3);
+    } else if (byte1 >= 0xf0) {
+      const byte2 = bytes[i++] & 0x3f;
+      const byte3 = bytes[i++] & 0x3f;
+      const byte4 = bytes[i++] & 0x3f;
+      const codePoint = (((byte1 & 0x07) << 18) | (byte2 << 12) | (byte3 << 6) | byte4) - 0x10000;
+      result += String.fromCharCode(0xd800 + (codePoint >> 10), 0xdc00 + (codePoint & 0x3ff));
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,143 @@
+// src/engines/drawing/BinaryWriter.ts
+/**
+ * Big-endian binary writer, the counterpart of BinaryReader.
+ * Grows as it is written; length fields can be reserved and filled in afterwards.
+ */
+export class BinaryWriter {
+  private bytes: Uint8Array;
+  private view: DataView;
+  private offset = 0;
+
+  constructor(initialCapacity: number = 64 * 1024) {
+    this.bytes = new Uint8Array(Math.max(16, initialCapacity));
+    this.view = new DataView(this.bytes.buffer);
+  }
+
+  // ===== POSITION =====
+
+  public get position(): number {
+    return this.offset;
+  }
+
+  // ===== PRIMITIVES =====
+
+  public writeUint8(value: number): void {
+    this.ensure(1);
+    this.view.setUint8(this.offset++, value);
+  }
+
+  public writeInt8(value: number): void {
+    this.ensure(1);
+    this.view.setInt8(this.offset++, value);
+  }
+
+  public writeUint16(value: number): void {
+    this.ensure(2);
+    this.view.setUint16(this.offset, value);
+    this.offset += 2;
+  }
+
+  public writeInt16(value: number): void {
+    this.ensure(2);
+    this.view.setInt16(this.offset, value);
+    this.offset += 2;
+  }
+
+  public writeUint32(value: number): void {
+    this.ensure(4);
+    this.view.setUint32(this.offset, value);
+    this.offset += 4;
+  }
+
+  public writeInt32(value: number): void {
+    this.ensure(4);
+    this.view.setInt32(this.offset, value);
+    this.offset += 4;
+  }
+
+  public writeBytes(bytes: Uint8Array): void {
+    this.ensure(bytes.length);
+    this.bytes.set(bytes, this.offset);
+    this.offset += bytes.length;
+  }
+
+  public writeZeros(count: number): void {
+    this.ensure(count);
+    this.bytes.fill(0, this.offset, this.offset + count);
+    this.offset += count;
+  }
+
+  // Zero bytes up to the next multiple of `multiple`, counted from `start`
+  public pad(multiple: number, start: number = 0): void {
+    const remainder = (this.offset - start) % multiple;
+    if (remainder !== 0) {
+      this.writeZeros(multiple - remainder);
+    }
+  }
+
+  // ===== STRINGS =====
+
+  // Characters above 0xff are written as '?'
+  public writeAscii(value: string): void {
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      this.writeUint8(code < 256 ? code : 0x3f);
+    }
+  }
+
+  // Length-prefixed (1 byte) string, padded so the whole field is a multiple of `padding`
+  public writePascalString(value: string, padding: number = 1): void {
+    const start = this.offset;
+    const text = value.slice(0, 255);
+    this.writeUint8(text.length);
+    this.writeAscii(text);
+    this.pad(padding, start);
+  }
+
+  // Photoshop "Unicode string": 4-byte length in code units, then UTF-16
+  public writeUnicodeString(value: string): void {
+    this.writeUint32(value.length);
+    for (let i = 0; i < value.length; i++) {
+      this.writeUint16(value.charCodeAt(i));
+    }
+  }
+
+  // ===== LENGTH FIELDS =====
+
+  // Writes a 4-byte placeholder and returns its position for `endLength`
+  public beginLength(): number {
+    const position = this.offset;
+    this.writeUint32(0);
+    return position;
+  }
+
+  // Pads the section to `padding` and stores its size (excluding the length field)
+  public endLength(position: number, padding: number = 1): void {
+    this.pad(padding, position + 4);
+    this.view.setUint32(position, this.offset - position - 4);
+  }
+
+  public setUint32(position: number, value: number): void {
+    this.view.setUint32(position, value);
+  }
+
+  public toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.offset);
+  }
+
+  // ===== PRIVATE =====
+
+  private ensure(count: number): void {
+    if (this.offset + count <= this.bytes.length) return;
+
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.offset + count) {
+      capacity *= 2;
+    }
+
+    const bytes = new Uint8Array(capacity);
+    bytes.set(this.bytes.subarray(0, this.offset));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+}
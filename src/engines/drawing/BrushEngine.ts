@@ -13,6 +13,15 @@ import {
   BrushColorDynamics,
   WetMixSettings,
   BrushPreset,
+  BrushImportReport,
+  BlendMode,
+  ResponseCurve,
+  ResponseCurveInput,
+  BrushBundleConflict,
+  BrushBundleImportOptions,
+  BrushBundleImportReport,
+  BrushConflictResolution,
+  DualBrushSettings,
 } from '../../types/drawing';
 import { 
   CompatSkia,
@@ -29,16 +38,27 @@ import {
   TileMode,
   // FIXED: Remove non-existent imports
 } from './SkiaCompatibility';
+import { ColorType, AlphaType } from '@shopify/react-native-skia';
 import { EventBus } from '../core/EventBus';
 import { dataManager } from '../core/DataManager';
-import { valkyrieEngine } from './ValkyrieEngine';
+import { valkyrieEngine, DabSource, PaintSample, WetPaintState, WetDab } from './ValkyrieEngine';
+import { ABRParser, ABRParseResult, ABRSampledTip, PhotoshopBrush } from './ABRParser';
+import {
+  ProcreateBrushCodec,
+  ProcreateBrushFile,
+  generateBrushUUID,
+  readPlistNumber,
+  readPlistBoolean,
+} from './ProcreateBrushCodec';
+import { PlistDictionary, PlistReal } from './PropertyList';
+import { responseCurveManager } from './ResponseCurves';
 
 /**
  * Professional Brush Engine - Procreate-level brush system
  * Features 200+ brushes with Brush Studio customization
  * FIXED: All TypeScript errors resolved
  */
-export class BrushEngine {
+export class BrushEngine implements DabSource {
   private static instance: BrushEngine;
   private eventBus: EventBus = EventBus.getInstance();
   
@@ -67,10 +87,28 @@ export class BrushEngine {
     'Color Dynamics',
     'Dynamics',
     'Apple Pencil',
+    'Dual Brush',
     'General',
     'Source Library',
   ];
   
+  // Procreate stores brush size as a fraction of this many pixels
+  private readonly PROCREATE_MAX_SIZE = 500;
+  
+  // Procreate blend mode codes, in Procreate's order (null = no equivalent)
+  private readonly PROCREATE_BLEND_MODES: Array<BlendMode | null> = [
+    'normal', 'multiply', 'screen', 'plus', 'lighten', 'exclusion',
+    'difference', null, null, 'color-dodge', 'color-burn', 'overlay',
+    'hard-light', 'color', 'luminosity', 'hue', 'saturation', 'soft-light',
+    'darken', null, null, null, null, null, null, null,
+  ];
+  
+  // Procreate rendering modes: light glaze, uniform glaze, intense glaze,
+  // heavy glaze, uniform blending, intense blending
+  private readonly PROCREATE_RENDERING_MODES: BrushRendering['mode'][] = [
+    'light-glaze', 'glazed', 'glazed', 'heavy-glaze', 'normal', 'normal',
+  ];
+  
   // Brush assets
   private brushShapes: Map<string, BrushShape> = new Map();
   private brushGrains: Map<string, BrushGrain> = new Map();
@@ -79,6 +117,7 @@ export class BrushEngine {
   // Performance
   private stampCache: Map<string, SkImage> = new Map();
   private shaderCache: Map<string, SkShader> = new Map();
+  private legacyCurveCache: WeakMap<number[], ResponseCurve> = new WeakMap();
   
   // FIXED: Path utilities to replace missing PathUtils
   private pathUtils = {
@@ -115,6 +154,8 @@ export class BrushEngine {
     this.initializeDefaultBrushes();
     this.loadBrushAssets();
     this.loadCustomBrushes();
+    
+    valkyrieEngine.setDabSource(this);
   }
 
   public static getInstance(): BrushEngine {
@@ -164,12 +205,14 @@ export class BrushEngine {
     this.eventBus.emit('brush:colorChanged', { color });
   }
 
+  // `random` should be the stroke's seeded generator so redraws pick the same colour
   public createBrushPaint(
     brush: Brush,
     color: Color,
     point: Point,
     lastPoint: Point | null,
-    velocity: number
+    velocity: number,
+    random: () => number = Math.random
   ): SkPaint {
     const paint = CompatSkia.Paint();
     
@@ -178,7 +221,7 @@ export class BrushEngine {
     paint.setAntiAlias(true);
     
     // Apply brush dynamics
-    const dynamics = this.calculateBrushDynamics(brush, point, lastPoint, velocity);
+    const dynamics = this.calculateBrushDynamics(brush, point, lastPoint, velocity, random);
     
     // Size
     if (dynamics.size !== undefined) {
@@ -190,7 +233,7 @@ export class BrushEngine {
     paint.setAlphaf(finalOpacity);
     
     // Color (with dynamics)
-    const finalColor = this.applyColorDynamics(brush, color, dynamics);
+    const finalColor = this.applyColorDynamics(brush, color, dynamics, random);
     paint.setColor(CompatSkia.Color(finalColor.hex));
     
     // Blend mode
@@ -204,10 +247,8 @@ export class BrushEngine {
       this.applyGrainTexture(paint, brush, dynamics);
     }
     
-    // Wet mixing
-    if (brush.wetMix && brush.wetMix.dilution > 0) {
-      this.applyWetMixing(paint, brush, dynamics, lastPoint);
-    }
+    // Wet mixing needs the layer under each dab, so ValkyrieEngine does it per dab
+    // through createWetPaintState/mixWetPaint
     
     // Advanced effects
     this.applyAdvancedEffects(paint, brush, dynamics);
@@ -244,7 +285,7 @@ export class BrushEngine {
     
     if (brush.shape.type === 'builtin') {
       stamp = this.createBuiltinShape(brush.shape, size, dynamics);
-    } else if (brush.shape.type === 'custom') {
+    } else if (brush.shape.type === 'custom' || brush.shape.type === 'imported') {
       stamp = this.createCustomShape(brush.shape, size, dynamics);
     } else {
       // Default circle
@@ -281,6 +322,161 @@ export class BrushEngine {
     return stamp;
   }
 
+  // Dab rendering - DabSource for ValkyrieEngine's stamp renderer
+
+  // Per-dab dynamics for the stamp renderer; `random` is the stroke's seeded generator
+  public getDabDynamics(
+    brush: Brush,
+    point: Point,
+    lastPoint: Point | null,
+    velocity: number,
+    random: () => number
+  ): BrushDynamics {
+    return this.calculateBrushDynamics(brush, point, lastPoint, velocity, random);
+  }
+
+  // Unrotated tip image at the given diameter; rotation is applied per dab
+  public createDabStamp(brush: Brush, size: number): SkImage | null {
+    const diameter = Math.max(1, Math.round(size));
+    const cacheKey = `${brush.shape.id}_dab_${diameter}_${brush.shape.settings.angle}_${brush.shape.settings.roundness}`;
+    
+    const cached = this.stampCache.get(cacheKey);
+    if (cached) return cached;
+    
+    let stamp: SkImage | null = null;
+    
+    if (brush.shape.type === 'builtin') {
+      const path = this.createBuiltinShape(brush.shape, diameter, { ...this.getDefaultDynamics(), rotation: 0 });
+      stamp = this.pathToImage(path, diameter);
+    } else {
+      const texture = this.textureCache.get(brush.shape.id);
+      stamp = texture ? this.scaleTipImage(texture, brush.shape, diameter) : null;
+    }
+    
+    if (stamp) {
+      this.stampCache.set(cacheKey, stamp);
+    }
+    return stamp;
+  }
+
+  // Secondary brush for dual-brush rendering, sized and spaced by the dual settings
+  public resolveDualBrush(brush: Brush): Brush | null {
+    const dual = brush.dualBrush;
+    if (!dual || dual.brushId === brush.id) return null;
+    
+    const secondary = this.getBrush(dual.brushId);
+    if (!secondary) return null;
+    
+    const scale = Math.max(0.01, dual.size / 100);
+    const general = brush.settings.general;
+    
+    // The secondary only supplies coverage: no wet mixing, grain or nested dual tip
+    return {
+      ...secondary,
+      settings: {
+        ...secondary.settings,
+        general: {
+          ...secondary.settings.general,
+          size: general.size * scale,
+          sizeMin: general.sizeMin * scale,
+          sizeMax: general.sizeMax * scale,
+        },
+        taper: { ...secondary.settings.taper, size: 0, opacity: 0 },
+      },
+      shape: {
+        ...secondary.shape,
+        settings: {
+          ...secondary.shape.settings,
+          spacing: Math.max(1, dual.spacing),
+          scatter: dual.scatter,
+          count: Math.max(1, Math.round(dual.count)),
+        },
+      },
+      grain: undefined,
+      wetMix: undefined,
+      dualBrush: undefined,
+    };
+  }
+
+  // Canvas-anchored grain texture for a stroke, scaled and rotated by the grain settings
+  public createGrainShader(brush: Brush): SkShader | null {
+    if (!brush.grain) return null;
+    
+    const grain = this.brushGrains.get(brush.grain.id);
+    if (!grain || !grain.texture) return null;
+    
+    const { scale, zoom, rotation } = brush.grain.settings;
+    const cacheKey = `grain_${brush.grain.id}_stroke_${scale}_${zoom}_${rotation}`;
+    const cached = this.shaderCache.get(cacheKey);
+    if (cached) return cached;
+    
+    const matrix = CompatSkia.Matrix();
+    matrix.scale(Math.max(0.01, scale * zoom), Math.max(0.01, scale * zoom));
+    if (rotation) {
+      matrix.rotate((rotation * Math.PI) / 180);
+    }
+    
+    const shader = grain.texture.makeShaderCubic(TileMode.Repeat, TileMode.Repeat, 1 / 3, 1 / 3, matrix);
+    if (shader) {
+      this.shaderCache.set(cacheKey, shader);
+    }
+    return shader ?? null;
+  }
+
+  // Starting paint load for a wet brush stroke; null for brushes without wet mix
+  public createWetPaintState(brush: Brush, color: PaintSample): WetPaintState | null {
+    if (!brush.wetMix) return null;
+    
+    return {
+      color: { ...color },
+      brushColor: { ...color },
+      load: 1,
+    };
+  }
+
+  // Mixes the carried paint with the layer colour under a dab and depletes the load
+  public mixWetPaint(
+    brush: Brush,
+    state: WetPaintState,
+    sample: PaintSample | null,
+    dynamics: BrushDynamics,
+    random: () => number
+  ): WetDab {
+    const wet = brush.wetMix ?? this.getDefaultWetMix();
+    const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+    const wetness = clamp01(wet.dilution + (random() - 0.5) * wet.wetJitter);
+    const pressure = dynamics.pressure ?? 0.5;
+    const hasPaint = sample !== null && sample.a > 0;
+    
+    // Pull: the brush picks up what is already on the layer (more so when wet)
+    if (hasPaint) {
+      const pickup = clamp01(wet.pull * sample.a * (0.5 + wetness * 0.5));
+      state.color = this.mixPaintSamples(state.color, sample, pickup);
+    }
+    
+    // Charge: a well-loaded brush recovers its own colour between dabs
+    state.color = this.mixPaintSamples(state.color, state.brushColor, wet.charge * state.load * 0.1);
+    
+    // Mix: how much of the canvas colour shows through in the deposited paint
+    const color = hasPaint
+      ? this.mixPaintSamples(state.color, sample, clamp01(wet.mix * sample.a * wetness))
+      : { ...state.color };
+    
+    // Attack lays paint down, grade ties it to pressure, dilution thins it out
+    const deposit = wet.attack * (1 - wet.grade + wet.grade * pressure);
+    const opacity = clamp01((0.25 + 0.75 * state.load) * (0.5 + deposit) * (1 - wetness * 0.6));
+    
+    // Length: how far the load lasts before the brush runs dry
+    state.load = Math.max(0, state.load - deposit * (1 - wet.charge) * (1 - wet.length) * 0.05);
+    
+    // Only brushes rendered in wet-edges mode pool pigment at the rim
+    const wetEdge = brush.rendering?.mode === 'wet-edges'
+      ? Math.max(wetness, 0.3)
+      : 0;
+    
+    return { color, opacity, wetEdge };
+  }
+
   // Brush Studio - Create custom brush
   public createCustomBrush(
     name: string,
@@ -368,6 +564,12 @@ export class BrushEngine {
       case 'Apple Pencil':
         Object.assign(brush.settings.pencil, settings);
         break;
+      case 'Dual Brush':
+        if (!brush.dualBrush) {
+          brush.dualBrush = this.getDefaultDualBrush();
+        }
+        Object.assign(brush.dualBrush, settings);
+        break;
       case 'General':
         Object.assign(brush.settings.general, settings);
         break;
@@ -383,13 +585,67 @@ export class BrushEngine {
     return true;
   }
 
+  // Per-brush response curve; legacy pressure/velocity arrays are used when none is set
+  public getBrushResponseCurve(brush: Brush, input: ResponseCurveInput): ResponseCurve | undefined {
+    const curve = brush.responseCurves?.[input];
+    if (curve) return curve;
+    
+    const legacy = input === 'pressure'
+      ? brush.dynamics.pressureCurve
+      : input === 'velocity' ? brush.dynamics.velocityCurve : undefined;
+    if (!legacy || legacy.length < 2) return undefined;
+    
+    let converted = this.legacyCurveCache.get(legacy);
+    if (!converted) {
+      converted = responseCurveManager.fromLegacy(legacy);
+      this.legacyCurveCache.set(legacy, converted);
+    }
+    return converted;
+  }
+
+  public setBrushResponseCurve(
+    brushId: string,
+    input: ResponseCurveInput,
+    curve: ResponseCurve | null
+  ): boolean {
+    const brush = this.customBrushes.get(brushId) || this.importedBrushes.get(brushId);
+    if (!brush || !brush.customizable) return false;
+    
+    const curves = { ...brush.responseCurves };
+    if (curve) {
+      curves[input] = { ...responseCurveManager.createCurve(curve.points), preset: curve.preset };
+    } else {
+      delete curves[input];
+    }
+    brush.responseCurves = curves;
+    
+    this.saveCustomBrushes();
+    this.saveImportedBrushes();
+    
+    if (this.currentBrush?.id === brushId) {
+      this.currentBrush = this.deepCloneBrush(brush);
+    }
+    
+    this.eventBus.emit('brush:updated', { brush });
+    return true;
+  }
+
   // Import Photoshop brushes (.abr)
   public async importPhotoshopBrush(abrData: ArrayBuffer): Promise<string[]> {
+    const report = await this.importPhotoshopBrushes(abrData);
+    return report.brushIds;
+  }
+
+  // Import Photoshop brushes (.abr) with per-brush warnings for unmapped features
+  public async importPhotoshopBrushes(abrData: ArrayBuffer): Promise<BrushImportReport> {
     try {
-      const brushes = await this.parseABRFile(abrData);
-      const importedIds: string[] = [];
+      const library = await this.parseABRFile(abrData);
+      const report: BrushImportReport = {
+        brushIds: [],
+        warnings: library.warnings.map(message => ({ brushId: null, brushName: null, message })),
+      };
       
-      for (const psBrush of brushes) {
+      for (const psBrush of library.brushes) {
         const brushId = `imported_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
         
         const brush: Brush = {
@@ -398,34 +654,119 @@ export class BrushEngine {
           category: 'imported',
           icon: '📥',
           settings: this.convertPhotoshopSettings(psBrush),
-          shape: this.convertPhotoshopShape(psBrush),
+          shape: this.convertPhotoshopShape(psBrush, brushId),
           dynamics: this.convertPhotoshopDynamics(psBrush),
+          rendering: this.convertPhotoshopRendering(psBrush),
           blendMode: 'normal',
           customizable: true,
+          tags: ['photoshop'],
         };
         
         this.importedBrushes.set(brushId, brush);
-        importedIds.push(brushId);
+        report.brushIds.push(brushId);
+        
+        this.collectPhotoshopWarnings(psBrush).forEach(message => {
+          report.warnings.push({ brushId, brushName: brush.name, message });
+        });
       }
       
+      await this.saveBrushShapes();
       await this.saveImportedBrushes();
-      this.eventBus.emit('brushes:imported', { count: importedIds.length });
+      this.eventBus.emit('brushes:imported', {
+        count: report.brushIds.length,
+        warnings: report.warnings,
+      });
       
-      return importedIds;
+      return report;
     } catch (error) {
       console.error('Failed to import Photoshop brushes:', error);
       throw error;
     }
   }
 
+  // Import a Procreate .brush or .brushset
+  public async importProcreateBrushes(data: ArrayBuffer): Promise<BrushImportReport> {
+    try {
+      const archive = ProcreateBrushCodec.decode(data);
+      const report: BrushImportReport = {
+        brushIds: [],
+        warnings: archive.warnings.map(message => ({ brushId: null, brushName: null, message })),
+      };
+      const tags = archive.name ? ['procreate', archive.name] : ['procreate'];
+      
+      for (const file of archive.brushes) {
+        const brushId = `imported_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const warnings: string[] = [];
+        const brush = this.convertProcreateBrush(file, brushId, warnings);
+        brush.tags = [...tags];
+        
+        this.importedBrushes.set(brushId, brush);
+        report.brushIds.push(brushId);
+        
+        warnings.forEach(message => {
+          report.warnings.push({ brushId, brushName: brush.name, message });
+        });
+      }
+      
+      await this.saveBrushShapes();
+      await this.saveBrushGrains();
+      await this.saveImportedBrushes();
+      this.eventBus.emit('brushes:imported', {
+        count: report.brushIds.length,
+        warnings: report.warnings,
+      });
+      
+      return report;
+    } catch (error) {
+      console.error('Failed to import Procreate brushes:', error);
+      throw error;
+    }
+  }
+
+  // Export a brush as a Procreate .brush archive
+  public exportProcreateBrush(brushId: string): Uint8Array | null {
+    const brush = this.getBrush(brushId);
+    if (!brush) return null;
+    
+    try {
+      return ProcreateBrushCodec.encodeBrush(this.createProcreateBrushFile(brush));
+    } catch (error) {
+      console.error('Failed to export Procreate brush:', error);
+      return null;
+    }
+  }
+
+  // Export several brushes as a Procreate .brushset archive
+  public exportProcreateBrushSet(name: string, brushIds: string[]): Uint8Array | null {
+    const brushes = brushIds
+      .map(id => this.getBrush(id))
+      .filter((brush): brush is Brush => brush !== null);
+    if (brushes.length === 0) return null;
+    
+    try {
+      return ProcreateBrushCodec.encodeBrushSet(
+        name,
+        brushes.map(brush => this.createProcreateBrushFile(brush))
+      );
+    } catch (error) {
+      console.error('Failed to export Procreate brush set:', error);
+      return null;
+    }
+  }
+
   // Export brush for sharing
   public exportBrush(brushId: string): string | null {
     const brush = this.getBrush(brushId);
     if (!brush) return null;
     
+    // Library brushes can't be assumed on the receiving side, so the secondary travels along
+    const secondary = brush.dualBrush ? this.getBrush(brush.dualBrush.brushId) : null;
     const exportData = {
       version: '1.0',
       brush: this.serializeBrush(brush),
+      dualBrush: secondary && !this.defaultBrushes.has(secondary.id)
+        ? this.serializeBrush(secondary)
+        : undefined,
       created: Date.now(),
       app: 'Pikaso',
     };
@@ -446,6 +787,17 @@ export class BrushEngine {
       brush.name = `${brush.name} (Imported)`;
       brush.customizable = true;
       
+      if (brush.dualBrush && data.dualBrush) {
+        const secondary = this.deserializeBrush(data.dualBrush);
+        secondary.id = `${brushId}_dual`;
+        secondary.category = 'imported';
+        secondary.customizable = true;
+        secondary.dualBrush = undefined;
+        
+        this.importedBrushes.set(secondary.id, secondary);
+        brush.dualBrush = { ...brush.dualBrush, brushId: secondary.id };
+      }
+      
       this.importedBrushes.set(brushId, brush);
       this.saveImportedBrushes();
       
@@ -457,6 +809,176 @@ export class BrushEngine {
     }
   }
 
+  // Export several brushes with the shape and grain bitmaps they reference
+  public exportBrushBundle(brushIds: string[], name: string = 'Brushes'): string | null {
+    const brushes = brushIds
+      .map(id => this.getBrush(id))
+      .filter((brush): brush is Brush => brush !== null);
+    if (brushes.length === 0) return null;
+    
+    // Dual-brush secondaries from the user's library go in the bundle too
+    brushes.forEach(brush => {
+      const secondaryId = brush.dualBrush?.brushId;
+      if (!secondaryId || this.defaultBrushes.has(secondaryId)) return;
+      if (brushes.some(existing => existing.id === secondaryId)) return;
+      
+      const secondary = this.getBrush(secondaryId);
+      if (secondary) brushes.push(secondary);
+    });
+    
+    const bundle: BrushBundleData = {
+      format: 'pikaso-brush-bundle',
+      version: '1.0',
+      name,
+      created: Date.now(),
+      app: 'Pikaso',
+      brushes: [],
+      shapes: {},
+      grains: {},
+    };
+    
+    brushes.forEach(brush => {
+      const shape = this.brushShapes.get(brush.shape.id);
+      if (brush.shape.type !== 'builtin' && shape?.texture) {
+        bundle.shapes[shape.id] = { ...shape };
+      }
+      
+      const grain = brush.grain ? this.brushGrains.get(brush.grain.id) : undefined;
+      if (grain?.source) {
+        bundle.grains[grain.id] = { ...grain, texture: undefined };
+      }
+      
+      bundle.brushes.push({
+        brush: this.serializeBrush(brush),
+        hash: this.computeBrushHash(brush, shape?.texture, grain?.source),
+      });
+    });
+    
+    return JSON.stringify(bundle);
+  }
+
+  // Conflicts an import would hit, so the UI can ask before importing
+  public getBrushBundleConflicts(bundleData: string): BrushBundleConflict[] {
+    try {
+      const bundle = this.parseBrushBundle(bundleData);
+      const libraryIndex = this.buildLibraryHashIndex();
+      return bundle.brushes
+        .map(entry => this.findBundleConflict(entry.brush, entry.hash, libraryIndex))
+        .filter((conflict): conflict is BrushBundleConflict => conflict !== null);
+    } catch (error) {
+      console.error('Failed to read brush bundle:', error);
+      return [];
+    }
+  }
+
+  // Identical brushes are skipped and name clashes kept side by side unless `resolve` says otherwise
+  public async importBrushBundle(
+    bundleData: string,
+    options: BrushBundleImportOptions = {}
+  ): Promise<BrushBundleImportReport> {
+    try {
+      const bundle = this.parseBrushBundle(bundleData);
+      const report: BrushBundleImportReport = {
+        brushIds: [],
+        warnings: [],
+        replacedIds: [],
+        skippedNames: [],
+      };
+      
+      const libraryIndex = this.buildLibraryHashIndex();
+      const shapeIds = this.importBundleShapes(bundle, report);
+      const grainIds = this.importBundleGrains(bundle, report);
+      
+      // Bundle brush id -> library id, for re-pointing dual-brush references
+      const brushIds: Record<string, string> = {};
+      const dualBrushes: Brush[] = [];
+      
+      for (const entry of bundle.brushes) {
+        const conflict = this.findBundleConflict(entry.brush, entry.hash, libraryIndex);
+        const resolution: BrushConflictResolution = conflict
+          ? options.resolve?.(conflict) ?? (conflict.kind === 'identical' ? 'skip' : 'keep-both')
+          : 'keep-both';
+        
+        if (conflict && resolution === 'skip') {
+          brushIds[entry.brush.id] = conflict.existingBrushId;
+          report.skippedNames.push(entry.brush.name);
+          continue;
+        }
+        
+        const brush = this.deserializeBrush(entry.brush);
+        brush.shape = { ...brush.shape, id: shapeIds[brush.shape.id] ?? brush.shape.id };
+        if (brush.grain) {
+          brush.grain = { ...brush.grain, id: grainIds[brush.grain.id] ?? brush.grain.id };
+        }
+        brush.shape.texture = this.brushShapes.get(brush.shape.id)?.texture;
+        brush.customizable = true;
+        
+        if (conflict && resolution === 'replace') {
+          brush.id = conflict.existingBrushId;
+          if (this.customBrushes.has(brush.id)) {
+            brush.category = this.customBrushes.get(brush.id)!.category;
+            this.customBrushes.set(brush.id, brush);
+          } else {
+            brush.category = 'imported';
+            this.importedBrushes.set(brush.id, brush);
+          }
+          report.replacedIds.push(brush.id);
+        } else {
+          brush.id = `imported_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+          brush.category = 'imported';
+          if (conflict) {
+            brush.name = `${brush.name} Copy`;
+          }
+          this.importedBrushes.set(brush.id, brush);
+        }
+        
+        // Later copies of the same brush in this bundle dedupe against this one
+        libraryIndex.set(entry.hash, brush.id);
+        brushIds[entry.brush.id] = brush.id;
+        if (brush.dualBrush) dualBrushes.push(brush);
+        report.brushIds.push(brush.id);
+      }
+      
+      dualBrushes.forEach(brush => {
+        const dual = brush.dualBrush!;
+        brush.dualBrush = { ...dual, brushId: brushIds[dual.brushId] ?? dual.brushId };
+        
+        if (!this.getBrush(brush.dualBrush.brushId)) {
+          report.warnings.push({
+            brushId: brush.id,
+            brushName: brush.name,
+            message: 'Dual brush tip is not in this bundle or library; the brush paints with its primary tip only',
+          });
+        }
+      });
+      
+      report.brushIds.forEach(brushId => {
+        if (this.currentBrush?.id === brushId) {
+          this.currentBrush = this.deepCloneBrush(this.getBrush(brushId)!);
+        }
+      });
+      
+      await this.saveBrushShapes();
+      await this.saveBrushGrains();
+      await this.saveCustomBrushes();
+      await this.saveImportedBrushes();
+      
+      this.eventBus.emit('brushes:imported', {
+        count: report.brushIds.length,
+        warnings: report.warnings,
+      });
+      report.replacedIds.forEach(brushId => {
+        const brush = this.getBrush(brushId);
+        if (brush) this.eventBus.emit('brush:updated', { brush });
+      });
+      
+      return report;
+    } catch (error) {
+      console.error('Failed to import brush bundle:', error);
+      throw error;
+    }
+  }
+
   // Delete custom brush
   public deleteCustomBrush(brushId: string): boolean {
     if (this.customBrushes.delete(brushId) || this.importedBrushes.delete(brushId)) {
@@ -513,6 +1035,11 @@ export class BrushEngine {
     return false;
   }
 
+  // Sample stroke points (with varying pressure) used for brush previews
+  public getBrushPreviewPoints(width: number, height: number): Point[] {
+    return this.generatePreviewPoints(width, height);
+  }
+
   // Get brush preview stroke
   public getBrushPreviewPath(brush: Brush, width: number, height: number): SkPath {
     const path = CompatSkia.Path.Make();
@@ -583,7 +1110,8 @@ export class BrushEngine {
     brush: Brush,
     point: Point,
     lastPoint: Point | null,
-    velocity: number
+    velocity: number,
+    random: () => number = Math.random
   ): BrushDynamics {
     const dynamics: BrushDynamics = {
       size: brush.settings.general.size,
@@ -612,10 +1140,13 @@ export class BrushEngine {
       tiltAngle: 0,
     };
     
-    // Pressure dynamics
+    // Pressure dynamics (global curve, then the brush's own)
     if (brush.settings.pencil.pressure && point.pressure !== undefined) {
-      const pressureCurve = brush.dynamics.pressureCurve;
-      const mappedPressure = this.applyResponseCurve(point.pressure, pressureCurve);
+      const mappedPressure = responseCurveManager.mapPressure(
+        point.pressure,
+        this.getBrushResponseCurve(brush, 'pressure')
+      );
+      dynamics.pressure = mappedPressure;
       
       // Size
       if (brush.dynamics.sizePressure && dynamics.size !== undefined) {
@@ -635,7 +1166,10 @@ export class BrushEngine {
     
     // Tilt dynamics
     if (brush.settings.pencil.tilt && point.tiltX !== undefined && point.tiltY !== undefined) {
-      const tiltMagnitude = Math.sqrt(point.tiltX * point.tiltX + point.tiltY * point.tiltY);
+      const tiltMagnitude = this.applyResponseCurve(
+        Math.min(1, Math.sqrt(point.tiltX * point.tiltX + point.tiltY * point.tiltY)),
+        this.getBrushResponseCurve(brush, 'tilt')
+      );
       const tiltAngle = Math.atan2(point.tiltY, point.tiltX);
       
       dynamics.tiltMagnitude = tiltMagnitude;
@@ -657,23 +1191,40 @@ export class BrushEngine {
       }
     }
     
+    // Azimuth dynamics
+    if (brush.settings.pencil.azimuth && point.azimuth !== undefined) {
+      const normalizedAzimuth = (((point.azimuth / (Math.PI * 2)) % 1) + 1) % 1;
+      const mappedAzimuth = this.applyResponseCurve(normalizedAzimuth, this.getBrushResponseCurve(brush, 'azimuth'));
+      dynamics.rotation = (dynamics.rotation ?? 0) + mappedAzimuth * 360;
+    }
+    
     // Velocity dynamics
     if (brush.dynamics.sizeVelocity && velocity > 0 && dynamics.size !== undefined) {
-      const velocityCurve = brush.dynamics.velocityCurve;
       const normalizedVelocity = Math.min(velocity / 500, 1); // Normalize to 0-1
-      const mappedVelocity = this.applyResponseCurve(normalizedVelocity, velocityCurve);
+      const mappedVelocity = this.applyResponseCurve(normalizedVelocity, this.getBrushResponseCurve(brush, 'velocity'));
       
       dynamics.size *= (1 - mappedVelocity * brush.dynamics.sizeVelocityAmount);
     }
     
     // Jitter
     if (brush.dynamics.jitter > 0 && dynamics.size !== undefined) {
-      dynamics.scatter = (Math.random() - 0.5) * brush.dynamics.jitter * dynamics.size;
+      dynamics.scatter = (random() - 0.5) * brush.dynamics.jitter * dynamics.size;
+    }
+    
+    // Shape scatter (percentage of size)
+    if (brush.shape.settings.scatter && dynamics.size !== undefined) {
+      dynamics.scatter = (dynamics.scatter ?? 0)
+        + (random() - 0.5) * 2 * (brush.shape.settings.scatter / 100) * dynamics.size;
     }
     
     // Rotation jitter
     if (brush.dynamics.rotationJitter > 0) {
-      dynamics.rotation = (dynamics.rotation ?? 0) + (Math.random() - 0.5) * brush.dynamics.rotationJitter * 360;
+      dynamics.rotation = (dynamics.rotation ?? 0) + (random() - 0.5) * brush.dynamics.rotationJitter * 360;
+    }
+    
+    // Randomized tip orientation
+    if (brush.shape.settings.randomize) {
+      dynamics.rotation = (dynamics.rotation ?? 0) + random() * 360;
     }
     
     // Clamp values
@@ -685,26 +1236,16 @@ export class BrushEngine {
     return dynamics;
   }
 
-  private applyResponseCurve(value: number, curve: number[]): number {
-    if (!curve || curve.length < 2) return value;
-    
-    // Simple linear interpolation between curve points
-    // In production, use cubic spline interpolation
-    const segments = curve.length - 1;
-    const segment = Math.floor(value * segments);
-    const t = (value * segments) - segment;
-    
-    if (segment >= segments) {
-      return curve[curve.length - 1];
-    }
-    
-    return curve[segment] * (1 - t) + curve[segment + 1] * t;
+  private applyResponseCurve(value: number, curve: ResponseCurve | undefined): number {
+    if (!curve) return value;
+    return responseCurveManager.evaluate(curve, value);
   }
 
   private applyColorDynamics(
     brush: Brush,
     baseColor: Color,
-    dynamics: BrushDynamics
+    dynamics: BrushDynamics,
+    random: () => number
   ): Color {
     if (!brush.colorDynamics) return baseColor;
     
@@ -712,19 +1253,19 @@ export class BrushEngine {
     
     // Hue jitter
     if (brush.colorDynamics.hueJitter > 0) {
-      h += (Math.random() - 0.5) * brush.colorDynamics.hueJitter * 360;
+      h += (random() - 0.5) * brush.colorDynamics.hueJitter * 360;
       h = ((h % 360) + 360) % 360; // Wrap to 0-360
     }
     
     // Saturation jitter
     if (brush.colorDynamics.saturationJitter > 0) {
-      s += (Math.random() - 0.5) * brush.colorDynamics.saturationJitter;
+      s += (random() - 0.5) * brush.colorDynamics.saturationJitter;
       s = Math.max(0, Math.min(1, s));
     }
     
     // Brightness jitter
     if (brush.colorDynamics.brightnessJitter > 0) {
-      b += (Math.random() - 0.5) * brush.colorDynamics.brightnessJitter;
+      b += (random() - 0.5) * brush.colorDynamics.brightnessJitter;
       b = Math.max(0, Math.min(1, b));
     }
     
@@ -842,30 +1383,14 @@ export class BrushEngine {
     }
   }
 
-  private applyWetMixing(
-    paint: SkPaint,
-    brush: Brush,
-    dynamics: BrushDynamics,
-    lastPoint: Point | null
-  ): void {
-    if (!brush.wetMix || !lastPoint) return;
-    
-    // Wet mixing affects opacity and blending
-    const wetness = brush.wetMix.dilution;
-    const charge = brush.wetMix.charge;
-    const mix = brush.wetMix.mix;
-    
-    // Reduce opacity based on wetness
-    const currentOpacity = paint.getAlphaf();
-    paint.setAlphaf(currentOpacity * (1 - wetness * 0.5));
-    
-    // Change blend mode for wet effects
-    if (wetness > 0.5) {
-      paint.setBlendMode(SkiaBlendMode.Multiply);
-    }
-    
-    // Would implement actual wet paint simulation here
-    // This involves sampling colors from the canvas and mixing
+  private mixPaintSamples(from: PaintSample, to: PaintSample, amount: number): PaintSample {
+    const t = Math.max(0, Math.min(1, amount));
+    return {
+      r: from.r + (to.r - from.r) * t,
+      g: from.g + (to.g - from.g) * t,
+      b: from.b + (to.b - from.b) * t,
+      a: from.a + (to.a - from.a) * t,
+    };
   }
 
   private applyAdvancedEffects(paint: SkPaint, brush: Brush, dynamics: BrushDynamics): void {
@@ -1007,6 +1532,30 @@ export class BrushEngine {
     return shapeImage;
   }
 
+  // Draws a bitmap tip into a size x size square with the shape's angle and roundness
+  private scaleTipImage(texture: SkImage, shape: BrushShape, size: number): SkImage | null {
+    const surface = CompatSkia.Surface.Make(size, size);
+    if (!surface) return null;
+    
+    const canvas = surface.getCanvas();
+    const paint = CompatSkia.Paint();
+    paint.setAntiAlias(true);
+    
+    canvas.translate(size / 2, size / 2);
+    if (shape.settings.angle) {
+      canvas.rotate(shape.settings.angle, 0, 0);
+    }
+    canvas.scale(1, Math.max(0.01, shape.settings.roundness / 100));
+    canvas.drawImageRect(
+      texture,
+      CompatSkia.XYWHRect(0, 0, texture.width(), texture.height()),
+      CompatSkia.XYWHRect(-size / 2, -size / 2, size, size),
+      paint
+    );
+    
+    return surface.makeImageSnapshot();
+  }
+
   private pathToImage(path: SkPath, size: number): SkImage {
     const bounds = this.pathUtils.getBounds(path); // FIXED: Use local pathUtils
     const surface = CompatSkia.Surface.Make(
@@ -1720,6 +2269,18 @@ export class BrushEngine {
     };
   }
 
+  private getDefaultDualBrush(): DualBrushSettings {
+    return {
+      enabled: true,
+      brushId: 'soft-airbrush',
+      mode: 'multiply',
+      size: 100,
+      spacing: 25,
+      scatter: 0,
+      count: 1,
+    };
+  }
+
   private getDefaultWetMix(): WetMixSettings {
     return {
       dilution: 0,
@@ -1809,6 +2370,10 @@ export class BrushEngine {
     // Load grain textures
     await this.loadGrainTextures();
     
+    // Load imported/custom tip shapes and grains
+    await this.loadCustomShapes();
+    await this.loadCustomGrains();
+    
     console.log('✅ Brush assets loaded');
   }
 
@@ -1861,38 +2426,824 @@ export class BrushEngine {
     }
   }
 
+  // Custom tip shapes (imported or user-made bitmaps)
+  private registerShapeTexture(shape: BrushShape, image: SkImage): void {
+    if (!shape.texture) {
+      shape.texture = image.encodeToBase64();
+    }
+    
+    this.brushShapes.set(shape.id, { ...shape, settings: { ...shape.settings } });
+    this.textureCache.set(shape.id, image);
+    
+    // Invalidate any stamps rendered from a previous bitmap with this id
+    this.stampCache.forEach((_, key) => {
+      if (key.startsWith(`${shape.id}_`)) this.stampCache.delete(key);
+    });
+  }
+
+  // Builds a white RGBA image whose alpha is the tip coverage
+  private createTipImage(tip: ABRSampledTip): SkImage | null {
+    const pixels = new Uint8Array(tip.width * tip.height * 4);
+    
+    for (let i = 0; i < tip.data.length; i++) {
+      const offset = i * 4;
+      pixels[offset] = 255;
+      pixels[offset + 1] = 255;
+      pixels[offset + 2] = 255;
+      pixels[offset + 3] = tip.data[i];
+    }
+    
+    return CompatSkia.Image.MakeImage(
+      {
+        width: tip.width,
+        height: tip.height,
+        colorType: ColorType.RGBA_8888,
+        alphaType: AlphaType.Unpremul,
+      },
+      CompatSkia.Data.fromBytes(pixels),
+      tip.width * 4
+    );
+  }
+
+  private async loadCustomShapes(): Promise<void> {
+    try {
+      const saved = await dataManager.get<Record<string, BrushShape>>('custom_brush_shapes');
+      if (!saved) return;
+      
+      Object.values(saved).forEach(shape => {
+        if (!shape.texture) return;
+        
+        const image = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBase64(shape.texture));
+        if (image) {
+          this.registerShapeTexture(shape, image);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load custom brush shapes:', error);
+    }
+  }
+
+  private async saveBrushShapes(): Promise<void> {
+    try {
+      const shapesObj: Record<string, BrushShape> = {};
+      this.brushShapes.forEach((shape, id) => {
+        if (shape.type !== 'builtin' && shape.texture) {
+          shapesObj[id] = shape;
+        }
+      });
+      
+      await dataManager.set('custom_brush_shapes', shapesObj);
+    } catch (error) {
+      console.error('Failed to save custom brush shapes:', error);
+    }
+  }
+
+  // Imported grain textures
+  private registerGrainTexture(grain: BrushGrain, image: SkImage): void {
+    if (!grain.source) {
+      grain.source = image.encodeToBase64();
+    }
+    
+    this.brushGrains.set(grain.id, { ...grain, texture: image, settings: { ...grain.settings } });
+    
+    this.shaderCache.forEach((_, key) => {
+      if (key.startsWith(`grain_${grain.id}_`)) this.shaderCache.delete(key);
+    });
+  }
+
+  private async loadCustomGrains(): Promise<void> {
+    try {
+      const saved = await dataManager.get<Record<string, BrushGrain>>('custom_brush_grains');
+      if (!saved) return;
+      
+      Object.values(saved).forEach(grain => {
+        if (!grain.source) return;
+        
+        const image = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBase64(grain.source));
+        if (image) {
+          this.registerGrainTexture(grain, image);
+        }
+      });
+    } catch (error) {
+      console.error('Failed to load custom brush grains:', error);
+    }
+  }
+
+  private async saveBrushGrains(): Promise<void> {
+    try {
+      const grainsObj: Record<string, BrushGrain> = {};
+      this.brushGrains.forEach((grain, id) => {
+        if (grain.source) {
+          grainsObj[id] = { ...grain, texture: undefined };
+        }
+      });
+      
+      await dataManager.set('custom_brush_grains', grainsObj);
+    } catch (error) {
+      console.error('Failed to save custom brush grains:', error);
+    }
+  }
+
   // Photoshop brush import
-  private async parseABRFile(buffer: ArrayBuffer): Promise<any[]> {
-    // Simplified ABR parser - in production use full implementation
-    const view = new DataView(buffer);
-    const brushes: any[] = [];
+  private async parseABRFile(buffer: ArrayBuffer): Promise<ABRParseResult> {
+    return new ABRParser(buffer).parse();
+  }
+
+  private convertPhotoshopSettings(psBrush: PhotoshopBrush): BrushSettings {
+    const settings = this.getDefaultBrushSettings();
+    const size = Math.max(1, Math.round(psBrush.diameter));
+    const shapeDynamics = psBrush.shapeDynamics;
+    const sizeControl = shapeDynamics?.size.control ?? 'off';
+    
+    settings.general.size = size;
+    settings.general.sizeMin = sizeControl === 'off'
+      ? 1
+      : Math.max(0.5, size * (shapeDynamics?.minimumDiameter ?? 0));
+    settings.general.sizeMax = Math.max(size * 2, 100);
+    
+    settings.strokePath.spacing = Math.max(1, psBrush.spacing);
+    settings.strokePath.streamline = psBrush.smoothing ? 0.5 : 0;
+    settings.strokePath.jitter = Math.min(1, psBrush.scatter?.amount.jitter ?? 0);
+    
+    const controls = this.getPhotoshopControls(psBrush).map(([, control]) => control);
+    settings.pencil.pressure = controls.includes('pressure');
+    settings.pencil.tilt = controls.includes('tilt');
+    
+    return settings;
+  }
+
+  private convertPhotoshopShape(psBrush: PhotoshopBrush, brushId: string): BrushShape {
+    const settings: BrushShape['settings'] = {
+      hardness: Math.max(0, Math.min(100, psBrush.hardness)),
+      roundness: Math.max(1, Math.min(100, psBrush.roundness)),
+      angle: ((psBrush.angle % 360) + 360) % 360,
+      spacing: Math.max(1, psBrush.spacing),
+    };
+    
+    if (psBrush.scatter) {
+      settings.scatter = psBrush.scatter.amount.jitter * 100;
+      settings.count = Math.max(1, Math.round(psBrush.scatter.count));
+    }
+    
+    if (psBrush.shapeDynamics && psBrush.shapeDynamics.angle.jitter > 0) {
+      settings.randomize = true;
+    }
+    
+    if (!psBrush.tip) {
+      return { type: 'builtin', id: 'circle', settings };
+    }
+    
+    // Tips are shared between presets in the same library
+    const shapeId = `abr_${psBrush.sampleId || brushId}`;
+    const existing = this.brushShapes.get(shapeId);
+    if (existing) {
+      return { type: 'imported', id: shapeId, settings, texture: existing.texture };
+    }
+    
+    const image = this.createTipImage(psBrush.tip);
+    if (!image) {
+      psBrush.warnings.push('Sampled tip could not be decoded; using a round tip');
+      return { type: 'builtin', id: 'circle', settings };
+    }
+    
+    const shape: BrushShape = { type: 'imported', id: shapeId, settings };
+    this.registerShapeTexture(shape, image);
+    
+    return { ...shape, texture: this.brushShapes.get(shapeId)?.texture };
+  }
+
+  private convertPhotoshopDynamics(psBrush: PhotoshopBrush): BrushDynamics {
+    const dynamics = this.getDefaultDynamics();
+    const size = Math.max(1, Math.round(psBrush.diameter));
+    const shapeDynamics = psBrush.shapeDynamics;
+    const transfer = psBrush.transfer;
+    
+    dynamics.size = size;
+    dynamics.spacing = Math.max(1, psBrush.spacing);
+    
+    // Photoshop pen pressure is linear
+    dynamics.pressureCurve = [0, 1 / 3, 2 / 3, 1];
+    
+    dynamics.sizePressure = shapeDynamics?.size.control === 'pressure';
+    dynamics.sizeTilt = shapeDynamics?.size.control === 'tilt';
+    dynamics.angleTilt = shapeDynamics?.angle.control === 'tilt';
+    dynamics.angleTiltAmount = dynamics.angleTilt ? 1 : 0;
+    dynamics.rotationJitter = Math.min(1, shapeDynamics?.angle.jitter ?? 0);
+    
+    dynamics.opacityPressure = transfer?.opacity.control === 'pressure';
+    dynamics.opacityTilt = transfer?.opacity.control === 'tilt';
+    dynamics.flowPressure = transfer?.flow.control === 'pressure';
+    
+    dynamics.jitter = Math.min(1, psBrush.scatter?.amount.jitter ?? 0);
+    
+    return dynamics;
+  }
+
+  private convertPhotoshopRendering(psBrush: PhotoshopBrush): BrushRendering {
+    const rendering = this.getDefaultRendering();
+    
+    if (psBrush.wetEdges) {
+      rendering.mode = 'wet-edges';
+    }
+    if (psBrush.airbrush) {
+      rendering.buildUp = true;
+    }
+    
+    return rendering;
+  }
+
+  private getPhotoshopControls(psBrush: PhotoshopBrush): Array<[string, string]> {
+    const controls: Array<[string, string]> = [];
+    
+    if (psBrush.shapeDynamics) {
+      controls.push(['Size', psBrush.shapeDynamics.size.control]);
+      controls.push(['Angle', psBrush.shapeDynamics.angle.control]);
+      controls.push(['Roundness', psBrush.shapeDynamics.roundness.control]);
+    }
+    if (psBrush.scatter) {
+      controls.push(['Scatter', psBrush.scatter.amount.control]);
+      controls.push(['Count', psBrush.scatter.countJitter.control]);
+    }
+    if (psBrush.transfer) {
+      controls.push(['Opacity', psBrush.transfer.opacity.control]);
+      controls.push(['Flow', psBrush.transfer.flow.control]);
+    }
+    
+    return controls;
+  }
+
+  private collectPhotoshopWarnings(psBrush: PhotoshopBrush): string[] {
+    const warnings = [...psBrush.warnings];
+    
+    // Controls each dynamic can be driven by in our engine
+    const supported: Record<string, string[]> = {
+      Size: ['off', 'pressure', 'tilt'],
+      Angle: ['off', 'tilt'],
+      Roundness: ['off'],
+      Scatter: ['off'],
+      Count: ['off'],
+      Opacity: ['off', 'pressure', 'tilt'],
+      Flow: ['off', 'pressure'],
+    };
+    
+    this.getPhotoshopControls(psBrush).forEach(([label, control]) => {
+      if (!supported[label].includes(control)) {
+        warnings.push(`${label} control "${control}" has no equivalent and was ignored`);
+      }
+    });
+    
+    if (psBrush.shapeDynamics) {
+      if (psBrush.shapeDynamics.size.jitter > 0) {
+        warnings.push('Size jitter is not supported and was ignored');
+      }
+      if (psBrush.shapeDynamics.roundness.jitter > 0) {
+        warnings.push('Roundness jitter is not supported and was ignored');
+      }
+    }
     
-    // ABR format parsing would go here
-    // This is a complex binary format that requires proper parsing
+    if (psBrush.scatter) {
+      if (psBrush.scatter.countJitter.jitter > 0) {
+        warnings.push('Count jitter is not supported and was ignored');
+      }
+      if (!psBrush.scatter.bothAxes) {
+        warnings.push('Single-axis scatter is imported as scatter on both axes');
+      }
+    }
+    
+    if (psBrush.transfer) {
+      if (psBrush.transfer.opacity.jitter > 0 || psBrush.transfer.flow.jitter > 0) {
+        warnings.push('Opacity and flow jitter are not supported and were ignored');
+      }
+    }
+    
+    if (psBrush.flipX || psBrush.flipY) {
+      warnings.push('Tip flipping is not supported and was ignored');
+    }
     
-    return brushes;
+    psBrush.unsupportedFeatures.forEach(feature => {
+      warnings.push(`${feature} is not supported and was ignored`);
+    });
+    
+    return warnings;
   }
 
-  private convertPhotoshopSettings(psBrush: any): BrushSettings {
-    // Convert Photoshop brush settings to our format
-    return this.getDefaultBrushSettings();
+  // Procreate brush import/export
+  private convertProcreateBrush(file: ProcreateBrushFile, brushId: string, warnings: string[]): Brush {
+    const source = file.settings;
+    const used = new Set<string>(['name']);
+    const num = (key: string, fallback: number): number => {
+      used.add(key);
+      return readPlistNumber(source, key) ?? fallback;
+    };
+    const bool = (key: string, fallback: boolean): boolean => {
+      used.add(key);
+      return readPlistBoolean(source, key) ?? fallback;
+    };
+    const text = (key: string): string | null => {
+      used.add(key);
+      return typeof source[key] === 'string' ? source[key] as string : null;
+    };
+    const clamp01 = (value: number): number => Math.max(0, Math.min(1, value));
+    
+    // General
+    const settings = this.getDefaultBrushSettings();
+    const sizeMax = Math.max(1, num('maxSize', 0.2) * this.PROCREATE_MAX_SIZE);
+    const sizeMin = Math.max(0.5, Math.min(sizeMax, num('minSize', 0) * this.PROCREATE_MAX_SIZE));
+    const spacing = Math.max(1, num('plotSpacing', 0.1) * 100);
+    
+    settings.general.sizeMax = sizeMax;
+    settings.general.sizeMin = sizeMin;
+    settings.general.size = Math.max(1, Math.round((sizeMin + sizeMax) / 2));
+    settings.general.opacity = clamp01(num('maxOpacity', 1));
+    settings.general.spacing = spacing;
+    
+    settings.strokePath.spacing = spacing;
+    settings.strokePath.streamline = clamp01(num('plotSmoothing', 0));
+    settings.strokePath.jitter = clamp01(num('plotJitter', 0));
+    settings.strokePath.fallOff = clamp01(num('dynamicsFalloff', 0));
+    
+    const taperStart = num('taperStartLength', 0);
+    const taperEnd = num('taperEndLength', 0);
+    settings.taper.size = Math.max(taperStart, taperEnd) * 100;
+    settings.taper.opacity = clamp01(num('taperOpacity', 0));
+    settings.taper.pressure = bool('taperPressure', false);
+    settings.taper.tip = num('taperTip', 0) > 0;
+    if (taperStart !== taperEnd) {
+      warnings.push('Separate start and end taper lengths are imported as one taper length');
+    }
+    
+    // Dynamics
+    const dynamics = this.getDefaultDynamics();
+    dynamics.size = settings.general.size;
+    dynamics.spacing = spacing;
+    dynamics.sizePressure = num('dynamicsPressureSize', 0) > 0;
+    dynamics.opacityPressure = num('dynamicsPressureOpacity', 0) > 0;
+    dynamics.flowPressure = num('dynamicsPressureBleed', 0) > 0;
+    dynamics.sizeTilt = num('dynamicsTiltSize', 0) > 0;
+    dynamics.opacityTilt = num('dynamicsTiltOpacity', 0) > 0;
+    dynamics.angleTiltAmount = clamp01(num('dynamicsTiltAngle', 0) / 90);
+    dynamics.angleTilt = dynamics.angleTiltAmount > 0;
+    dynamics.sizeVelocityAmount = clamp01(num('dynamicsSpeedSize', 0));
+    dynamics.sizeVelocity = dynamics.sizeVelocityAmount > 0;
+    dynamics.jitter = clamp01(num('dynamicsJitterSize', 0));
+    dynamics.rotationJitter = clamp01(num('dynamicsJitterRotation', 0));
+    
+    settings.pencil.pressure = dynamics.sizePressure || dynamics.opacityPressure || dynamics.flowPressure;
+    settings.pencil.tilt = dynamics.sizeTilt || dynamics.opacityTilt || dynamics.angleTilt;
+    settings.pencil.azimuth = bool('shapeAzimuth', false);
+    settings.pencil.velocity = dynamics.sizeVelocity;
+    
+    // Shape
+    const shapeSettings: BrushShape['settings'] = {
+      hardness: 100,
+      roundness: Math.max(1, Math.min(100, num('shapeRoundness', 1) * 100)),
+      angle: (((num('shapeRotation', 0) * 360) % 360) + 360) % 360,
+      spacing,
+      scatter: clamp01(num('shapeScatter', 0)) * 100,
+      count: Math.max(1, Math.round(num('shapeCount', 1))),
+      randomize: bool('shapeRandomise', false),
+    };
+    const invertShape = bool('shapeInvert', false);
+    const bundledShape = text('bundledShapePath');
+    let shape: BrushShape = { type: 'builtin', id: 'circle', settings: shapeSettings };
+    
+    if (file.shape) {
+      const shapeId = `procreate_${file.uuid}`;
+      const image = this.createProcreateShapeImage(file.shape, invertShape);
+      if (image) {
+        shape = { type: 'imported', id: shapeId, settings: shapeSettings };
+        this.registerShapeTexture(shape, image);
+        shape.texture = this.brushShapes.get(shapeId)?.texture;
+      } else {
+        warnings.push('Shape source could not be decoded; using a round tip');
+      }
+    } else if (bundledShape) {
+      warnings.push(`Procreate's built-in shape "${bundledShape}" is not available; using a round tip`);
+    }
+    
+    // Grain
+    const movement = (['rolling', 'glazed', 'flowing'] as const)[num('textureMovement', 0)] ?? 'rolling';
+    const bundledGrain = text('bundledGrainPath');
+    let grain: BrushGrain | undefined;
+    
+    settings.grain.scale = num('textureScale', 1) * 100;
+    settings.grain.zoom = num('textureZoom', 1) * 100;
+    settings.grain.intensity = clamp01(num('textureDepth', 1));
+    settings.grain.offset = bool('textureOffsetJitter', false) ? 1 : 0;
+    
+    if (file.grain) {
+      const image = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBytes(file.grain));
+      if (image) {
+        grain = {
+          id: `procreate_grain_${file.uuid}`,
+          name: `${file.name || 'Procreate'} grain`,
+          settings: {
+            scale: num('textureScale', 1),
+            zoom: num('textureZoom', 1),
+            intensity: settings.grain.intensity,
+            rotation: num('textureRotation', 0),
+            offset: settings.grain.offset,
+            movement,
+            textured: 1,
+          },
+        };
+        this.registerGrainTexture(grain, image);
+        settings.grain.textured = true;
+        settings.grain.movement = movement;
+      } else {
+        warnings.push('Grain source could not be decoded and was ignored');
+      }
+    } else if (bundledGrain) {
+      warnings.push(`Procreate's built-in grain "${bundledGrain}" is not available and was ignored`);
+    }
+    
+    // Rendering
+    const rendering = this.getDefaultRendering();
+    const renderingMode = Math.round(num('renderingMode', 4));
+    const wetEdges = clamp01(num('renderingWetEdges', 0));
+    rendering.mode = this.PROCREATE_RENDERING_MODES[renderingMode] ?? 'normal';
+    rendering.buildUp = renderingMode === 2;
+    rendering.blend = renderingMode === 5;
+    rendering.luminance = bool('renderingLuminanceBlending', false);
+    if (wetEdges > 0) {
+      rendering.mode = 'wet-edges';
+      rendering.edgeBlur = wetEdges * 10;
+    }
+    
+    // Wet mix
+    const wetKeys = ['dynamicsDilution', 'dynamicsLoad', 'dynamicsAttack', 'dynamicsPull',
+      'dynamicsGrade', 'dynamicsWetJitter', 'dynamicsMix'];
+    let wetMix: WetMixSettings | undefined;
+    if (wetKeys.some(key => readPlistNumber(source, key) !== undefined)) {
+      const defaults = this.getDefaultWetMix();
+      wetMix = {
+        dilution: clamp01(num('dynamicsDilution', 0)),
+        charge: clamp01(num('dynamicsLoad', defaults.charge)),
+        attack: clamp01(num('dynamicsAttack', defaults.attack)),
+        length: defaults.length,
+        pull: clamp01(num('dynamicsPull', defaults.pull)),
+        grade: clamp01(num('dynamicsGrade', defaults.grade)),
+        wetJitter: clamp01(num('dynamicsWetJitter', 0)),
+        mix: clamp01(num('dynamicsMix', defaults.mix)),
+      };
+    }
+    
+    // Color dynamics
+    const colorDynamics = this.getDefaultColorDynamics();
+    colorDynamics.hueJitter = clamp01(num('hueJitter', 0));
+    colorDynamics.saturationJitter = clamp01(num('saturationJitter', 0));
+    colorDynamics.brightnessJitter = clamp01(num('darknessJitter', 0));
+    colorDynamics.huePressureAmount = clamp01(num('dynamicsPressureHue', 0));
+    colorDynamics.huePressure = colorDynamics.huePressureAmount > 0;
+    colorDynamics.saturationPressure = num('dynamicsPressureSaturation', 0) > 0;
+    colorDynamics.brightnessPressure = num('dynamicsPressureDarkness', 0) > 0;
+    
+    // Blend mode
+    const blendCode = Math.round(num('blendMode', 0));
+    const blendMode = this.PROCREATE_BLEND_MODES[blendCode] ?? null;
+    if (!blendMode) {
+      warnings.push(`Procreate blend mode ${blendCode} has no equivalent; using normal`);
+    }
+    settings.general.blendMode = blendMode ?? 'normal';
+    
+    // Anything else that is switched on but has no equivalent
+    const ignored = Object.keys(source).filter(key => {
+      const value = source[key];
+      if (used.has(key)) return false;
+      return value === true || (typeof value === 'number' && value !== 0)
+        || (typeof value === 'string' && value.length > 0);
+    });
+    if (ignored.length > 0) {
+      warnings.push(`Procreate settings with no equivalent were ignored: ${ignored.join(', ')}`);
+    }
+    
+    return {
+      id: brushId,
+      name: file.name || 'Procreate Brush',
+      category: 'imported',
+      icon: '📥',
+      settings,
+      shape,
+      grain,
+      dynamics,
+      rendering,
+      colorDynamics,
+      wetMix,
+      blendMode: blendMode ?? 'normal',
+      customizable: true,
+    };
   }
 
-  private convertPhotoshopShape(psBrush: any): BrushShape {
+  private createProcreateBrushFile(brush: Brush): ProcreateBrushFile {
+    const settings = brush.settings;
+    const dynamics = brush.dynamics;
+    const rendering = brush.rendering ?? this.getDefaultRendering();
+    const colorDynamics = brush.colorDynamics ?? this.getDefaultColorDynamics();
+    const real = (value: number): PlistReal => new PlistReal(value);
+    const flag = (enabled: boolean): PlistReal => new PlistReal(enabled ? 1 : 0);
+    const blendMode = (brush.blendMode ?? settings.general.blendMode) as BlendMode;
+    
+    let renderingMode = Math.max(0, this.PROCREATE_RENDERING_MODES.indexOf(rendering.mode));
+    if (rendering.mode === 'glazed' && rendering.buildUp) renderingMode = 2;
+    if (rendering.mode === 'normal' || rendering.mode === 'special') renderingMode = rendering.blend ? 5 : 4;
+    if (rendering.mode === 'wet-edges') renderingMode = 1;
+    
+    const output: PlistDictionary = {
+      maxSize: real(settings.general.sizeMax / this.PROCREATE_MAX_SIZE),
+      minSize: real(settings.general.sizeMin / this.PROCREATE_MAX_SIZE),
+      maxOpacity: real(settings.general.opacity),
+      minOpacity: real(dynamics.opacityPressure ? 0 : settings.general.opacity),
+      plotSpacing: real(brush.shape.settings.spacing / 100),
+      plotSmoothing: real(settings.strokePath.streamline),
+      plotJitter: real(settings.strokePath.jitter),
+      dynamicsFalloff: real(settings.strokePath.fallOff),
+      taperStartLength: real(settings.taper.size / 100),
+      taperEndLength: real(settings.taper.size / 100),
+      taperOpacity: real(settings.taper.opacity),
+      taperPressure: settings.taper.pressure,
+      taperTip: flag(settings.taper.tip),
+      dynamicsPressureSize: flag(dynamics.sizePressure),
+      dynamicsPressureOpacity: flag(dynamics.opacityPressure),
+      dynamicsPressureBleed: flag(dynamics.flowPressure),
+      dynamicsTiltSize: flag(dynamics.sizeTilt),
+      dynamicsTiltOpacity: flag(dynamics.opacityTilt),
+      dynamicsTiltAngle: real(dynamics.angleTilt ? dynamics.angleTiltAmount * 90 : 0),
+      dynamicsSpeedSize: real(dynamics.sizeVelocity ? dynamics.sizeVelocityAmount : 0),
+      dynamicsJitterSize: real(dynamics.jitter),
+      dynamicsJitterRotation: real(dynamics.rotationJitter),
+      shapeRoundness: real(brush.shape.settings.roundness / 100),
+      shapeRotation: real(brush.shape.settings.angle / 360),
+      shapeScatter: real((brush.shape.settings.scatter ?? 0) / 100),
+      shapeCount: Math.max(1, Math.round(brush.shape.settings.count ?? 1)),
+      shapeRandomise: brush.shape.settings.randomize ?? false,
+      shapeAzimuth: settings.pencil.azimuth,
+      shapeInvert: false,
+      textureScale: real(settings.grain.scale / 100),
+      textureZoom: real(settings.grain.zoom / 100),
+      textureDepth: real(settings.grain.intensity),
+      textureRotation: real(brush.grain?.settings.rotation ?? 0),
+      textureMovement: Math.max(0, ['rolling', 'glazed', 'flowing'].indexOf(settings.grain.movement)),
+      textureOffsetJitter: settings.grain.offset > 0,
+      renderingMode,
+      renderingWetEdges: real(rendering.mode === 'wet-edges' ? Math.max(0.1, rendering.edgeBlur / 10) : 0),
+      renderingLuminanceBlending: rendering.luminance ?? false,
+      hueJitter: real(colorDynamics.hueJitter),
+      saturationJitter: real(colorDynamics.saturationJitter),
+      darknessJitter: real(colorDynamics.brightnessJitter),
+      dynamicsPressureHue: real(colorDynamics.huePressure ? colorDynamics.huePressureAmount : 0),
+      dynamicsPressureSaturation: flag(colorDynamics.saturationPressure),
+      dynamicsPressureDarkness: flag(colorDynamics.brightnessPressure),
+      blendMode: Math.max(0, this.PROCREATE_BLEND_MODES.indexOf(blendMode)),
+    };
+    
+    if (brush.wetMix) {
+      output.dynamicsDilution = real(brush.wetMix.dilution);
+      output.dynamicsLoad = real(brush.wetMix.charge);
+      output.dynamicsAttack = real(brush.wetMix.attack);
+      output.dynamicsPull = real(brush.wetMix.pull);
+      output.dynamicsGrade = real(brush.wetMix.grade);
+      output.dynamicsWetJitter = real(brush.wetMix.wetJitter);
+      output.dynamicsMix = real(brush.wetMix.mix);
+    }
+    
+    const grainImage = brush.grain ? this.brushGrains.get(brush.grain.id)?.texture : null;
+    
     return {
-      type: 'builtin',
-      id: 'circle',
-      settings: {
-        hardness: psBrush.hardness || 100,
-        roundness: psBrush.roundness || 100,
-        angle: psBrush.angle || 0,
-        spacing: psBrush.spacing || 10,
-      },
+      uuid: generateBrushUUID(),
+      name: brush.name,
+      settings: output,
+      shape: this.encodeProcreateShape(brush.shape) ?? undefined,
+      grain: grainImage ? grainImage.encodeToBytes() : undefined,
     };
   }
 
-  private convertPhotoshopDynamics(psBrush: any): BrushDynamics {
-    return this.getDefaultDynamics();
+  // Procreate shapes are opaque grayscale where white paints; ours are white with alpha coverage
+  private createProcreateShapeImage(png: Uint8Array, invert: boolean): SkImage | null {
+    const source = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBytes(png));
+    if (!source) return null;
+    
+    const width = source.width();
+    const height = source.height();
+    const pixels = source.readPixels(0, 0, {
+      width,
+      height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    }) as Uint8Array | null;
+    if (!pixels) return null;
+    
+    const coverage = new Uint8Array(width * height);
+    for (let i = 0; i < coverage.length; i++) {
+      const offset = i * 4;
+      const luminance = pixels[offset] * 0.299 + pixels[offset + 1] * 0.587 + pixels[offset + 2] * 0.114;
+      const value = Math.round(luminance * (pixels[offset + 3] / 255));
+      coverage[i] = invert ? 255 - value : value;
+    }
+    
+    return this.createTipImage({ width, height, depth: 8, data: coverage });
+  }
+
+  private encodeProcreateShape(shape: BrushShape): Uint8Array | null {
+    const image = this.textureCache.get(shape.id);
+    if (!image) return null;
+    
+    const width = image.width();
+    const height = image.height();
+    const pixels = image.readPixels(0, 0, {
+      width,
+      height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    }) as Uint8Array | null;
+    if (!pixels) return null;
+    
+    const gray = new Uint8Array(width * height * 4);
+    for (let i = 0; i < width * height; i++) {
+      const offset = i * 4;
+      const value = pixels[offset + 3];
+      gray[offset] = value;
+      gray[offset + 1] = value;
+      gray[offset + 2] = value;
+      gray[offset + 3] = 255;
+    }
+    
+    const output = CompatSkia.Image.MakeImage(
+      { width, height, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Unpremul },
+      CompatSkia.Data.fromBytes(gray),
+      width * 4
+    );
+    
+    return output ? output.encodeToBytes() : null;
+  }
+
+  // Brush bundles
+  private parseBrushBundle(bundleData: string): BrushBundleData {
+    const bundle = JSON.parse(bundleData) as BrushBundleData;
+    if (bundle.format !== 'pikaso-brush-bundle' || !Array.isArray(bundle.brushes)) {
+      throw new Error('Invalid brush bundle');
+    }
+    
+    bundle.shapes = bundle.shapes ?? {};
+    bundle.grains = bundle.grains ?? {};
+    
+    // Hashes are recomputed when missing so hand-edited bundles still dedupe
+    bundle.brushes.forEach(entry => {
+      if (!entry.hash) {
+        const grainId = entry.brush.grain?.id;
+        entry.hash = this.computeBrushHash(
+          entry.brush,
+          bundle.shapes[entry.brush.shape.id]?.texture,
+          grainId ? bundle.grains[grainId]?.source : undefined
+        );
+      }
+    });
+    return bundle;
+  }
+
+  // Content hash -> id for every brush in the user's library
+  private buildLibraryHashIndex(): Map<string, string> {
+    const index: Map<string, string> = new Map();
+    
+    [...this.customBrushes.values(), ...this.importedBrushes.values()].forEach(existing => {
+      const shape = this.brushShapes.get(existing.shape.id);
+      const grain = existing.grain ? this.brushGrains.get(existing.grain.id) : undefined;
+      index.set(this.computeBrushHash(existing, shape?.texture, grain?.source), existing.id);
+    });
+    
+    return index;
+  }
+
+  private findBundleConflict(
+    brush: Brush,
+    hash: string,
+    libraryIndex: Map<string, string>
+  ): BrushBundleConflict | null {
+    const identicalId = libraryIndex.get(hash);
+    if (identicalId) {
+      return { bundleBrushId: brush.id, bundleBrushName: brush.name, existingBrushId: identicalId, kind: 'identical' };
+    }
+    
+    const nameMatch = [...this.customBrushes.values(), ...this.importedBrushes.values()]
+      .find(existing => existing.name === brush.name);
+    
+    return nameMatch
+      ? { bundleBrushId: brush.id, bundleBrushName: brush.name, existingBrushId: nameMatch.id, kind: 'name' }
+      : null;
+  }
+
+  // Registers bundled tip bitmaps, reusing any identical local shape; returns bundle id -> local id
+  private importBundleShapes(bundle: BrushBundleData, report: BrushBundleImportReport): Record<string, string> {
+    const idMap: Record<string, string> = {};
+    const localByHash: Map<string, string> = new Map();
+    this.brushShapes.forEach(shape => {
+      if (shape.texture) localByHash.set(this.computeContentHash(shape.texture), shape.id);
+    });
+    
+    Object.values(bundle.shapes).forEach(shape => {
+      if (!shape.texture) return;
+      
+      const hash = this.computeContentHash(shape.texture);
+      const existingId = localByHash.get(hash);
+      if (existingId) {
+        idMap[shape.id] = existingId;
+        return;
+      }
+      
+      const image = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBase64(shape.texture));
+      if (!image) {
+        report.warnings.push({ brushId: null, brushName: null, message: `Shape "${shape.id}" could not be decoded` });
+        return;
+      }
+      
+      const id = this.brushShapes.has(shape.id) ? `${shape.id}_${hash.slice(0, 8)}` : shape.id;
+      this.registerShapeTexture({ ...shape, id, type: shape.type === 'builtin' ? 'imported' : shape.type }, image);
+      localByHash.set(hash, id);
+      idMap[shape.id] = id;
+    });
+    
+    return idMap;
+  }
+
+  private importBundleGrains(bundle: BrushBundleData, report: BrushBundleImportReport): Record<string, string> {
+    const idMap: Record<string, string> = {};
+    const localByHash: Map<string, string> = new Map();
+    this.brushGrains.forEach(grain => {
+      if (grain.source) localByHash.set(this.computeContentHash(grain.source), grain.id);
+    });
+    
+    Object.values(bundle.grains).forEach(grain => {
+      if (!grain.source) return;
+      
+      const hash = this.computeContentHash(grain.source);
+      const existingId = localByHash.get(hash);
+      if (existingId) {
+        idMap[grain.id] = existingId;
+        return;
+      }
+      
+      const image = CompatSkia.Image.MakeFromEncoded(CompatSkia.Data.fromBase64(grain.source));
+      if (!image) {
+        report.warnings.push({ brushId: null, brushName: null, message: `Grain "${grain.id}" could not be decoded` });
+        return;
+      }
+      
+      const id = this.brushGrains.has(grain.id) ? `${grain.id}_${hash.slice(0, 8)}` : grain.id;
+      this.registerGrainTexture({ ...grain, id }, image);
+      localByHash.set(hash, id);
+      idMap[grain.id] = id;
+    });
+    
+    return idMap;
+  }
+
+  // Identity of a brush's look: settings plus bitmap contents, ignoring ids and library metadata
+  private computeBrushHash(brush: Brush, shapeTexture?: string, grainSource?: string): string {
+    const { id, category, icon, tags, customizable, ...content } = this.serializeBrush(brush);
+    
+    return this.computeContentHash(this.stableStringify({
+      ...content,
+      shape: {
+        ...content.shape,
+        id: shapeTexture ? undefined : brush.shape.id,
+        texture: shapeTexture ? this.computeContentHash(shapeTexture) : undefined,
+      },
+      grain: content.grain ? {
+        ...content.grain,
+        id: grainSource ? undefined : content.grain.id,
+        name: undefined,
+        source: grainSource ? this.computeContentHash(grainSource) : undefined,
+      } : undefined,
+    }));
+  }
+
+  // 53-bit string hash (cyrb53), hex encoded
+  private computeContentHash(value: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    
+    for (let i = 0; i < value.length; i++) {
+      const ch = value.charCodeAt(i);
+      h1 = Math.imul(h1 ^ ch, 2654435761);
+      h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+  }
+
+  // JSON with sorted keys so equal objects hash equally
+  private stableStringify(value: any): string {
+    if (value === null || typeof value !== 'object') {
+      return JSON.stringify(value) ?? 'null';
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    
+    const keys = Object.keys(value).filter(key => value[key] !== undefined).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${this.stableStringify(value[key])}`).join(',')}}`;
   }
 
   // Persistence
@@ -1943,5 +3294,18 @@ export class BrushEngine {
   }
 }
 
+// ===== TYPES =====
+
+interface BrushBundleData {
+  format: 'pikaso-brush-bundle';
+  version: string;
+  name: string;
+  created: number;
+  app: string;
+  brushes: Array<{ brush: Brush; hash: string }>;
+  shapes: Record<string, BrushShape>;
+  grains: Record<string, BrushGrain>;
+}
+
 // Export singleton instance
 export const brushEngine = BrushEngine.getInstance();
\ No newline at end of file
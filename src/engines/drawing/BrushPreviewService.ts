@@ -0,0 +1,176 @@
+// src/engines/drawing/BrushPreviewService.ts
+import { Brush, Color, Stroke } from '../../types/drawing';
+import { CompatSkia, SkImage } from './SkiaCompatibility';
+import { EventBus } from '../core/EventBus';
+import { brushEngine } from './BrushEngine';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { SeededRandom, hashString } from './SeededRandom';
+
+/**
+ * Brush Preview Service
+ * Renders a real sample stroke per brush (shape, grain, taper, dynamics)
+ * through the dab renderer and caches the result by brush settings.
+ */
+export class BrushPreviewService {
+  private static instance: BrushPreviewService;
+  private eventBus: EventBus = EventBus.getInstance();
+
+  // Bump when the preview renderer changes so stale thumbnails are dropped
+  private readonly CACHE_VERSION = 1;
+  private readonly MAX_CACHE_ENTRIES = 120;
+  private readonly PREVIEW_SEED = 0x5eed;
+
+  private cache: Map<string, PreviewCacheEntry> = new Map();
+
+  private defaultColor: Color = {
+    hex: '#000000',
+    rgb: { r: 0, g: 0, b: 0 },
+    hsb: { h: 0, s: 0, b: 0 },
+    alpha: 1,
+  };
+
+  private constructor() {
+    this.setupInvalidation();
+  }
+
+  public static getInstance(): BrushPreviewService {
+    if (!BrushPreviewService.instance) {
+      BrushPreviewService.instance = new BrushPreviewService();
+    }
+    return BrushPreviewService.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public getPreview(
+    brush: Brush,
+    width: number,
+    height: number,
+    color: Color = this.defaultColor
+  ): SkImage | null {
+    const key = `${brush.id}_${Math.round(width)}x${Math.round(height)}_${color.hex}`;
+    const hash = this.hashBrush(brush);
+    const cached = this.cache.get(key);
+
+    if (cached && cached.hash === hash && cached.version === this.CACHE_VERSION) {
+      // Refresh LRU position
+      this.cache.delete(key);
+      this.cache.set(key, cached);
+      return cached.image;
+    }
+
+    const image = this.renderPreview(brush, width, height, color);
+    if (!image) return null;
+
+    this.cache.set(key, { brushId: brush.id, hash, version: this.CACHE_VERSION, image });
+    this.trimCache();
+
+    return image;
+  }
+
+  public getPreviewById(brushId: string, width: number, height: number, color?: Color): SkImage | null {
+    const brush = brushEngine.getBrush(brushId);
+    return brush ? this.getPreview(brush, width, height, color) : null;
+  }
+
+  public invalidate(brushId: string): void {
+    this.cache.forEach((entry, key) => {
+      if (entry.brushId === brushId) this.cache.delete(key);
+    });
+    this.eventBus.emit('brushPreview:invalidated', { brushId });
+  }
+
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private renderPreview(brush: Brush, width: number, height: number, color: Color): SkImage | null {
+    try {
+      const surface = CompatSkia.Surface.Make(Math.ceil(width), Math.ceil(height));
+      if (!surface) return null;
+
+      const points = brushEngine.getBrushPreviewPoints(width, height);
+
+      // Keep the sample stroke inside the thumbnail whatever the brush size
+      const maxSize = Math.max(1, height * 0.35);
+      const scale = brush.settings.general.size > maxSize ? maxSize / brush.settings.general.size : 1;
+      const previewBrush = scale < 1 ? this.scaleBrush(brush, scale) : brush;
+
+      const stroke: Stroke = {
+        id: `preview_${brush.id}`,
+        tool: 'brush',
+        brushId: brush.id,
+        color,
+        points,
+        layerId: 'preview',
+        timestamp: 0,
+        seed: this.PREVIEW_SEED,
+      };
+
+      const random = new SeededRandom(this.PREVIEW_SEED);
+      const paint = brushEngine.createBrushPaint(previewBrush, color, points[0], null, 0, () => random.next());
+      valkyrieEngine.rasterizeStroke(stroke, surface, paint, previewBrush);
+
+      return surface.makeImageSnapshot();
+    } catch (error) {
+      console.error('Failed to render brush preview:', error);
+      return null;
+    }
+  }
+
+  private scaleBrush(brush: Brush, scale: number): Brush {
+    const general = brush.settings.general;
+    return {
+      ...brush,
+      settings: {
+        ...brush.settings,
+        general: {
+          ...general,
+          size: general.size * scale,
+          sizeMin: general.sizeMin * scale,
+          sizeMax: general.sizeMax * scale,
+        },
+      },
+    };
+  }
+
+  // Settings hash; bitmaps are identified by their shape/grain ids.
+  // A dual-brush secondary is included so editing it refreshes the primary's thumbnail.
+  private hashBrush(brush: Brush): number {
+    const secondary = brush.dualBrush?.enabled ? brushEngine.resolveDualBrush(brush) : null;
+    const json = JSON.stringify({ brush, secondary }, (key, value) =>
+      key === 'texture' || key === 'source' ? undefined : value
+    );
+    return hashString(json);
+  }
+
+  private trimCache(): void {
+    while (this.cache.size > this.MAX_CACHE_ENTRIES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
+  }
+
+  private setupInvalidation(): void {
+    const invalidateBrush = ({ brush }: { brush: Brush }) => this.invalidate(brush.id);
+
+    this.eventBus.on('brush:updated', invalidateBrush);
+    this.eventBus.on('brush:reset', invalidateBrush);
+    this.eventBus.on('brush:deleted', ({ brushId }: { brushId: string }) => this.invalidate(brushId));
+  }
+}
+
+// ===== TYPES =====
+
+interface PreviewCacheEntry {
+  brushId: string;
+  hash: number;
+  version: number;
+  image: SkImage;
+}
+
+// Export singleton instance
+export const brushPreviewService = BrushPreviewService.getInstance();
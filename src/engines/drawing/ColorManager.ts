@@ -130,6 +130,11 @@ export class ColorManager {
     return { ...this.currentColor };
   }
 
+  // A full Color from hex without making it current
+  public createColor(hex: string, alpha: number = 1): Color {
+    return this.hexToColor(hex, alpha);
+  }
+
   public setAlpha(alpha: number): void {
     this.currentColor.alpha = Math.max(0, Math.min(1, alpha));
     this.eventBus.emit('color:alphaChanged', { alpha: this.currentColor.alpha });
@@ -0,0 +1,677 @@
+// src/engines/drawing/DocumentStore.ts
+import * as FileSystem from 'expo-file-system';
+import {
+  Document,
+  DocumentManifest,
+  DocumentLayerFiles,
+  DocumentTile,
+  DocumentSummary,
+  CanvasSettings,
+  LayerStackState,
+  Layer,
+  TextLayer,
+  Stroke,
+} from '../../types/drawing';
+import { CompatSkia, SkImage, SkSurface, SkPaint } from './SkiaCompatibility';
+import { ColorType, AlphaType, BlendMode as SkiaBlendMode } from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+import { brushEngine } from './BrushEngine';
+import { layerManager } from './LayerManager';
+import { textEngine } from './TextEngine';
+import { perspectiveGuideEngine } from './PerspectiveGuideEngine';
+import { valkyrieEngine } from './ValkyrieEngine';
+
+const FORMAT_VERSION = 1;
+const MIN_READER_VERSION = 1;
+
+// Each step upgrades a manifest from version n to n + 1. Packages written by newer
+// versions open as long as their minReaderVersion allows; unknown fields are ignored.
+const MIGRATIONS: Record<number, (manifest: any) => any> = {};
+
+/**
+ * Document Store
+ * Saves drawings as .pikaso packages: a directory holding manifest.json (document
+ * info, canvas settings, perspective guide, layer tree, effects and the brushes used), PNG tiles and a
+ * stroke log per layer, imported fonts used by text layers, and a thumbnail. Opening a document restores the layer stack
+ * at once and fills in layer pixels as they are read.
+ */
+export class DocumentStore {
+  private static instance: DocumentStore;
+  private eventBus = EventBus.getInstance();
+
+  private readonly ROOT_DIRECTORY = FileSystem.documentDirectory
+    ? `${FileSystem.documentDirectory}documents/`
+    : null;
+  private readonly MANIFEST_FILE = 'manifest.json';
+  private readonly THUMBNAIL_FILE = 'thumbnail.png';
+  private readonly LAYERS_DIRECTORY = 'layers/';
+  private readonly FONTS_DIRECTORY = 'fonts/';
+  private readonly TILE_SIZE = 512;
+  private readonly THUMBNAIL_SIZE = 256;
+
+  private readonly DEFAULT_SETTINGS: CanvasSettings = {
+    pressureSensitivity: 0.8,
+    tiltSensitivity: 0.5,
+    velocitySensitivity: 0.3,
+    smoothing: 0.5,
+    predictiveStroke: true,
+    palmRejection: true,
+    snapToShapes: false,
+    gridEnabled: false,
+    gridSize: 50,
+    symmetryEnabled: false,
+    symmetryType: 'vertical',
+    referenceEnabled: false,
+    quickShapeEnabled: true,
+    streamlineAmount: 0.3,
+  };
+
+  private document: Document | null = null;
+  private manifest: DocumentManifest | null = null;
+
+  // Layers whose pixels are still only on disk. Bumping the session abandons the
+  // loads of a document that has since been closed.
+  private unloadedLayers: Set<string> = new Set();
+  private pendingLoads: Map<string, Promise<boolean>> = new Map();
+  private session = 0;
+
+  // Brushes missing from the library are imported under new ids on open
+  private brushIds: Record<string, string> = {};
+
+  private constructor() {}
+
+  public static getInstance(): DocumentStore {
+    if (!DocumentStore.instance) {
+      DocumentStore.instance = new DocumentStore();
+    }
+    return DocumentStore.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public getCurrentDocument(): Document | null {
+    return this.document ? { ...this.document } : null;
+  }
+
+  // Writes the current layer stack. The first save of an unsaved drawing creates the document.
+  public async save(
+    changes: Partial<Pick<Document, 'name' | 'dpi' | 'colorProfile' | 'settings'>> = {}
+  ): Promise<Document | null> {
+    try {
+      // Layers not read yet would otherwise be written back empty
+      await this.loadAllLayers();
+
+      const state = layerManager.getStackState();
+      // A layer that failed to load would have its saved pixels replaced with empty tiles
+      if (state.layers.some(layer => this.unloadedLayers.has(layer.id))) {
+        throw new Error('Some layers could not be read, so saving would overwrite their pixels');
+      }
+      const now = Date.now();
+      const document: Document = {
+        id: this.generateDocumentId(),
+        name: 'Untitled',
+        dpi: 300,
+        colorProfile: 'sRGB',
+        created: now,
+        ...this.document,
+        ...changes,
+        settings: { ...this.DEFAULT_SETTINGS, ...this.document?.settings, ...changes.settings },
+        width: state.canvasWidth,
+        height: state.canvasHeight,
+        modified: now,
+        thumbnail: this.THUMBNAIL_FILE,
+        layers: state.layers.map(layer => ({ ...layer, strokes: [] })),
+        layerOrder: state.layers.map(layer => layer.id),
+        currentLayerId: state.currentLayerId,
+        perspectiveGuide: perspectiveGuideEngine.getGuide(),
+      };
+
+      const directory = this.getPackageDirectory(document.id);
+      await FileSystem.makeDirectoryAsync(`${directory}${this.LAYERS_DIRECTORY}`, { intermediates: true });
+
+      const generation = now.toString(36);
+      const layers: Record<string, DocumentLayerFiles> = {};
+      for (const layer of state.layers) {
+        layers[layer.id] = await this.writeLayer(directory, layer, generation);
+      }
+
+      const pixelSize = this.getPixelSize(state);
+      const manifest: DocumentManifest = {
+        format: 'pikaso',
+        version: FORMAT_VERSION,
+        minReaderVersion: MIN_READER_VERSION,
+        document,
+        pixelWidth: pixelSize.width,
+        pixelHeight: pixelSize.height,
+        groups: state.groups,
+        rootOrder: state.rootOrder,
+        brushes: this.collectBrushes(state.layers),
+        fonts: await this.writeFonts(directory, state.layers),
+        layers,
+      };
+
+      await this.writeThumbnail(directory, pixelSize.width, pixelSize.height);
+      await this.writeManifest(directory, manifest);
+      await this.removeUnusedLayerFiles(directory, manifest);
+      await this.removeUnusedFonts(directory, manifest);
+
+      this.document = document;
+      this.manifest = manifest;
+      await this.updateIndex(document);
+
+      this.eventBus.emit('document:saved', { documentId: document.id });
+      return { ...document };
+    } catch (error) {
+      console.error('Failed to save document:', error);
+      return null;
+    }
+  }
+
+  // Restores the layer stack straight away; pixels follow, top visible layers first
+  public async open(documentId: string): Promise<Document | null> {
+    try {
+      const directory = this.getPackageDirectory(documentId);
+      const manifest = await this.readManifest(directory);
+
+      this.session++;
+      this.pendingLoads.clear();
+      this.brushIds = this.restoreBrushes(manifest.brushes);
+      await this.restoreFonts(directory, manifest.fonts);
+
+      layerManager.loadStackState({
+        canvasWidth: manifest.document.width,
+        canvasHeight: manifest.document.height,
+        layers: manifest.document.layers.map(layer => this.remapVectorBrushes(layer)),
+        groups: manifest.groups,
+        rootOrder: manifest.rootOrder,
+        currentLayerId: manifest.document.currentLayerId,
+      });
+      perspectiveGuideEngine.setGuide(manifest.document.perspectiveGuide ?? null);
+
+      this.document = manifest.document;
+      this.manifest = manifest;
+      this.unloadedLayers = new Set(
+        manifest.document.layers.map(layer => layer.id).filter(layerId => manifest.layers[layerId])
+      );
+
+      this.eventBus.emit('document:opened', { documentId });
+      this.loadAllLayers();
+      return { ...manifest.document };
+    } catch (error) {
+      console.error('Failed to open document:', error);
+      return null;
+    }
+  }
+
+  // Copies the last saved state of a document under a new id
+  public async duplicate(documentId: string, name?: string): Promise<Document | null> {
+    try {
+      const source = this.getPackageDirectory(documentId);
+      const manifest = await this.readManifest(source);
+
+      const now = Date.now();
+      const document: Document = {
+        ...manifest.document,
+        id: this.generateDocumentId(),
+        name: name ?? `${manifest.document.name} Copy`,
+        created: now,
+        modified: now,
+      };
+
+      const target = this.getPackageDirectory(document.id);
+      await FileSystem.copyAsync({ from: source, to: target });
+      await this.writeManifest(target, { ...manifest, document });
+      await this.updateIndex(document);
+
+      this.eventBus.emit('document:duplicated', { sourceId: documentId, documentId: document.id });
+      return document;
+    } catch (error) {
+      console.error('Failed to duplicate document:', error);
+      return null;
+    }
+  }
+
+  public async list(): Promise<DocumentSummary[]> {
+    const documents = await dataManager.get<DocumentSummary[]>('documents');
+    return (documents || []).sort((a, b) => b.modified - a.modified);
+  }
+
+  public async delete(documentId: string): Promise<boolean> {
+    try {
+      await FileSystem.deleteAsync(this.getPackageDirectory(documentId), { idempotent: true });
+
+      const documents = await this.list();
+      await dataManager.set('documents', documents.filter(summary => summary.id !== documentId));
+
+      if (this.document?.id === documentId) {
+        this.close();
+      }
+      this.eventBus.emit('document:deleted', { documentId });
+      return true;
+    } catch (error) {
+      console.error('Failed to delete document:', error);
+      return false;
+    }
+  }
+
+  // Detaches the layer stack from its document; the next save creates a new one
+  public close(): void {
+    this.session++;
+    this.document = null;
+    this.manifest = null;
+    this.unloadedLayers.clear();
+    this.pendingLoads.clear();
+    this.brushIds = {};
+    perspectiveGuideEngine.setGuide(null);
+  }
+
+  public isLayerLoaded(layerId: string): boolean {
+    return !this.unloadedLayers.has(layerId);
+  }
+
+  // Tools should wait on this before editing a layer of a document still opening
+  public ensureLayerLoaded(layerId: string): Promise<boolean> {
+    if (!this.unloadedLayers.has(layerId)) return Promise.resolve(true);
+
+    let pending = this.pendingLoads.get(layerId);
+    if (!pending) {
+      pending = this.loadLayer(layerId, this.session);
+      this.pendingLoads.set(layerId, pending);
+    }
+    return pending;
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private async loadAllLayers(): Promise<void> {
+    const session = this.session;
+    const layers = layerManager.getAllLayers().reverse();
+    const ordered = [...layers.filter(layer => layer.visible), ...layers.filter(layer => !layer.visible)];
+
+    for (const layer of ordered) {
+      if (session !== this.session) return;
+      await this.ensureLayerLoaded(layer.id);
+    }
+  }
+
+  private async loadLayer(layerId: string, session: number): Promise<boolean> {
+    const manifest = this.manifest;
+    const files = manifest?.layers[layerId];
+    if (!manifest || !files) return false;
+
+    try {
+      const directory = this.getPackageDirectory(manifest.document.id);
+      const tiles = await this.readTiles(directory, files.tiles);
+      const maskTiles = await this.readTiles(directory, files.maskTiles);
+      const strokes: Stroke[] = files.strokes
+        ? JSON.parse(await FileSystem.readAsStringAsync(`${directory}${files.strokes}`))
+        : [];
+
+      const layer = layerManager.getLayer(layerId);
+      if (session !== this.session || !layer) return false;
+
+      // Anything painted before the pixels arrived stays on top of them
+      const surface = valkyrieEngine.getLayerSurface(layerId);
+      if (surface) {
+        const paint = CompatSkia.Paint();
+        paint.setBlendMode(SkiaBlendMode.DstOver);
+        this.drawTiles(surface, tiles, manifest, paint);
+      }
+
+      const maskSurface = layer.mask ? valkyrieEngine.getLayerSurface(layer.mask.id) : null;
+      if (maskSurface) {
+        maskSurface.getCanvas().clear(CompatSkia.Color('transparent'));
+        this.drawTiles(maskSurface, maskTiles, manifest, CompatSkia.Paint());
+      }
+
+      // Loading is not an edit, so the log is restored without history
+      layer.strokes = [
+        ...strokes.map(stroke => ({ ...stroke, brushId: this.brushIds[stroke.brushId] ?? stroke.brushId })),
+        ...layer.strokes,
+      ];
+
+      this.unloadedLayers.delete(layerId);
+      valkyrieEngine.invalidateLayerEffects(layerId);
+      this.eventBus.emit('document:layerLoaded', { documentId: manifest.document.id, layerId });
+      return true;
+    } catch (error) {
+      console.error('Failed to load layer pixels:', error);
+      return false;
+    } finally {
+      if (session === this.session) {
+        this.pendingLoads.delete(layerId);
+      }
+    }
+  }
+
+  // Sequential so a large document doesn't hold every tile in memory at once
+  private async readTiles(directory: string, tiles: DocumentTile[]): Promise<Array<{ tile: DocumentTile; image: SkImage }>> {
+    const images: Array<{ tile: DocumentTile; image: SkImage }> = [];
+
+    for (const tile of tiles) {
+      const base64 = await FileSystem.readAsStringAsync(`${directory}${tile.file}`, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      const image = CompatSkia.Image.MakeImageFromEncoded(CompatSkia.Data.fromBase64(base64));
+      if (image) {
+        images.push({ tile, image });
+      }
+    }
+    return images;
+  }
+
+  // Tiles are scaled when the document was saved at a different pixel ratio
+  private drawTiles(
+    surface: SkSurface,
+    tiles: Array<{ tile: DocumentTile; image: SkImage }>,
+    manifest: DocumentManifest,
+    paint: SkPaint
+  ): void {
+    const canvas = surface.getCanvas();
+    const scaleX = surface.width() / manifest.pixelWidth;
+    const scaleY = surface.height() / manifest.pixelHeight;
+
+    tiles.forEach(({ tile, image }) => {
+      canvas.drawImageRect(
+        image,
+        CompatSkia.XYWHRect(0, 0, tile.width, tile.height),
+        CompatSkia.XYWHRect(tile.x * scaleX, tile.y * scaleY, tile.width * scaleX, tile.height * scaleY),
+        paint
+      );
+    });
+    surface.flush();
+  }
+
+  private async writeLayer(directory: string, layer: Layer, generation: string): Promise<DocumentLayerFiles> {
+    const folder = `${this.LAYERS_DIRECTORY}${layer.id}_${generation}/`;
+    await FileSystem.makeDirectoryAsync(`${directory}${folder}`, { intermediates: true });
+
+    const surface = valkyrieEngine.getLayerSurface(layer.id);
+    const maskSurface = layer.mask ? valkyrieEngine.getLayerSurface(layer.mask.id) : null;
+    const files: DocumentLayerFiles = {
+      directory: folder,
+      tiles: surface ? await this.writeTiles(directory, folder, 'tile', surface) : [],
+      maskTiles: maskSurface ? await this.writeTiles(directory, folder, 'mask', maskSurface) : [],
+      strokes: null,
+    };
+
+    if (layer.strokes.length > 0) {
+      files.strokes = `${folder}strokes.json`;
+      await FileSystem.writeAsStringAsync(`${directory}${files.strokes}`, JSON.stringify(layer.strokes));
+    }
+    return files;
+  }
+
+  // Fully transparent tiles are left out
+  private async writeTiles(directory: string, folder: string, prefix: string, surface: SkSurface): Promise<DocumentTile[]> {
+    surface.flush();
+    const snapshot = surface.makeImageSnapshot();
+    const width = snapshot.width();
+    const height = snapshot.height();
+    const tiles: DocumentTile[] = [];
+
+    for (let y = 0; y < height; y += this.TILE_SIZE) {
+      for (let x = 0; x < width; x += this.TILE_SIZE) {
+        const tile = {
+          x,
+          y,
+          width: Math.min(this.TILE_SIZE, width - x),
+          height: Math.min(this.TILE_SIZE, height - y),
+          file: `${folder}${prefix}_${x}_${y}.png`,
+        };
+        if (this.isTransparent(snapshot, tile)) continue;
+
+        const image = surface.makeImageSnapshot(CompatSkia.XYWHRect(tile.x, tile.y, tile.width, tile.height));
+        await FileSystem.writeAsStringAsync(`${directory}${tile.file}`, image.encodeToBase64(), {
+          encoding: FileSystem.EncodingType.Base64,
+        });
+        tiles.push(tile);
+      }
+    }
+    return tiles;
+  }
+
+  private isTransparent(image: SkImage, tile: DocumentTile): boolean {
+    const pixels = image.readPixels(tile.x, tile.y, {
+      width: tile.width,
+      height: tile.height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Premul,
+    });
+    if (!pixels) return false;
+
+    for (let i = 3; i < pixels.length; i += 4) {
+      if (pixels[i] !== 0) return false;
+    }
+    return true;
+  }
+
+  private async writeThumbnail(directory: string, pixelWidth: number, pixelHeight: number): Promise<void> {
+    const full = CompatSkia.Surface.Make(pixelWidth, pixelHeight);
+    if (!full) return;
+    valkyrieEngine.flattenLayers(layerManager.getLayerTree(), full);
+
+    const scale = Math.min(1, this.THUMBNAIL_SIZE / Math.max(pixelWidth, pixelHeight));
+    const width = Math.max(1, Math.round(pixelWidth * scale));
+    const height = Math.max(1, Math.round(pixelHeight * scale));
+    const thumbnail = CompatSkia.Surface.Make(width, height);
+    if (!thumbnail) return;
+
+    const canvas = thumbnail.getCanvas();
+    canvas.clear(CompatSkia.Color('#ffffff'));
+    canvas.drawImageRect(
+      full.makeImageSnapshot(),
+      CompatSkia.XYWHRect(0, 0, pixelWidth, pixelHeight),
+      CompatSkia.XYWHRect(0, 0, width, height),
+      CompatSkia.Paint()
+    );
+    thumbnail.flush();
+
+    await FileSystem.writeAsStringAsync(
+      `${directory}${this.THUMBNAIL_FILE}`,
+      thumbnail.makeImageSnapshot().encodeToBase64(),
+      { encoding: FileSystem.EncodingType.Base64 }
+    );
+  }
+
+  // Written beside the old manifest and moved over it, so an interrupted save can't leave half a file
+  private async writeManifest(directory: string, manifest: DocumentManifest): Promise<void> {
+    const file = `${directory}${this.MANIFEST_FILE}`;
+    const temporary = `${file}.tmp`;
+
+    await FileSystem.writeAsStringAsync(temporary, JSON.stringify(manifest));
+    await FileSystem.deleteAsync(file, { idempotent: true });
+    await FileSystem.moveAsync({ from: temporary, to: file });
+  }
+
+  private async readManifest(directory: string): Promise<DocumentManifest> {
+    const json = await FileSystem.readAsStringAsync(`${directory}${this.MANIFEST_FILE}`);
+    return this.migrate(JSON.parse(json));
+  }
+
+  private migrate(data: any): DocumentManifest {
+    if (!data || data.format !== 'pikaso' || typeof data.version !== 'number') {
+      throw new Error('Not a Pikaso document');
+    }
+    if ((data.minReaderVersion ?? data.version) > FORMAT_VERSION) {
+      throw new Error(`Document format ${data.version} needs a newer version of Pikaso`);
+    }
+
+    let manifest = data;
+    while (manifest.version < FORMAT_VERSION) {
+      const migration = MIGRATIONS[manifest.version];
+      if (!migration) {
+        throw new Error(`No migration from document format ${manifest.version}`);
+      }
+      manifest = { ...migration(manifest), version: manifest.version + 1 };
+    }
+    return this.normalize(manifest);
+  }
+
+  // Fills in fields that older or newer writers may leave out
+  private normalize(manifest: any): DocumentManifest {
+    const document = manifest.document ?? {};
+    const layers: Layer[] = (document.layers ?? []).map((layer: Layer) => ({ ...layer, strokes: layer.strokes ?? [] }));
+
+    return {
+      format: 'pikaso',
+      version: manifest.version,
+      minReaderVersion: manifest.minReaderVersion ?? manifest.version,
+      document: {
+        ...document,
+        name: document.name ?? 'Untitled',
+        dpi: document.dpi ?? 300,
+        colorProfile: document.colorProfile ?? 'sRGB',
+        settings: { ...this.DEFAULT_SETTINGS, ...document.settings },
+        layers,
+        layerOrder: document.layerOrder ?? layers.map(layer => layer.id),
+        currentLayerId: document.currentLayerId ?? null,
+        perspectiveGuide: document.perspectiveGuide ?? null,
+      },
+      pixelWidth: manifest.pixelWidth ?? document.width,
+      pixelHeight: manifest.pixelHeight ?? document.height,
+      groups: manifest.groups ?? [],
+      rootOrder: manifest.rootOrder ?? document.layerOrder ?? layers.map(layer => layer.id),
+      brushes: manifest.brushes ?? {},
+      fonts: manifest.fonts ?? {},
+      layers: manifest.layers ?? {},
+    };
+  }
+
+  private async removeUnusedLayerFiles(directory: string, manifest: DocumentManifest): Promise<void> {
+    const used = new Set(Object.values(manifest.layers).map(files => files.directory));
+    const entries = await FileSystem.readDirectoryAsync(`${directory}${this.LAYERS_DIRECTORY}`);
+
+    await Promise.all(
+      entries
+        .filter(entry => !used.has(`${this.LAYERS_DIRECTORY}${entry}/`))
+        .map(entry => FileSystem.deleteAsync(`${directory}${this.LAYERS_DIRECTORY}${entry}`, { idempotent: true }))
+    );
+  }
+
+  // Every brush the stroke logs refer to travels with the document
+  private collectBrushes(layers: Layer[]): Record<string, string> {
+    const brushes: Record<string, string> = {};
+
+    layers.forEach(layer => {
+      [...layer.strokes, ...(layer.vectorStrokes ?? [])].forEach(stroke => {
+        if (brushes[stroke.brushId]) return;
+        const data = brushEngine.exportBrush(stroke.brushId);
+        if (data) {
+          brushes[stroke.brushId] = data;
+        }
+      });
+    });
+    return brushes;
+  }
+
+  // Vector strokes load with the stack rather than lazily, so their brushes are remapped up front
+  private remapVectorBrushes(layer: Layer): Layer {
+    if (!layer.vectorStrokes) return layer;
+
+    return {
+      ...layer,
+      vectorStrokes: layer.vectorStrokes.map(stroke => ({
+        ...stroke,
+        brushId: this.brushIds[stroke.brushId] ?? stroke.brushId,
+      })),
+    };
+  }
+
+  private restoreBrushes(brushes: Record<string, string>): Record<string, string> {
+    const brushIds: Record<string, string> = {};
+
+    Object.entries(brushes).forEach(([brushId, data]) => {
+      if (brushEngine.getBrush(brushId)) return;
+      const importedId = brushEngine.importBrush(data);
+      if (importedId) {
+        brushIds[brushId] = importedId;
+      }
+    });
+    return brushIds;
+  }
+
+  // Imported fonts travel with the document so its text stays editable on other devices.
+  // Bundled and system fonts are left out.
+  private async writeFonts(directory: string, layers: Layer[]): Promise<Record<string, string>> {
+    const fonts: Record<string, string> = {};
+
+    for (const layer of layers) {
+      if (layer.type !== 'text') continue;
+
+      const family = (layer as TextLayer).font.family;
+      const source = textEngine.getFontFile(family);
+      if (fonts[family] || !source) continue;
+
+      const file = `${this.FONTS_DIRECTORY}${source.split('/').pop()}`;
+      await FileSystem.makeDirectoryAsync(`${directory}${this.FONTS_DIRECTORY}`, { intermediates: true });
+      if (!(await FileSystem.getInfoAsync(`${directory}${file}`)).exists) {
+        await FileSystem.copyAsync({ from: source, to: `${directory}${file}` });
+      }
+      fonts[family] = file;
+    }
+    return fonts;
+  }
+
+  private async removeUnusedFonts(directory: string, manifest: DocumentManifest): Promise<void> {
+    const folder = `${directory}${this.FONTS_DIRECTORY}`;
+    if (!(await FileSystem.getInfoAsync(folder)).exists) return;
+
+    const used = new Set(Object.values(manifest.fonts));
+    const entries = await FileSystem.readDirectoryAsync(folder);
+    await Promise.all(
+      entries
+        .filter(entry => !used.has(`${this.FONTS_DIRECTORY}${entry}`))
+        .map(entry => FileSystem.deleteAsync(`${folder}${entry}`, { idempotent: true }))
+    );
+  }
+
+  private async restoreFonts(directory: string, fonts: Record<string, string>): Promise<void> {
+    await textEngine.loadFonts();
+
+    for (const [family, file] of Object.entries(fonts)) {
+      if (!textEngine.hasFont(family)) {
+        await textEngine.importFont(`${directory}${file}`, family);
+      }
+    }
+  }
+
+  private getPixelSize(state: LayerStackState): { width: number; height: number } {
+    for (const layer of state.layers) {
+      const surface = valkyrieEngine.getLayerSurface(layer.id);
+      if (surface) {
+        return { width: surface.width(), height: surface.height() };
+      }
+    }
+    return { width: state.canvasWidth, height: state.canvasHeight };
+  }
+
+  private async updateIndex(document: Document): Promise<void> {
+    const documents = await this.list();
+    const summary: DocumentSummary = {
+      id: document.id,
+      name: document.name,
+      width: document.width,
+      height: document.height,
+      modified: document.modified,
+      thumbnail: document.thumbnail ? `${this.getPackageDirectory(document.id)}${document.thumbnail}` : null,
+    };
+
+    await dataManager.set('documents', [summary, ...documents.filter(existing => existing.id !== document.id)]);
+  }
+
+  private getPackageDirectory(documentId: string): string {
+    if (!this.ROOT_DIRECTORY) {
+      throw new Error('Document storage is not available');
+    }
+    return `${this.ROOT_DIRECTORY}${documentId}.pikaso/`;
+  }
+
+  private generateDocumentId(): string {
+    return `doc_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+}
+
+// Export singleton instance
+export const documentStore = DocumentStore.getInstance();
@@ -0,0 +1,198 @@
+// src/engines/drawing/EraserEngine.ts
+import {
+  Brush,
+  Color,
+  Stroke,
+  EraserBrushSettings,
+} from '../../types/drawing';
+import { CompatSkia } from './SkiaCompatibility';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+import { brushEngine } from './BrushEngine';
+import { layerManager } from './LayerManager';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { SeededRandom, getStrokeSeed } from './SeededRandom';
+
+/**
+ * Eraser Engine
+ * Erases with any library brush through destination-out compositing.
+ * Size and opacity are kept per tip brush, separately from painting with it.
+ */
+export class EraserEngine {
+  private static instance: EraserEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly DEFAULT_BRUSH_ID = 'hard-airbrush';
+
+  private brushId: string = this.DEFAULT_BRUSH_ID;
+  private brushSettings: Map<string, EraserBrushSettings> = new Map();
+
+  // Only coverage matters to destination-out
+  private readonly ERASE_COLOR: Color = {
+    hex: '#ffffff',
+    rgb: { r: 255, g: 255, b: 255 },
+    hsb: { h: 0, s: 0, b: 100 },
+    alpha: 1,
+  };
+
+  private constructor() {
+    this.loadSettings();
+  }
+
+  public static getInstance(): EraserEngine {
+    if (!EraserEngine.instance) {
+      EraserEngine.instance = new EraserEngine();
+    }
+    return EraserEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public getBrushId(): string {
+    return this.brushId;
+  }
+
+  public setBrush(brushId: string): boolean {
+    if (!brushEngine.getBrush(brushId)) return false;
+
+    this.brushId = brushId;
+    this.saveSettings();
+    this.eventBus.emit('eraser:changed', { brushId, settings: this.getSettings(brushId) });
+    return true;
+  }
+
+  // Brushes not yet used for erasing start from their paint size at full opacity
+  public getSettings(brushId: string = this.brushId): EraserBrushSettings {
+    const saved = this.brushSettings.get(brushId);
+    if (saved) return { ...saved };
+
+    const brush = brushEngine.getBrush(brushId);
+    return { size: brush?.settings.general.size ?? 20, opacity: 1 };
+  }
+
+  public setSize(size: number): void {
+    this.updateSettings({ size: Math.max(1, size) });
+  }
+
+  public setOpacity(opacity: number): void {
+    this.updateSettings({ opacity: Math.max(0, Math.min(1, opacity)) });
+  }
+
+  // The tip brush with the eraser's size and opacity applied
+  public getEraserBrush(): Brush | null {
+    const brush = brushEngine.getBrush(this.brushId) ?? brushEngine.getBrush(this.DEFAULT_BRUSH_ID);
+    if (!brush) return null;
+
+    const { size, opacity } = this.getSettings(brush.id);
+    const general = brush.settings.general;
+    const scale = general.size > 0 ? size / general.size : 1;
+
+    return {
+      ...brush,
+      settings: {
+        ...brush.settings,
+        general: {
+          ...general,
+          size,
+          sizeMin: general.sizeMin * scale,
+          sizeMax: general.sizeMax * scale,
+          opacity,
+        },
+      },
+      wetMix: undefined,
+    };
+  }
+
+  // Locked and alpha-locked layers keep their pixels
+  public canErase(layerId: string): boolean {
+    const layer = layerManager.getLayer(layerId);
+    return !!layer && !layer.locked && !layer.alphaLock;
+  }
+
+  // Erases a stroke from its layer and records it in layer history
+  public eraseStroke(stroke: Stroke): boolean {
+    if (stroke.points.length === 0 || !this.canErase(stroke.layerId)) return false;
+
+    const surface = valkyrieEngine.getLayerSurface(stroke.layerId);
+    const brush = this.getEraserBrush();
+    if (!surface || !brush) return false;
+
+    try {
+      const bounds = layerManager.getStrokeBounds(stroke, brush, surface.width(), surface.height());
+      if (!bounds) return false;
+      const rect = CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height);
+
+      // A clipped layer is only visible inside its base, so only erase there
+      const base = layerManager.getClippingBase(stroke.layerId);
+      const clipImage = base ? valkyrieEngine.getLayerSurface(base.id)?.makeImageSnapshot() : undefined;
+
+      const before = surface.makeImageSnapshot(rect);
+      const random = new SeededRandom(getStrokeSeed(stroke));
+      const paint = brushEngine.createBrushPaint(
+        brush,
+        { ...this.ERASE_COLOR, alpha: brush.settings.general.opacity },
+        stroke.points[0],
+        null,
+        0,
+        () => random.next()
+      );
+      valkyrieEngine.rasterizeStroke({ ...stroke, tool: 'eraser' }, surface, paint, brush, {
+        erase: true,
+        clipImage,
+      });
+      const after = surface.makeImageSnapshot(rect);
+
+      layerManager.recordPixelChange(stroke.layerId, bounds, before, after);
+      this.eventBus.emit('eraser:strokeErased', { layerId: stroke.layerId, strokeId: stroke.id });
+      return true;
+    } catch (error) {
+      console.error('Failed to erase stroke:', error);
+      return false;
+    }
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private updateSettings(settings: Partial<EraserBrushSettings>): void {
+    const next = { ...this.getSettings(), ...settings };
+    this.brushSettings.set(this.brushId, next);
+    this.saveSettings();
+    this.eventBus.emit('eraser:changed', { brushId: this.brushId, settings: next });
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const saved = await dataManager.get<EraserSaveData>('eraser_settings');
+      if (saved) {
+        this.brushId = saved.brushId || this.DEFAULT_BRUSH_ID;
+        Object.entries(saved.brushes || {}).forEach(([brushId, settings]) => {
+          this.brushSettings.set(brushId, settings);
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load eraser settings:', error);
+    }
+  }
+
+  private async saveSettings(): Promise<void> {
+    try {
+      const saveData: EraserSaveData = {
+        brushId: this.brushId,
+        brushes: Object.fromEntries(this.brushSettings),
+      };
+      await dataManager.set('eraser_settings', saveData);
+    } catch (error) {
+      console.error('Failed to save eraser settings:', error);
+    }
+  }
+}
+
+// ===== TYPES =====
+
+interface EraserSaveData {
+  brushId: string;
+  brushes: Record<string, EraserBrushSettings>;
+}
+
+// Export singleton instance
+export const eraserEngine = EraserEngine.getInstance();
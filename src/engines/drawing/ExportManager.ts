@@ -0,0 +1,431 @@
+// src/engines/drawing/ExportManager.ts
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import * as Sharing from 'expo-sharing';
+import { strToU8 } from 'fflate';
+import { ExportSettings, ExportResult } from '../../types/drawing';
+import { CompatSkia, SkImage, SkSurface } from './SkiaCompatibility';
+import {
+  SkRuntimeEffect,
+  ColorType,
+  AlphaType,
+  ImageFormat,
+  TileMode,
+  FilterMode,
+  MipmapMode,
+} from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { ImageEncoder, ICCSpace } from './ImageEncoders';
+import { bytesToBase64 } from './PropertyList';
+import { layerManager } from './LayerManager';
+import { documentStore } from './DocumentStore';
+import { psdExchange } from './PSDExchange';
+import { vectorEngine } from './VectorEngine';
+import { valkyrieEngine } from './ValkyrieEngine';
+
+/**
+ * Export Manager
+ * Flattens the visible layers at any scale and writes PNG, JPEG, TIFF or PDF with
+ * the chosen colour profile embedded (PSD goes through PSDExchange). Pixels are
+ * converted from the sRGB working space into the target profile before encoding.
+ * Files land in the cache directory and can then be saved to Photos or shared.
+ */
+export class ExportManager {
+  private static instance: ExportManager;
+  private eventBus = EventBus.getInstance();
+
+  private readonly EXPORT_DIRECTORY = FileSystem.cacheDirectory
+    ? `${FileSystem.cacheDirectory}exports/`
+    : null;
+  private readonly MAX_DIMENSION = 16384;
+  private readonly BACKGROUND_COLOR = '#ffffff';
+  private readonly SOFTWARE = 'Pikaso';
+
+  private readonly DEFAULT_SETTINGS: ExportSettings = {
+    format: 'png',
+    quality: 90,
+    scale: 1,
+    colorProfile: 'srgb',
+    includeBackground: true,
+    includeLayers: false,
+    includeMetadata: true,
+  };
+
+  private readonly FILE_TYPES: Record<ExportSettings['format'], { extension: string; mimeType: string; uti: string }> = {
+    png: { extension: 'png', mimeType: 'image/png', uti: 'public.png' },
+    jpeg: { extension: 'jpg', mimeType: 'image/jpeg', uti: 'public.jpeg' },
+    tiff: { extension: 'tiff', mimeType: 'image/tiff', uti: 'public.tiff' },
+    pdf: { extension: 'pdf', mimeType: 'application/pdf', uti: 'com.adobe.pdf' },
+    psd: { extension: 'psd', mimeType: 'image/vnd.adobe.photoshop', uti: 'com.adobe.photoshop-image' },
+    svg: { extension: 'svg', mimeType: 'image/svg+xml', uti: 'public.svg-image' },
+    procreate: { extension: 'procreate', mimeType: 'application/octet-stream', uti: 'public.data' },
+  };
+
+  // Linear sRGB to the target's linear RGB (both D65)
+  private readonly CONVERSION_MATRICES: Record<Exclude<ICCSpace, 'srgb'>, number[]> = {
+    'display-p3': [
+      0.8225, 0.1774, 0.0000,
+      0.0332, 0.9669, 0.0000,
+      0.0171, 0.0724, 0.9108,
+    ],
+    'adobe-rgb': [
+      0.7152, 0.2848, 0.0000,
+      0.0000, 1.0000, 0.0000,
+      0.0000, 0.0412, 0.9588,
+    ],
+  };
+
+  private conversionEffect: SkRuntimeEffect | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): ExportManager {
+    if (!ExportManager.instance) {
+      ExportManager.instance = new ExportManager();
+    }
+    return ExportManager.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public getDefaultSettings(): ExportSettings {
+    return { ...this.DEFAULT_SETTINGS };
+  }
+
+  public async export(settings: Partial<ExportSettings> = {}, fileName?: string): Promise<ExportResult | null> {
+    const options: ExportSettings = { ...this.DEFAULT_SETTINGS, ...settings };
+
+    try {
+      if (options.format === 'procreate') {
+        throw new Error('Procreate documents cannot be exported');
+      }
+
+      // Layers of a document still opening would export empty
+      await Promise.all(layerManager.getAllLayers().map(layer => documentStore.ensureLayerLoaded(layer.id)));
+
+      const warnings: string[] = [];
+      const encoded = options.format === 'psd'
+        ? await this.encodePSD(warnings)
+        : options.format === 'svg'
+          ? this.encodeSVG(options, warnings)
+          : this.encodeFlattened(options, warnings);
+
+      const type = this.FILE_TYPES[options.format];
+      const uri = await this.writeFile(encoded.data, `${this.getFileName(fileName)}.${type.extension}`);
+
+      const result: ExportResult = {
+        uri,
+        format: options.format,
+        mimeType: type.mimeType,
+        width: encoded.width,
+        height: encoded.height,
+        bytes: encoded.data.length,
+        warnings,
+      };
+      this.eventBus.emit('export:completed', { format: result.format, bytes: result.bytes, warnings });
+      return result;
+    } catch (error) {
+      console.error('Failed to export image:', error);
+      return null;
+    }
+  }
+
+  // Photos only takes images
+  public canSaveToLibrary(result: ExportResult): boolean {
+    return result.format === 'png' || result.format === 'jpeg' || result.format === 'tiff';
+  }
+
+  public async saveToLibrary(result: ExportResult): Promise<boolean> {
+    if (!this.canSaveToLibrary(result)) return false;
+
+    try {
+      const permission = await MediaLibrary.requestPermissionsAsync(true);
+      if (!permission.granted) return false;
+
+      await MediaLibrary.saveToLibraryAsync(result.uri);
+      this.eventBus.emit('export:saved', { uri: result.uri });
+      return true;
+    } catch (error) {
+      console.error('Failed to save export to library:', error);
+      return false;
+    }
+  }
+
+  public async share(result: ExportResult): Promise<boolean> {
+    try {
+      if (!(await Sharing.isAvailableAsync())) return false;
+
+      const type = this.FILE_TYPES[result.format];
+      await Sharing.shareAsync(result.uri, {
+        mimeType: type.mimeType,
+        UTI: type.uti,
+        dialogTitle: 'Export',
+      });
+      this.eventBus.emit('export:shared', { uri: result.uri });
+      return true;
+    } catch (error) {
+      console.error('Failed to share export:', error);
+      return false;
+    }
+  }
+
+  // The flattened image as it will be encoded: scaled, on its background, in the target profile
+  public renderImage(settings: Partial<ExportSettings> = {}, warnings: string[] = []): SkImage | null {
+    const options: ExportSettings = { ...this.DEFAULT_SETTINGS, ...settings };
+    const space = this.resolveColorSpace(options.colorProfile, warnings);
+    const opaque = options.includeBackground || options.format === 'jpeg';
+
+    const source = this.flattenLayers();
+    if (!source) return null;
+
+    let scale = Math.max(0.01, options.scale);
+    const largest = Math.max(source.width(), source.height()) * scale;
+    if (largest > this.MAX_DIMENSION) {
+      scale = this.MAX_DIMENSION / Math.max(source.width(), source.height());
+      warnings.push(`Scale was reduced to ${scale.toFixed(2)}x to stay within ${this.MAX_DIMENSION} pixels`);
+    }
+
+    const width = Math.max(1, Math.round(source.width() * scale));
+    const height = Math.max(1, Math.round(source.height() * scale));
+    const surface = CompatSkia.Surface.Make(width, height);
+    if (!surface) return null;
+
+    const canvas = surface.getCanvas();
+    canvas.clear(CompatSkia.Color(opaque ? this.BACKGROUND_COLOR : 'transparent'));
+    canvas.drawImageRectOptions(
+      source,
+      CompatSkia.XYWHRect(0, 0, source.width(), source.height()),
+      CompatSkia.XYWHRect(0, 0, width, height),
+      FilterMode.Linear,
+      scale < 1 ? MipmapMode.Linear : MipmapMode.None,
+      CompatSkia.Paint()
+    );
+    surface.flush();
+
+    const image = surface.makeImageSnapshot();
+    return space === 'srgb' ? image : this.convertColorSpace(image, space) ?? image;
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private encodeFlattened(options: ExportSettings, warnings: string[]): EncodedFile {
+    if (options.includeLayers) {
+      warnings.push('Only PSD keeps layers; the image was flattened');
+    }
+    if (options.format === 'jpeg' && !options.includeBackground) {
+      warnings.push('JPEG has no transparency; the background was filled with white');
+    }
+
+    const image = this.renderImage(options, warnings);
+    if (!image) {
+      throw new Error('Nothing to export');
+    }
+
+    const space = this.resolveColorSpace(options.colorProfile, []);
+    const icc = ImageEncoder.createICCProfile(space);
+    const scale = image.width() / Math.max(1, this.getPixelSize().width);
+    const dpi = (documentStore.getCurrentDocument()?.dpi ?? 72) * scale;
+    const text: Record<string, string> = options.includeMetadata ? this.getMetadata() : {};
+    const alpha = !options.includeBackground;
+
+    let data: Uint8Array;
+    switch (options.format) {
+      case 'png':
+        data = ImageEncoder.embedPNG(image.encodeToBytes(ImageFormat.PNG, 100), { icc, dpi, text });
+        break;
+      case 'jpeg': {
+        const quality = Math.max(0, Math.min(100, Math.round(options.quality)));
+        data = ImageEncoder.embedJPEG(image.encodeToBytes(ImageFormat.JPEG, quality), { icc, dpi, text });
+        break;
+      }
+      case 'tiff':
+        data = ImageEncoder.encodeTIFF(this.readRGBA(image), image.width(), image.height(), {
+          alpha,
+          icc,
+          dpi,
+          software: options.includeMetadata ? this.SOFTWARE : undefined,
+        });
+        break;
+      case 'pdf':
+        data = ImageEncoder.encodePDF(this.readRGBA(image), image.width(), image.height(), {
+          alpha,
+          icc,
+          dpi,
+          // Same physical size at any scale
+          pageWidth: (image.width() / dpi) * 72,
+          pageHeight: (image.height() / dpi) * 72,
+          title: options.includeMetadata ? text.Title : undefined,
+          software: options.includeMetadata ? this.SOFTWARE : undefined,
+        });
+        break;
+      default:
+        throw new Error(`Cannot flatten to ${options.format}`);
+    }
+
+    return { data, width: image.width(), height: image.height() };
+  }
+
+  private async encodePSD(warnings: string[]): Promise<EncodedFile> {
+    const result = await psdExchange.exportPSD();
+    if (!result) {
+      throw new Error('PSD export failed');
+    }
+
+    result.warnings.forEach(warning => {
+      warnings.push(warning.layerName ? `${warning.layerName}: ${warning.message}` : warning.message);
+    });
+    const size = this.getPixelSize();
+    return { data: result.data, width: size.width, height: size.height };
+  }
+
+  // Vector layers only; raster content has no SVG form
+  private encodeSVG(options: ExportSettings, warnings: string[]): EncodedFile {
+    const layers = layerManager.getAllLayers();
+    const vectorLayers = layers.filter(layer => layer.type === 'vector');
+    if (vectorLayers.length === 0) {
+      throw new Error('There are no vector layers to export');
+    }
+    if (vectorLayers.length < layers.length) {
+      warnings.push('Only vector layers are included in SVG');
+    }
+    if (options.scale !== 1) {
+      warnings.push('SVG is exported at canvas size; scale applies when it is rendered');
+    }
+
+    const svg = vectorEngine.exportSVG();
+    if (!svg) {
+      throw new Error('SVG export failed');
+    }
+    const size = this.getPixelSize();
+    return { data: strToU8(svg), width: size.width, height: size.height };
+  }
+
+  private flattenLayers(): SkImage | null {
+    const size = this.getPixelSize();
+    const surface = CompatSkia.Surface.Make(size.width, size.height);
+    if (!surface) return null;
+
+    valkyrieEngine.flattenLayers(layerManager.getLayerTree(), surface);
+    return surface.makeImageSnapshot();
+  }
+
+  private convertColorSpace(image: SkImage, space: Exclude<ICCSpace, 'srgb'>): SkImage | null {
+    if (!this.conversionEffect) {
+      this.conversionEffect = CompatSkia.RuntimeEffect.Make(CONVERSION_SKSL);
+    }
+    const surface: SkSurface | null = CompatSkia.Surface.Make(image.width(), image.height());
+    if (!this.conversionEffect || !surface) return null;
+
+    const paint = CompatSkia.Paint();
+    const gamma = space === 'adobe-rgb' ? 563 / 256 : 0;
+    paint.setShader(this.conversionEffect.makeShaderWithChildren(
+      [...this.CONVERSION_MATRICES[space], gamma],
+      [image.makeShaderOptions(TileMode.Clamp, TileMode.Clamp, FilterMode.Nearest, MipmapMode.None)]
+    ));
+
+    const canvas = surface.getCanvas();
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.drawRect(CompatSkia.XYWHRect(0, 0, image.width(), image.height()), paint);
+    surface.flush();
+    return surface.makeImageSnapshot();
+  }
+
+  // Accepts ColorManager profile ids as well as display names
+  private resolveColorSpace(profile: string, warnings: string[]): ICCSpace {
+    const name = profile.toLowerCase();
+    if (name.includes('p3')) return 'display-p3';
+    if (name.includes('adobe')) return 'adobe-rgb';
+    if (name.includes('cmyk')) {
+      warnings.push('CMYK output is not supported; exported as sRGB');
+    } else if (!name.includes('srgb')) {
+      warnings.push(`Unknown color profile "${profile}"; exported as sRGB`);
+    }
+    return 'srgb';
+  }
+
+  private readRGBA(image: SkImage): Uint8Array {
+    const pixels = image.readPixels(0, 0, {
+      width: image.width(),
+      height: image.height(),
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    });
+    if (!pixels) {
+      throw new Error('Could not read the rendered image');
+    }
+    return pixels instanceof Uint8Array ? pixels : Uint8Array.from(pixels, value => Math.round(value * 255));
+  }
+
+  private getPixelSize(): { width: number; height: number } {
+    for (const layer of layerManager.getAllLayers()) {
+      const surface = valkyrieEngine.getLayerSurface(layer.id);
+      if (surface) {
+        return { width: surface.width(), height: surface.height() };
+      }
+    }
+    throw new Error('There are no pixel layers to export');
+  }
+
+  private getMetadata(): Record<string, string> {
+    const document = documentStore.getCurrentDocument();
+    return {
+      ...(document ? { Title: document.name } : {}),
+      Software: this.SOFTWARE,
+    };
+  }
+
+  private getFileName(fileName?: string): string {
+    const name = fileName ?? documentStore.getCurrentDocument()?.name ?? 'Pikaso';
+    return name.replace(/[^\w\- ]+/g, '').trim() || 'Pikaso';
+  }
+
+  private async writeFile(data: Uint8Array, name: string): Promise<string> {
+    if (!this.EXPORT_DIRECTORY) {
+      throw new Error('No cache directory to export to');
+    }
+
+    await FileSystem.makeDirectoryAsync(this.EXPORT_DIRECTORY, { intermediates: true });
+    const uri = `${this.EXPORT_DIRECTORY}${name}`;
+    await FileSystem.writeAsStringAsync(uri, bytesToBase64(data), { encoding: FileSystem.EncodingType.Base64 });
+    return uri;
+  }
+}
+
+// sRGB in, target RGB out; gamma 0 selects the sRGB curve for encoding
+const CONVERSION_SKSL = `
+uniform shader image;
+uniform float3 row0;
+uniform float3 row1;
+uniform float3 row2;
+uniform float gamma;
+
+float3 toLinear(float3 c) {
+  return mix(c / 12.92, pow((c + 0.055) / 1.055, float3(2.4)), step(0.04045, c));
+}
+
+float3 fromLinear(float3 c) {
+  return mix(c * 12.92, 1.055 * pow(c, float3(1.0 / 2.4)) - 0.055, step(0.0031308, c));
+}
+
+half4 main(float2 xy) {
+  half4 color = image.eval(xy);
+  if (color.a <= 0.0) {
+    return color;
+  }
+  float3 linear = toLinear(float3(color.rgb / color.a));
+  float3 converted = clamp(float3(dot(row0, linear), dot(row1, linear), dot(row2, linear)), 0.0, 1.0);
+  float3 encoded = gamma > 0.0 ? pow(converted, float3(1.0 / gamma)) : fromLinear(converted);
+  return half4(half3(encoded) * color.a, color.a);
+}
+`;
+
+// ===== TYPES =====
+
+interface EncodedFile {
+  data: Uint8Array;
+  width: number;
+  height: number;
+}
+
+// Export singleton instance
+export const exportManager = ExportManager.getInstance();
@@ -0,0 +1,618 @@
+// src/engines/drawing/FreeTransformEngine.ts
+import {
+  Point,
+  Bounds,
+  FreeTransformMode,
+  FreeTransformState,
+  TransformInterpolation,
+} from '../../types/drawing';
+import {
+  CompatSkia,
+  SkCanvas,
+  SkImage,
+  SkSurface,
+  SkShader,
+  SkPaint,
+  BlendMode as SkiaBlendMode,
+} from './SkiaCompatibility';
+import {
+  SkPoint,
+  ColorType,
+  AlphaType,
+  TileMode,
+  FilterMode,
+  MipmapMode,
+  VertexMode,
+} from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { layerManager } from './LayerManager';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { selectionManager } from './SelectionManager';
+
+/**
+ * Free Transform Engine
+ * Lifts the selected pixels (or the whole layer) and places them again with scale,
+ * rotation, skew, four-corner distort or a 4x4 mesh warp, resampling on every change.
+ * The layer shows the result live; commit records it as one pixel edit.
+ */
+export class FreeTransformEngine {
+  private static instance: FreeTransformEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly MESH_SIZE = 4; // Control points per side of the warp mesh
+  private readonly WARP_TESSELLATION = 24; // Quads per side when drawing the warped mesh
+  private readonly CUBIC_B = 1 / 3; // Mitchell filter
+  private readonly CUBIC_C = 1 / 3;
+
+  private session: TransformSession | null = null;
+
+  private constructor() {
+    // Undo/redo act on recorded history, so an uncommitted transform is dropped first
+    this.eventBus.on('history:willUndo', () => this.cancel());
+    this.eventBus.on('history:willRedo', () => this.cancel());
+  }
+
+  public static getInstance(): FreeTransformEngine {
+    if (!FreeTransformEngine.instance) {
+      FreeTransformEngine.instance = new FreeTransformEngine();
+    }
+    return FreeTransformEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  // Lifts the selection's pixels (or all of the layer's) for transforming
+  public begin(
+    layerId: string | null = layerManager.getCurrentLayerId(),
+    options: { mode?: FreeTransformMode; interpolation?: TransformInterpolation } = {}
+  ): boolean {
+    if (this.session) {
+      this.commit();
+    }
+
+    const layer = layerId ? layerManager.getLayer(layerId) : null;
+    const surface = layerId ? valkyrieEngine.getLayerSurface(layerId) : null;
+    if (!layerId || !layer || layer.locked || layer.type !== 'raster' || !surface) return false;
+
+    try {
+      surface.flush();
+      const before = surface.makeImageSnapshot();
+      const lifted = this.lift(surface, before);
+      if (!lifted) return false;
+
+      const { source } = lifted;
+      this.session = {
+        layerId,
+        surface,
+        before,
+        base: lifted.base,
+        content: lifted.content,
+        source,
+        mode: options.mode ?? 'uniform',
+        interpolation: options.interpolation ?? 'bilinear',
+        corners: this.rectCorners(source),
+        mesh: null,
+      };
+      if (this.session.mode === 'warp') {
+        this.session.mesh = this.createMesh(this.session.corners);
+      }
+
+      this.render();
+      this.eventBus.emit('freetransform:started', { state: this.getState() });
+      return true;
+    } catch (error) {
+      console.error('Failed to start transform:', error);
+      this.session = null;
+      return false;
+    }
+  }
+
+  public isActive(): boolean {
+    return this.session !== null;
+  }
+
+  public getState(): FreeTransformState | null {
+    const session = this.session;
+    if (!session) return null;
+
+    return {
+      layerId: session.layerId,
+      mode: session.mode,
+      interpolation: session.interpolation,
+      source: { ...session.source },
+      corners: session.corners.map(point => ({ ...point })),
+      mesh: session.mesh && session.mesh.map(point => ({ ...point })),
+    };
+  }
+
+  // Switching to warp starts a mesh from the current corners; a warp is kept in the other modes
+  public setMode(mode: FreeTransformMode): void {
+    const session = this.session;
+    if (!session || session.mode === mode) return;
+
+    session.mode = mode;
+    if (mode === 'warp' && !session.mesh) {
+      session.mesh = this.createMesh(session.corners);
+    }
+    this.update();
+  }
+
+  public setInterpolation(interpolation: TransformInterpolation): void {
+    const session = this.session;
+    if (!session || session.interpolation === interpolation) return;
+
+    session.interpolation = interpolation;
+    this.update();
+  }
+
+  public move(dx: number, dy: number): void {
+    this.applyAffine([1, 0, dx, 0, 1, dy]);
+  }
+
+  // Scales about `anchor` (the content center by default)
+  public scale(sx: number, sy: number = sx, anchor?: Point): void {
+    const { x, y } = anchor ?? this.getCenter();
+    this.applyAffine([sx, 0, x - sx * x, 0, sy, y - sy * y]);
+  }
+
+  // Degrees, clockwise, about `anchor` (the content center by default)
+  public rotate(angle: number, anchor?: Point): void {
+    const { x, y } = anchor ?? this.getCenter();
+    const radians = (angle * Math.PI) / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    this.applyAffine([cos, -sin, x - cos * x + sin * y, sin, cos, y - sin * x - cos * y]);
+  }
+
+  // Degrees, about the content center
+  public skew(skewX: number, skewY: number = 0): void {
+    const { x, y } = this.getCenter();
+    const kx = Math.tan((skewX * Math.PI) / 180);
+    const ky = Math.tan((skewY * Math.PI) / 180);
+    this.applyAffine([1, kx, -kx * y, ky, 1, -ky * x]);
+  }
+
+  public flipHorizontal(): void {
+    const { x } = this.getCenter();
+    this.applyAffine([-1, 0, 2 * x, 0, 1, 0]);
+  }
+
+  public flipVertical(): void {
+    const { y } = this.getCenter();
+    this.applyAffine([1, 0, 0, 0, -1, 2 * y]);
+  }
+
+  // Drags a corner (0-3, clockwise from top-left). Uniform keeps the proportions and
+  // freeform stretches along the content's edges, both against the opposite corner;
+  // distort moves the corner on its own for a perspective quad.
+  public setCorner(index: number, point: Point): void {
+    const session = this.session;
+    if (!session || index < 0 || index > 3) return;
+
+    const old = session.corners;
+    let corners: Point[];
+
+    if (session.mode === 'distort' || session.mode === 'warp') {
+      corners = old.map((corner, i) => (i === index ? { ...point } : corner));
+    } else {
+      const anchor = old[(index + 2) % 4];
+      const edgeA = this.subtract(old[(index + 1) % 4], anchor);
+      const edgeB = this.subtract(old[(index + 3) % 4], anchor);
+      const det = edgeA.x * edgeB.y - edgeA.y * edgeB.x;
+      if (det === 0) return;
+
+      // Offsets from the anchor in edge units; the dragged corner sits at (1, 1)
+      const toEdges = (offset: Point): Point => ({
+        x: (offset.x * edgeB.y - offset.y * edgeB.x) / det,
+        y: (edgeA.x * offset.y - edgeA.y * offset.x) / det,
+      });
+      const target = toEdges(this.subtract(point, anchor));
+      const scaleA = session.mode === 'uniform' ? (target.x + target.y) / 2 : target.x;
+      const scaleB = session.mode === 'uniform' ? scaleA : target.y;
+
+      corners = old.map(corner => {
+        const offset = toEdges(this.subtract(corner, anchor));
+        return {
+          x: anchor.x + offset.x * scaleA * edgeA.x + offset.y * scaleB * edgeB.x,
+          y: anchor.y + offset.x * scaleA * edgeA.y + offset.y * scaleB * edgeB.y,
+        };
+      });
+    }
+
+    // A warp mesh follows the corners through the same perspective change
+    if (session.mesh) {
+      const from = this.squareToQuad(old);
+      const to = this.squareToQuad(corners);
+      const inverse = from && this.invert(from);
+      if (!to || !inverse) return;
+
+      const matrix = this.multiply(to, inverse);
+      session.mesh = session.mesh.map(control => this.project(matrix, control));
+    }
+
+    session.corners = corners;
+    this.update();
+  }
+
+  // Moves one warp control point (row by row, 0-15)
+  public setMeshPoint(index: number, point: Point): void {
+    const session = this.session;
+    if (!session || !session.mesh || index < 0 || index >= session.mesh.length) return;
+
+    session.mesh[index] = { ...point };
+
+    const last = this.MESH_SIZE - 1;
+    const mesh = session.mesh;
+    session.corners = [mesh[0], mesh[last], mesh[mesh.length - 1], mesh[mesh.length - 1 - last]].map(
+      corner => ({ ...corner })
+    );
+    this.update();
+  }
+
+  // Undoes the geometry changes but stays in the transform
+  public reset(): void {
+    const session = this.session;
+    if (!session) return;
+
+    session.corners = this.rectCorners(session.source);
+    session.mesh = session.mode === 'warp' ? this.createMesh(session.corners) : null;
+    this.update();
+  }
+
+  // Keeps the transformed pixels as one undoable edit
+  public commit(): boolean {
+    const session = this.session;
+    this.session = null;
+    if (!session) return false;
+
+    try {
+      this.render(session);
+      const bounds = { x: 0, y: 0, width: session.surface.width(), height: session.surface.height() };
+      layerManager.recordPixelChange(session.layerId, bounds, session.before, session.surface.makeImageSnapshot());
+
+      this.eventBus.emit('freetransform:committed', { layerId: session.layerId });
+      return true;
+    } catch (error) {
+      console.error('Failed to commit transform:', error);
+      return false;
+    }
+  }
+
+  // Puts the layer back the way it was before the transform started
+  public cancel(): void {
+    const session = this.session;
+    this.session = null;
+    if (!session) return;
+
+    const canvas = session.surface.getCanvas();
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.drawImage(session.before, 0, 0);
+    session.surface.flush();
+    valkyrieEngine.invalidateLayerEffects(session.layerId);
+
+    this.eventBus.emit('freetransform:cancelled', { layerId: session.layerId });
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  // Splits the layer into the pixels being moved (cropped to their bounds) and what stays behind
+  private lift(
+    surface: SkSurface,
+    before: SkImage
+  ): { base: SkImage | null; content: SkImage; source: Bounds } | null {
+    const mask = selectionManager.hasSelection() ? selectionManager.getMaskImage() : null;
+    const width = surface.width();
+    const height = surface.height();
+
+    const scratch = CompatSkia.Surface.Make(width, height);
+    if (!scratch) return null;
+    const canvas = scratch.getCanvas();
+    const maskPaint = CompatSkia.Paint();
+
+    let base: SkImage | null = null;
+    if (mask) {
+      canvas.clear(CompatSkia.Color('transparent'));
+      canvas.drawImage(before, 0, 0);
+      maskPaint.setBlendMode(SkiaBlendMode.DstOut);
+      canvas.drawImage(mask, 0, 0, maskPaint);
+      scratch.flush();
+      base = scratch.makeImageSnapshot();
+    }
+
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.drawImage(before, 0, 0);
+    if (mask) {
+      maskPaint.setBlendMode(SkiaBlendMode.DstIn);
+      canvas.drawImage(mask, 0, 0, maskPaint);
+    }
+    scratch.flush();
+
+    const lifted = scratch.makeImageSnapshot();
+    const source = this.getContentBounds(lifted);
+    if (!source) return null;
+
+    const content = scratch.makeImageSnapshot(
+      CompatSkia.XYWHRect(source.x, source.y, source.width, source.height)
+    );
+    return { base, content, source };
+  }
+
+  // Smallest rectangle holding every non-transparent pixel
+  private getContentBounds(image: SkImage): Bounds | null {
+    const width = image.width();
+    const height = image.height();
+    const pixels = image.readPixels(0, 0, {
+      width,
+      height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Premul,
+    }) as Uint8Array | null;
+    if (!pixels) return null;
+
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (pixels[(y * width + x) * 4 + 3] === 0) continue;
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        if (y > maxY) maxY = y;
+      }
+    }
+    if (maxX < 0) return null;
+
+    return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+  }
+
+  private update(): void {
+    if (!this.session) return;
+
+    this.render();
+    this.eventBus.emit('freetransform:changed', { state: this.getState() });
+  }
+
+  // Redraws the layer: what stayed behind, then the content at its new place
+  private render(session: TransformSession | null = this.session): void {
+    if (!session) return;
+
+    const canvas = session.surface.getCanvas();
+    canvas.clear(CompatSkia.Color('transparent'));
+    if (session.base) {
+      canvas.drawImage(session.base, 0, 0);
+    }
+
+    const paint = CompatSkia.Paint();
+    paint.setAntiAlias(true);
+    paint.setShader(this.createShader(session.content, session.interpolation));
+
+    if (session.mesh) {
+      this.drawMesh(canvas, session, paint);
+    } else {
+      this.drawQuad(canvas, session, paint);
+    }
+
+    session.surface.flush();
+    valkyrieEngine.invalidateLayerEffects(session.layerId);
+  }
+
+  private createShader(image: SkImage, interpolation: TransformInterpolation): SkShader {
+    if (interpolation === 'bicubic') {
+      return image.makeShaderCubic(TileMode.Decal, TileMode.Decal, this.CUBIC_B, this.CUBIC_C);
+    }
+    return image.makeShaderOptions(
+      TileMode.Decal,
+      TileMode.Decal,
+      interpolation === 'nearest' ? FilterMode.Nearest : FilterMode.Linear,
+      MipmapMode.None
+    );
+  }
+
+  // Scale, rotation, skew and distort are all one projective matrix from content to corners
+  private drawQuad(canvas: SkCanvas, session: TransformSession, paint: SkPaint): void {
+    const toQuad = this.squareToQuad(session.corners);
+    if (!toQuad) return;
+
+    const { width, height } = session.source;
+    const matrix = this.multiply(toQuad, [1 / width, 0, 0, 0, 1 / height, 0, 0, 0, 1]);
+
+    canvas.save();
+    canvas.concat(matrix);
+    canvas.drawRect(CompatSkia.XYWHRect(0, 0, width, height), paint);
+    canvas.restore();
+  }
+
+  // The mesh is a bicubic bezier patch, drawn as a fine triangle grid
+  private drawMesh(canvas: SkCanvas, session: TransformSession, paint: SkPaint): void {
+    const mesh = session.mesh!;
+    const steps = this.WARP_TESSELLATION;
+    const { width, height } = session.source;
+
+    const positions: SkPoint[] = [];
+    const textures: SkPoint[] = [];
+    for (let row = 0; row <= steps; row++) {
+      for (let column = 0; column <= steps; column++) {
+        const u = column / steps;
+        const v = row / steps;
+        const point = this.evaluateMesh(mesh, u, v);
+        positions.push(CompatSkia.Point(point.x, point.y));
+        textures.push(CompatSkia.Point(u * width, v * height));
+      }
+    }
+
+    const indices: number[] = [];
+    for (let row = 0; row < steps; row++) {
+      for (let column = 0; column < steps; column++) {
+        const topLeft = row * (steps + 1) + column;
+        const bottomLeft = topLeft + steps + 1;
+        indices.push(topLeft, topLeft + 1, bottomLeft, topLeft + 1, bottomLeft + 1, bottomLeft);
+      }
+    }
+
+    const vertices = CompatSkia.MakeVertices(VertexMode.Triangles, positions, textures, undefined, indices);
+    canvas.drawVertices(vertices, SkiaBlendMode.Dst, paint);
+  }
+
+  private evaluateMesh(mesh: Point[], u: number, v: number): Point {
+    const bu = this.bernstein(u);
+    const bv = this.bernstein(v);
+    let x = 0;
+    let y = 0;
+
+    for (let row = 0; row < this.MESH_SIZE; row++) {
+      for (let column = 0; column < this.MESH_SIZE; column++) {
+        const weight = bv[row] * bu[column];
+        const control = mesh[row * this.MESH_SIZE + column];
+        x += control.x * weight;
+        y += control.y * weight;
+      }
+    }
+    return { x, y };
+  }
+
+  private bernstein(t: number): number[] {
+    const s = 1 - t;
+    return [s * s * s, 3 * s * s * t, 3 * s * t * t, t * t * t];
+  }
+
+  // Control points spread evenly over the quad, so a fresh mesh draws like the quad
+  private createMesh(corners: Point[]): Point[] {
+    const toQuad = this.squareToQuad(corners);
+    const mesh: Point[] = [];
+    const last = this.MESH_SIZE - 1;
+
+    for (let row = 0; row < this.MESH_SIZE; row++) {
+      for (let column = 0; column < this.MESH_SIZE; column++) {
+        const u = column / last;
+        const v = row / last;
+        mesh.push(toQuad ? this.project(toQuad, { x: u, y: v }) : { ...corners[0] });
+      }
+    }
+    return mesh;
+  }
+
+  // Applies a 2x3 affine matrix to the corners and mesh
+  private applyAffine(matrix: number[]): void {
+    const session = this.session;
+    if (!session) return;
+
+    const [a, b, c, d, e, f] = matrix;
+    const map = (point: Point): Point => ({
+      x: a * point.x + b * point.y + c,
+      y: d * point.x + e * point.y + f,
+    });
+
+    session.corners = session.corners.map(map);
+    session.mesh = session.mesh && session.mesh.map(map);
+    this.update();
+  }
+
+  private getCenter(): Point {
+    const corners = this.session?.corners ?? [];
+    if (corners.length === 0) return { x: 0, y: 0 };
+
+    return {
+      x: corners.reduce((sum, corner) => sum + corner.x, 0) / corners.length,
+      y: corners.reduce((sum, corner) => sum + corner.y, 0) / corners.length,
+    };
+  }
+
+  private rectCorners(bounds: Bounds): Point[] {
+    return [
+      { x: bounds.x, y: bounds.y },
+      { x: bounds.x + bounds.width, y: bounds.y },
+      { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+      { x: bounds.x, y: bounds.y + bounds.height },
+    ];
+  }
+
+  // Row-major 3x3 matrix taking the unit square onto the quad (Heckbert)
+  private squareToQuad(corners: Point[]): number[] | null {
+    const [p0, p1, p2, p3] = corners;
+    const dx1 = p1.x - p2.x;
+    const dx2 = p3.x - p2.x;
+    const dx3 = p0.x - p1.x + p2.x - p3.x;
+    const dy1 = p1.y - p2.y;
+    const dy2 = p3.y - p2.y;
+    const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+    let g = 0;
+    let h = 0;
+    if (Math.abs(dx3) > 1e-9 || Math.abs(dy3) > 1e-9) {
+      const det = dx1 * dy2 - dx2 * dy1;
+      if (Math.abs(det) < 1e-9) return null;
+      g = (dx3 * dy2 - dx2 * dy3) / det;
+      h = (dx1 * dy3 - dx3 * dy1) / det;
+    }
+
+    const matrix = [
+      p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+      p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+      g, h, 1,
+    ];
+    return this.invert(matrix) ? matrix : null;
+  }
+
+  private project(matrix: number[], point: Point): Point {
+    const w = matrix[6] * point.x + matrix[7] * point.y + matrix[8];
+    return {
+      x: (matrix[0] * point.x + matrix[1] * point.y + matrix[2]) / w,
+      y: (matrix[3] * point.x + matrix[4] * point.y + matrix[5]) / w,
+    };
+  }
+
+  private multiply(a: number[], b: number[]): number[] {
+    const result: number[] = [];
+    for (let row = 0; row < 3; row++) {
+      for (let column = 0; column < 3; column++) {
+        result.push(
+          a[row * 3] * b[column] + a[row * 3 + 1] * b[3 + column] + a[row * 3 + 2] * b[6 + column]
+        );
+      }
+    }
+    return result;
+  }
+
+  private invert(m: number[]): number[] | null {
+    const det =
+      m[0] * (m[4] * m[8] - m[5] * m[7]) -
+      m[1] * (m[3] * m[8] - m[5] * m[6]) +
+      m[2] * (m[3] * m[7] - m[4] * m[6]);
+    if (Math.abs(det) < 1e-12) return null;
+
+    return [
+      (m[4] * m[8] - m[5] * m[7]) / det,
+      (m[2] * m[7] - m[1] * m[8]) / det,
+      (m[1] * m[5] - m[2] * m[4]) / det,
+      (m[5] * m[6] - m[3] * m[8]) / det,
+      (m[0] * m[8] - m[2] * m[6]) / det,
+      (m[2] * m[3] - m[0] * m[5]) / det,
+      (m[3] * m[7] - m[4] * m[6]) / det,
+      (m[1] * m[6] - m[0] * m[7]) / det,
+      (m[0] * m[4] - m[1] * m[3]) / det,
+    ];
+  }
+
+  private subtract(a: Point, b: Point): Point {
+    return { x: a.x - b.x, y: a.y - b.y };
+  }
+}
+
+// ===== TYPES =====
+
+interface TransformSession {
+  layerId: string;
+  surface: SkSurface;
+  before: SkImage; // Whole layer when the transform started
+  base: SkImage | null; // Layer without the lifted pixels; null when the whole layer moves
+  content: SkImage; // Lifted pixels, cropped to `source`
+  source: Bounds;
+  mode: FreeTransformMode;
+  interpolation: TransformInterpolation;
+  corners: Point[];
+  mesh: Point[] | null;
+}
+
+export const freeTransformEngine = FreeTransformEngine.getInstance();
@@ -0,0 +1,648 @@
+// src/engines/drawing/ImageEncoders.ts
+import { zlibSync } from 'fflate';
+import { BinaryWriter } from './BinaryWriter';
+import { encodePackBits } from './PSDCodec';
+
+/**
+ * Image file encoders for export
+ * Skia encodes PNG and JPEG; these add the ICC profile, resolution and text
+ * metadata Skia leaves out. TIFF (PackBits strips) and single-page PDF are written
+ * here from unpremultiplied RGBA.
+ */
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const INCHES_PER_METER = 39.3701;
+
+// Chunks that describe colour and would contradict an embedded profile
+const PNG_COLOR_CHUNKS = ['iCCP', 'sRGB', 'gAMA', 'cHRM'];
+
+// D50-adapted primaries and transfer curves of the RGB working spaces we write
+const ICC_SPACES: Record<ICCSpace, ICCSpaceDefinition> = {
+  srgb: {
+    description: 'sRGB IEC61966-2.1',
+    red: [0.4360747, 0.2225045, 0.0139322],
+    green: [0.3850649, 0.7168786, 0.0971045],
+    blue: [0.1430804, 0.0606169, 0.7141733],
+    transfer: 'srgb',
+  },
+  'display-p3': {
+    description: 'Display P3',
+    red: [0.5151215, 0.2411957, -0.0010462],
+    green: [0.2919769, 0.6922455, 0.0418853],
+    blue: [0.1570717, 0.0665588, 0.7840692],
+    transfer: 'srgb',
+  },
+  'adobe-rgb': {
+    description: 'Adobe RGB (1998)',
+    red: [0.6097412, 0.3111114, 0.0194702],
+    green: [0.2052765, 0.6256714, 0.0608978],
+    blue: [0.1491852, 0.0632172, 0.7445679],
+    transfer: 563 / 256,
+  },
+};
+
+const D50_WHITE = [0.9642, 1.0, 0.8249];
+
+export class ImageEncoder {
+  // ===== ICC =====
+
+  // Minimal v2 matrix/TRC display profile
+  public static createICCProfile(space: ICCSpace): Uint8Array {
+    const definition = ICC_SPACES[space];
+    const trc = ImageEncoder.curveTag(definition.transfer);
+    const tags: Array<{ signature: string; data: Uint8Array }> = [
+      { signature: 'desc', data: ImageEncoder.descriptionTag(definition.description) },
+      { signature: 'cprt', data: ImageEncoder.textTag('No copyright, use freely') },
+      { signature: 'wtpt', data: ImageEncoder.xyzTag(D50_WHITE) },
+      { signature: 'rXYZ', data: ImageEncoder.xyzTag(definition.red) },
+      { signature: 'gXYZ', data: ImageEncoder.xyzTag(definition.green) },
+      { signature: 'bXYZ', data: ImageEncoder.xyzTag(definition.blue) },
+      { signature: 'rTRC', data: trc },
+      { signature: 'gTRC', data: trc },
+      { signature: 'bTRC', data: trc },
+    ];
+
+    // Tag data follows the header and tag table, each entry 4-byte aligned
+    let offset = 128 + 4 + tags.length * 12;
+    const offsets = tags.map(tag => {
+      const start = offset;
+      offset += Math.ceil(tag.data.length / 4) * 4;
+      return start;
+    });
+
+    const writer = new BinaryWriter(offset);
+    const now = new Date();
+
+    writer.writeUint32(offset);
+    writer.writeUint32(0); // preferred CMM
+    writer.writeUint32(0x02100000);
+    writer.writeAscii('mntr');
+    writer.writeAscii('RGB ');
+    writer.writeAscii('XYZ ');
+    [now.getUTCFullYear(), now.getUTCMonth() + 1, now.getUTCDate(), now.getUTCHours(), now.getUTCMinutes(), now.getUTCSeconds()]
+      .forEach(value => writer.writeUint16(value));
+    writer.writeAscii('acsp');
+    writer.writeZeros(24); // platform, flags, manufacturer, model, attributes
+    writer.writeUint32(0); // perceptual intent
+    D50_WHITE.forEach(value => writer.writeInt32(ImageEncoder.toFixed(value)));
+    writer.writeZeros(48); // creator, profile id, reserved
+
+    writer.writeUint32(tags.length);
+    tags.forEach((tag, i) => {
+      writer.writeAscii(tag.signature);
+      writer.writeUint32(offsets[i]);
+      writer.writeUint32(tag.data.length);
+    });
+    tags.forEach(tag => {
+      writer.writeBytes(tag.data);
+      writer.pad(4);
+    });
+
+    return writer.toBytes();
+  }
+
+  // ===== PNG =====
+
+  public static embedPNG(png: Uint8Array, options: EmbedOptions): Uint8Array {
+    if (!PNG_SIGNATURE.every((byte, i) => png[i] === byte)) {
+      throw new Error('Not a PNG image');
+    }
+
+    const chunks = ImageEncoder.readPNGChunks(png);
+    const extra: Uint8Array[] = [];
+
+    if (options.icc) {
+      const name = 'ICC Profile';
+      const data = new Uint8Array(name.length + 2); // keyword, separator, compression method 0
+      for (let i = 0; i < name.length; i++) data[i] = name.charCodeAt(i);
+      extra.push(ImageEncoder.pngChunk('iCCP', ImageEncoder.concat([data, zlibSync(options.icc, { level: 9 })])));
+    }
+    if (options.dpi) {
+      const writer = new BinaryWriter(9);
+      const perMeter = Math.round(options.dpi * INCHES_PER_METER);
+      writer.writeUint32(perMeter);
+      writer.writeUint32(perMeter);
+      writer.writeUint8(1);
+      extra.push(ImageEncoder.pngChunk('pHYs', writer.toBytes()));
+    }
+    Object.entries(options.text ?? {}).forEach(([keyword, value]) => {
+      const writer = new BinaryWriter(keyword.length + value.length + 1);
+      writer.writeAscii(keyword.slice(0, 79));
+      writer.writeUint8(0);
+      writer.writeAscii(value);
+      extra.push(ImageEncoder.pngChunk('tEXt', writer.toBytes()));
+    });
+
+    // New chunks go straight after IHDR, which must stay first
+    const output: Uint8Array[] = [Uint8Array.from(PNG_SIGNATURE)];
+    chunks.forEach(chunk => {
+      const replaced = PNG_COLOR_CHUNKS.includes(chunk.type) && !!options.icc;
+      if (replaced || (chunk.type === 'pHYs' && options.dpi)) return;
+
+      output.push(chunk.bytes);
+      if (chunk.type === 'IHDR') {
+        output.push(...extra);
+      }
+    });
+
+    return ImageEncoder.concat(output);
+  }
+
+  // ===== JPEG =====
+
+  public static embedJPEG(jpeg: Uint8Array, options: EmbedOptions): Uint8Array {
+    if (jpeg[0] !== 0xff || jpeg[1] !== 0xd8) {
+      throw new Error('Not a JPEG image');
+    }
+
+    // Header segments up to the first non-APP marker; the rest is copied as is
+    const segments: Array<{ marker: number; bytes: Uint8Array }> = [];
+    let offset = 2;
+    while (offset + 4 <= jpeg.length && jpeg[offset] === 0xff) {
+      const marker = jpeg[offset + 1];
+      if (marker < 0xe0 || marker > 0xef) break;
+      const length = (jpeg[offset + 2] << 8) | jpeg[offset + 3];
+      segments.push({ marker, bytes: jpeg.slice(offset, offset + 2 + length) });
+      offset += 2 + length;
+    }
+
+    const kept = segments.filter(segment => !(options.icc && ImageEncoder.isICCSegment(segment)));
+    const jfif = kept.find(segment => segment.marker === 0xe0 && ImageEncoder.startsWith(segment.bytes, 4, 'JFIF'));
+    if (jfif && options.dpi) {
+      // Density units (1 = dots per inch) and X/Y density
+      const dpi = Math.min(65535, Math.round(options.dpi));
+      jfif.bytes[11] = 1;
+      jfif.bytes[12] = dpi >> 8;
+      jfif.bytes[13] = dpi & 0xff;
+      jfif.bytes[14] = dpi >> 8;
+      jfif.bytes[15] = dpi & 0xff;
+    }
+
+    const added: Uint8Array[] = [];
+    if (options.icc) {
+      added.push(...ImageEncoder.iccSegments(options.icc));
+    }
+    const comment = Object.entries(options.text ?? {}).map(([key, value]) => `${key}: ${value}`).join('\n');
+    if (comment) {
+      added.push(ImageEncoder.jpegSegment(0xfe, ImageEncoder.asciiBytes(comment)));
+    }
+
+    return ImageEncoder.concat([
+      jpeg.subarray(0, 2),
+      ...kept.map(segment => segment.bytes),
+      ...added,
+      jpeg.subarray(offset),
+    ]);
+  }
+
+  // ===== TIFF =====
+
+  // Baseline RGB(A) TIFF, one PackBits strip per row; alpha is unassociated
+  public static encodeTIFF(rgba: Uint8Array, width: number, height: number, options: RasterOptions): Uint8Array {
+    const samples = options.alpha ? 4 : 3;
+    const strips: Uint8Array[] = [];
+    const row = new Uint8Array(width * samples);
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        for (let c = 0; c < samples; c++) {
+          row[x * samples + c] = rgba[(y * width + x) * 4 + c];
+        }
+      }
+      strips.push(encodePackBits(row));
+    }
+
+    const dpi = Math.round(options.dpi ?? 72);
+    const entries: TIFFEntry[] = [
+      { tag: 256, type: TIFF_LONG, values: [width] },
+      { tag: 257, type: TIFF_LONG, values: [height] },
+      { tag: 258, type: TIFF_SHORT, values: new Array(samples).fill(8) },
+      { tag: 259, type: TIFF_SHORT, values: [32773] }, // PackBits
+      { tag: 262, type: TIFF_SHORT, values: [2] }, // RGB
+      { tag: 273, type: TIFF_LONG, values: strips.map(() => 0) }, // filled in below
+      { tag: 277, type: TIFF_SHORT, values: [samples] },
+      { tag: 278, type: TIFF_LONG, values: [1] },
+      { tag: 279, type: TIFF_LONG, values: strips.map(strip => strip.length) },
+      { tag: 282, type: TIFF_RATIONAL, values: [dpi, 1] },
+      { tag: 283, type: TIFF_RATIONAL, values: [dpi, 1] },
+      { tag: 284, type: TIFF_SHORT, values: [1] },
+      { tag: 296, type: TIFF_SHORT, values: [2] }, // inches
+    ];
+    if (options.software) {
+      entries.push({ tag: 305, type: TIFF_ASCII, values: ImageEncoder.asciiBytes(`${options.software}\0`) });
+    }
+    if (options.alpha) {
+      entries.push({ tag: 338, type: TIFF_SHORT, values: [2] });
+    }
+    if (options.icc) {
+      entries.push({ tag: 34675, type: TIFF_UNDEFINED, values: options.icc });
+    }
+    entries.sort((a, b) => a.tag - b.tag);
+
+    // Header, IFD, out-of-line values, then strips
+    const ifdSize = 2 + entries.length * 12 + 4;
+    const valueSizes = entries.map(entry => {
+      const size = ImageEncoder.tiffValueSize(entry);
+      return size > 4 ? size + (size % 2) : 0;
+    });
+    let stripOffset = 8 + ifdSize + valueSizes.reduce((total, size) => total + size, 0);
+    const stripOffsets = entries.find(entry => entry.tag === 273)!;
+    stripOffsets.values = strips.map(strip => {
+      const start = stripOffset;
+      stripOffset += strip.length;
+      return start;
+    });
+
+    const writer = new BinaryWriter(stripOffset);
+    writer.writeAscii('MM');
+    writer.writeUint16(42);
+    writer.writeUint32(8);
+
+    writer.writeUint16(entries.length);
+    let valueOffset = 8 + ifdSize;
+    entries.forEach((entry, i) => {
+      writer.writeUint16(entry.tag);
+      writer.writeUint16(entry.type);
+      writer.writeUint32(entry.values.length / (entry.type === TIFF_RATIONAL ? 2 : 1));
+      if (valueSizes[i] > 0) {
+        writer.writeUint32(valueOffset);
+        valueOffset += valueSizes[i];
+      } else {
+        const start = writer.position;
+        ImageEncoder.writeTIFFValues(writer, entry);
+        writer.writeZeros(4 - (writer.position - start));
+      }
+    });
+    writer.writeUint32(0); // no further IFDs
+
+    entries.forEach((entry, i) => {
+      if (valueSizes[i] === 0) return;
+      ImageEncoder.writeTIFFValues(writer, entry);
+      writer.pad(2);
+    });
+    strips.forEach(strip => writer.writeBytes(strip));
+
+    return writer.toBytes();
+  }
+
+  // ===== PDF =====
+
+  // One page showing the image at `pageWidth` x `pageHeight` points
+  public static encodePDF(rgba: Uint8Array, width: number, height: number, options: PDFOptions): Uint8Array {
+    const count = width * height;
+    const rgb = new Uint8Array(count * 3);
+    const alpha = options.alpha ? new Uint8Array(count) : null;
+    for (let i = 0; i < count; i++) {
+      rgb[i * 3] = rgba[i * 4];
+      rgb[i * 3 + 1] = rgba[i * 4 + 1];
+      rgb[i * 3 + 2] = rgba[i * 4 + 2];
+      if (alpha) alpha[i] = rgba[i * 4 + 3];
+    }
+
+    const pageWidth = ImageEncoder.pdfNumber(options.pageWidth);
+    const pageHeight = ImageEncoder.pdfNumber(options.pageHeight);
+    const objects: Uint8Array[] = [];
+    const add = (object: Uint8Array) => {
+      objects.push(object);
+    };
+    const reference = (id: number) => `${id} 0 R`;
+
+    // Numbers are fixed up front so objects can refer forward
+    const catalogId = 1;
+    const pagesId = 2;
+    const pageId = 3;
+    const contentsId = 4;
+    const imageId = 5;
+    const profileId = options.icc ? 6 : 0;
+    const maskId = alpha ? (options.icc ? 7 : 6) : 0;
+
+    add(ImageEncoder.pdfObject(catalogId, `<< /Type /Catalog /Pages ${reference(pagesId)} >>`));
+    add(ImageEncoder.pdfObject(pagesId, `<< /Type /Pages /Kids [${reference(pageId)}] /Count 1 >>`));
+    add(ImageEncoder.pdfObject(
+      pageId,
+      `<< /Type /Page /Parent ${reference(pagesId)} /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /XObject << /Im0 ${reference(imageId)} >> >> /Contents ${reference(contentsId)} >>`
+    ));
+    add(ImageEncoder.pdfStream(
+      contentsId,
+      '',
+      ImageEncoder.asciiBytes(`q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`)
+    ));
+
+    const colorSpace = options.icc ? `[/ICCBased ${reference(profileId)}]` : '/DeviceRGB';
+    const mask = alpha ? ` /SMask ${reference(maskId)}` : '';
+    add(ImageEncoder.pdfStream(
+      imageId,
+      `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace ${colorSpace} ` +
+      `/BitsPerComponent 8 /Filter /FlateDecode${mask}`,
+      zlibSync(rgb, { level: 6 })
+    ));
+    if (options.icc) {
+      add(ImageEncoder.pdfStream(profileId, '/N 3 /Alternate /DeviceRGB /Filter /FlateDecode', zlibSync(options.icc)));
+    }
+    if (alpha) {
+      add(ImageEncoder.pdfStream(
+        maskId,
+        `/Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceGray ` +
+        '/BitsPerComponent 8 /Filter /FlateDecode',
+        zlibSync(alpha, { level: 6 })
+      ));
+    }
+
+    const infoId = objects.length + 1;
+    const info = [
+      options.title ? `/Title ${ImageEncoder.pdfString(options.title)}` : '',
+      options.software ? `/Producer ${ImageEncoder.pdfString(options.software)}` : '',
+    ].filter(Boolean).join(' ');
+    add(ImageEncoder.pdfObject(infoId, `<< ${info} >>`));
+
+    const header = ImageEncoder.concat([
+      ImageEncoder.asciiBytes('%PDF-1.4\n%'),
+      Uint8Array.from([0xe2, 0xe3, 0xcf, 0xd3, 0x0a]),
+    ]);
+    const offsets: number[] = [];
+    let position = header.length;
+    objects.forEach(object => {
+      offsets.push(position);
+      position += object.length;
+    });
+
+    const xref = [
+      'xref',
+      `0 ${objects.length + 1}`,
+      '0000000000 65535 f ',
+      ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+      'trailer',
+      `<< /Size ${objects.length + 1} /Root ${reference(catalogId)} /Info ${reference(infoId)} >>`,
+      'startxref',
+      String(position),
+      '%%EOF',
+      '',
+    ].join('\n');
+
+    return ImageEncoder.concat([header, ...objects, ImageEncoder.asciiBytes(xref)]);
+  }
+
+  // ===== PRIVATE: ICC =====
+
+  private static toFixed(value: number): number {
+    return Math.round(value * 65536);
+  }
+
+  private static xyzTag(xyz: number[]): Uint8Array {
+    const writer = new BinaryWriter(20);
+    writer.writeAscii('XYZ ');
+    writer.writeUint32(0);
+    xyz.forEach(value => writer.writeInt32(ImageEncoder.toFixed(value)));
+    return writer.toBytes();
+  }
+
+  // A pure gamma is stored as one u8Fixed8 value; the sRGB curve as a table
+  private static curveTag(transfer: number | 'srgb'): Uint8Array {
+    const writer = new BinaryWriter(12 + 1024 * 2);
+    writer.writeAscii('curv');
+    writer.writeUint32(0);
+
+    if (transfer !== 'srgb') {
+      writer.writeUint32(1);
+      writer.writeUint16(Math.round(transfer * 256));
+      return writer.toBytes();
+    }
+
+    const entries = 1024;
+    writer.writeUint32(entries);
+    for (let i = 0; i < entries; i++) {
+      const x = i / (entries - 1);
+      const linear = x <= 0.04045 ? x / 12.92 : Math.pow((x + 0.055) / 1.055, 2.4);
+      writer.writeUint16(Math.round(linear * 65535));
+    }
+    return writer.toBytes();
+  }
+
+  private static descriptionTag(description: string): Uint8Array {
+    const writer = new BinaryWriter(90 + description.length);
+    writer.writeAscii('desc');
+    writer.writeUint32(0);
+    writer.writeUint32(description.length + 1);
+    writer.writeAscii(description);
+    writer.writeUint8(0);
+    writer.writeUint32(0); // Unicode language
+    writer.writeUint32(0); // Unicode count
+    writer.writeUint16(0); // ScriptCode code
+    writer.writeUint8(0); // ScriptCode count
+    writer.writeZeros(67);
+    return writer.toBytes();
+  }
+
+  private static textTag(text: string): Uint8Array {
+    const writer = new BinaryWriter(9 + text.length);
+    writer.writeAscii('text');
+    writer.writeUint32(0);
+    writer.writeAscii(text);
+    writer.writeUint8(0);
+    return writer.toBytes();
+  }
+
+  // ===== PRIVATE: PNG =====
+
+  private static readPNGChunks(png: Uint8Array): Array<{ type: string; bytes: Uint8Array }> {
+    const chunks: Array<{ type: string; bytes: Uint8Array }> = [];
+    let offset = PNG_SIGNATURE.length;
+
+    while (offset + 12 <= png.length) {
+      const length = ((png[offset] << 24) >>> 0) + (png[offset + 1] << 16) + (png[offset + 2] << 8) + png[offset + 3];
+      const type = String.fromCharCode(png[offset + 4], png[offset + 5], png[offset + 6], png[offset + 7]);
+      chunks.push({ type, bytes: png.subarray(offset, offset + 12 + length) });
+      offset += 12 + length;
+      if (type === 'IEND') break;
+    }
+    return chunks;
+  }
+
+  private static pngChunk(type: string, data: Uint8Array): Uint8Array {
+    const writer = new BinaryWriter(12 + data.length);
+    writer.writeUint32(data.length);
+    writer.writeAscii(type);
+    writer.writeBytes(data);
+    const bytes = writer.toBytes();
+
+    const crc = crc32(bytes.subarray(4, 8 + data.length));
+    const output = ImageEncoder.concat([bytes, new Uint8Array(4)]);
+    new DataView(output.buffer).setUint32(output.length - 4, crc);
+    return output;
+  }
+
+  // ===== PRIVATE: JPEG =====
+
+  private static isICCSegment(segment: { marker: number; bytes: Uint8Array }): boolean {
+    return segment.marker === 0xe2 && ImageEncoder.startsWith(segment.bytes, 4, 'ICC_PROFILE');
+  }
+
+  // APP2 segments hold at most 65519 bytes of profile each
+  private static iccSegments(icc: Uint8Array): Uint8Array[] {
+    const chunkSize = 65519;
+    const count = Math.ceil(icc.length / chunkSize);
+    const segments: Uint8Array[] = [];
+
+    for (let i = 0; i < count; i++) {
+      const header = ImageEncoder.concat([ImageEncoder.asciiBytes('ICC_PROFILE\0'), Uint8Array.from([i + 1, count])]);
+      segments.push(ImageEncoder.jpegSegment(0xe2, ImageEncoder.concat([header, icc.subarray(i * chunkSize, (i + 1) * chunkSize)])));
+    }
+    return segments;
+  }
+
+  private static jpegSegment(marker: number, data: Uint8Array): Uint8Array {
+    const writer = new BinaryWriter(4 + data.length);
+    writer.writeUint8(0xff);
+    writer.writeUint8(marker);
+    writer.writeUint16(data.length + 2);
+    writer.writeBytes(data);
+    return writer.toBytes();
+  }
+
+  // ===== PRIVATE: TIFF =====
+
+  private static tiffValueSize(entry: TIFFEntry): number {
+    switch (entry.type) {
+      case TIFF_SHORT:
+        return entry.values.length * 2;
+      case TIFF_LONG:
+      case TIFF_RATIONAL:
+        return entry.values.length * 4;
+      default:
+        return entry.values.length;
+    }
+  }
+
+  private static writeTIFFValues(writer: BinaryWriter, entry: TIFFEntry): void {
+    if (entry.values instanceof Uint8Array) {
+      writer.writeBytes(entry.values);
+      return;
+    }
+    entry.values.forEach(value => {
+      if (entry.type === TIFF_SHORT) writer.writeUint16(value);
+      else if (entry.type === TIFF_LONG || entry.type === TIFF_RATIONAL) writer.writeUint32(value);
+      else writer.writeUint8(value);
+    });
+  }
+
+  // ===== PRIVATE: PDF =====
+
+  private static pdfObject(id: number, body: string): Uint8Array {
+    return ImageEncoder.asciiBytes(`${id} 0 obj\n${body}\nendobj\n`);
+  }
+
+  private static pdfStream(id: number, dictionary: string, data: Uint8Array): Uint8Array {
+    return ImageEncoder.concat([
+      ImageEncoder.asciiBytes(`${id} 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+      data,
+      ImageEncoder.asciiBytes('\nendstream\nendobj\n'),
+    ]);
+  }
+
+  // Literal string; characters outside Latin-1 are dropped
+  private static pdfString(text: string): string {
+    const escaped = text
+      .replace(/[^\x20-\xff]/g, '')
+      .replace(/([\\()])/g, '\\$1');
+    return `(${escaped})`;
+  }
+
+  private static pdfNumber(value: number): string {
+    return String(Math.round(value * 100) / 100);
+  }
+
+  // ===== PRIVATE: BYTES =====
+
+  private static startsWith(bytes: Uint8Array, offset: number, text: string): boolean {
+    for (let i = 0; i < text.length; i++) {
+      if (bytes[offset + i] !== text.charCodeAt(i)) return false;
+    }
+    return true;
+  }
+
+  private static asciiBytes(text: string): Uint8Array {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+      const code = text.charCodeAt(i);
+      bytes[i] = code < 256 ? code : 0x3f;
+    }
+    return bytes;
+  }
+
+  private static concat(parts: Uint8Array[]): Uint8Array {
+    const output = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+    let offset = 0;
+    parts.forEach(part => {
+      output.set(part, offset);
+      offset += part.length;
+    });
+    return output;
+  }
+}
+
+// ===== HELPERS =====
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+const TIFF_ASCII = 2;
+const TIFF_SHORT = 3;
+const TIFF_LONG = 4;
+const TIFF_RATIONAL = 5;
+const TIFF_UNDEFINED = 7;
+
+// ===== TYPES =====
+
+export type ICCSpace = 'srgb' | 'display-p3' | 'adobe-rgb';
+
+interface ICCSpaceDefinition {
+  description: string;
+  red: number[];
+  green: number[];
+  blue: number[];
+  transfer: number | 'srgb'; // Gamma, or the sRGB piecewise curve
+}
+
+export interface EmbedOptions {
+  icc?: Uint8Array;
+  dpi?: number;
+  text?: Record<string, string>;
+}
+
+export interface RasterOptions {
+  alpha: boolean;
+  icc?: Uint8Array;
+  dpi?: number;
+  software?: string;
+}
+
+export interface PDFOptions extends RasterOptions {
+  pageWidth: number; // Points
+  pageHeight: number;
+  title?: string;
+}
+
+interface TIFFEntry {
+  tag: number;
+  type: number;
+  values: number[] | Uint8Array; // Rationals as numerator/denominator pairs
+}
@@ -0,0 +1,241 @@
+// src/engines/drawing/LayerEffects.ts
+import { LayerEffect } from '../../types/drawing';
+import { CompatSkia, SkImage } from './SkiaCompatibility';
+import {
+  SkRuntimeEffect,
+  TileMode,
+  FilterMode,
+  MipmapMode,
+} from '@shopify/react-native-skia';
+
+/**
+ * Layer Effect Renderer
+ * Runs a layer's enabled effects in order over its pixels. Blur is a Skia image
+ * filter; noise, chromatic aberration, halftone and glitch are runtime shaders.
+ */
+export class LayerEffectRenderer {
+  private static instance: LayerEffectRenderer;
+
+  private readonly SHADER_SOURCES: Partial<Record<LayerEffect['type'], string>> = {
+    noise: NOISE_SKSL,
+    'chromatic-aberration': CHROMATIC_ABERRATION_SKSL,
+    halftone: HALFTONE_SKSL,
+    glitch: GLITCH_SKSL,
+  };
+
+  private effects: Map<LayerEffect['type'], SkRuntimeEffect> = new Map();
+
+  private constructor() {}
+
+  public static getInstance(): LayerEffectRenderer {
+    if (!LayerEffectRenderer.instance) {
+      LayerEffectRenderer.instance = new LayerEffectRenderer();
+    }
+    return LayerEffectRenderer.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public createEffect(type: LayerEffect['type'], settings: Record<string, any> = {}): LayerEffect {
+    return {
+      id: `effect_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      enabled: true,
+      settings: { ...this.getDefaultSettings(type), ...settings },
+    };
+  }
+
+  public getDefaultSettings(type: LayerEffect['type']): Record<string, any> {
+    switch (type) {
+      case 'blur':
+        return { radius: 8 };
+      case 'noise':
+        return { amount: 0.15, monochrome: true, seed: 1 };
+      case 'chromatic-aberration':
+        return { offset: 4, angle: 0 };
+      case 'halftone':
+        return { cellSize: 8, angle: 45, mode: 'color' };
+      case 'glitch':
+        return { amount: 0.3, blockSize: 12, seed: 1 };
+      default:
+        return {};
+    }
+  }
+
+  // Perspective and liquify are edits rather than filters, so they have no renderer here
+  public isRenderable(effect: LayerEffect): boolean {
+    return effect.enabled && (effect.type === 'blur' || effect.type in this.SHADER_SOURCES);
+  }
+
+  public render(image: SkImage, effects: LayerEffect[]): SkImage {
+    return effects.reduce((current, effect) => {
+      if (!this.isRenderable(effect)) return current;
+
+      try {
+        return this.renderEffect(current, effect) ?? current;
+      } catch (error) {
+        console.error(`Failed to render ${effect.type} effect:`, error);
+        return current;
+      }
+    }, image);
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private renderEffect(image: SkImage, effect: LayerEffect): SkImage | null {
+    const width = image.width();
+    const height = image.height();
+    const surface = CompatSkia.Surface.Make(width, height);
+    if (!surface) return null;
+
+    const canvas = surface.getCanvas();
+    const paint = CompatSkia.Paint();
+    const settings = { ...this.getDefaultSettings(effect.type), ...effect.settings };
+
+    if (effect.type === 'blur') {
+      const sigma = Math.max(0, settings.radius) / 2;
+      if (sigma === 0) return image;
+      paint.setImageFilter(CompatSkia.ImageFilter.MakeBlur(sigma, sigma, TileMode.Decal, null));
+      canvas.drawImage(image, 0, 0, paint);
+      return surface.makeImageSnapshot();
+    }
+
+    const runtimeEffect = this.getRuntimeEffect(effect.type);
+    if (!runtimeEffect) return null;
+
+    const child = image.makeShaderOptions(TileMode.Decal, TileMode.Decal, FilterMode.Linear, MipmapMode.None);
+    paint.setShader(runtimeEffect.makeShaderWithChildren(this.getUniforms(effect.type, settings, width), [child]));
+    canvas.drawRect(CompatSkia.XYWHRect(0, 0, width, height), paint);
+    return surface.makeImageSnapshot();
+  }
+
+  // Uniform order must match each shader's declarations
+  private getUniforms(type: LayerEffect['type'], settings: Record<string, any>, width: number): number[] {
+    const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+    switch (type) {
+      case 'noise':
+        return [settings.amount, settings.monochrome ? 1 : 0, settings.seed];
+      case 'chromatic-aberration':
+        return [
+          Math.cos(radians(settings.angle)) * settings.offset,
+          Math.sin(radians(settings.angle)) * settings.offset,
+        ];
+      case 'halftone':
+        return [Math.max(2, settings.cellSize), radians(settings.angle), settings.mode === 'mono' ? 1 : 0];
+      case 'glitch':
+        return [Math.max(0, Math.min(1, settings.amount)), Math.max(1, settings.blockSize), settings.seed, width];
+      default:
+        return [];
+    }
+  }
+
+  private getRuntimeEffect(type: LayerEffect['type']): SkRuntimeEffect | null {
+    const cached = this.effects.get(type);
+    if (cached) return cached;
+
+    const source = this.SHADER_SOURCES[type];
+    const effect = source ? CompatSkia.RuntimeEffect.Make(source) : null;
+    if (effect) {
+      this.effects.set(type, effect);
+    }
+    return effect;
+  }
+}
+
+// ===== SHADERS =====
+// All shaders read and write premultiplied colour.
+
+const NOISE_SKSL = `
+uniform shader image;
+uniform float amount;
+uniform float monochrome;
+uniform float seed;
+
+float hash(float2 p) {
+  return fract(sin(dot(p, float2(12.9898, 78.233)) + seed) * 43758.5453);
+}
+
+half4 main(float2 xy) {
+  half4 color = image.eval(xy);
+  if (color.a <= 0.0) {
+    return color;
+  }
+  float2 cell = floor(xy);
+  half3 noise = monochrome > 0.5
+    ? half3(hash(cell))
+    : half3(hash(cell), hash(cell + 17.0), hash(cell + 43.0));
+  half3 rgb = clamp(color.rgb / color.a + (noise - 0.5) * amount, 0.0, 1.0);
+  return half4(rgb * color.a, color.a);
+}
+`;
+
+const CHROMATIC_ABERRATION_SKSL = `
+uniform shader image;
+uniform float2 offset;
+
+half4 main(float2 xy) {
+  half4 color = image.eval(xy);
+  half4 red = image.eval(xy + offset);
+  half4 blue = image.eval(xy - offset);
+  return half4(red.r, color.g, blue.b, max(color.a, max(red.a, blue.a)));
+}
+`;
+
+// Dots on a rotated grid, sized by coverage (color) or darkness (mono)
+const HALFTONE_SKSL = `
+uniform shader image;
+uniform float cellSize;
+uniform float angle;
+uniform float mono;
+
+half4 main(float2 xy) {
+  float s = sin(angle);
+  float c = cos(angle);
+  float2 rotated = float2(c * xy.x + s * xy.y, -s * xy.x + c * xy.y);
+  float2 cellCenter = (floor(rotated / cellSize) + 0.5) * cellSize;
+  float2 center = float2(c * cellCenter.x - s * cellCenter.y, s * cellCenter.x + c * cellCenter.y);
+
+  half4 sample = image.eval(center);
+  if (sample.a <= 0.0) {
+    return half4(0.0);
+  }
+  half3 rgb = sample.rgb / sample.a;
+  half luma = dot(rgb, half3(0.2126, 0.7152, 0.0722));
+  half level = mono > 0.5 ? (1.0 - luma) * sample.a : sample.a;
+
+  float radius = sqrt(level) * cellSize * 0.7071;
+  half coverage = clamp(radius - distance(rotated, cellCenter) + 0.5, 0.0, 1.0);
+  half3 ink = mono > 0.5 ? half3(0.0) : rgb;
+  return half4(ink * coverage, coverage);
+}
+`;
+
+// Random horizontal band shifts with an RGB split
+const GLITCH_SKSL = `
+uniform shader image;
+uniform float amount;
+uniform float blockSize;
+uniform float seed;
+uniform float width;
+
+float hash(float n) {
+  return fract(sin(n * 12.9898 + seed) * 43758.5453);
+}
+
+half4 main(float2 xy) {
+  float band = floor(xy.y / blockSize);
+  float roll = hash(band);
+  float shift = roll > 1.0 - amount ? (hash(band + 7.0) - 0.5) * amount * width * 0.2 : 0.0;
+  float2 p = float2(xy.x + shift, xy.y);
+  float split = amount * 6.0 * roll;
+
+  half4 color = image.eval(p);
+  half4 red = image.eval(p + float2(split, 0.0));
+  half4 blue = image.eval(p - float2(split, 0.0));
+  return half4(red.r, color.g, blue.b, max(color.a, max(red.a, blue.a)));
+}
+`;
+
+// Export singleton instance
+export const layerEffectRenderer = LayerEffectRenderer.getInstance();
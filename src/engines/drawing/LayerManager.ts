@@ -5,11 +5,24 @@ import {
     BlendMode,
     LayerType,
     LayerGroup,
+    GroupBlendMode,
+    LayerTreeNode,
     ClippingMask,
     LayerEffect,
     LayerTransform,
+    LayerMask,
+    LayerAdjustment,
+    AdjustmentType,
+    Bounds,
+    Brush,
+    LayerStackState,
+    VectorStroke,
+    TextLayer,
   } from '../../types/drawing';
   import { valkyrieEngine } from './ValkyrieEngine';
+  import { brushEngine } from './BrushEngine';
+  import { adjustmentManager } from './Adjustments';
+  import { pixelHistory, PixelPatch, PatchSide } from './PixelHistory';
   import { EventBus } from '../core/EventBus';
   import { dataManager } from '../core/DataManager';
   import { 
@@ -17,8 +30,10 @@ import {
     SkImage,
     ColorType,
     AlphaType,
+    BlendMode as SkiaBlendMode,
   } from '@shopify/react-native-skia';
   import { CompatSkia } from './SkiaCompatibility';
+  import { SeededRandom, getStrokeSeed } from './SeededRandom';
   
   /**
    * Layer Manager - Procreate-level layer system
@@ -30,9 +45,11 @@ import {
     
     // Layer management
     private layers: Map<string, Layer> = new Map();
-    private layerOrder: string[] = [];
+    private rootOrder: string[] = []; // Top-level layer and group ids, bottom to top
+    private layerOrder: string[] = []; // Every layer in the tree, flattened bottom to top
     private currentLayerId: string | null = null;
     private layerGroups: Map<string, LayerGroup> = new Map();
+    private maskEditingLayerId: string | null = null;
     
     // Canvas properties
     private canvasWidth = 0;
@@ -94,6 +111,31 @@ import {
       type: LayerType = 'raster',
       options: Partial<Layer> = {}
     ): Layer {
+      const layer = this.addLayer(name, type, options);
+      const layerId = layer.id;
+      
+      // Insert above the current layer, inside its group
+      const parentId = this.currentLayerId ? this.getParentId(this.currentLayerId) : null;
+      const siblings = this.getChildIds(parentId);
+      const insertIndex = this.currentLayerId && siblings.includes(this.currentLayerId)
+        ? siblings.indexOf(this.currentLayerId) + 1
+        : siblings.length;
+      
+      this.attachNode(layerId, parentId, insertIndex);
+      
+      // Record history
+      this.recordHistory({
+        type: 'create',
+        layerId,
+        data: { layer, parentId, index: insertIndex },
+      });
+      
+      this.eventBus.emit('layer:created', { layer });
+      return layer;
+    }
+  
+    // Builds a layer and its surface, outside the tree and without recording history
+    private addLayer(name: string, type: LayerType, options: Partial<Layer>): Layer {
       if (this.layers.size >= this.MAX_LAYERS) {
         throw new Error(`Maximum layer limit (${this.MAX_LAYERS}) reached`);
       }
@@ -108,8 +150,10 @@ import {
         opacity: 1,
         blendMode: 'normal',
         locked: false,
+        alphaLock: false,
         clippingMask: false,
         maskLayerId: null,
+        mask: null,
         groupId: null,
         strokes: [],
         transform: {
@@ -124,59 +168,86 @@ import {
         ...options,
       };
       
+      // Adjustment layers have no pixels of their own
+      if (type === 'adjustment' && !layer.adjustment) {
+        layer.adjustment = adjustmentManager.createDefault('curves');
+      }
+
+      // Vector layers redraw their pixels from these paths
+      if (type === 'vector' && !layer.vectorStrokes) {
+        layer.vectorStrokes = [];
+      }
+
       // Create surface for layer
-      const surface = valkyrieEngine.createLayerSurface(layerId, this.canvasWidth, this.canvasHeight);
+      if (type !== 'adjustment') {
+        valkyrieEngine.createLayerSurface(layerId, this.canvasWidth, this.canvasHeight);
+      }
       
       // Add to layers
       this.layers.set(layerId, layer);
+      return layer;
+    }
+  
+    // Layers that start out with pixels (duplicates, text, imported SVG) call this once
+    // they are drawn, so redoing the creation brings the content back, not a blank surface
+    public recordCreatedContent(layerId: string): void {
+      const entry = this.history[this.historyIndex];
+      const layer = this.layers.get(layerId);
+      if (!entry || entry.type !== 'create' || entry.layerId !== layerId || !layer) return;
+      
+      entry.patches?.forEach(patch => pixelHistory.release(patch));
+      const created = this.captureRemovedLayer(layer);
+      entry.data = created;
+      entry.patches = this.getRemovedLayerPatches(created);
+    }
+  
+    public createAdjustmentLayer(type: AdjustmentType, name?: string): Layer {
+      return this.createLayer(name ?? this.getAdjustmentName(type), 'adjustment', {
+        adjustment: adjustmentManager.createDefault(type),
+      });
+    }
+  
+    // Parameters stay editable; each edit is one undo step
+    public updateLayerAdjustment(layerId: string, changes: Partial<LayerAdjustment>): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer || !layer.adjustment || layer.locked) return false;
+      if (changes.type && changes.type !== layer.adjustment.type) return false;
       
-      // Insert at top of order
-      const insertIndex = this.currentLayerId 
-        ? this.layerOrder.indexOf(this.currentLayerId) + 1
-        : this.layerOrder.length;
+      const oldAdjustment = layer.adjustment;
+      layer.adjustment = { ...oldAdjustment, ...changes } as LayerAdjustment;
       
-      this.layerOrder.splice(insertIndex, 0, layerId);
+      // Invalidate cache
+      this.invalidateLayerCache(layerId);
       
       // Record history
       this.recordHistory({
-        type: 'create',
+        type: 'property',
         layerId,
-        data: { layer },
+        data: {
+          property: 'adjustment',
+          oldValue: oldAdjustment,
+          newValue: layer.adjustment,
+        },
       });
       
-      this.eventBus.emit('layer:created', { layer });
-      return layer;
+      this.eventBus.emit('layer:updated', { layer, property: 'adjustment' });
+      return true;
     }
   
     public deleteLayer(layerId: string): boolean {
       const layer = this.layers.get(layerId);
       if (!layer || this.layers.size === 1) return false; // Keep at least one layer
       
-      // Remove from order
-      const index = this.layerOrder.indexOf(layerId);
-      if (index !== -1) {
-        this.layerOrder.splice(index, 1);
-      }
-      
-      // Update current layer if needed
-      if (this.currentLayerId === layerId) {
-        this.currentLayerId = this.layerOrder[Math.max(0, index - 1)] || null;
-      }
-      
-      // Release surface
-      valkyrieEngine.releaseLayerSurface(layerId);
-      
-      // Remove from cache
-      this.layerCache.delete(layerId);
-      
-      // Remove layer
-      this.layers.delete(layerId);
+      // Keep the pixels so undo can bring them back
+      const removed = this.captureRemovedLayer(layer);
+      this.removeLayer(layerId);
       
       // Record history
       this.recordHistory({
         type: 'delete',
         layerId,
-        data: { layer, index },
+        data: removed,
+        patches: this.getRemovedLayerPatches(removed),
       });
       
       this.eventBus.emit('layer:deleted', { layerId });
@@ -199,6 +270,14 @@ import {
         }
       );
       
+      // Place the copy directly above the original, in the same group
+      this.detachNode(duplicatedLayer.id);
+      this.attachNode(
+        duplicatedLayer.id,
+        sourceLayer.groupId,
+        this.getChildIds(sourceLayer.groupId).indexOf(layerId) + 1
+      );
+      
       // Copy layer content
       const sourceSurface = valkyrieEngine.getLayerSurface(layerId);
       const destSurface = valkyrieEngine.getLayerSurface(duplicatedLayer.id);
@@ -211,12 +290,40 @@ import {
         canvas.drawImage(sourceImage, 0, 0, paint);
       }
       
+      // Copy mask
+      const sourceMaskSurface = sourceLayer.mask ? valkyrieEngine.getLayerSurface(sourceLayer.mask.id) : null;
+      if (sourceLayer.mask && sourceMaskSurface) {
+        const mask: LayerMask = { ...sourceLayer.mask, id: this.generateMaskId() };
+        this.createMaskSurface(mask.id, sourceMaskSurface.makeImageSnapshot());
+        duplicatedLayer.mask = mask;
+      }
+      
       // Copy strokes
       duplicatedLayer.strokes = sourceLayer.strokes.map(stroke => ({
         ...stroke,
         id: `${stroke.id}_copy`,
         layerId: duplicatedLayer.id,
       }));
+      if (sourceLayer.vectorStrokes) {
+        duplicatedLayer.vectorStrokes = sourceLayer.vectorStrokes.map(stroke => ({ ...stroke, id: `${stroke.id}_copy` }));
+      }
+      
+      // Text settings live on the layer itself
+      if (sourceLayer.type === 'text') {
+        const { text, font, color, boxWidth, alignment, lineHeight, letterSpacing, textTransform } = sourceLayer as TextLayer;
+        Object.assign(duplicatedLayer, {
+          text,
+          font: { ...font },
+          color: { ...color },
+          boxWidth,
+          alignment,
+          lineHeight,
+          letterSpacing,
+          textTransform,
+        });
+      }
+      
+      this.recordCreatedContent(duplicatedLayer.id);
       
       this.eventBus.emit('layer:duplicated', { 
         sourceId: layerId, 
@@ -226,12 +333,14 @@ import {
       return duplicatedLayer;
     }
   
+    // Merges into the layer directly below within the same group
     public mergeLayerDown(layerId: string): boolean {
-      const index = this.layerOrder.indexOf(layerId);
+      const siblings = this.getChildIds(this.getParentId(layerId));
+      const index = siblings.indexOf(layerId);
       if (index <= 0) return false; // Can't merge bottom layer
       
       const topLayer = this.layers.get(layerId);
-      const bottomLayerId = this.layerOrder[index - 1];
+      const bottomLayerId = siblings[index - 1];
       const bottomLayer = this.layers.get(bottomLayerId);
       
       if (!topLayer || !bottomLayer) return false;
@@ -243,29 +352,49 @@ import {
       if (!topSurface || !bottomSurface) return false;
       
       // Merge top layer into bottom
-      const topImage = topSurface.makeImageSnapshot();
+      bottomSurface.flush();
+      const bottomBefore = bottomSurface.makeImageSnapshot();
       const canvas = bottomSurface.getCanvas();
       const paint = CompatSkia.Paint();
       
       paint.setAlphaf(topLayer.opacity);
       paint.setBlendMode(valkyrieEngine.getSkiaBlendMode(topLayer.blendMode));
       
-      canvas.drawImage(topImage, 0, 0, paint);
+      valkyrieEngine.drawLayerImage(canvas, topLayer, paint);
+      bottomSurface.flush();
+      
+      const bottomPatch = pixelHistory.createPatch(
+        { x: 0, y: 0, width: bottomSurface.width(), height: bottomSurface.height() },
+        bottomBefore,
+        bottomSurface.makeImageSnapshot()
+      );
+      this.invalidateLayerCache(bottomLayerId);
       
       // Merge strokes
-      bottomLayer.strokes.push(...topLayer.strokes.map(stroke => ({
-        ...stroke,
-        layerId: bottomLayerId,
-      })));
+      const oldStrokes = bottomLayer.strokes;
+      bottomLayer.strokes = [
+        ...oldStrokes,
+        ...topLayer.strokes.map(stroke => ({ ...stroke, layerId: bottomLayerId })),
+      ];
+      
+      // Merged pixels can't be redrawn from paths or text, so a vector or text layer underneath becomes raster
+      const oldType = bottomLayer.type;
+      const oldVectorStrokes = oldType === 'vector' ? bottomLayer.vectorStrokes ?? [] : null;
+      if (oldType === 'vector' || oldType === 'text') {
+        bottomLayer.type = 'raster';
+        delete bottomLayer.vectorStrokes;
+      }
       
-      // Delete top layer
-      this.deleteLayer(layerId);
+      // Remove top layer; undo restores it along with the bottom pixels
+      const top = this.captureRemovedLayer(topLayer);
+      this.removeLayer(layerId);
       
       // Record history
       this.recordHistory({
         type: 'merge',
         layerId: bottomLayerId,
-        data: { topLayer, bottomLayer },
+        data: { top, bottomPatch, oldStrokes, newStrokes: bottomLayer.strokes, oldType, oldVectorStrokes },
+        patches: [bottomPatch, ...this.getRemovedLayerPatches(top)],
       });
       
       this.eventBus.emit('layers:merged', { 
@@ -349,6 +478,28 @@ import {
       return true;
     }
   
+    public setAlphaLock(layerId: string, alphaLock: boolean): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer) return false;
+      
+      const oldAlphaLock = layer.alphaLock;
+      layer.alphaLock = alphaLock;
+      
+      // Record history
+      this.recordHistory({
+        type: 'property',
+        layerId,
+        data: {
+          property: 'alphaLock',
+          oldValue: oldAlphaLock,
+          newValue: alphaLock,
+        },
+      });
+      
+      this.eventBus.emit('layer:updated', { layer, property: 'alphaLock' });
+      return true;
+    }
+  
     public renameLayer(layerId: string, name: string): boolean {
       const layer = this.layers.get(layerId);
       if (!layer) return false;
@@ -371,31 +522,54 @@ import {
       return true;
     }
   
+    // Indices are positions in the flattened stack (getAllLayers). The moved layer
+    // lands next to the layer at `toIndex` and joins that layer's group.
     public reorderLayers(fromIndex: number, toIndex: number): boolean {
       if (fromIndex < 0 || fromIndex >= this.layerOrder.length ||
           toIndex < 0 || toIndex >= this.layerOrder.length) {
         return false;
       }
+      if (fromIndex === toIndex) return true;
+      
+      const layerId = this.layerOrder[fromIndex];
+      const targetId = this.layerOrder[toIndex];
+      const before = this.captureTree();
       
-      const [layerId] = this.layerOrder.splice(fromIndex, 1);
-      this.layerOrder.splice(toIndex, 0, layerId);
+      this.detachNode(layerId);
+      const parentId = this.getParentId(targetId);
+      const targetIndex = this.getChildIds(parentId).indexOf(targetId);
+      this.attachNode(layerId, parentId, toIndex > fromIndex ? targetIndex + 1 : targetIndex);
       
       // Invalidate cache for affected layers
       for (let i = Math.min(fromIndex, toIndex); i <= Math.max(fromIndex, toIndex); i++) {
         this.invalidateLayerCache(this.layerOrder[i]);
       }
       
-      // Record history
-      this.recordHistory({
-        type: 'reorder',
-        layerId,
-        data: { fromIndex, toIndex },
-      });
+      this.recordTreeChange(layerId, before);
       
       this.eventBus.emit('layers:reordered', { fromIndex, toIndex });
       return true;
     }
   
+    // Moves a layer or a whole group into `parentId` (null for the top level) at
+    // `index` among its children, bottom to top
+    public moveLayerNode(nodeId: string, parentId: string | null, index: number): boolean {
+      if (!this.hasNode(nodeId)) return false;
+      if (parentId && (!this.layerGroups.has(parentId) || parentId === nodeId || this.isWithinGroup(parentId, nodeId))) {
+        return false;
+      }
+      
+      const before = this.captureTree();
+      this.detachNode(nodeId);
+      this.attachNode(nodeId, parentId, index);
+      
+      this.getNodeLayerIds(nodeId).forEach(layerId => this.invalidateLayerCache(layerId));
+      this.recordTreeChange(nodeId, before);
+      
+      this.eventBus.emit('layers:reordered', { nodeId, parentId, index });
+      return true;
+    }
+  
     public setCurrentLayer(layerId: string): boolean {
       if (!this.layers.has(layerId)) return false;
       
@@ -421,6 +595,11 @@ import {
       return this.layerOrder.map(id => this.layers.get(id)!).filter(Boolean);
     }
   
+    // What the compositor draws: top-level layers and groups with their children
+    public getLayerTree(): LayerTreeNode[] {
+      return this.buildTree(this.rootOrder);
+    }
+  
     public getLayer(layerId: string): Layer | null {
       return this.layers.get(layerId) || null;
     }
@@ -434,18 +613,20 @@ import {
       const layer = this.layers.get(layerId);
       if (!layer) return false;
       
-      const index = this.layerOrder.indexOf(layerId);
+      const siblings = this.getChildIds(layer.groupId);
+      const index = siblings.indexOf(layerId);
       if (index <= 0) return false; // Can't clip to nothing below
       
       layer.clippingMask = enable;
       
       if (enable) {
-        // Find base layer (first non-clipping layer below)
+        // Find base layer (first non-clipping layer below in the same group)
         let baseLayerId: string | null = null;
         for (let i = index - 1; i >= 0; i--) {
-          const checkLayer = this.layers.get(this.layerOrder[i]);
-          if (checkLayer && !checkLayer.clippingMask) {
-            baseLayerId = this.layerOrder[i];
+          const checkLayer = this.layers.get(siblings[i]);
+          if (!checkLayer) break;
+          if (!checkLayer.clippingMask) {
+            baseLayerId = siblings[i];
             break;
           }
         }
@@ -462,52 +643,341 @@ import {
       return true;
     }
   
-    // Layer groups
-    public createLayerGroup(name: string = 'New Group', layerIds: string[] = []): LayerGroup {
-      const groupId = `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    // Layer a clipped layer is clipped to, or null when it isn't clipped
+    public getClippingBase(layerId: string): Layer | null {
+      const layer = this.layers.get(layerId);
+      if (!layer || !layer.clippingMask || !layer.maskLayerId) return null;
+      return this.layers.get(layer.maskLayerId) || null;
+    }
+  
+    // Layer masks
+    public addLayerMask(layerId: string, fill: 'reveal' | 'hide' = 'reveal'): LayerMask | null {
+      const layer = this.layers.get(layerId);
+      if (!layer || layer.mask) return null;
+      
+      const mask: LayerMask = { id: this.generateMaskId(), enabled: true, inverted: false };
+      const color = fill === 'reveal' ? '#ffffff' : '#000000';
+      this.createMaskSurface(mask.id, color);
+      layer.mask = mask;
+      
+      // Invalidate cache
+      this.invalidateLayerCache(layerId);
+      
+      // Record history
+      this.recordHistory({
+        type: 'mask',
+        layerId,
+        data: { action: 'add', mask: { ...mask }, fill: color },
+      });
+      
+      this.eventBus.emit('layer:maskAdded', { layer, mask });
+      return mask;
+    }
+  
+    public deleteLayerMask(layerId: string): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer || !layer.mask) return false;
+      
+      const mask = layer.mask;
+      const maskSurface = valkyrieEngine.getLayerSurface(mask.id);
+      const content = maskSurface ? pixelHistory.captureSurface(maskSurface) : null;
+      this.detachMask(layer);
+      
+      // Record history
+      this.recordHistory({
+        type: 'mask',
+        layerId,
+        data: { action: 'delete', mask: { ...mask }, content },
+        patches: content ? [content] : [],
+      });
+      
+      this.eventBus.emit('layer:maskDeleted', { layerId });
+      return true;
+    }
+  
+    // Bakes the mask into the layer's pixels and removes it
+    public applyLayerMask(layerId: string): boolean {
+      const layer = this.layers.get(layerId);
+      const layerSurface = valkyrieEngine.getLayerSurface(layerId);
+      const maskSurface = layer?.mask ? valkyrieEngine.getLayerSurface(layer.mask.id) : null;
+      if (!layer || !layer.mask || layer.locked || !layerSurface || !maskSurface) return false;
+      
+      const mask = layer.mask;
+      const image = maskSurface.makeImageSnapshot();
+      const content = pixelHistory.captureSurface(maskSurface);
+      layerSurface.flush();
+      const before = layerSurface.makeImageSnapshot();
+      
+      // A disabled mask has no visible effect, so applying it just discards it
+      if (mask.enabled) {
+        const maskPaint = CompatSkia.Paint();
+        maskPaint.setBlendMode(SkiaBlendMode.DstIn);
+        maskPaint.setColorFilter(valkyrieEngine.createMaskFilter(mask.inverted));
+        layerSurface.getCanvas().drawImage(image, 0, 0, maskPaint);
+        layerSurface.flush();
+      }
+      
+      const patch = pixelHistory.createPatch(
+        { x: 0, y: 0, width: layerSurface.width(), height: layerSurface.height() },
+        before,
+        layerSurface.makeImageSnapshot()
+      );
+      this.detachMask(layer);
+      this.invalidateLayerCache(layerId);
+      
+      // Record history
+      this.recordHistory({
+        type: 'mask',
+        layerId,
+        data: { action: 'apply', mask: { ...mask }, content, patch },
+        patches: [content, patch],
+      });
+      
+      this.eventBus.emit('layer:maskApplied', { layerId });
+      return true;
+    }
+  
+    public setLayerMaskEnabled(layerId: string, enabled: boolean): boolean {
+      return this.updateLayerMask(layerId, { enabled });
+    }
+  
+    public setLayerMaskInverted(layerId: string, inverted: boolean): boolean {
+      return this.updateLayerMask(layerId, { inverted });
+    }
+  
+    public getLayerMaskSurface(layerId: string): SkSurface | null {
+      const mask = this.layers.get(layerId)?.mask;
+      return mask ? valkyrieEngine.getLayerSurface(mask.id) : null;
+    }
+  
+    // While editing, brush strokes on the layer go to its mask instead
+    public setMaskEditing(layerId: string, editing: boolean): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer || (editing && !layer.mask)) return false;
+      
+      this.maskEditingLayerId = editing ? layerId : null;
+      this.eventBus.emit('layer:maskEditing', { layerId, editing });
+      return true;
+    }
+  
+    public isEditingMask(layerId: string): boolean {
+      return this.maskEditingLayerId === layerId;
+    }
+  
+    // Paints a stroke onto the layer's mask in the gray matching its color's lightness
+    public paintMaskStroke(stroke: Stroke, brush: Brush): boolean {
+      const layer = this.layers.get(stroke.layerId);
+      const surface = this.getLayerMaskSurface(stroke.layerId);
+      if (!layer || layer.locked || !surface || stroke.points.length === 0) return false;
       
+      try {
+        const bounds = this.getStrokeBounds(stroke, brush, surface.width(), surface.height());
+        if (!bounds) return false;
+        const rect = CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height);
+        
+        const { r, g, b } = stroke.color.rgb;
+        const level = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+        const hex = `#${level.toString(16).padStart(2, '0').repeat(3)}`;
+        const gray = {
+          hex,
+          rgb: { r: level, g: level, b: level },
+          hsb: { h: 0, s: 0, b: (level / 255) * 100 },
+          alpha: stroke.color.alpha,
+        };
+        
+        const before = surface.makeImageSnapshot(rect);
+        const random = new SeededRandom(getStrokeSeed(stroke));
+        const paint = brushEngine.createBrushPaint(brush, gray, stroke.points[0], null, 0, () => random.next());
+        valkyrieEngine.rasterizeStroke({ ...stroke, color: gray }, surface, paint, brush);
+        const after = surface.makeImageSnapshot(rect);
+        
+        this.recordPixelChange(stroke.layerId, bounds, before, after, 'mask');
+        return true;
+      } catch (error) {
+        console.error('Failed to paint layer mask:', error);
+        return false;
+      }
+    }
+  
+    // Stroke extent padded for the largest dab, clamped to the surface
+    public getStrokeBounds(stroke: Stroke, brush: Brush, width: number, height: number): Bounds | null {
+      const scatter = (brush.shape.settings.scatter ?? 0) / 100;
+      const pad = Math.ceil(brush.settings.general.sizeMax * (1 + scatter) + 2);
+      const xs = stroke.points.map(point => point.x);
+      const ys = stroke.points.map(point => point.y);
+      
+      const left = Math.max(0, Math.floor(Math.min(...xs) - pad));
+      const top = Math.max(0, Math.floor(Math.min(...ys) - pad));
+      const right = Math.min(width, Math.ceil(Math.max(...xs) + pad));
+      const bottom = Math.min(height, Math.ceil(Math.max(...ys) + pad));
+      if (right <= left || bottom <= top) return null;
+      
+      return { x: left, y: top, width: right - left, height: bottom - top };
+    }
+  
+    // Layer groups
+    // `nodeIds` may name layers and groups; the new group takes the place of the topmost one
+    public createLayerGroup(name: string = 'New Group', nodeIds: string[] = []): LayerGroup {
+      const groupId = this.generateGroupId();
+      
+      // Nodes inside another selected group move along with it
+      const selected = this.sortByStack(nodeIds.filter(id => this.hasNode(id)))
+        .filter((id, _, ids) => !ids.some(other => other !== id && this.isWithinGroup(id, other)));
+      const anchorId = selected[selected.length - 1] ?? this.currentLayerId;
+      const parentId = anchorId ? this.getParentId(anchorId) : null;
+      const siblings = this.getChildIds(parentId);
+      const index = anchorId && siblings.includes(anchorId) ? siblings.indexOf(anchorId) + 1 : siblings.length;
+      
+      const before = this.captureTree();
       const group: LayerGroup = {
         id: groupId,
         name,
-        layerIds,
+        parentId,
+        children: [],
         expanded: true,
         visible: true,
         opacity: 1,
-        blendMode: 'normal',
+        blendMode: 'pass-through',
       };
       
       this.layerGroups.set(groupId, group);
+      this.attachNode(groupId, parentId, index);
       
-      // Update layers to reference group
-      layerIds.forEach(layerId => {
-        const layer = this.layers.get(layerId);
-        if (layer) {
-          layer.groupId = groupId;
-        }
+      selected.forEach(nodeId => {
+        this.detachNode(nodeId);
+        this.attachNode(nodeId, groupId, group.children.length);
       });
       
+      this.getNodeLayerIds(groupId).forEach(layerId => this.invalidateLayerCache(layerId));
+      this.recordTreeChange(groupId, before);
+      
       this.eventBus.emit('group:created', { group });
       return group;
     }
   
+    // Removes the group, leaving its children in its place
     public ungroupLayers(groupId: string): boolean {
       const group = this.layerGroups.get(groupId);
       if (!group) return false;
       
-      // Remove group reference from layers
-      group.layerIds.forEach(layerId => {
-        const layer = this.layers.get(layerId);
-        if (layer) {
-          layer.groupId = null;
-        }
-      });
+      const before = this.captureTree();
+      const children = [...group.children];
+      const parentId = group.parentId;
+      const index = this.detachNode(groupId);
       
+      children.forEach((nodeId, i) => {
+        this.attachNode(nodeId, parentId, index + i);
+      });
       this.layerGroups.delete(groupId);
       
+      children.forEach(nodeId => {
+        this.getNodeLayerIds(nodeId).forEach(layerId => this.invalidateLayerCache(layerId));
+      });
+      this.recordTreeChange(groupId, before);
+      
       this.eventBus.emit('group:deleted', { groupId });
       return true;
     }
   
+    public getLayerGroup(groupId: string): LayerGroup | null {
+      return this.layerGroups.get(groupId) || null;
+    }
+  
+    public getLayerGroups(): LayerGroup[] {
+      return Array.from(this.layerGroups.values());
+    }
+  
+    // Hidden groups hide everything inside them
+    public setGroupVisibility(groupId: string, visible: boolean): boolean {
+      return this.setGroupProperty(groupId, 'visible', visible);
+    }
+  
+    public setGroupOpacity(groupId: string, opacity: number): boolean {
+      return this.setGroupProperty(groupId, 'opacity', Math.max(0, Math.min(1, opacity)));
+    }
+  
+    public setGroupBlendMode(groupId: string, blendMode: GroupBlendMode): boolean {
+      return this.setGroupProperty(groupId, 'blendMode', blendMode);
+    }
+  
+    public renameGroup(groupId: string, name: string): boolean {
+      return this.setGroupProperty(groupId, 'name', name);
+    }
+  
+    // Collapse state is view-only, so it isn't an undo step
+    public setGroupExpanded(groupId: string, expanded: boolean): boolean {
+      const group = this.layerGroups.get(groupId);
+      if (!group) return false;
+      
+      group.expanded = expanded;
+      
+      this.eventBus.emit('group:updated', { group, property: 'expanded' });
+      return true;
+    }
+  
+    // Copies the group and everything in it, placed directly above the original
+    public duplicateLayerGroup(groupId: string): LayerGroup | null {
+      const group = this.layerGroups.get(groupId);
+      if (!group) return null;
+      
+      const before = this.captureTree();
+      const index = this.getChildIds(group.parentId).indexOf(groupId) + 1;
+      const copy = this.duplicateGroupInto(group, group.parentId, index, `${group.name} Copy`);
+      
+      this.recordTreeChange(copy.id, before);
+      
+      this.eventBus.emit('group:duplicated', { sourceId: groupId, group: copy });
+      return copy;
+    }
+  
+    // Flattens the group into one raster layer that keeps its opacity, blend mode and visibility
+    public mergeLayerGroup(groupId: string): Layer | null {
+      const group = this.layerGroups.get(groupId);
+      if (!group) return null;
+      
+      const before = this.captureTree();
+      const index = this.getChildIds(group.parentId).indexOf(groupId);
+      const layerIds = this.getNodeLayerIds(groupId);
+      
+      const merged = this.addLayer(group.name, 'raster', {
+        visible: group.visible,
+        opacity: group.opacity,
+        blendMode: group.blendMode === 'pass-through' ? 'normal' : group.blendMode,
+      });
+      this.attachNode(merged.id, group.parentId, index);
+      this.eventBus.emit('layer:created', { layer: merged });
+      
+      const surface = valkyrieEngine.getLayerSurface(merged.id);
+      if (surface) {
+        valkyrieEngine.flattenLayers(this.buildTree(group.children), surface);
+      }
+      
+      // Merged strokes keep their order
+      merged.strokes = layerIds.flatMap(layerId =>
+        (this.layers.get(layerId)?.strokes ?? []).map(stroke => ({ ...stroke, layerId: merged.id }))
+      );
+      
+      const children = layerIds.map(layerId => this.captureRemovedLayer(this.layers.get(layerId)!));
+      layerIds.forEach(layerId => {
+        this.removeLayer(layerId);
+        this.eventBus.emit('layer:deleted', { layerId });
+      });
+      this.removeGroupTree(groupId);
+      this.currentLayerId = merged.id;
+      
+      // One undo step: the children with their pixels, the merged layer with its pixels, and the tree around them
+      const mergedLayer = this.captureRemovedLayer(merged);
+      this.recordHistory({
+        type: 'mergeGroup',
+        layerId: merged.id,
+        data: { before, after: this.captureTree(), children, merged: mergedLayer },
+        patches: [...children, mergedLayer].flatMap(removed => this.getRemovedLayerPatches(removed)),
+      });
+      
+      this.eventBus.emit('group:merged', { groupId, layer: merged });
+      return merged;
+    }
+  
     // Layer transforms
     public transformLayer(layerId: string, transform: Partial<LayerTransform>): boolean {
       const layer = this.layers.get(layerId);
@@ -522,15 +992,12 @@ import {
       return true;
     }
   
-    // Layer effects
+    // Layer effects, rendered in list order during compositing
     public addLayerEffect(layerId: string, effect: LayerEffect): boolean {
       const layer = this.layers.get(layerId);
       if (!layer) return false;
       
-      layer.effects.push(effect);
-      
-      // Invalidate cache
-      this.invalidateLayerCache(layerId);
+      this.setLayerEffects(layer, [...layer.effects, effect]);
       
       this.eventBus.emit('layer:effectAdded', { layer, effect });
       return true;
@@ -543,15 +1010,42 @@ import {
       const index = layer.effects.findIndex(e => e.id === effectId);
       if (index === -1) return false;
       
-      layer.effects.splice(index, 1);
-      
-      // Invalidate cache
-      this.invalidateLayerCache(layerId);
+      this.setLayerEffects(layer, layer.effects.filter(e => e.id !== effectId));
       
       this.eventBus.emit('layer:effectRemoved', { layer, effectId });
       return true;
     }
   
+    public setLayerEffectEnabled(layerId: string, effectId: string, enabled: boolean): boolean {
+      return this.updateLayerEffect(layerId, effectId, effect => ({ ...effect, enabled }));
+    }
+  
+    public updateLayerEffectSettings(layerId: string, effectId: string, settings: Record<string, any>): boolean {
+      return this.updateLayerEffect(layerId, effectId, effect => ({
+        ...effect,
+        settings: { ...effect.settings, ...settings },
+      }));
+    }
+  
+    public reorderLayerEffect(layerId: string, effectId: string, newIndex: number): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer) return false;
+      
+      const index = layer.effects.findIndex(e => e.id === effectId);
+      if (index === -1) return false;
+      
+      const target = Math.max(0, Math.min(layer.effects.length - 1, newIndex));
+      if (target === index) return true;
+      
+      const effects = [...layer.effects];
+      const [effect] = effects.splice(index, 1);
+      effects.splice(target, 0, effect);
+      this.setLayerEffects(layer, effects);
+      
+      this.eventBus.emit('layer:effectsReordered', { layer, effectId, index: target });
+      return true;
+    }
+  
     // Stroke management
     public addStroke(stroke: Stroke): void {
       const layer = this.layers.get(stroke.layerId);
@@ -598,12 +1092,18 @@ import {
       
       const oldStrokes = [...layer.strokes];
       layer.strokes = [];
+      const oldVectorStrokes = layer.vectorStrokes;
+      if (oldVectorStrokes) {
+        layer.vectorStrokes = [];
+      }
       
       // Clear surface
       const surface = valkyrieEngine.getLayerSurface(layerId);
+      const content = surface ? pixelHistory.captureSurface(surface) : null;
       if (surface) {
         const canvas = surface.getCanvas();
         canvas.clear(CompatSkia.Color('transparent'));
+        surface.flush();
       }
       
       // Invalidate cache
@@ -613,30 +1113,116 @@ import {
       this.recordHistory({
         type: 'clear',
         layerId,
-        data: { strokes: oldStrokes },
+        data: { strokes: oldStrokes, content, vectorStrokes: oldVectorStrokes },
+        patches: content ? [content] : [],
       });
       
       this.eventBus.emit('layer:cleared', { layerId });
       return true;
     }
   
-    // History management
-    public undo(): boolean {
-      if (this.historyIndex < 0) return false;
+    // Pixel edits made directly on a layer (or its mask) surface: retouching, erasing, mask painting.
+    // `before` and `after` cover `bounds` in surface pixels.
+    public recordPixelChange(
+      layerId: string,
+      bounds: Bounds,
+      before: SkImage,
+      after: SkImage,
+      target: PixelTarget = 'layer'
+    ): void {
+      const layer = this.layers.get(layerId);
+      if (!layer) return;
       
-      const entry = this.history[this.historyIndex];
-      this.applyHistoryEntry(entry, true);
+      // Invalidate cache
+      this.invalidateLayerCache(layerId);
       
-      this.historyIndex--;
-      this.eventBus.emit('history:undo', { entry });
+      // Record history
+      const patch = pixelHistory.createPatch(bounds, before, after);
+      this.recordHistory({
+        type: 'pixels',
+        layerId,
+        data: { patch, target },
+        patches: [patch],
+      });
+      
+      this.eventBus.emit('layer:pixelsChanged', { layerId, bounds, target });
+    }
+  
+    // Vector edits: the caller has replaced `vectorStrokes` and redrawn the layer;
+    // `patch` holds the redrawn pixels so undo doesn't have to render again
+    public recordVectorChange(layerId: string, before: VectorStroke[], patch: PixelPatch | null): void {
+      const layer = this.layers.get(layerId);
+      if (!layer) return;
+      
+      // Invalidate cache
+      this.invalidateLayerCache(layerId);
+      
+      // Record history
+      this.recordHistory({
+        type: 'vector',
+        layerId,
+        data: { before, after: layer.vectorStrokes ?? [], patch },
+        patches: patch ? [patch] : [],
+      });
+      
+      this.eventBus.emit('layer:vectorChanged', { layerId, bounds: patch?.bounds ?? null });
+    }
+  
+    // Text edits: the caller has already applied `after` to the layer and redrawn it.
+    // `before` and `after` hold only the fields that changed.
+    public recordTextChange(
+      layerId: string,
+      before: Partial<TextLayer>,
+      after: Partial<TextLayer>,
+      patch: PixelPatch | null
+    ): void {
+      const layer = this.layers.get(layerId);
+      if (!layer) return;
+      
+      // Invalidate cache
+      this.invalidateLayerCache(layerId);
+      
+      // Record history
+      this.recordHistory({
+        type: 'text',
+        layerId,
+        data: { before, after, patch },
+        patches: patch ? [patch] : [],
+      });
+      
+      this.eventBus.emit('layer:textChanged', { layerId, bounds: patch?.bounds ?? null });
+    }
+  
+    // Selection edits live in SelectionManager; the entry only carries them through undo/redo.
+    // `patch` holds the selection mask pixels, or is null when they didn't change (deselect).
+    public recordSelectionChange(before: unknown, after: unknown, patch: PixelPatch | null): void {
+      this.recordHistory({
+        type: 'selection',
+        layerId: this.currentLayerId ?? '',
+        data: { before, after, patch },
+        patches: patch ? [patch] : [],
+      });
+    }
+  
+    // History management
+    public undo(): boolean {
+      if (this.historyIndex < 0) return false;
+      
+      const entry = this.history[this.historyIndex];
+      this.eventBus.emit('history:willUndo', { entry });
+      this.applyHistoryEntry(entry, true);
+      
+      this.historyIndex--;
+      this.eventBus.emit('history:undo', { entry });
       return true;
     }
   
     public redo(): boolean {
       if (this.historyIndex >= this.history.length - 1) return false;
       
+      const entry = this.history[this.historyIndex + 1];
+      this.eventBus.emit('history:willRedo', { entry });
       this.historyIndex++;
-      const entry = this.history[this.historyIndex];
       this.applyHistoryEntry(entry, false);
       
       this.eventBus.emit('history:redo', { entry });
@@ -671,6 +1257,7 @@ import {
         canvasHeight: this.canvasHeight,
         layers: [],
         groups: Array.from(this.layerGroups.values()),
+        rootOrder: [...this.rootOrder],
         order: [...this.layerOrder],
       };
       
@@ -678,11 +1265,11 @@ import {
         const layer = this.layers.get(layerId);
         if (!layer) continue;
         
+        // Adjustment layers are parameters only
         const surface = valkyrieEngine.getLayerSurface(layerId);
-        if (!surface) continue;
+        if (!surface && layer.type !== 'adjustment') continue;
         
-        const image = surface.makeImageSnapshot();
-        const imageData = image.encodeToBase64();
+        const imageData = surface?.makeImageSnapshot().encodeToBase64();
         
         exportData.layers.push({
           ...layer,
@@ -702,11 +1289,6 @@ import {
         this.canvasWidth = data.canvasWidth;
         this.canvasHeight = data.canvasHeight;
         
-        // Restore groups
-        data.groups.forEach(group => {
-          this.layerGroups.set(group.id, group);
-        });
-        
         // Restore layers
         for (const layerData of data.layers) {
           const { imageData, ...layerProps } = layerData;
@@ -731,8 +1313,19 @@ import {
           }
         }
         
-        // Restore order
-        this.layerOrder = data.order.filter(id => this.layers.has(id));
+        // Restore groups and order
+        data.groups.forEach(group => {
+          if (Array.isArray(group.children)) {
+            this.layerGroups.set(group.id, { ...group, children: [...group.children] });
+          }
+        });
+        this.rootOrder = (data.rootOrder ?? data.order).filter(id => this.hasNode(id));
+        this.layers.forEach(layer => {
+          if (layer.groupId && !this.layerGroups.has(layer.groupId)) {
+            layer.groupId = null;
+          }
+        });
+        this.rebuildLayerOrder();
         
         this.eventBus.emit('layers:imported', { count: this.layers.size });
         return true;
@@ -742,6 +1335,50 @@ import {
       }
     }
   
+    // Documents: the stack without pixels, and a stack restored with its ids intact
+    public getStackState(): LayerStackState {
+      return {
+        canvasWidth: this.canvasWidth,
+        canvasHeight: this.canvasHeight,
+        layers: this.layerOrder
+          .map(layerId => this.layers.get(layerId))
+          .filter((layer): layer is Layer => !!layer)
+          .map(layer => ({ ...layer, strokes: [...layer.strokes] })),
+        groups: Array.from(this.layerGroups.values()).map(group => ({ ...group, children: [...group.children] })),
+        rootOrder: [...this.rootOrder],
+        currentLayerId: this.currentLayerId,
+      };
+    }
+  
+    // Replaces everything, including history. Layers start transparent and masks
+    // start revealed; the caller draws the saved pixels in.
+    public loadStackState(state: LayerStackState): void {
+      this.clear();
+      this.canvasWidth = state.canvasWidth;
+      this.canvasHeight = state.canvasHeight;
+      
+      state.layers.forEach(layer => {
+        this.layers.set(layer.id, { ...layer, strokes: [...layer.strokes] });
+        if (layer.type !== 'adjustment') {
+          valkyrieEngine.createLayerSurface(layer.id, this.canvasWidth, this.canvasHeight);
+        }
+        if (layer.mask) {
+          this.createMaskSurface(layer.mask.id, '#ffffff');
+        }
+      });
+      state.groups.forEach(group => {
+        this.layerGroups.set(group.id, { ...group, children: [...group.children] });
+      });
+      
+      this.rootOrder = state.rootOrder.filter(id => this.hasNode(id));
+      this.rebuildLayerOrder();
+      this.currentLayerId = state.currentLayerId && this.layers.has(state.currentLayerId)
+        ? state.currentLayerId
+        : this.layerOrder[this.layerOrder.length - 1] ?? null;
+      
+      this.eventBus.emit('layers:imported', { count: this.layers.size });
+    }
+  
     // Memory management
     public getMemoryUsage(): MemoryUsage {
       let totalBytes = 0;
@@ -774,7 +1411,7 @@ import {
       // Compact history
       if (this.history.length > this.MAX_HISTORY) {
         const removeCount = this.history.length - this.MAX_HISTORY;
-        this.history.splice(0, removeCount);
+        this.history.splice(0, removeCount).forEach(entry => this.releaseHistoryEntry(entry));
         this.historyIndex = Math.max(0, this.historyIndex - removeCount);
       }
       
@@ -786,7 +1423,7 @@ import {
     private recordHistory(entry: HistoryEntry): void {
       // Remove any entries after current index
       if (this.historyIndex < this.history.length - 1) {
-        this.history.splice(this.historyIndex + 1);
+        this.history.splice(this.historyIndex + 1).forEach(dropped => this.releaseHistoryEntry(dropped));
       }
       
       // Add new entry
@@ -795,7 +1432,7 @@ import {
       
       // Limit history size
       if (this.history.length > this.MAX_HISTORY) {
-        this.history.shift();
+        this.releaseHistoryEntry(this.history.shift()!);
         this.historyIndex--;
       }
     }
@@ -805,43 +1442,71 @@ import {
         case 'create':
           if (isUndo) {
             // Remove created layer
-            this.layers.delete(entry.layerId);
-            const index = this.layerOrder.indexOf(entry.layerId);
-            if (index !== -1) {
-              this.layerOrder.splice(index, 1);
-            }
-            valkyrieEngine.releaseLayerSurface(entry.layerId);
+            this.removeLayer(entry.layerId);
           } else {
-            // Recreate layer
-            const layer = entry.data.layer as Layer;
-            this.layers.set(layer.id, layer);
-            const index = entry.data.index || this.layerOrder.length;
-            this.layerOrder.splice(index, 0, layer.id);
-            valkyrieEngine.createLayerSurface(layer.id, this.canvasWidth, this.canvasHeight);
+            // Recreate layer, with whatever content it was created with
+            this.restoreRemovedLayer({ content: null, maskContent: null, ...entry.data });
           }
           break;
           
         case 'delete':
           if (isUndo) {
-            // Restore deleted layer
-            const layer = entry.data.layer as Layer;
-            const index = entry.data.index as number;
-            this.layers.set(layer.id, layer);
-            this.layerOrder.splice(index, 0, layer.id);
-            valkyrieEngine.createLayerSurface(layer.id, this.canvasWidth, this.canvasHeight);
-            // TODO: Restore layer content
+            this.restoreRemovedLayer(entry.data);
           } else {
             // Re-delete layer
-            this.deleteLayer(entry.layerId);
+            this.removeLayer(entry.layerId);
+            this.eventBus.emit('layer:deleted', { layerId: entry.layerId });
+          }
+          break;
+          
+        case 'merge': {
+          const bottomLayer = this.layers.get(entry.layerId);
+          const bottomSurface = valkyrieEngine.getLayerSurface(entry.layerId);
+          if (!bottomLayer || !bottomSurface) break;
+          
+          bottomLayer.strokes = isUndo ? entry.data.oldStrokes : entry.data.newStrokes;
+          if (entry.data.oldType) {
+            bottomLayer.type = isUndo ? entry.data.oldType : 'raster';
+          }
+          if (entry.data.oldVectorStrokes) {
+            if (isUndo) {
+              bottomLayer.vectorStrokes = entry.data.oldVectorStrokes;
+            } else {
+              delete bottomLayer.vectorStrokes;
+            }
+          }
+          this.restorePixels(entry.layerId, entry.data.bottomPatch, isUndo ? 'before' : 'after');
+          if (isUndo) {
+            this.restoreRemovedLayer(entry.data.top);
+          } else {
+            this.removeLayer(entry.data.top.layer.id);
+            this.eventBus.emit('layer:deleted', { layerId: entry.data.top.layer.id });
           }
           break;
+        }
+          
+        case 'clear': {
+          const clearedLayer = this.layers.get(entry.layerId);
+          if (!clearedLayer) break;
+          
+          clearedLayer.strokes = isUndo ? [...entry.data.strokes] : [];
+          if (entry.data.vectorStrokes) {
+            clearedLayer.vectorStrokes = isUndo ? entry.data.vectorStrokes : [];
+          }
+          if (entry.data.content) {
+            this.restorePixels(entry.layerId, entry.data.content, isUndo ? 'before' : 'after');
+          }
+          this.eventBus.emit(isUndo ? 'layer:updated' : 'layer:cleared', { layerId: entry.layerId });
+          break;
+        }
           
         case 'property':
-          const layer = this.layers.get(entry.layerId);
-          if (layer) {
+          // Groups record their properties the same way
+          const node = this.layers.get(entry.layerId) ?? this.layerGroups.get(entry.layerId);
+          if (node) {
             const { property, oldValue, newValue } = entry.data;
-            (layer as any)[property] = isUndo ? oldValue : newValue;
-            this.invalidateLayerCache(entry.layerId);
+            (node as any)[property] = isUndo ? oldValue : newValue;
+            this.getNodeLayerIds(entry.layerId).forEach(layerId => this.invalidateLayerCache(layerId));
           }
           break;
           
@@ -875,23 +1540,488 @@ import {
           }
           break;
           
-        case 'reorder':
-          const { fromIndex, toIndex } = entry.data;
+        case 'pixels':
+          this.restorePixels(entry.layerId, entry.data.patch, isUndo ? 'before' : 'after', entry.data.target);
+          break;
+          
+        case 'mask':
+          this.applyMaskHistory(entry.layerId, entry.data, isUndo);
+          break;
+          
+        case 'vector': {
+          const vectorLayer = this.layers.get(entry.layerId);
+          if (!vectorLayer) break;
+          
+          vectorLayer.vectorStrokes = isUndo ? entry.data.before : entry.data.after;
+          if (entry.data.patch) {
+            this.restorePixels(entry.layerId, entry.data.patch, isUndo ? 'before' : 'after');
+          }
+          this.eventBus.emit('layer:vectorChanged', { layerId: entry.layerId, bounds: entry.data.patch?.bounds ?? null });
+          break;
+        }
+          
+        case 'text': {
+          const textLayer = this.layers.get(entry.layerId);
+          if (!textLayer) break;
+          
+          const fields = isUndo ? entry.data.before : entry.data.after;
+          Object.assign(textLayer, {
+            ...fields,
+            ...(fields.transform && { transform: { ...fields.transform } }),
+          });
+          if (entry.data.patch) {
+            this.restorePixels(entry.layerId, entry.data.patch, isUndo ? 'before' : 'after');
+          }
+          this.eventBus.emit('layer:textChanged', { layerId: entry.layerId, bounds: entry.data.patch?.bounds ?? null });
+          break;
+        }
+          
+        case 'tree':
+          this.restoreTree(isUndo ? entry.data.before : entry.data.after);
+          break;
+          
+        case 'mergeGroup': {
+          const { before, after, children, merged } = entry.data;
+          // The tree goes back first so each restored layer lands in its group
           if (isUndo) {
-            // Reverse the reorder
-            const [layerId] = this.layerOrder.splice(toIndex, 1);
-            this.layerOrder.splice(fromIndex, 0, layerId);
+            this.removeLayer(merged.layer.id);
+            this.eventBus.emit('layer:deleted', { layerId: merged.layer.id });
+            this.restoreTree(before);
+            children.forEach((child: RemovedLayer) => this.restoreRemovedLayer(child));
           } else {
-            // Re-apply the reorder
-            const [layerId] = this.layerOrder.splice(fromIndex, 1);
-            this.layerOrder.splice(toIndex, 0, layerId);
+            children.forEach((child: RemovedLayer) => {
+              this.removeLayer(child.layer.id);
+              this.eventBus.emit('layer:deleted', { layerId: child.layer.id });
+            });
+            this.restoreTree(after);
+            this.restoreRemovedLayer(merged);
+            this.currentLayerId = merged.layer.id;
           }
           break;
+        }
+          
+        case 'selection':
+          this.eventBus.emit('selection:historyApplied', {
+            state: isUndo ? entry.data.before : entry.data.after,
+            patch: entry.data.patch,
+            side: isUndo ? 'before' : 'after',
+          });
+          break;
       }
     }
   
+    private restorePixels(layerId: string, patch: PixelPatch, side: PatchSide, target: PixelTarget = 'layer'): void {
+      const surface = target === 'mask' ? this.getLayerMaskSurface(layerId) : valkyrieEngine.getLayerSurface(layerId);
+      if (!surface) return;
+      
+      // Spilled tiles are read back first, so this may land a moment later
+      pixelHistory.apply(patch, side, surface, () => {
+        this.invalidateLayerCache(layerId);
+        this.eventBus.emit('layer:pixelsChanged', { layerId, bounds: patch.bounds, target });
+      });
+    }
+  
+    // Layer data, tree position and pixels (layer and mask) needed to undo a removal
+    private captureRemovedLayer(layer: Layer): RemovedLayer {
+      const surface = valkyrieEngine.getLayerSurface(layer.id);
+      const maskSurface = layer.mask ? valkyrieEngine.getLayerSurface(layer.mask.id) : null;
+      
+      return {
+        layer,
+        parentId: layer.groupId,
+        index: this.getChildIds(layer.groupId).indexOf(layer.id),
+        content: surface ? pixelHistory.captureSurface(surface) : null,
+        maskContent: maskSurface ? pixelHistory.captureSurface(maskSurface) : null,
+      };
+    }
+  
+    private getRemovedLayerPatches(removed: RemovedLayer): PixelPatch[] {
+      return [removed.content, removed.maskContent].filter((patch): patch is PixelPatch => !!patch);
+    }
+  
+    // Takes a layer out of the tree and frees its surfaces, without recording history
+    private removeLayer(layerId: string): void {
+      const layer = this.layers.get(layerId);
+      if (!layer) return;
+      
+      // Remove from the tree
+      const flatIndex = this.layerOrder.indexOf(layerId);
+      this.detachNode(layerId);
+      
+      // Update current layer if needed
+      if (this.currentLayerId === layerId) {
+        this.currentLayerId = this.layerOrder[Math.max(0, flatIndex - 1)] || null;
+      }
+      
+      // Release surface
+      valkyrieEngine.releaseLayerSurface(layerId);
+      if (layer.mask) {
+        valkyrieEngine.releaseLayerSurface(layer.mask.id);
+      }
+      if (this.maskEditingLayerId === layerId) {
+        this.maskEditingLayerId = null;
+      }
+      
+      // Remove from cache
+      this.layerCache.delete(layerId);
+      
+      // Remove layer
+      this.layers.delete(layerId);
+      this.rebuildLayerOrder();
+    }
+  
+    private restoreRemovedLayer(removed: RemovedLayer): void {
+      const { layer, content, maskContent } = removed;
+      
+      this.layers.set(layer.id, layer);
+      this.attachNode(layer.id, removed.parentId, removed.index);
+      
+      if (layer.type !== 'adjustment') {
+        const surface = valkyrieEngine.createLayerSurface(layer.id, this.canvasWidth, this.canvasHeight);
+        surface.getCanvas().clear(CompatSkia.Color('transparent'));
+        if (content) {
+          this.restorePixels(layer.id, content, 'before');
+        }
+      }
+      if (layer.mask) {
+        this.createMaskSurface(layer.mask.id, maskContent ? 'transparent' : '#ffffff');
+        if (maskContent) {
+          this.restorePixels(layer.id, maskContent, 'before', 'mask');
+        }
+      }
+      
+      this.invalidateLayerCache(layer.id);
+      this.eventBus.emit('layer:created', { layer });
+    }
+  
+    private releaseHistoryEntry(entry: HistoryEntry): void {
+      entry.patches?.forEach(patch => pixelHistory.release(patch));
+    }
+  
+    private applyMaskHistory(layerId: string, data: any, isUndo: boolean): void {
+      const layer = this.layers.get(layerId);
+      if (!layer) return;
+      
+      const { action, mask, content } = data;
+      
+      if (action === 'apply') {
+        this.restorePixels(layerId, data.patch, isUndo ? 'before' : 'after');
+      }
+      
+      // Undoing a delete/apply brings the mask back; undoing an add removes it
+      const attach = action === 'add' ? !isUndo : isUndo;
+      if (attach) {
+        this.createMaskSurface(mask.id, content ? 'transparent' : data.fill ?? '#ffffff');
+        layer.mask = { ...mask };
+        if (content) {
+          this.restorePixels(layerId, content, 'before', 'mask');
+        }
+      } else {
+        this.detachMask(layer);
+      }
+      
+      this.invalidateLayerCache(layerId);
+      this.eventBus.emit('layer:updated', { layer, property: 'mask' });
+    }
+  
+    private updateLayerMask(layerId: string, changes: Partial<Omit<LayerMask, 'id'>>): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer || !layer.mask) return false;
+      
+      const oldMask = { ...layer.mask };
+      layer.mask = { ...layer.mask, ...changes };
+      
+      // Invalidate cache
+      this.invalidateLayerCache(layerId);
+      
+      // Record history
+      this.recordHistory({
+        type: 'property',
+        layerId,
+        data: {
+          property: 'mask',
+          oldValue: oldMask,
+          newValue: { ...layer.mask },
+        },
+      });
+      
+      this.eventBus.emit('layer:updated', { layer, property: 'mask' });
+      return true;
+    }
+  
+    private createMaskSurface(maskId: string, content: SkImage | string): SkSurface {
+      const surface = valkyrieEngine.createLayerSurface(maskId, this.canvasWidth, this.canvasHeight);
+      const canvas = surface.getCanvas();
+      
+      if (typeof content === 'string') {
+        canvas.clear(CompatSkia.Color(content));
+      } else {
+        canvas.clear(CompatSkia.Color('transparent'));
+        canvas.drawImage(content, 0, 0);
+      }
+      surface.flush();
+      return surface;
+    }
+  
+    private detachMask(layer: Layer): void {
+      if (!layer.mask) return;
+      
+      valkyrieEngine.releaseLayerSurface(layer.mask.id);
+      layer.mask = null;
+      if (this.maskEditingLayerId === layer.id) {
+        this.maskEditingLayerId = null;
+      }
+      this.invalidateLayerCache(layer.id);
+    }
+  
+    private getAdjustmentName(type: AdjustmentType): string {
+      const names: Record<AdjustmentType, string> = {
+        curves: 'Curves',
+        levels: 'Levels',
+        'hue-saturation': 'Hue/Saturation',
+        'color-balance': 'Color Balance',
+        'gradient-map': 'Gradient Map',
+      };
+      return names[type];
+    }
+  
+    // Effects are replaced rather than mutated, so history entries keep their own copies
+    private updateLayerEffect(
+      layerId: string,
+      effectId: string,
+      update: (effect: LayerEffect) => LayerEffect
+    ): boolean {
+      const layer = this.layers.get(layerId);
+      if (!layer) return false;
+      
+      const index = layer.effects.findIndex(e => e.id === effectId);
+      if (index === -1) return false;
+      
+      const effect = update(layer.effects[index]);
+      this.setLayerEffects(layer, layer.effects.map((e, i) => (i === index ? effect : e)));
+      
+      this.eventBus.emit('layer:effectUpdated', { layer, effect });
+      return true;
+    }
+  
+    private setLayerEffects(layer: Layer, effects: LayerEffect[]): void {
+      const oldEffects = layer.effects;
+      layer.effects = effects;
+      
+      this.recordHistory({
+        type: 'property',
+        layerId: layer.id,
+        data: {
+          property: 'effects',
+          oldValue: oldEffects,
+          newValue: effects,
+        },
+      });
+      
+      this.invalidateLayerCache(layer.id);
+    }
+  
+    // ===== LAYER TREE =====
+  
+    private getParentId(nodeId: string): string | null {
+      return this.layers.get(nodeId)?.groupId ?? this.layerGroups.get(nodeId)?.parentId ?? null;
+    }
+  
+    // The live child list of a group, or the top level for null
+    private getChildIds(parentId: string | null): string[] {
+      return (parentId && this.layerGroups.get(parentId)?.children) || this.rootOrder;
+    }
+  
+    private hasNode(nodeId: string): boolean {
+      return this.layers.has(nodeId) || this.layerGroups.has(nodeId);
+    }
+  
+    private attachNode(nodeId: string, parentId: string | null, index: number): void {
+      const parent = parentId && this.layerGroups.has(parentId) ? parentId : null;
+      const siblings = this.getChildIds(parent);
+      
+      // Restored tree snapshots may already list the node
+      if (!siblings.includes(nodeId)) {
+        siblings.splice(Math.max(0, Math.min(siblings.length, index)), 0, nodeId);
+      }
+      
+      const layer = this.layers.get(nodeId);
+      if (layer) layer.groupId = parent;
+      const group = this.layerGroups.get(nodeId);
+      if (group) group.parentId = parent;
+      
+      this.rebuildLayerOrder();
+    }
+  
+    // Returns the node's former index among its siblings, or -1
+    private detachNode(nodeId: string): number {
+      const siblings = this.getChildIds(this.getParentId(nodeId));
+      const index = siblings.indexOf(nodeId);
+      if (index !== -1) {
+        siblings.splice(index, 1);
+      }
+      
+      this.rebuildLayerOrder();
+      return index;
+    }
+  
+    private rebuildLayerOrder(): void {
+      this.layerOrder = this.flattenLayerIds(this.rootOrder);
+    }
+  
+    private flattenLayerIds(nodeIds: string[]): string[] {
+      return nodeIds.flatMap(nodeId => {
+        if (this.layers.has(nodeId)) return [nodeId];
+        const group = this.layerGroups.get(nodeId);
+        return group ? this.flattenLayerIds(group.children) : [];
+      });
+    }
+  
+    private getNodeLayerIds(nodeId: string): string[] {
+      return this.flattenLayerIds([nodeId]);
+    }
+  
+    private isWithinGroup(nodeId: string, groupId: string): boolean {
+      let parentId = this.getParentId(nodeId);
+      while (parentId) {
+        if (parentId === groupId) return true;
+        parentId = this.layerGroups.get(parentId)?.parentId ?? null;
+      }
+      return false;
+    }
+  
+    // Bottom to top; a group sorts above everything inside it
+    private sortByStack(nodeIds: string[]): string[] {
+      const stack: string[] = [];
+      const walk = (ids: string[]) => ids.forEach(id => {
+        const group = this.layerGroups.get(id);
+        if (group) walk(group.children);
+        stack.push(id);
+      });
+      walk(this.rootOrder);
+      
+      return nodeIds.filter(id => stack.includes(id)).sort((a, b) => stack.indexOf(a) - stack.indexOf(b));
+    }
+  
+    private buildTree(nodeIds: string[]): LayerTreeNode[] {
+      return nodeIds.flatMap<LayerTreeNode>(nodeId => {
+        const layer = this.layers.get(nodeId);
+        if (layer) return [{ type: 'layer', layer }];
+        const group = this.layerGroups.get(nodeId);
+        return group ? [{ type: 'group', group, children: this.buildTree(group.children) }] : [];
+      });
+    }
+  
+    private setGroupProperty<K extends 'name' | 'visible' | 'opacity' | 'blendMode'>(
+      groupId: string,
+      property: K,
+      value: LayerGroup[K]
+    ): boolean {
+      const group = this.layerGroups.get(groupId);
+      if (!group) return false;
+      
+      const oldValue = group[property];
+      group[property] = value;
+      
+      // Invalidate cache
+      this.getNodeLayerIds(groupId).forEach(layerId => this.invalidateLayerCache(layerId));
+      
+      // Record history
+      this.recordHistory({
+        type: 'property',
+        layerId: groupId,
+        data: { property, oldValue, newValue: value },
+      });
+      
+      this.eventBus.emit('group:updated', { group, property });
+      return true;
+    }
+  
+    private duplicateGroupInto(group: LayerGroup, parentId: string | null, index: number, name: string): LayerGroup {
+      const copy: LayerGroup = { ...group, id: this.generateGroupId(), name, parentId, children: [] };
+      this.layerGroups.set(copy.id, copy);
+      this.attachNode(copy.id, parentId, index);
+      
+      group.children.forEach(childId => {
+        const childGroup = this.layerGroups.get(childId);
+        if (childGroup) {
+          this.duplicateGroupInto(childGroup, copy.id, copy.children.length, childGroup.name);
+          return;
+        }
+        
+        const duplicated = this.duplicateLayer(childId);
+        if (duplicated) {
+          this.detachNode(duplicated.id);
+          this.attachNode(duplicated.id, copy.id, copy.children.length);
+        }
+      });
+      
+      return copy;
+    }
+  
+    // Drops a group and the groups nested in it; their layers must already be gone
+    private removeGroupTree(groupId: string): void {
+      this.detachNode(groupId);
+      
+      const remove = (id: string) => {
+        const group = this.layerGroups.get(id);
+        if (!group) return;
+        group.children.forEach(remove);
+        this.layerGroups.delete(id);
+      };
+      remove(groupId);
+      
+      this.rebuildLayerOrder();
+    }
+  
+    private captureTree(): TreeSnapshot {
+      const parents: Record<string, string | null> = {};
+      this.layers.forEach((layer, layerId) => {
+        parents[layerId] = layer.groupId;
+      });
+      
+      return {
+        rootOrder: [...this.rootOrder],
+        groups: Array.from(this.layerGroups.values()).map(group => ({ ...group, children: [...group.children] })),
+        parents,
+      };
+    }
+  
+    private restoreTree(snapshot: TreeSnapshot): void {
+      this.rootOrder = [...snapshot.rootOrder];
+      this.layerGroups = new Map(
+        snapshot.groups.map(group => [group.id, { ...group, children: [...group.children] }])
+      );
+      Object.entries(snapshot.parents).forEach(([layerId, parentId]) => {
+        const layer = this.layers.get(layerId);
+        if (layer) layer.groupId = parentId;
+      });
+      
+      this.rebuildLayerOrder();
+      this.layerOrder.forEach(layerId => this.invalidateLayerCache(layerId));
+    }
+  
+    // Structural edits are undone by swapping whole tree snapshots
+    private recordTreeChange(nodeId: string, before: TreeSnapshot): void {
+      this.recordHistory({
+        type: 'tree',
+        layerId: nodeId,
+        data: { before, after: this.captureTree() },
+      });
+    }
+  
+    private generateGroupId(): string {
+      return `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+  
+    private generateMaskId(): string {
+      return `mask_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    }
+  
+  
     private invalidateLayerCache(layerId: string): void {
       this.layerCache.delete(layerId);
+      valkyrieEngine.invalidateLayerEffects(layerId);
       
       // Also invalidate layers above if they have blend modes or clipping masks
       const index = this.layerOrder.indexOf(layerId);
@@ -933,18 +2063,24 @@ import {
   
     public clear(): void {
       // Release all surfaces
-      this.layers.forEach((_, layerId) => {
+      this.layers.forEach((layer, layerId) => {
         valkyrieEngine.releaseLayerSurface(layerId);
+        if (layer.mask) {
+          valkyrieEngine.releaseLayerSurface(layer.mask.id);
+        }
       });
       
       // Clear data
       this.layers.clear();
+      this.rootOrder = [];
       this.layerOrder = [];
       this.layerGroups.clear();
       this.layerCache.clear();
+      this.history.forEach(entry => this.releaseHistoryEntry(entry));
       this.history = [];
       this.historyIndex = -1;
       this.currentLayerId = null;
+      this.maskEditingLayerId = null;
     }
   
     public cleanup(): void {
@@ -956,12 +2092,29 @@ import {
   // ===== TYPES =====
   
   interface HistoryEntry {
-    type: 'create' | 'delete' | 'property' | 'stroke' | 'merge' | 'clear' | 'reorder';
+    type: 'create' | 'delete' | 'property' | 'stroke' | 'merge' | 'mergeGroup' | 'clear' | 'tree' | 'pixels' | 'mask' | 'vector' | 'text' | 'selection';
     layerId: string;
     data: any;
+    patches?: PixelPatch[]; // Pixel data freed when the entry is dropped
     timestamp?: number;
   }
   
+  interface RemovedLayer {
+    layer: Layer;
+    parentId: string | null;
+    index: number;
+    content: PixelPatch | null;
+    maskContent: PixelPatch | null;
+  }
+  
+  type PixelTarget = 'layer' | 'mask';
+  
+  interface TreeSnapshot {
+    rootOrder: string[];
+    groups: LayerGroup[];
+    parents: Record<string, string | null>; // Layer id -> group id
+  }
+  
   interface LayerCache {
     image: SkImage;
     timestamp: number;
@@ -974,6 +2127,7 @@ import {
     canvasHeight: number;
     layers: Array<Layer & { imageData?: string }>;
     groups: LayerGroup[];
+    rootOrder?: string[]; // Missing from exports made before nested groups
     order: string[];
   }
   
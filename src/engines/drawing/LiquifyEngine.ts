@@ -0,0 +1,623 @@
+// src/engines/drawing/LiquifyEngine.ts
+import {
+  Point,
+  Bounds,
+  LiquifyMode,
+  LiquifySettings,
+} from '../../types/drawing';
+import {
+  CompatSkia,
+  SkImage,
+  SkSurface,
+  SkShader,
+  BlendMode as SkiaBlendMode,
+} from './SkiaCompatibility';
+import {
+  SkPoint,
+  ClipOp,
+  TileMode,
+  FilterMode,
+  MipmapMode,
+  VertexMode,
+} from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+import { layerManager } from './LayerManager';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { selectionManager } from './SelectionManager';
+
+/**
+ * Liquify Engine
+ * Deforms a displacement mesh laid over the current layer and draws the layer through it.
+ * Brushes change the mesh as points arrive; the layer is redrawn once per frame, only
+ * where the mesh moved. A session of strokes commits as one history step.
+ */
+export class LiquifyEngine {
+  private static instance: LiquifyEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly MODES: LiquifyMode[] = ['push', 'twirl-left', 'twirl-right', 'pinch', 'expand', 'reconstruct', 'smooth'];
+  private readonly MIN_SPACING = 8; // Smallest mesh cell, in surface pixels
+  private readonly MAX_CELLS = 160; // Mesh cells along the longest side
+  private readonly MAX_SIZE = 1000;
+  private readonly PUSH_STEP = 0.25; // Push dabs per brush radius of movement
+  private readonly TWIRL_RATE = 2.5; // Radians per second at full pressure
+  private readonly PINCH_RATE = 0.8; // Fraction of the distance to the center per second
+  private readonly RECONSTRUCT_RATE = 2; // Fraction of the displacement removed per second
+  private readonly SMOOTH_RATE = 6;
+  private readonly MAX_FRAME_TIME = 0.05; // Seconds; long frames don't make a held brush jump
+  private readonly GLIDE_DECAY = 0.9; // Push velocity kept per frame at full momentum
+  private readonly GLIDE_STOP = 0.5; // Pixels per frame below which a glide ends
+
+  private settings: LiquifySettings = {
+    mode: 'push',
+    size: 120,
+    pressure: 0.5,
+    momentum: 0,
+  };
+
+  private session: LiquifySession | null = null;
+  private stroke: LiquifyStroke | null = null;
+  private glide: LiquifyStroke | null = null; // Push that carries on after the pen lifts
+  private frameId: number | null = null;
+  private lastFrameTime: number | null = null;
+
+  private constructor() {
+    this.loadSettings();
+
+    // Undo/redo act on recorded history, so uncommitted liquify changes are dropped first
+    this.eventBus.on('history:willUndo', () => this.cancel());
+    this.eventBus.on('history:willRedo', () => this.cancel());
+  }
+
+  public static getInstance(): LiquifyEngine {
+    if (!LiquifyEngine.instance) {
+      LiquifyEngine.instance = new LiquifyEngine();
+    }
+    return LiquifyEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public getSettings(): LiquifySettings {
+    return { ...this.settings };
+  }
+
+  public async setSettings(settings: Partial<LiquifySettings>): Promise<void> {
+    const next = { ...this.settings, ...settings };
+    next.size = Math.max(1, Math.min(this.MAX_SIZE, next.size));
+    next.pressure = Math.max(0, Math.min(1, next.pressure));
+    next.momentum = Math.max(0, Math.min(1, next.momentum));
+    if (!this.MODES.includes(next.mode)) next.mode = this.settings.mode;
+    this.settings = next;
+
+    try {
+      await dataManager.set('liquify_settings', this.settings);
+    } catch (error) {
+      console.error('Failed to save liquify settings:', error);
+    }
+
+    this.eventBus.emit('liquify:settingsChanged', { settings: next });
+  }
+
+  // Lays a fresh mesh over the layer; strokes deform it until commit or cancel
+  public begin(layerId: string | null = layerManager.getCurrentLayerId()): boolean {
+    if (this.session) {
+      this.commit();
+    }
+
+    const layer = layerId ? layerManager.getLayer(layerId) : null;
+    const surface = layerId ? valkyrieEngine.getLayerSurface(layerId) : null;
+    if (!layerId || !layer || layer.locked || layer.type !== 'raster' || !surface) return false;
+
+    try {
+      surface.flush();
+      const before = surface.makeImageSnapshot();
+      const width = surface.width();
+      const height = surface.height();
+      const spacing = Math.max(this.MIN_SPACING, Math.ceil(Math.max(width, height) / this.MAX_CELLS));
+      const columns = Math.ceil(width / spacing) + 1;
+      const rows = Math.ceil(height / spacing) + 1;
+
+      this.session = {
+        layerId,
+        surface,
+        before,
+        shader: this.createShader(before),
+        spacing,
+        columns,
+        rows,
+        dx: new Float32Array(columns * rows),
+        dy: new Float32Array(columns * rows),
+        maxOffset: 0,
+        dirty: null,
+      };
+
+      this.eventBus.emit('liquify:started', { layerId });
+      return true;
+    } catch (error) {
+      console.error('Failed to start liquify:', error);
+      this.session = null;
+      return false;
+    }
+  }
+
+  public isActive(): boolean {
+    return this.session !== null;
+  }
+
+  public beginStroke(point: Point): void {
+    if (!this.session) return;
+
+    this.glide = null;
+    this.stroke = { point, pressure: point.pressure ?? 1, velocity: { x: 0, y: 0 }, time: Date.now() };
+    this.scheduleFrame();
+  }
+
+  // Push moves the mesh with the pen; the other modes work over time under it
+  public addPoints(points: Point[]): void {
+    const stroke = this.stroke;
+    if (!this.session || !stroke) return;
+
+    try {
+      const start = stroke.point;
+      points.forEach(point => {
+        const pressure = point.pressure ?? stroke.pressure;
+        if (this.settings.mode === 'push') {
+          this.push(stroke.point, point, pressure);
+        }
+        stroke.point = point;
+        stroke.pressure = pressure;
+      });
+
+      // Points arrive in batches, so velocity is measured per batch
+      const now = Date.now();
+      const seconds = (now - stroke.time) / 1000;
+      if (seconds > 0) {
+        stroke.velocity = {
+          x: stroke.velocity.x * 0.5 + ((stroke.point.x - start.x) / seconds) * 0.5,
+          y: stroke.velocity.y * 0.5 + ((stroke.point.y - start.y) / seconds) * 0.5,
+        };
+        stroke.time = now;
+      }
+      this.scheduleFrame();
+    } catch (error) {
+      console.error('Failed to apply liquify:', error);
+    }
+  }
+
+  public endStroke(): void {
+    const stroke = this.stroke;
+    this.stroke = null;
+    if (!stroke || !this.session) return;
+
+    if (this.settings.mode === 'push' && this.settings.momentum > 0) {
+      this.glide = stroke;
+    }
+    this.scheduleFrame();
+  }
+
+  // Takes all distortion out again but stays in liquify
+  public reset(): void {
+    const session = this.session;
+    if (!session) return;
+
+    this.stroke = null;
+    this.glide = null;
+    session.dx.fill(0);
+    session.dy.fill(0);
+    session.maxOffset = 0;
+    session.dirty = this.getSurfaceBounds(session.surface);
+    this.render();
+  }
+
+  // Keeps the liquified pixels as one undoable edit
+  public commit(): boolean {
+    const session = this.session;
+    if (!session) return false;
+
+    this.stopFrames();
+    this.render();
+    this.session = null;
+
+    try {
+      const bounds = this.getSurfaceBounds(session.surface);
+      layerManager.recordPixelChange(session.layerId, bounds, session.before, session.surface.makeImageSnapshot());
+
+      this.eventBus.emit('liquify:committed', { layerId: session.layerId });
+      return true;
+    } catch (error) {
+      console.error('Failed to commit liquify:', error);
+      return false;
+    }
+  }
+
+  // Puts the layer back the way it was before liquify started
+  public cancel(): void {
+    const session = this.session;
+    if (!session) return;
+
+    this.stopFrames();
+    this.session = null;
+
+    const canvas = session.surface.getCanvas();
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.drawImage(session.before, 0, 0);
+    session.surface.flush();
+    valkyrieEngine.invalidateLayerEffects(session.layerId);
+
+    this.eventBus.emit('liquify:cancelled', { layerId: session.layerId });
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private scheduleFrame(): void {
+    if (this.frameId !== null) return;
+    this.frameId = requestAnimationFrame(time => {
+      this.frameId = null;
+      this.onFrame(time);
+    });
+  }
+
+  private stopFrames(): void {
+    if (this.frameId !== null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+    }
+    this.lastFrameTime = null;
+    this.stroke = null;
+    this.glide = null;
+  }
+
+  private onFrame(time: number): void {
+    if (!this.session) return;
+
+    const seconds = this.lastFrameTime === null ? 1 / 60 : Math.min(this.MAX_FRAME_TIME, (time - this.lastFrameTime) / 1000);
+    this.lastFrameTime = time;
+
+    try {
+      const stroke = this.stroke;
+      if (stroke && this.settings.mode !== 'push') {
+        this.deform(this.settings.mode, stroke.point, stroke.pressure, seconds);
+      }
+
+      const glide = this.glide;
+      if (glide) {
+        const next = {
+          x: glide.point.x + glide.velocity.x * seconds,
+          y: glide.point.y + glide.velocity.y * seconds,
+        };
+        this.push(glide.point, next, glide.pressure);
+        glide.point = next;
+
+        const decay = this.GLIDE_DECAY * this.settings.momentum;
+        glide.velocity = { x: glide.velocity.x * decay, y: glide.velocity.y * decay };
+        if (Math.hypot(glide.velocity.x, glide.velocity.y) * seconds < this.GLIDE_STOP) {
+          this.glide = null;
+        }
+      }
+
+      this.render();
+    } catch (error) {
+      console.error('Failed to render liquify frame:', error);
+    }
+
+    if (this.stroke || this.glide) {
+      this.scheduleFrame();
+    } else {
+      this.lastFrameTime = null;
+    }
+  }
+
+  // Drags the mesh under the brush from `from` to `to`, in steps small enough not to tear it
+  private push(from: Point, to: Point, pressure: number): void {
+    const distance = Math.hypot(to.x - from.x, to.y - from.y);
+    if (distance === 0) return;
+
+    const steps = Math.max(1, Math.ceil(distance / (this.settings.size * this.PUSH_STEP)));
+    for (let step = 0; step < steps; step++) {
+      const center = {
+        x: from.x + ((to.x - from.x) * step) / steps,
+        y: from.y + ((to.y - from.y) * step) / steps,
+      };
+      this.deform('push', center, pressure, 1, {
+        x: (to.x - from.x) / steps,
+        y: (to.y - from.y) / steps,
+      });
+    }
+  }
+
+  // Moves the mesh points around `center`; `seconds` scales the time-based modes
+  private deform(mode: LiquifyMode, center: Point, pressure: number, seconds: number, delta?: Point): void {
+    const session = this.session;
+    if (!session) return;
+
+    const radius = this.settings.size;
+    const strength = this.settings.pressure * Math.max(0, Math.min(1, pressure));
+    if (strength === 0) return;
+
+    const range = this.getRange(session, center, radius + session.maxOffset);
+    if (!range) return;
+    this.markDirty(session, range);
+
+    const { dx, dy, columns, spacing } = session;
+    const smoothed = mode === 'smooth' ? this.averageNeighbors(session, range) : null;
+
+    for (let row = range.top; row <= range.bottom; row++) {
+      for (let column = range.left; column <= range.right; column++) {
+        const index = row * columns + column;
+        const restX = column * spacing;
+        const restY = row * spacing;
+        const x = restX + dx[index];
+        const y = restY + dy[index];
+        const offsetX = x - center.x;
+        const offsetY = y - center.y;
+        const distance = Math.hypot(offsetX, offsetY);
+        if (distance >= radius) continue;
+
+        // Smooth falloff: full effect at the center, none at the edge
+        const falloff = (1 - (distance / radius) ** 2) ** 2;
+        const amount = strength * falloff;
+
+        switch (mode) {
+          case 'push':
+            if (delta) {
+              dx[index] += delta.x * amount;
+              dy[index] += delta.y * amount;
+            }
+            break;
+
+          case 'twirl-left':
+          case 'twirl-right': {
+            const angle = this.TWIRL_RATE * amount * seconds * (mode === 'twirl-left' ? -1 : 1);
+            const cos = Math.cos(angle);
+            const sin = Math.sin(angle);
+            dx[index] = center.x + offsetX * cos - offsetY * sin - restX;
+            dy[index] = center.y + offsetX * sin + offsetY * cos - restY;
+            break;
+          }
+
+          case 'pinch':
+          case 'expand': {
+            const scale = 1 + this.PINCH_RATE * amount * seconds * (mode === 'pinch' ? -1 : 1);
+            dx[index] = center.x + offsetX * scale - restX;
+            dy[index] = center.y + offsetY * scale - restY;
+            break;
+          }
+
+          case 'reconstruct': {
+            const keep = Math.max(0, 1 - this.RECONSTRUCT_RATE * amount * seconds);
+            dx[index] *= keep;
+            dy[index] *= keep;
+            break;
+          }
+
+          case 'smooth': {
+            const blend = Math.min(1, this.SMOOTH_RATE * amount * seconds);
+            const neighbor = smoothed!.get(index)!;
+            dx[index] += (neighbor.x - dx[index]) * blend;
+            dy[index] += (neighbor.y - dy[index]) * blend;
+            break;
+          }
+        }
+
+        session.maxOffset = Math.max(session.maxOffset, Math.hypot(dx[index], dy[index]));
+      }
+    }
+
+    this.markDirty(session, range);
+  }
+
+  // Average displacement of each point's direct neighbors, read before any of them change
+  private averageNeighbors(session: LiquifySession, range: MeshRange): Map<number, Point> {
+    const { dx, dy, columns, rows } = session;
+    const averages = new Map<number, Point>();
+
+    for (let row = range.top; row <= range.bottom; row++) {
+      for (let column = range.left; column <= range.right; column++) {
+        let sumX = 0;
+        let sumY = 0;
+        let count = 0;
+        for (const [dc, dr] of [[-1, 0], [1, 0], [0, -1], [0, 1]]) {
+          const c = column + dc;
+          const r = row + dr;
+          if (c < 0 || r < 0 || c >= columns || r >= rows) continue;
+          sumX += dx[r * columns + c];
+          sumY += dy[r * columns + c];
+          count++;
+        }
+        averages.set(row * columns + column, { x: sumX / count, y: sumY / count });
+      }
+    }
+    return averages;
+  }
+
+  // Mesh points whose resting place is within `reach` of `center`
+  private getRange(session: LiquifySession, center: Point, reach: number): MeshRange | null {
+    const { spacing, columns, rows } = session;
+    const range = {
+      left: Math.max(0, Math.floor((center.x - reach) / spacing)),
+      top: Math.max(0, Math.floor((center.y - reach) / spacing)),
+      right: Math.min(columns - 1, Math.ceil((center.x + reach) / spacing)),
+      bottom: Math.min(rows - 1, Math.ceil((center.y + reach) / spacing)),
+    };
+    return range.left > range.right || range.top > range.bottom ? null : range;
+  }
+
+  // Grows the redraw area by where the cells around `range` currently sit
+  private markDirty(session: LiquifySession, range: MeshRange): void {
+    const { dx, dy, columns, rows, spacing } = session;
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+
+    for (let row = Math.max(0, range.top - 1); row <= Math.min(rows - 1, range.bottom + 1); row++) {
+      for (let column = Math.max(0, range.left - 1); column <= Math.min(columns - 1, range.right + 1); column++) {
+        const index = row * columns + column;
+        const x = column * spacing + dx[index];
+        const y = row * spacing + dy[index];
+        minX = Math.min(minX, x);
+        minY = Math.min(minY, y);
+        maxX = Math.max(maxX, x);
+        maxY = Math.max(maxY, y);
+      }
+    }
+
+    const bounds = { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+    session.dirty = session.dirty ? this.unionBounds(session.dirty, bounds) : bounds;
+  }
+
+  // Redraws the dirty area from the mesh cells that land in it
+  private render(): void {
+    const session = this.session;
+    if (!session || !session.dirty) return;
+
+    const surface = session.surface;
+    const dirty = this.clampBounds(session.dirty, surface);
+    session.dirty = null;
+    if (dirty.width <= 0 || dirty.height <= 0) return;
+
+    const { dx, dy, columns, spacing } = session;
+    const right = dirty.x + dirty.width;
+    const bottom = dirty.y + dirty.height;
+    const positions: SkPoint[] = [];
+    const textures: SkPoint[] = [];
+
+    // No point sits further than maxOffset from its resting place
+    const reach = session.maxOffset + spacing;
+    const firstColumn = Math.max(0, Math.floor((dirty.x - reach) / spacing));
+    const lastColumn = Math.min(columns - 2, Math.ceil((right + reach) / spacing));
+    const firstRow = Math.max(0, Math.floor((dirty.y - reach) / spacing));
+    const lastRow = Math.min(session.rows - 2, Math.ceil((bottom + reach) / spacing));
+
+    const xs = [0, 0, 0, 0];
+    const ys = [0, 0, 0, 0];
+    const corners = [0, 0, 0, 0];
+    for (let row = firstRow; row <= lastRow; row++) {
+      for (let column = firstColumn; column <= lastColumn; column++) {
+        corners[0] = row * columns + column;
+        corners[1] = corners[0] + 1;
+        corners[2] = corners[1] + columns;
+        corners[3] = corners[0] + columns;
+
+        let minX = Infinity;
+        let minY = Infinity;
+        let maxX = -Infinity;
+        let maxY = -Infinity;
+        for (let corner = 0; corner < 4; corner++) {
+          const index = corners[corner];
+          xs[corner] = (column + (corner === 1 || corner === 2 ? 1 : 0)) * spacing + dx[index];
+          ys[corner] = (row + (corner >= 2 ? 1 : 0)) * spacing + dy[index];
+          minX = Math.min(minX, xs[corner]);
+          minY = Math.min(minY, ys[corner]);
+          maxX = Math.max(maxX, xs[corner]);
+          maxY = Math.max(maxY, ys[corner]);
+        }
+        if (maxX < dirty.x || minX > right || maxY < dirty.y || minY > bottom) continue;
+
+        // Two triangles per cell
+        for (const corner of [0, 1, 2, 0, 2, 3]) {
+          positions.push(CompatSkia.Point(xs[corner], ys[corner]));
+          textures.push(CompatSkia.Point(
+            (column + (corner === 1 || corner === 2 ? 1 : 0)) * spacing,
+            (row + (corner >= 2 ? 1 : 0)) * spacing
+          ));
+        }
+      }
+    }
+
+    const canvas = surface.getCanvas();
+    canvas.save();
+    canvas.clipRect(CompatSkia.XYWHRect(dirty.x, dirty.y, dirty.width, dirty.height), ClipOp.Intersect, false);
+    canvas.clear(CompatSkia.Color('transparent'));
+    if (positions.length > 0) {
+      const paint = CompatSkia.Paint();
+      paint.setAntiAlias(true);
+      paint.setShader(session.shader);
+      canvas.drawVertices(
+        CompatSkia.MakeVertices(VertexMode.Triangles, positions, textures),
+        SkiaBlendMode.Dst,
+        paint
+      );
+    }
+    canvas.restore();
+    surface.flush();
+
+    if (selectionManager.hasSelection()) {
+      selectionManager.restrictToSelection(surface, session.before, dirty);
+    }
+    valkyrieEngine.invalidateLayerEffects(session.layerId);
+  }
+
+  private createShader(image: SkImage): SkShader {
+    return image.makeShaderOptions(TileMode.Decal, TileMode.Decal, FilterMode.Linear, MipmapMode.None);
+  }
+
+  private unionBounds(a: Bounds, b: Bounds): Bounds {
+    const x = Math.min(a.x, b.x);
+    const y = Math.min(a.y, b.y);
+    return {
+      x,
+      y,
+      width: Math.max(a.x + a.width, b.x + b.width) - x,
+      height: Math.max(a.y + a.height, b.y + b.height) - y,
+    };
+  }
+
+  // Whole pixels inside the surface
+  private clampBounds(bounds: Bounds, surface: SkSurface): Bounds {
+    const left = Math.max(0, Math.floor(bounds.x) - 1);
+    const top = Math.max(0, Math.floor(bounds.y) - 1);
+    const right = Math.min(surface.width(), Math.ceil(bounds.x + bounds.width) + 1);
+    const bottom = Math.min(surface.height(), Math.ceil(bounds.y + bounds.height) + 1);
+    return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+  }
+
+  private getSurfaceBounds(surface: SkSurface): Bounds {
+    return { x: 0, y: 0, width: surface.width(), height: surface.height() };
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const saved = await dataManager.get<Partial<LiquifySettings>>('liquify_settings');
+      if (saved) {
+        this.settings = { ...this.settings, ...saved };
+      }
+    } catch (error) {
+      console.error('Failed to load liquify settings:', error);
+    }
+  }
+}
+
+// ===== TYPES =====
+
+interface LiquifySession {
+  layerId: string;
+  surface: SkSurface;
+  before: SkImage; // Layer when liquify started; the mesh samples from it
+  shader: SkShader;
+  spacing: number; // Mesh cell size in surface pixels
+  columns: number;
+  rows: number;
+  dx: Float32Array; // Displacement of each mesh point from its resting place
+  dy: Float32Array;
+  maxOffset: number; // Largest displacement so far, to find every point a brush can reach
+  dirty: Bounds | null; // Area to redraw on the next frame
+}
+
+interface LiquifyStroke {
+  point: Point;
+  pressure: number;
+  velocity: Point; // Pixels per second, for momentum
+  time: number;
+}
+
+interface MeshRange {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export const liquifyEngine = LiquifyEngine.getInstance();
@@ -0,0 +1,852 @@
+// src/engines/drawing/PSDCodec.ts
+import { unzlibSync } from 'fflate';
+import { BinaryReader } from './BinaryReader';
+import { BinaryWriter } from './BinaryWriter';
+import { decodePackBits } from './ABRParser';
+
+/**
+ * Photoshop document (.psd) codec
+ * Reads and writes 8-bit RGB documents with pixel layers, groups (section dividers),
+ * layer masks, clipping and blend modes; 16-bit and grayscale files are read down to
+ * 8-bit RGB. Works on plain data: unpremultiplied RGBA pixels and four-character
+ * blend keys. PSDExchange maps it onto the layer stack.
+ */
+
+const SIGNATURE = '8BPS';
+const RESOURCE_SIGNATURE = '8BIM';
+const GROUP_END_NAME = '</Layer group>';
+
+// lsct section divider types
+const SECTION_OPEN = 1;
+const SECTION_CLOSED = 2;
+const SECTION_END = 3;
+
+// Layer record flags
+const FLAG_HIDDEN = 2;
+const FLAG_BIT4_USEFUL = 8;
+const FLAG_PIXELS_IRRELEVANT = 16;
+
+// Layer mask flags
+const MASK_DISABLED = 2;
+
+// Tagged blocks for content this codec reads only as rasterized pixels, or not at all
+const UNSUPPORTED_BLOCKS: Record<string, string> = {
+  TySh: 'text layer',
+  tySh: 'text layer',
+  SoLd: 'smart object',
+  PlLd: 'smart object',
+  SoLE: 'smart object',
+  lfx2: 'layer style',
+  lrFX: 'layer style',
+  lmfx: 'layer style',
+  vmsk: 'vector mask',
+  vsms: 'vector mask',
+  curv: 'curves adjustment',
+  levl: 'levels adjustment',
+  hue2: 'hue/saturation adjustment',
+  blnc: 'color balance adjustment',
+  grdm: 'gradient map adjustment',
+  brit: 'brightness/contrast adjustment',
+  expA: 'exposure adjustment',
+  vibA: 'vibrance adjustment',
+  mixr: 'channel mixer adjustment',
+  selc: 'selective color adjustment',
+  blwh: 'black & white adjustment',
+  phfl: 'photo filter adjustment',
+  nvrt: 'invert adjustment',
+  post: 'posterize adjustment',
+  thrs: 'threshold adjustment',
+  SoCo: 'solid color fill',
+  GdFl: 'gradient fill',
+  PtFl: 'pattern fill',
+};
+
+export class PSDCodec {
+  public static decode(data: ArrayBuffer | Uint8Array): PSDDecodeResult {
+    const reader = new BinaryReader(data);
+    const warnings: string[] = [];
+
+    if (reader.length < 26 || reader.readAscii(4) !== SIGNATURE) {
+      throw new Error('Not a Photoshop document');
+    }
+
+    const version = reader.readUint16();
+    if (version === 2) {
+      throw new Error('Large documents (.psb) are not supported');
+    }
+    if (version !== 1) {
+      throw new Error(`Unsupported PSD version: ${version}`);
+    }
+
+    reader.skip(6);
+    const channelCount = reader.readUint16();
+    const height = reader.readUint32();
+    const width = reader.readUint32();
+    const depth = reader.readUint16();
+    const colorMode = reader.readUint16();
+
+    if (depth !== 8 && depth !== 16) {
+      throw new Error(`Unsupported bit depth: ${depth}`);
+    }
+    if (colorMode !== COLOR_MODE_RGB && colorMode !== COLOR_MODE_GRAYSCALE) {
+      throw new Error(`Unsupported color mode: ${COLOR_MODE_NAMES[colorMode] ?? colorMode}`);
+    }
+    if (depth === 16) {
+      warnings.push('16-bit document was reduced to 8 bits per channel');
+    }
+    if (colorMode === COLOR_MODE_GRAYSCALE) {
+      warnings.push('Grayscale document was converted to RGB');
+    }
+
+    const header: PSDHeader = { width, height, depth, colorMode };
+
+    reader.skip(reader.readUint32()); // color mode data
+    reader.skip(reader.readUint32()); // image resources
+
+    let records: LayerRecord[] = [];
+    const layerAndMaskLength = reader.readUint32();
+    const layerAndMaskEnd = reader.position + layerAndMaskLength;
+
+    if (layerAndMaskLength > 0) {
+      const layerInfoLength = reader.readUint32();
+      const layerInfoEnd = reader.position + layerInfoLength;
+      if (layerInfoLength > 0) {
+        records = PSDCodec.readLayerInfo(reader, header, warnings);
+      }
+      reader.seek(layerInfoEnd);
+
+      if (reader.position + 4 <= layerAndMaskEnd) {
+        reader.skip(reader.readUint32()); // global layer mask info
+      }
+
+      // 16-bit documents keep their layers in an Lr16 block instead
+      while (records.length === 0 && reader.position + 12 <= layerAndMaskEnd) {
+        const signature = reader.readAscii(4);
+        const key = reader.readAscii(4);
+        const length = reader.readUint32();
+        const end = Math.min(reader.position + length, layerAndMaskEnd);
+
+        if ((signature === RESOURCE_SIGNATURE || signature === '8B64') && (key === 'Lr16' || key === 'Layr')) {
+          records = PSDCodec.readLayerInfo(reader, header, warnings);
+        } else if (key === 'Lr32') {
+          warnings.push('32-bit layers are not supported; only the flattened image was read');
+        }
+        reader.seek(end);
+      }
+    }
+    reader.seek(Math.min(layerAndMaskEnd, reader.length));
+
+    let composite: Uint8Array | null = null;
+    try {
+      composite = PSDCodec.readComposite(reader, header, channelCount);
+    } catch (error) {
+      warnings.push(`Flattened image could not be read: ${(error as Error).message}`);
+    }
+
+    return {
+      file: { width, height, layers: PSDCodec.buildTree(records, warnings), composite },
+      warnings,
+    };
+  }
+
+  public static encode(file: PSDFile): Uint8Array {
+    const writer = new BinaryWriter(file.width * file.height * 2 + 1024 * 1024);
+
+    // Header: RGB with a transparency channel, 8 bits
+    writer.writeAscii(SIGNATURE);
+    writer.writeUint16(1);
+    writer.writeZeros(6);
+    writer.writeUint16(4);
+    writer.writeUint32(file.height);
+    writer.writeUint32(file.width);
+    writer.writeUint16(8);
+    writer.writeUint16(COLOR_MODE_RGB);
+
+    writer.writeUint32(0); // color mode data
+    writer.writeUint32(0); // image resources
+
+    const layerAndMask = writer.beginLength();
+    const layerInfo = writer.beginLength();
+    const records = PSDCodec.flattenTree(file.layers);
+
+    // Negative: the first alpha channel of the flattened image is its transparency
+    writer.writeInt16(-records.length);
+    records.forEach(record => PSDCodec.writeLayerRecord(writer, record));
+    records.forEach(record => record.channels.forEach(channel => writer.writeBytes(channel.data)));
+    writer.endLength(layerInfo, 2);
+
+    writer.writeUint32(0); // global layer mask info
+    writer.endLength(layerAndMask);
+
+    PSDCodec.writeComposite(writer, file);
+    return writer.toBytes();
+  }
+
+  // ===== READING =====
+
+  private static readLayerInfo(reader: BinaryReader, header: PSDHeader, warnings: string[]): LayerRecord[] {
+    const count = Math.abs(reader.readInt16());
+    const records: LayerRecord[] = [];
+
+    for (let i = 0; i < count; i++) {
+      records.push(PSDCodec.readLayerRecord(reader));
+    }
+
+    records.forEach(record => {
+      record.channels.forEach(channel => {
+        const end = reader.position + channel.length;
+        try {
+          const isMask = channel.id === -2;
+          const rect = isMask && record.mask ? record.mask : record;
+          channel.plane = PSDCodec.readChannel(reader, rect.width, rect.height, channel.length, header);
+        } catch (error) {
+          warnings.push(`Layer "${record.name}": channel ${channel.id} could not be read (${(error as Error).message})`);
+        }
+        reader.seek(Math.min(end, reader.length));
+      });
+    });
+
+    return records;
+  }
+
+  private static readLayerRecord(reader: BinaryReader): LayerRecord {
+    const top = reader.readInt32();
+    const left = reader.readInt32();
+    const bottom = reader.readInt32();
+    const right = reader.readInt32();
+
+    const channelCount = reader.readUint16();
+    const channels: ChannelData[] = [];
+    for (let i = 0; i < channelCount; i++) {
+      channels.push({ id: reader.readInt16(), length: reader.readUint32(), plane: null, data: EMPTY_CHANNEL });
+    }
+
+    reader.skip(4); // '8BIM'
+    const blendMode = reader.readAscii(4);
+    const opacity = reader.readUint8();
+    const clipping = reader.readUint8() !== 0;
+    const flags = reader.readUint8();
+    reader.skip(1);
+
+    const extraLength = reader.readUint32();
+    const extraEnd = reader.position + extraLength;
+
+    let mask: PSDMask | null = null;
+    const maskLength = reader.readUint32();
+    const maskEnd = reader.position + maskLength;
+    if (maskLength >= 18) {
+      const maskTop = reader.readInt32();
+      const maskLeft = reader.readInt32();
+      const maskBottom = reader.readInt32();
+      const maskRight = reader.readInt32();
+      mask = {
+        top: maskTop,
+        left: maskLeft,
+        width: Math.max(0, maskRight - maskLeft),
+        height: Math.max(0, maskBottom - maskTop),
+        defaultColor: reader.readUint8(),
+        disabled: (reader.readUint8() & MASK_DISABLED) !== 0,
+        data: new Uint8Array(0),
+      };
+    }
+    reader.seek(maskEnd);
+
+    reader.skip(reader.readUint32()); // blending ranges
+    let name = reader.readPascalString(4);
+    let section: SectionDivider | null = null;
+    const unsupported: string[] = [];
+
+    while (reader.position + 12 <= extraEnd) {
+      const signature = reader.readAscii(4);
+      if (signature !== RESOURCE_SIGNATURE && signature !== '8B64') break;
+
+      const key = reader.readAscii(4);
+      const length = reader.readUint32();
+      const end = Math.min(reader.position + length, extraEnd);
+
+      if (key === 'luni') {
+        name = reader.readUnicodeString() || name;
+      } else if (key === 'lsct' || key === 'lsdk') {
+        const type = reader.readUint32();
+        let sectionBlendMode: string | null = null;
+        if (length >= 12) {
+          reader.skip(4);
+          sectionBlendMode = reader.readAscii(4);
+        }
+        section = { type, blendMode: sectionBlendMode };
+      } else if (UNSUPPORTED_BLOCKS[key] && !unsupported.includes(UNSUPPORTED_BLOCKS[key])) {
+        unsupported.push(UNSUPPORTED_BLOCKS[key]);
+      }
+
+      reader.seek(end);
+    }
+    reader.seek(extraEnd);
+
+    return {
+      name,
+      top,
+      left,
+      width: Math.max(0, right - left),
+      height: Math.max(0, bottom - top),
+      channels,
+      blendMode,
+      opacity,
+      clipping,
+      hidden: (flags & FLAG_HIDDEN) !== 0,
+      mask,
+      section,
+      unsupported,
+    };
+  }
+
+  // One channel of a layer as 8-bit samples
+  private static readChannel(
+    reader: BinaryReader,
+    width: number,
+    height: number,
+    length: number,
+    header: PSDHeader
+  ): Uint8Array | null {
+    if (length < 2) return null;
+
+    const compression = reader.readUint16();
+    const bytesPerSample = header.depth / 8;
+    const rowBytes = width * bytesPerSample;
+    if (width === 0 || height === 0) return null;
+
+    let raw: Uint8Array;
+    switch (compression) {
+      case COMPRESSION_RAW:
+        raw = reader.readBytes(rowBytes * height);
+        break;
+      case COMPRESSION_RLE:
+        raw = PSDCodec.readPackBitsRows(reader, rowBytes, height);
+        break;
+      case COMPRESSION_ZIP:
+      case COMPRESSION_ZIP_PREDICTION:
+        raw = unzlibSync(reader.readBytes(length - 2));
+        if (compression === COMPRESSION_ZIP_PREDICTION) {
+          PSDCodec.undoPrediction(raw, width, height, bytesPerSample);
+        }
+        break;
+      default:
+        throw new Error(`unknown compression ${compression}`);
+    }
+
+    return PSDCodec.toEightBit(raw, width * height, bytesPerSample);
+  }
+
+  private static readPackBitsRows(reader: BinaryReader, rowBytes: number, rows: number): Uint8Array {
+    const rowLengths: number[] = [];
+    for (let i = 0; i < rows; i++) {
+      rowLengths.push(reader.readUint16());
+    }
+
+    const output = new Uint8Array(rowBytes * rows);
+    for (let row = 0; row < rows; row++) {
+      decodePackBits(reader.readBytes(rowLengths[row]), output, row * rowBytes, rowBytes);
+    }
+    return output;
+  }
+
+  // ZIP with prediction stores each sample as the difference from the one to its left
+  private static undoPrediction(raw: Uint8Array, width: number, height: number, bytesPerSample: number): void {
+    if (bytesPerSample === 1) {
+      for (let y = 0; y < height; y++) {
+        const start = y * width;
+        for (let x = 1; x < width; x++) {
+          raw[start + x] = (raw[start + x] + raw[start + x - 1]) & 0xff;
+        }
+      }
+      return;
+    }
+
+    for (let y = 0; y < height; y++) {
+      const start = y * width * 2;
+      for (let x = 1; x < width; x++) {
+        const i = start + x * 2;
+        const value = (((raw[i] << 8) | raw[i + 1]) + ((raw[i - 2] << 8) | raw[i - 1])) & 0xffff;
+        raw[i] = value >> 8;
+        raw[i + 1] = value & 0xff;
+      }
+    }
+  }
+
+  private static toEightBit(raw: Uint8Array, samples: number, bytesPerSample: number): Uint8Array {
+    if (bytesPerSample === 1) {
+      return raw.length === samples ? raw : raw.slice(0, samples);
+    }
+
+    const output = new Uint8Array(samples);
+    for (let i = 0; i < samples; i++) {
+      output[i] = raw[i * 2];
+    }
+    return output;
+  }
+
+  private static readComposite(reader: BinaryReader, header: PSDHeader, channelCount: number): Uint8Array | null {
+    if (reader.remaining < 2) return null;
+
+    const { width, height, depth, colorMode } = header;
+    const compression = reader.readUint16();
+    const rowBytes = width * (depth / 8);
+    const planes: Uint8Array[] = [];
+
+    if (compression === COMPRESSION_RLE) {
+      const rowLengths: number[] = [];
+      for (let i = 0; i < channelCount * height; i++) {
+        rowLengths.push(reader.readUint16());
+      }
+      for (let channel = 0; channel < channelCount; channel++) {
+        const output = new Uint8Array(rowBytes * height);
+        for (let row = 0; row < height; row++) {
+          decodePackBits(reader.readBytes(rowLengths[channel * height + row]), output, row * rowBytes, rowBytes);
+        }
+        planes.push(PSDCodec.toEightBit(output, width * height, depth / 8));
+      }
+    } else if (compression === COMPRESSION_RAW) {
+      for (let channel = 0; channel < channelCount; channel++) {
+        planes.push(PSDCodec.toEightBit(reader.readBytes(rowBytes * height), width * height, depth / 8));
+      }
+    } else {
+      throw new Error(`unsupported compression ${compression}`);
+    }
+
+    const gray = colorMode === COLOR_MODE_GRAYSCALE;
+    return PSDCodec.interleave(
+      width * height,
+      planes[0] ?? null,
+      (gray ? planes[0] : planes[1]) ?? null,
+      (gray ? planes[0] : planes[2]) ?? null,
+      planes[gray ? 1 : 3] ?? null
+    );
+  }
+
+  // Section dividers come bottom-up: the end marker, the contents, then the group itself
+  private static buildTree(records: LayerRecord[], warnings: string[]): PSDLayer[] {
+    const root: PSDLayer[] = [];
+    const stack: PSDLayer[][] = [root];
+
+    records.forEach(record => {
+      const type = record.section?.type ?? 0;
+
+      if (type === SECTION_END) {
+        stack.push([]);
+        return;
+      }
+
+      const base = {
+        name: record.name,
+        visible: !record.hidden,
+        opacity: record.opacity / 255,
+        clipping: record.clipping,
+        mask: PSDCodec.buildMask(record),
+        unsupported: record.unsupported,
+      };
+
+      if (type === SECTION_OPEN || type === SECTION_CLOSED) {
+        const children = stack.length > 1 ? stack.pop()! : [];
+        if (stack.length === 0) stack.push(root);
+        stack[stack.length - 1].push({
+          ...base,
+          kind: 'group',
+          blendMode: record.section?.blendMode ?? record.blendMode,
+          expanded: type === SECTION_OPEN,
+          children,
+        });
+        return;
+      }
+
+      stack[stack.length - 1].push({
+        ...base,
+        kind: 'pixel',
+        blendMode: record.blendMode,
+        left: record.left,
+        top: record.top,
+        width: record.width,
+        height: record.height,
+        pixels: PSDCodec.buildPixels(record),
+      });
+    });
+
+    // Groups missing their header keep their contents at the level they were found
+    if (stack.length > 1) {
+      warnings.push('Unterminated layer group; its layers were placed at the top level');
+      while (stack.length > 1) {
+        const children = stack.pop()!;
+        stack[stack.length - 1].push(...children);
+      }
+    }
+    return root;
+  }
+
+  private static buildPixels(record: LayerRecord): Uint8Array | null {
+    if (record.width === 0 || record.height === 0) return null;
+
+    const plane = (id: number) => record.channels.find(channel => channel.id === id)?.plane ?? null;
+    const red = plane(0);
+    if (!red) return null;
+
+    // Grayscale layers only have channel 0
+    const green = plane(1) ?? red;
+    const blue = plane(2) ?? red;
+    return PSDCodec.interleave(record.width * record.height, red, green, blue, plane(-1));
+  }
+
+  private static buildMask(record: LayerRecord): PSDMask | null {
+    if (!record.mask) return null;
+
+    const data = record.channels.find(channel => channel.id === -2)?.plane;
+    return { ...record.mask, data: data ?? new Uint8Array(0) };
+  }
+
+  private static interleave(
+    count: number,
+    red: Uint8Array | null,
+    green: Uint8Array | null,
+    blue: Uint8Array | null,
+    alpha: Uint8Array | null
+  ): Uint8Array {
+    const rgba = new Uint8Array(count * 4);
+    for (let i = 0; i < count; i++) {
+      rgba[i * 4] = red ? red[i] : 0;
+      rgba[i * 4 + 1] = green ? green[i] : 0;
+      rgba[i * 4 + 2] = blue ? blue[i] : 0;
+      rgba[i * 4 + 3] = alpha ? alpha[i] : 255;
+    }
+    return rgba;
+  }
+
+  // ===== WRITING =====
+
+  // Bottom to top, with each group wrapped in an end marker and its header
+  private static flattenTree(layers: PSDLayer[]): LayerRecord[] {
+    const records: LayerRecord[] = [];
+
+    layers.forEach(layer => {
+      if (layer.kind === 'group') {
+        records.push(PSDCodec.createSectionRecord(GROUP_END_NAME, { type: SECTION_END, blendMode: null }));
+        records.push(...PSDCodec.flattenTree(layer.children));
+
+        const header = PSDCodec.createSectionRecord(layer.name, {
+          type: layer.expanded ? SECTION_OPEN : SECTION_CLOSED,
+          blendMode: layer.blendMode,
+        });
+        records.push({
+          ...header,
+          blendMode: layer.blendMode,
+          opacity: Math.round(layer.opacity * 255),
+          hidden: !layer.visible,
+          clipping: layer.clipping,
+          mask: layer.mask,
+          channels: layer.mask ? [...header.channels, PSDCodec.encodeMaskChannel(layer.mask)] : header.channels,
+        });
+        return;
+      }
+
+      const channels: ChannelData[] = [-1, 0, 1, 2].map(id => {
+        const offset = id === -1 ? 3 : id;
+        const plane = layer.pixels
+          ? PSDCodec.extractPlane(layer.pixels, offset, layer.width * layer.height)
+          : new Uint8Array(0);
+        return PSDCodec.encodeChannel(id, plane, layer.width, layer.height);
+      });
+      if (layer.mask) {
+        channels.push(PSDCodec.encodeMaskChannel(layer.mask));
+      }
+
+      records.push({
+        name: layer.name,
+        top: layer.top,
+        left: layer.left,
+        width: layer.pixels ? layer.width : 0,
+        height: layer.pixels ? layer.height : 0,
+        channels,
+        blendMode: layer.blendMode,
+        opacity: Math.round(layer.opacity * 255),
+        clipping: layer.clipping,
+        hidden: !layer.visible,
+        mask: layer.mask,
+        section: null,
+        unsupported: [],
+      });
+    });
+
+    return records;
+  }
+
+  private static createSectionRecord(name: string, section: SectionDivider): LayerRecord {
+    return {
+      name,
+      top: 0,
+      left: 0,
+      width: 0,
+      height: 0,
+      channels: [-1, 0, 1, 2].map(id => PSDCodec.encodeChannel(id, new Uint8Array(0), 0, 0)),
+      blendMode: 'norm',
+      opacity: 255,
+      clipping: false,
+      hidden: false,
+      mask: null,
+      section,
+      unsupported: [],
+    };
+  }
+
+  private static writeLayerRecord(writer: BinaryWriter, record: LayerRecord): void {
+    writer.writeInt32(record.top);
+    writer.writeInt32(record.left);
+    writer.writeInt32(record.top + record.height);
+    writer.writeInt32(record.left + record.width);
+
+    writer.writeUint16(record.channels.length);
+    record.channels.forEach(channel => {
+      writer.writeInt16(channel.id);
+      writer.writeUint32(channel.data.length);
+    });
+
+    writer.writeAscii(RESOURCE_SIGNATURE);
+    writer.writeAscii(record.blendMode);
+    writer.writeUint8(record.opacity);
+    writer.writeUint8(record.clipping ? 1 : 0);
+    writer.writeUint8(
+      (record.hidden ? FLAG_HIDDEN : 0) | (record.section ? FLAG_BIT4_USEFUL | FLAG_PIXELS_IRRELEVANT : 0)
+    );
+    writer.writeUint8(0);
+
+    const extra = writer.beginLength();
+
+    const mask = writer.beginLength();
+    if (record.mask) {
+      writer.writeInt32(record.mask.top);
+      writer.writeInt32(record.mask.left);
+      writer.writeInt32(record.mask.top + record.mask.height);
+      writer.writeInt32(record.mask.left + record.mask.width);
+      writer.writeUint8(record.mask.defaultColor);
+      writer.writeUint8(record.mask.disabled ? MASK_DISABLED : 0);
+      writer.writeZeros(2);
+    }
+    writer.endLength(mask);
+
+    writer.writeUint32(0); // blending ranges
+    writer.writePascalString(record.name, 4);
+
+    // Full name, since the Pascal string above is limited to Latin-1
+    writer.writeAscii(RESOURCE_SIGNATURE);
+    writer.writeAscii('luni');
+    const unicodeName = writer.beginLength();
+    writer.writeUnicodeString(record.name);
+    writer.endLength(unicodeName, 4);
+
+    if (record.section) {
+      writer.writeAscii(RESOURCE_SIGNATURE);
+      writer.writeAscii('lsct');
+      const section = writer.beginLength();
+      writer.writeUint32(record.section.type);
+      if (record.section.blendMode) {
+        writer.writeAscii(RESOURCE_SIGNATURE);
+        writer.writeAscii(record.section.blendMode);
+      }
+      writer.endLength(section);
+    }
+
+    writer.endLength(extra);
+  }
+
+  private static writeComposite(writer: BinaryWriter, file: PSDFile): void {
+    const count = file.width * file.height;
+    const composite = file.composite ?? new Uint8Array(count * 4);
+
+    // Colour planes first, then transparency
+    const encoded = [0, 1, 2, 3].map(offset =>
+      PSDCodec.encodeRows(PSDCodec.extractPlane(composite, offset, count), file.width, file.height)
+    );
+
+    writer.writeUint16(COMPRESSION_RLE);
+    encoded.forEach(rows => rows.forEach(row => writer.writeUint16(row.length)));
+    encoded.forEach(rows => rows.forEach(row => writer.writeBytes(row)));
+  }
+
+  private static encodeMaskChannel(mask: PSDMask): ChannelData {
+    return PSDCodec.encodeChannel(-2, mask.data, mask.width, mask.height);
+  }
+
+  // Compression mark, row byte counts and PackBits rows
+  private static encodeChannel(id: number, plane: Uint8Array, width: number, height: number): ChannelData {
+    if (width === 0 || height === 0 || plane.length === 0) {
+      return { id, length: 2, plane, data: EMPTY_CHANNEL };
+    }
+
+    const rows = PSDCodec.encodeRows(plane, width, height);
+    const size = 2 + rows.length * 2 + rows.reduce((total, row) => total + row.length, 0);
+    const writer = new BinaryWriter(size);
+
+    writer.writeUint16(COMPRESSION_RLE);
+    rows.forEach(row => writer.writeUint16(row.length));
+    rows.forEach(row => writer.writeBytes(row));
+
+    const data = writer.toBytes();
+    return { id, length: data.length, plane, data };
+  }
+
+  private static encodeRows(plane: Uint8Array, width: number, height: number): Uint8Array[] {
+    const rows: Uint8Array[] = [];
+    for (let y = 0; y < height; y++) {
+      rows.push(encodePackBits(plane.subarray(y * width, (y + 1) * width)));
+    }
+    return rows;
+  }
+
+  private static extractPlane(rgba: Uint8Array, offset: number, count: number): Uint8Array {
+    const plane = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      plane[i] = rgba[i * 4 + offset];
+    }
+    return plane;
+  }
+}
+
+// ===== HELPERS =====
+
+// PackBits (Apple RLE): runs of 2+ equal bytes are repeated, everything else copied literally
+export function encodePackBits(input: Uint8Array): Uint8Array {
+  const output: number[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    let run = 1;
+    while (run < 128 && i + run < input.length && input[i + run] === input[i]) {
+      run++;
+    }
+
+    if (run >= 2) {
+      output.push(257 - run, input[i]);
+      i += run;
+      continue;
+    }
+
+    // Literal: stop before the next repeat
+    const start = i;
+    while (
+      i < input.length &&
+      i - start < 128 &&
+      !(i + 1 < input.length && input[i] === input[i + 1])
+    ) {
+      i++;
+    }
+
+    output.push(i - start - 1);
+    for (let j = start; j < i; j++) {
+      output.push(input[j]);
+    }
+  }
+
+  return Uint8Array.from(output);
+}
+
+const EMPTY_CHANNEL = new Uint8Array([0, 0]);
+
+const COMPRESSION_RAW = 0;
+const COMPRESSION_RLE = 1;
+const COMPRESSION_ZIP = 2;
+const COMPRESSION_ZIP_PREDICTION = 3;
+
+const COLOR_MODE_GRAYSCALE = 1;
+const COLOR_MODE_RGB = 3;
+
+const COLOR_MODE_NAMES: Record<number, string> = {
+  0: 'Bitmap',
+  1: 'Grayscale',
+  2: 'Indexed',
+  3: 'RGB',
+  4: 'CMYK',
+  7: 'Multichannel',
+  8: 'Duotone',
+  9: 'Lab',
+};
+
+// ===== TYPES =====
+
+export interface PSDFile {
+  width: number;
+  height: number;
+  layers: PSDLayer[]; // Bottom to top
+  composite: Uint8Array | null; // Flattened image, unpremultiplied RGBA
+}
+
+export type PSDLayer = PSDPixelLayer | PSDGroupLayer;
+
+interface PSDLayerBase {
+  name: string;
+  visible: boolean;
+  opacity: number; // 0-1
+  blendMode: string; // Photoshop blend key, e.g. 'norm', 'mul ', 'pass'
+  clipping: boolean;
+  mask: PSDMask | null;
+  unsupported: string[]; // Content in the file that was not read, e.g. 'text layer'
+}
+
+export interface PSDPixelLayer extends PSDLayerBase {
+  kind: 'pixel';
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  pixels: Uint8Array | null; // Unpremultiplied RGBA; null when the layer has no pixels
+}
+
+export interface PSDGroupLayer extends PSDLayerBase {
+  kind: 'group';
+  expanded: boolean;
+  children: PSDLayer[];
+}
+
+export interface PSDMask {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  defaultColor: number; // Value outside the mask rectangle
+  disabled: boolean;
+  data: Uint8Array; // Grayscale
+}
+
+export interface PSDDecodeResult {
+  file: PSDFile;
+  warnings: string[];
+}
+
+interface PSDHeader {
+  width: number;
+  height: number;
+  depth: number;
+  colorMode: number;
+}
+
+interface SectionDivider {
+  type: number;
+  blendMode: string | null;
+}
+
+interface ChannelData {
+  id: number; // 0-2 colour, -1 transparency, -2 layer mask
+  length: number;
+  plane: Uint8Array | null; // Decoded 8-bit samples
+  data: Uint8Array; // Encoded, for writing
+}
+
+interface LayerRecord {
+  name: string;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+  channels: ChannelData[];
+  blendMode: string;
+  opacity: number; // 0-255
+  clipping: boolean;
+  hidden: boolean;
+  mask: PSDMask | null;
+  section: SectionDivider | null;
+  unsupported: string[];
+}
@@ -0,0 +1,560 @@
+// src/engines/drawing/PSDExchange.ts
+import {
+  Layer,
+  LayerGroup,
+  LayerTreeNode,
+  LayerStackState,
+  BlendMode,
+  GroupBlendMode,
+  Bounds,
+  PSDWarning,
+  PSDExportResult,
+  PSDImportReport,
+} from '../../types/drawing';
+import { CompatSkia, SkImage, SkSurface } from './SkiaCompatibility';
+import { ColorType, AlphaType } from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { PSDCodec, PSDLayer, PSDPixelLayer, PSDGroupLayer, PSDMask } from './PSDCodec';
+import { layerManager } from './LayerManager';
+import { layerEffectRenderer } from './LayerEffects';
+import { documentStore } from './DocumentStore';
+import { valkyrieEngine } from './ValkyrieEngine';
+
+/**
+ * PSD Exchange
+ * Moves the layer stack to and from Photoshop files. Layers, groups, names,
+ * visibility, opacity, blend modes, clipping and layer masks map directly; anything
+ * Photoshop can't represent (or we can't) is baked, approximated or dropped and
+ * listed in the returned warnings.
+ */
+export class PSDExchange {
+  private static instance: PSDExchange;
+  private eventBus = EventBus.getInstance();
+
+  // Blend modes with a Photoshop equivalent
+  private readonly BLEND_KEYS: Partial<Record<BlendMode, string>> = {
+    normal: 'norm',
+    'source-over': 'norm',
+    multiply: 'mul ',
+    screen: 'scrn',
+    overlay: 'over',
+    'soft-light': 'sLit',
+    'hard-light': 'hLit',
+    'color-dodge': 'div ',
+    'color-burn': 'idiv',
+    darken: 'dark',
+    lighten: 'lite',
+    difference: 'diff',
+    exclusion: 'smud',
+    hue: 'hue ',
+    saturation: 'sat ',
+    color: 'colr',
+    luminosity: 'lum ',
+    plus: 'lddg',
+  };
+
+  // Photoshop modes we don't have, for import warnings
+  private readonly PHOTOSHOP_BLEND_NAMES: Record<string, string> = {
+    diss: 'Dissolve',
+    lbrn: 'Linear Burn',
+    dkCl: 'Darker Color',
+    lgCl: 'Lighter Color',
+    vLit: 'Vivid Light',
+    lLit: 'Linear Light',
+    pLit: 'Pin Light',
+    hMix: 'Hard Mix',
+    fsub: 'Subtract',
+    fdiv: 'Divide',
+  };
+
+  private constructor() {}
+
+  public static getInstance(): PSDExchange {
+    if (!PSDExchange.instance) {
+      PSDExchange.instance = new PSDExchange();
+    }
+    return PSDExchange.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public async exportPSD(): Promise<PSDExportResult | null> {
+    try {
+      // Layers of a document still opening would be written empty
+      await Promise.all(layerManager.getAllLayers().map(layer => documentStore.ensureLayerLoaded(layer.id)));
+
+      const tree = layerManager.getLayerTree();
+      const size = this.getPixelSize();
+      const warnings: PSDWarning[] = [];
+
+      const layers = this.exportNodes(tree, warnings);
+
+      // Photoshop shows the flattened image until it has read the layers
+      const surface = CompatSkia.Surface.Make(size.width, size.height);
+      const composite = surface ? this.flatten(tree, surface) : null;
+
+      const data = PSDCodec.encode({ width: size.width, height: size.height, layers, composite });
+      this.eventBus.emit('psd:exported', { size: data.length, warnings });
+      return { data, warnings };
+    } catch (error) {
+      console.error('Failed to export PSD:', error);
+      return null;
+    }
+  }
+
+  // Replaces the layer stack with the document's layers. The result is a new,
+  // unsaved drawing. Files that can't be read throw, so the caller can say why.
+  public importPSD(data: ArrayBuffer | Uint8Array): PSDImportReport {
+    try {
+      const { file, warnings } = PSDCodec.decode(data);
+      const report: PSDImportReport = {
+        layerIds: [],
+        groupIds: [],
+        warnings: warnings.map(message => ({ layerName: null, message })),
+      };
+
+      let nodes = file.layers;
+      if (nodes.length === 0) {
+        if (!file.composite) {
+          throw new Error('The document has neither layers nor a flattened image');
+        }
+        report.warnings.push({ layerName: null, message: 'The document has no layers; its flattened image was imported' });
+        nodes = [this.createBackground(file.width, file.height, file.composite)];
+      }
+
+      const state: LayerStackState = {
+        canvasWidth: file.width,
+        canvasHeight: file.height,
+        layers: [],
+        groups: [],
+        rootOrder: [],
+        currentLayerId: null,
+      };
+      const sources: Map<string, PSDPixelLayer> = new Map();
+      state.rootOrder = this.importNodes(nodes, null, state, sources, report);
+      state.currentLayerId = report.layerIds[report.layerIds.length - 1] ?? null;
+
+      documentStore.close();
+      layerManager.loadStackState(state);
+
+      state.layers.forEach(layer => {
+        const source = sources.get(layer.id);
+        if (!source) return;
+
+        const surface = valkyrieEngine.getLayerSurface(layer.id);
+        if (surface && source.pixels) {
+          this.drawPixels(surface, source, file.width, file.height);
+        }
+        const maskSurface = layer.mask ? valkyrieEngine.getLayerSurface(layer.mask.id) : null;
+        if (maskSurface && source.mask) {
+          this.drawMask(maskSurface, source.mask, file.width, file.height);
+        }
+        valkyrieEngine.invalidateLayerEffects(layer.id);
+      });
+
+      this.eventBus.emit('psd:imported', {
+        layerCount: report.layerIds.length,
+        groupCount: report.groupIds.length,
+        warnings: report.warnings,
+      });
+      return report;
+    } catch (error) {
+      console.error('Failed to import PSD:', error);
+      throw error;
+    }
+  }
+
+  // ===== PRIVATE METHODS: EXPORT =====
+
+  private exportNodes(nodes: LayerTreeNode[], warnings: PSDWarning[]): PSDLayer[] {
+    const layers: PSDLayer[] = [];
+
+    nodes.forEach(node => {
+      if (node.type === 'group') {
+        const group = node.group;
+        layers.push({
+          kind: 'group',
+          name: group.name,
+          visible: group.visible,
+          opacity: group.opacity,
+          blendMode: group.blendMode === 'pass-through'
+            ? 'pass'
+            : this.toBlendKey(group.blendMode, group.name, warnings),
+          clipping: false,
+          mask: null,
+          unsupported: [],
+          expanded: group.expanded,
+          children: this.exportNodes(node.children, warnings),
+        });
+        return;
+      }
+
+      const layer = this.exportLayer(node.layer, warnings);
+      if (layer) {
+        layers.push(layer);
+      }
+    });
+
+    return layers;
+  }
+
+  private exportLayer(layer: Layer, warnings: PSDWarning[]): PSDPixelLayer | null {
+    if (layer.type === 'adjustment') {
+      warnings.push({
+        layerName: layer.name,
+        message: 'Adjustment layers are not exported; the flattened image includes their effect',
+      });
+      return null;
+    }
+
+    const surface = valkyrieEngine.getLayerSurface(layer.id);
+    if (!surface) return null;
+
+    surface.flush();
+    let image = surface.makeImageSnapshot();
+    if (layer.effects.some(effect => layerEffectRenderer.isRenderable(effect))) {
+      image = layerEffectRenderer.render(image, layer.effects);
+      warnings.push({ layerName: layer.name, message: 'Layer effects were applied to the layer pixels' });
+    }
+
+    const width = image.width();
+    const height = image.height();
+    const rgba = this.readRGBA(image);
+    const bounds = rgba ? this.getOpaqueBounds(rgba, width, height) : null;
+
+    return {
+      kind: 'pixel',
+      name: layer.name,
+      visible: layer.visible,
+      opacity: layer.opacity,
+      blendMode: this.toBlendKey(layer.blendMode, layer.name, warnings),
+      clipping: layer.clippingMask && !!layer.maskLayerId,
+      mask: this.exportMask(layer),
+      unsupported: [],
+      left: bounds?.x ?? 0,
+      top: bounds?.y ?? 0,
+      width: bounds?.width ?? 0,
+      height: bounds?.height ?? 0,
+      pixels: rgba && bounds ? this.crop(rgba, width, bounds) : null,
+    };
+  }
+
+  // Our masks are grayscale surfaces; inversion is baked in since Photoshop has no flag for it
+  private exportMask(layer: Layer): PSDMask | null {
+    if (!layer.mask) return null;
+
+    const surface = valkyrieEngine.getLayerSurface(layer.mask.id);
+    if (!surface) return null;
+
+    surface.flush();
+    const image = surface.makeImageSnapshot();
+    const rgba = this.readRGBA(image);
+    if (!rgba) return null;
+
+    const count = image.width() * image.height();
+    const data = new Uint8Array(count);
+    for (let i = 0; i < count; i++) {
+      const value = rgba[i * 4];
+      data[i] = layer.mask.inverted ? 255 - value : value;
+    }
+
+    return {
+      left: 0,
+      top: 0,
+      width: image.width(),
+      height: image.height(),
+      defaultColor: layer.mask.inverted ? 0 : 255,
+      disabled: !layer.mask.enabled,
+      data,
+    };
+  }
+
+  private toBlendKey(blendMode: BlendMode, name: string, warnings: PSDWarning[]): string {
+    const key = this.BLEND_KEYS[blendMode];
+    if (key) return key;
+
+    if (blendMode === 'modulate') {
+      warnings.push({ layerName: name, message: 'Modulate blend mode was exported as Multiply' });
+      return 'mul ';
+    }
+    warnings.push({ layerName: name, message: `"${blendMode}" blend mode has no Photoshop equivalent; exported as Normal` });
+    return 'norm';
+  }
+
+  private flatten(tree: LayerTreeNode[], surface: SkSurface): Uint8Array | null {
+    valkyrieEngine.flattenLayers(tree, surface);
+    return this.readRGBA(surface.makeImageSnapshot());
+  }
+
+  // ===== PRIVATE METHODS: IMPORT =====
+
+  // Returns the ids created for `nodes`, bottom to top
+  private importNodes(
+    nodes: PSDLayer[],
+    parentId: string | null,
+    state: LayerStackState,
+    sources: Map<string, PSDPixelLayer>,
+    report: PSDImportReport
+  ): string[] {
+    const ids: string[] = [];
+
+    nodes.forEach(node => {
+      if (node.kind === 'group') {
+        ids.push(this.importGroup(node, parentId, state, sources, report));
+        return;
+      }
+
+      const layer = this.importLayer(node, parentId, report);
+      if (!layer) return;
+
+      if (layer.clippingMask) {
+        this.resolveClipping(layer, ids, state, report);
+      }
+      state.layers.push(layer);
+      sources.set(layer.id, node);
+      report.layerIds.push(layer.id);
+      ids.push(layer.id);
+    });
+
+    return ids;
+  }
+
+  private importGroup(
+    node: PSDGroupLayer,
+    parentId: string | null,
+    state: LayerStackState,
+    sources: Map<string, PSDPixelLayer>,
+    report: PSDImportReport
+  ): string {
+    const groupId = `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    const warn = (message: string) => report.warnings.push({ layerName: node.name, message });
+
+    if (node.mask) warn('Group masks are not supported; the mask was dropped');
+    if (node.clipping) warn('Clipped groups are not supported; the group was unclipped');
+    node.unsupported.forEach(feature => warn(`${this.capitalize(feature)} was dropped`));
+
+    const group: LayerGroup = {
+      id: groupId,
+      name: node.name,
+      parentId,
+      children: [],
+      expanded: node.expanded,
+      visible: node.visible,
+      opacity: node.opacity,
+      blendMode: this.fromBlendKey(node.blendMode, node.name, report, true),
+    };
+    state.groups.push(group);
+    report.groupIds.push(groupId);
+
+    group.children = this.importNodes(node.children, groupId, state, sources, report);
+    return groupId;
+  }
+
+  private importLayer(node: PSDPixelLayer, parentId: string | null, report: PSDImportReport): Layer | null {
+    const warn = (message: string) => report.warnings.push({ layerName: node.name, message });
+
+    // Adjustment and fill layers carry no pixels of their own
+    if (!node.pixels && node.unsupported.length > 0) {
+      warn(`${this.capitalize(node.unsupported[0])} is not supported; the layer was skipped`);
+      return null;
+    }
+    node.unsupported.forEach(feature => {
+      warn(feature === 'layer style' || feature === 'vector mask'
+        ? `${this.capitalize(feature)} was dropped`
+        : `${this.capitalize(feature)} was flattened to pixels`);
+    });
+
+    return {
+      id: `layer_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: node.name,
+      type: 'raster',
+      visible: node.visible,
+      opacity: node.opacity,
+      blendMode: this.fromBlendKey(node.blendMode, node.name, report, false) as BlendMode,
+      locked: false,
+      alphaLock: false,
+      clippingMask: node.clipping,
+      maskLayerId: null,
+      mask: node.mask
+        ? {
+          id: `mask_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          enabled: !node.mask.disabled,
+          inverted: false,
+        }
+        : null,
+      groupId: parentId,
+      strokes: [],
+      transform: {
+        x: 0,
+        y: 0,
+        scale: 1,
+        rotation: 0,
+        flipX: false,
+        flipY: false,
+      },
+      effects: [],
+    };
+  }
+
+  // Photoshop clips to the nearest unclipped layer below; we can only clip to a layer
+  private resolveClipping(layer: Layer, siblingIds: string[], state: LayerStackState, report: PSDImportReport): void {
+    for (let i = siblingIds.length - 1; i >= 0; i--) {
+      const sibling = state.layers.find(candidate => candidate.id === siblingIds[i]);
+      if (!sibling) break;
+      if (!sibling.clippingMask) {
+        layer.maskLayerId = sibling.id;
+        return;
+      }
+    }
+
+    layer.clippingMask = false;
+    report.warnings.push({ layerName: layer.name, message: 'Clipping base is not a pixel layer; the layer was unclipped' });
+  }
+
+  private fromBlendKey(key: string, name: string, report: PSDImportReport, isGroup: boolean): GroupBlendMode {
+    if (key === 'pass') {
+      return isGroup ? 'pass-through' : 'normal';
+    }
+
+    const blendMode = (Object.keys(this.BLEND_KEYS) as BlendMode[]).find(mode => this.BLEND_KEYS[mode] === key);
+    if (blendMode) return blendMode;
+
+    const photoshopName = this.PHOTOSHOP_BLEND_NAMES[key] ?? `"${key.trim()}"`;
+    report.warnings.push({ layerName: name, message: `${photoshopName} blend mode is not supported; imported as Normal` });
+    return 'normal';
+  }
+
+  private createBackground(width: number, height: number, composite: Uint8Array): PSDPixelLayer {
+    return {
+      kind: 'pixel',
+      name: 'Background',
+      visible: true,
+      opacity: 1,
+      blendMode: 'norm',
+      clipping: false,
+      mask: null,
+      unsupported: [],
+      left: 0,
+      top: 0,
+      width,
+      height,
+      pixels: composite,
+    };
+  }
+
+  // PSD coordinates are document pixels; surfaces may be larger by the pixel ratio
+  private drawPixels(surface: SkSurface, source: PSDPixelLayer, documentWidth: number, documentHeight: number): void {
+    const image = this.makeImage(source.pixels!, source.width, source.height, AlphaType.Unpremul);
+    if (!image) return;
+
+    const scaleX = surface.width() / documentWidth;
+    const scaleY = surface.height() / documentHeight;
+    surface.getCanvas().drawImageRect(
+      image,
+      CompatSkia.XYWHRect(0, 0, source.width, source.height),
+      CompatSkia.XYWHRect(source.left * scaleX, source.top * scaleY, source.width * scaleX, source.height * scaleY),
+      CompatSkia.Paint()
+    );
+    surface.flush();
+  }
+
+  private drawMask(surface: SkSurface, mask: PSDMask, documentWidth: number, documentHeight: number): void {
+    const canvas = surface.getCanvas();
+    const gray = mask.defaultColor;
+    canvas.clear(CompatSkia.Color(`rgb(${gray}, ${gray}, ${gray})`));
+
+    if (mask.width === 0 || mask.height === 0 || mask.data.length === 0) {
+      surface.flush();
+      return;
+    }
+
+    const rgba = new Uint8Array(mask.width * mask.height * 4);
+    for (let i = 0; i < mask.data.length; i++) {
+      rgba[i * 4] = mask.data[i];
+      rgba[i * 4 + 1] = mask.data[i];
+      rgba[i * 4 + 2] = mask.data[i];
+      rgba[i * 4 + 3] = 255;
+    }
+
+    const image = this.makeImage(rgba, mask.width, mask.height, AlphaType.Opaque);
+    if (image) {
+      const scaleX = surface.width() / documentWidth;
+      const scaleY = surface.height() / documentHeight;
+      canvas.drawImageRect(
+        image,
+        CompatSkia.XYWHRect(0, 0, mask.width, mask.height),
+        CompatSkia.XYWHRect(mask.left * scaleX, mask.top * scaleY, mask.width * scaleX, mask.height * scaleY),
+        CompatSkia.Paint()
+      );
+    }
+    surface.flush();
+  }
+
+  // ===== PRIVATE METHODS: PIXELS =====
+
+  private readRGBA(image: SkImage): Uint8Array | null {
+    const pixels = image.readPixels(0, 0, {
+      width: image.width(),
+      height: image.height(),
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    });
+    if (!pixels) return null;
+
+    return pixels instanceof Uint8Array ? pixels : Uint8Array.from(pixels, value => Math.round(value * 255));
+  }
+
+  private makeImage(rgba: Uint8Array, width: number, height: number, alphaType: AlphaType): SkImage | null {
+    return CompatSkia.Image.MakeImage(
+      { width, height, colorType: ColorType.RGBA_8888, alphaType },
+      CompatSkia.Data.fromBytes(rgba),
+      width * 4
+    );
+  }
+
+  // Smallest rectangle holding every visible pixel, or null for an empty layer
+  private getOpaqueBounds(rgba: Uint8Array, width: number, height: number): Bounds | null {
+    let left = width;
+    let top = height;
+    let right = -1;
+    let bottom = -1;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (rgba[(y * width + x) * 4 + 3] === 0) continue;
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        bottom = y;
+      }
+    }
+
+    return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+  }
+
+  private crop(rgba: Uint8Array, width: number, bounds: Bounds): Uint8Array {
+    const output = new Uint8Array(bounds.width * bounds.height * 4);
+    for (let y = 0; y < bounds.height; y++) {
+      const start = ((bounds.y + y) * width + bounds.x) * 4;
+      output.set(rgba.subarray(start, start + bounds.width * 4), y * bounds.width * 4);
+    }
+    return output;
+  }
+
+  private getPixelSize(): { width: number; height: number } {
+    for (const layer of layerManager.getAllLayers()) {
+      const surface = valkyrieEngine.getLayerSurface(layer.id);
+      if (surface) {
+        return { width: surface.width(), height: surface.height() };
+      }
+    }
+    throw new Error('There are no pixel layers to export');
+  }
+
+  private capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  }
+}
+
+// Export singleton instance
+export const psdExchange = PSDExchange.getInstance();
@@ -0,0 +1,336 @@
+// src/engines/drawing/PerspectiveGuideEngine.ts
+import {
+  Point,
+  PerspectiveGuide,
+  PerspectiveGuideType,
+} from '../../types/drawing';
+import { CompatSkia, SkCanvas, PaintStyle } from './SkiaCompatibility';
+import { EventBus } from '../core/EventBus';
+import { transformManager } from './TransformManager';
+
+/**
+ * Perspective Guide Engine
+ * One-, two- and three-point perspective guides with movable vanishing points and horizon.
+ * Draws them over the canvas in screen space, and with drawing assist on, locks new
+ * strokes onto the guide line closest to the direction they start in.
+ * DocumentStore saves the guide with each document.
+ */
+export class PerspectiveGuideEngine {
+  private static instance: PerspectiveGuideEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly DEFAULT_COLOR = '#3a86ff';
+  private readonly DEFAULT_OPACITY = 0.6;
+  private readonly DEFAULT_LINE_COUNT = 24;
+  private readonly HANDLE_RADIUS = 12; // Screen pixels
+  private readonly HORIZON_HIT_DISTANCE = 10; // Screen pixels
+  private readonly LOCK_DISTANCE = 12; // Canvas distance a stroke travels before its direction is chosen
+  private readonly MIN_DIRECTION_DISTANCE = 1; // Closer than this to a vanishing point there's no direction
+
+  private guide: PerspectiveGuide | null = null;
+  private assist: AssistStroke | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): PerspectiveGuideEngine {
+    if (!PerspectiveGuideEngine.instance) {
+      PerspectiveGuideEngine.instance = new PerspectiveGuideEngine();
+    }
+    return PerspectiveGuideEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  // Starts a guide laid out for a canvas of `size`, replacing any current one
+  public createGuide(type: PerspectiveGuideType, size: { width: number; height: number }): PerspectiveGuide {
+    const { width, height } = size;
+    const horizonY = height * 0.45;
+
+    const vanishingPoints: Point[] =
+      type === 'one-point'
+        ? [{ x: width / 2, y: horizonY }]
+        : [{ x: -width * 0.25, y: horizonY }, { x: width * 1.25, y: horizonY }];
+    if (type === 'three-point') {
+      vanishingPoints.push({ x: width / 2, y: height * 2.5 });
+    }
+
+    this.setGuide({
+      type,
+      vanishingPoints,
+      horizonAngle: 0,
+      visible: true,
+      drawingAssist: this.guide?.drawingAssist ?? false,
+      color: this.guide?.color ?? this.DEFAULT_COLOR,
+      opacity: this.guide?.opacity ?? this.DEFAULT_OPACITY,
+      lineCount: this.guide?.lineCount ?? this.DEFAULT_LINE_COUNT,
+    });
+    return this.getGuide()!;
+  }
+
+  // Replaces the guide as a whole (document open/close)
+  public setGuide(guide: PerspectiveGuide | null): void {
+    this.guide = guide && {
+      ...guide,
+      vanishingPoints: guide.vanishingPoints.map(point => ({ x: point.x, y: point.y })),
+    };
+    this.assist = null;
+    this.emitChange();
+  }
+
+  public getGuide(): PerspectiveGuide | null {
+    if (!this.guide) return null;
+    return {
+      ...this.guide,
+      vanishingPoints: this.guide.vanishingPoints.map(point => ({ ...point })),
+    };
+  }
+
+  public removeGuide(): void {
+    this.setGuide(null);
+  }
+
+  public updateGuide(
+    changes: Partial<Pick<PerspectiveGuide, 'visible' | 'drawingAssist' | 'color' | 'opacity' | 'lineCount'>>
+  ): void {
+    if (!this.guide) return;
+
+    this.guide = { ...this.guide, ...changes };
+    this.guide.opacity = Math.max(0, Math.min(1, this.guide.opacity));
+    this.guide.lineCount = Math.max(1, Math.round(this.guide.lineCount));
+    this.emitChange();
+  }
+
+  public isAssistActive(): boolean {
+    return !!this.guide && this.guide.drawingAssist;
+  }
+
+  public moveVanishingPoint(index: number, point: Point): void {
+    const guide = this.guide;
+    if (!guide || index < 0 || index >= guide.vanishingPoints.length) return;
+
+    guide.vanishingPoints[index] = { x: point.x, y: point.y };
+    if (index < 2) {
+      this.updateHorizonAngle(guide);
+    }
+    this.emitChange();
+  }
+
+  // Slides the horizon (and the vanishing points on it) so it passes through `point`
+  public moveHorizon(point: Point): void {
+    const guide = this.guide;
+    if (!guide) return;
+
+    const normal = this.getHorizonNormal(guide);
+    const origin = guide.vanishingPoints[0];
+    const offset = (point.x - origin.x) * normal.x + (point.y - origin.y) * normal.y;
+
+    const onHorizon = guide.type === 'one-point' ? 1 : 2;
+    guide.vanishingPoints = guide.vanishingPoints.map((vanishingPoint, index) =>
+      index < onHorizon
+        ? { x: vanishingPoint.x + normal.x * offset, y: vanishingPoint.y + normal.y * offset }
+        : vanishingPoint
+    );
+    this.emitChange();
+  }
+
+  // Degrees; only one-point guides have a free horizon angle
+  public setHorizonAngle(angle: number): void {
+    const guide = this.guide;
+    if (!guide || guide.type !== 'one-point') return;
+
+    guide.horizonAngle = angle;
+    this.emitChange();
+  }
+
+  // What the guide handle under a screen point is, for dragging
+  public hitTest(screenPoint: Point): GuideHit | null {
+    const guide = this.guide;
+    if (!guide || !guide.visible) return null;
+
+    for (let index = 0; index < guide.vanishingPoints.length; index++) {
+      const handle = transformManager.canvasToScreen(guide.vanishingPoints[index]);
+      if (Math.hypot(handle.x - screenPoint.x, handle.y - screenPoint.y) <= this.HANDLE_RADIUS) {
+        return { kind: 'vanishingPoint', index };
+      }
+    }
+
+    const [from, to] = this.getHorizonOnScreen(guide);
+    const length = Math.hypot(to.x - from.x, to.y - from.y);
+    if (length > 0) {
+      const distance = Math.abs(
+        (to.x - from.x) * (from.y - screenPoint.y) - (from.x - screenPoint.x) * (to.y - from.y)
+      ) / length;
+      if (distance <= this.HORIZON_HIT_DISTANCE) return { kind: 'horizon' };
+    }
+    return null;
+  }
+
+  // Unit directions of the guide lines that pass through `point`
+  public getDirections(point: Point): Point[] {
+    const guide = this.guide;
+    if (!guide) return [];
+
+    const directions = guide.vanishingPoints
+      .map(vanishingPoint => this.normalize({ x: vanishingPoint.x - point.x, y: vanishingPoint.y - point.y }))
+      .filter((direction): direction is Point => direction !== null);
+
+    // One point also draws parallel to the horizon; one and two point keep verticals
+    const horizon = this.getHorizonDirection(guide);
+    if (guide.type === 'one-point') {
+      directions.push(horizon);
+    }
+    if (guide.type !== 'three-point') {
+      directions.push({ x: -horizon.y, y: horizon.x });
+    }
+    return directions;
+  }
+
+  // Drawing assist: call for each stroke, then pass every new point through constrain()
+  public beginStroke(point: Point): void {
+    this.assist = this.isAssistActive() ? { start: point, direction: null } : null;
+  }
+
+  // The point moved onto the stroke's guide line; the line is picked once the pen has moved far enough
+  public constrain(point: Point): Point {
+    const assist = this.assist;
+    if (!assist) return point;
+
+    const offset = { x: point.x - assist.start.x, y: point.y - assist.start.y };
+    if (!assist.direction) {
+      const moved = this.normalize(offset);
+      if (!moved || Math.hypot(offset.x, offset.y) < this.LOCK_DISTANCE) return point;
+
+      // Guide lines have no direction, so the sign of the dot product doesn't matter
+      let best = 0;
+      this.getDirections(assist.start).forEach(direction => {
+        const alignment = Math.abs(moved.x * direction.x + moved.y * direction.y);
+        if (alignment > best) {
+          best = alignment;
+          assist.direction = direction;
+        }
+      });
+      if (!assist.direction) return point;
+    }
+
+    const { direction } = assist;
+    const along = offset.x * direction.x + offset.y * direction.y;
+    return { ...point, x: assist.start.x + direction.x * along, y: assist.start.y + direction.y * along };
+  }
+
+  public endStroke(): void {
+    this.assist = null;
+  }
+
+  // A finished stroke's points snapped as drawing assist would have placed them
+  public snapPoints(points: Point[]): Point[] {
+    if (!this.isAssistActive() || points.length < 2) return points;
+
+    this.beginStroke(points[0]);
+    const snapped = points.map(point => this.constrain(point));
+    this.endStroke();
+    return snapped;
+  }
+
+  // Guide lines, horizon and handles in screen space, over the transformed canvas
+  public drawOverlay(canvas: SkCanvas, viewSize: { width: number; height: number }): void {
+    const guide = this.guide;
+    if (!guide || !guide.visible) return;
+
+    try {
+      const paint = CompatSkia.Paint();
+      paint.setStyle(PaintStyle.Stroke);
+      paint.setAntiAlias(true);
+      paint.setColor(CompatSkia.Color(guide.color));
+      paint.setAlphaf(guide.opacity);
+      paint.setStrokeWidth(1);
+
+      const center = { x: viewSize.width / 2, y: viewSize.height / 2 };
+      const diagonal = Math.hypot(viewSize.width, viewSize.height);
+      const handles = guide.vanishingPoints.map(point => transformManager.canvasToScreen(point));
+
+      // Lines fan out evenly from each vanishing point, far enough to cross the whole view
+      const path = CompatSkia.Path.Make();
+      handles.forEach(handle => {
+        const length = diagonal + Math.hypot(handle.x - center.x, handle.y - center.y);
+        for (let line = 0; line < guide.lineCount; line++) {
+          const angle = (line / guide.lineCount) * Math.PI * 2;
+          path.moveTo(handle.x, handle.y);
+          path.lineTo(handle.x + Math.cos(angle) * length, handle.y + Math.sin(angle) * length);
+        }
+      });
+      canvas.drawPath(path, paint);
+
+      const [from, to] = this.getHorizonOnScreen(guide);
+      const horizon = this.normalize({ x: to.x - from.x, y: to.y - from.y });
+      if (horizon) {
+        const length = diagonal + Math.hypot(from.x - center.x, from.y - center.y);
+        paint.setStrokeWidth(2);
+        canvas.drawLine(
+          from.x - horizon.x * length, from.y - horizon.y * length,
+          from.x + horizon.x * length, from.y + horizon.y * length,
+          paint
+        );
+      }
+
+      const fill = CompatSkia.Paint();
+      fill.setAntiAlias(true);
+      fill.setColor(CompatSkia.Color(guide.color));
+      handles.forEach(handle => {
+        canvas.drawCircle(handle.x, handle.y, this.HANDLE_RADIUS, paint);
+        canvas.drawCircle(handle.x, handle.y, 3, fill);
+      });
+    } catch (error) {
+      console.error('Failed to draw perspective guide:', error);
+    }
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private updateHorizonAngle(guide: PerspectiveGuide): void {
+    if (guide.type === 'one-point') return;
+
+    const [first, second] = guide.vanishingPoints;
+    guide.horizonAngle = (Math.atan2(second.y - first.y, second.x - first.x) * 180) / Math.PI;
+  }
+
+  private getHorizonDirection(guide: PerspectiveGuide): Point {
+    const radians = (guide.horizonAngle * Math.PI) / 180;
+    return { x: Math.cos(radians), y: Math.sin(radians) };
+  }
+
+  private getHorizonNormal(guide: PerspectiveGuide): Point {
+    const direction = this.getHorizonDirection(guide);
+    return { x: -direction.y, y: direction.x };
+  }
+
+  // Two screen points on the horizon; the view may be rotated, so both are converted
+  private getHorizonOnScreen(guide: PerspectiveGuide): [Point, Point] {
+    const origin = guide.vanishingPoints[0];
+    const direction = this.getHorizonDirection(guide);
+    return [
+      transformManager.canvasToScreen(origin),
+      transformManager.canvasToScreen({ x: origin.x + direction.x * 100, y: origin.y + direction.y * 100 }),
+    ];
+  }
+
+  private normalize(vector: Point): Point | null {
+    const length = Math.hypot(vector.x, vector.y);
+    if (length < this.MIN_DIRECTION_DISTANCE) return null;
+    return { x: vector.x / length, y: vector.y / length };
+  }
+
+  private emitChange(): void {
+    this.eventBus.emit('perspective:changed', { guide: this.getGuide() });
+  }
+}
+
+// ===== TYPES =====
+
+export type GuideHit = { kind: 'vanishingPoint'; index: number } | { kind: 'horizon' };
+
+interface AssistStroke {
+  start: Point;
+  direction: Point | null; // Chosen guide line, once the stroke has moved far enough
+}
+
+export const perspectiveGuideEngine = PerspectiveGuideEngine.getInstance();
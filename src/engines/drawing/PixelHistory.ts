@@ -0,0 +1,357 @@
+// src/engines/drawing/PixelHistory.ts
+import * as FileSystem from 'expo-file-system';
+import { Bounds } from '../../types/drawing';
+import { CompatSkia, SkImage, SkSurface } from './SkiaCompatibility';
+import { ColorType, AlphaType, ClipOp } from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+import { bytesToBase64, base64ToBytes } from './PropertyList';
+
+/**
+ * Pixel History
+ * Before/after pixels for undoable raster edits, kept as fixed-size tiles so only
+ * the changed parts of a surface are stored. Tiles hold raw premultiplied RGBA, so
+ * restoring is exact. Past the memory budget the oldest tiles move to the cache
+ * directory and are read back when an undo needs them.
+ */
+export class PixelHistory {
+  private static instance: PixelHistory;
+  private eventBus = EventBus.getInstance();
+
+  private readonly TILE_SIZE = 256;
+  private readonly DEFAULT_MEMORY_BUDGET = 256 * 1024 * 1024;
+  private readonly MIN_MEMORY_BUDGET = 16 * 1024 * 1024;
+  private readonly SPILL_DIRECTORY = FileSystem.cacheDirectory
+    ? `${FileSystem.cacheDirectory}pixel-history/`
+    : null;
+
+  private memoryBudget = this.DEFAULT_MEMORY_BUDGET;
+  private residentBytes = 0;
+  private spilledBytes = 0;
+
+  // In-memory tiles in the order they were recorded, so the oldest spill first
+  private resident: Set<TileData> = new Set();
+  private spilling = false;
+  private directoryReady: Promise<void> | null = null;
+  private nextFileId = 0;
+  private nextPatchId = 0;
+
+  // Restores that wait on disk reads run in order, and later ones queue behind them
+  private applyQueue: Promise<void> = Promise.resolve();
+  private pendingApplies = 0;
+
+  private constructor() {
+    this.loadSettings();
+  }
+
+  public static getInstance(): PixelHistory {
+    if (!PixelHistory.instance) {
+      PixelHistory.instance = new PixelHistory();
+    }
+    return PixelHistory.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public getMemoryBudget(): number {
+    return this.memoryBudget;
+  }
+
+  public setMemoryBudget(bytes: number): void {
+    this.memoryBudget = Math.max(this.MIN_MEMORY_BUDGET, Math.round(bytes));
+    this.saveSettings();
+    this.enforceBudget();
+    this.eventBus.emit('pixelHistory:budgetChanged', { memoryBudget: this.memoryBudget });
+  }
+
+  public getStats(): PixelHistoryStats {
+    return {
+      memoryBudget: this.memoryBudget,
+      residentBytes: this.residentBytes,
+      spilledBytes: this.spilledBytes,
+    };
+  }
+
+  // `before` and `after` cover `bounds` (surface pixels); null means transparent.
+  // Only tiles that differ are kept.
+  public createPatch(bounds: Bounds, before: SkImage | null, after: SkImage | null): PixelPatch {
+    const tiles: PixelTile[] = [];
+
+    this.forEachTile(bounds, (x, y, width, height) => {
+      const beforeBytes = before ? this.readTile(before, x - bounds.x, y - bounds.y, width, height) : null;
+      const afterBytes = after ? this.readTile(after, x - bounds.x, y - bounds.y, width, height) : null;
+      if (this.sameBytes(beforeBytes, afterBytes)) return;
+
+      tiles.push({
+        x,
+        y,
+        width,
+        height,
+        before: this.store(beforeBytes),
+        after: this.store(afterBytes),
+      });
+    });
+
+    this.enforceBudget();
+    return { id: `patch_${this.nextPatchId++}`, bounds: { ...bounds }, tiles };
+  }
+
+  // Everything on the surface as the `before` side; `after` is empty
+  public captureSurface(surface: SkSurface): PixelPatch {
+    surface.flush();
+    const bounds = { x: 0, y: 0, width: surface.width(), height: surface.height() };
+    return this.createPatch(bounds, surface.makeImageSnapshot(), null);
+  }
+
+  // Writes one side of the patch into `surface`. Runs immediately when every tile is
+  // in memory and nothing is queued; otherwise after the spilled tiles are read back.
+  public apply(patch: PixelPatch, side: PatchSide, surface: SkSurface, onApplied?: () => void): void {
+    const draw = (tiles: Array<Uint8Array | null>) => {
+      patch.tiles.forEach((tile, i) => this.drawTile(surface, tile, tiles[i]));
+      surface.flush();
+      onApplied?.();
+    };
+
+    if (this.pendingApplies === 0 && patch.tiles.every(tile => !tile[side] || tile[side]!.bytes)) {
+      draw(patch.tiles.map(tile => tile[side]?.bytes ?? null));
+      return;
+    }
+
+    this.pendingApplies++;
+    this.applyQueue = this.applyQueue
+      .then(() => Promise.all(patch.tiles.map(tile => this.readData(tile[side]))))
+      .then(draw)
+      .catch(error => console.error('Failed to restore pixel history:', error))
+      .finally(() => {
+        this.pendingApplies--;
+      });
+  }
+
+  // Frees a patch whose history entry has been dropped
+  public release(patch: PixelPatch): void {
+    patch.tiles.forEach(tile => {
+      this.releaseData(tile.before);
+      this.releaseData(tile.after);
+    });
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  // Tiles sit on a fixed grid so patches of the same area line up
+  private forEachTile(bounds: Bounds, visit: (x: number, y: number, width: number, height: number) => void): void {
+    const size = this.TILE_SIZE;
+    const right = bounds.x + bounds.width;
+    const bottom = bounds.y + bounds.height;
+
+    for (let top = Math.floor(bounds.y / size) * size; top < bottom; top += size) {
+      for (let left = Math.floor(bounds.x / size) * size; left < right; left += size) {
+        const x = Math.max(left, bounds.x);
+        const y = Math.max(top, bounds.y);
+        const width = Math.min(left + size, right) - x;
+        const height = Math.min(top + size, bottom) - y;
+        if (width > 0 && height > 0) {
+          visit(x, y, width, height);
+        }
+      }
+    }
+  }
+
+  // Premultiplied RGBA, or null when the tile is fully transparent
+  private readTile(image: SkImage, x: number, y: number, width: number, height: number): Uint8Array | null {
+    const pixels = image.readPixels(x, y, {
+      width,
+      height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Premul,
+    });
+    if (!pixels) return null;
+
+    const bytes = pixels instanceof Uint8Array ? pixels : Uint8Array.from(pixels, value => Math.round(value * 255));
+    for (let i = 3; i < bytes.length; i += 4) {
+      if (bytes[i] !== 0) return bytes;
+    }
+    return null;
+  }
+
+  private sameBytes(a: Uint8Array | null, b: Uint8Array | null): boolean {
+    if (!a || !b) return a === b;
+    if (a.length !== b.length) return false;
+
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) return false;
+    }
+    return true;
+  }
+
+  private store(bytes: Uint8Array | null): TileData | null {
+    if (!bytes) return null;
+
+    const data: TileData = { bytes, file: null, size: bytes.length, released: false };
+    this.resident.add(data);
+    this.residentBytes += data.size;
+    return data;
+  }
+
+  private drawTile(surface: SkSurface, tile: PixelTile, bytes: Uint8Array | null): void {
+    const canvas = surface.getCanvas();
+
+    canvas.save();
+    canvas.clipRect(CompatSkia.XYWHRect(tile.x, tile.y, tile.width, tile.height), ClipOp.Intersect, false);
+    canvas.clear(CompatSkia.Color('transparent'));
+
+    if (bytes) {
+      const image = CompatSkia.Image.MakeImage(
+        {
+          width: tile.width,
+          height: tile.height,
+          colorType: ColorType.RGBA_8888,
+          alphaType: AlphaType.Premul,
+        },
+        CompatSkia.Data.fromBytes(bytes),
+        tile.width * 4
+      );
+      if (image) {
+        canvas.drawImage(image, tile.x, tile.y);
+      }
+    }
+
+    canvas.restore();
+  }
+
+  private async readData(data: TileData | null): Promise<Uint8Array | null> {
+    if (!data) return null;
+    if (data.bytes) return data.bytes;
+    if (!data.file) return null;
+
+    const base64 = await FileSystem.readAsStringAsync(data.file, { encoding: FileSystem.EncodingType.Base64 });
+    return base64ToBytes(base64);
+  }
+
+  private releaseData(data: TileData | null): void {
+    if (!data || data.released) return;
+    data.released = true;
+
+    if (this.resident.delete(data)) {
+      this.residentBytes -= data.size;
+    }
+    if (data.file) {
+      this.spilledBytes -= data.size;
+      this.deleteFile(data.file);
+      data.file = null;
+    }
+    data.bytes = null;
+  }
+
+  private async enforceBudget(): Promise<void> {
+    if (this.spilling || !this.SPILL_DIRECTORY || this.residentBytes <= this.memoryBudget) return;
+    this.spilling = true;
+
+    try {
+      await this.ensureDirectory();
+      for (const data of this.resident) {
+        if (this.residentBytes <= this.memoryBudget) break;
+        await this.spill(data);
+      }
+    } catch (error) {
+      console.error('Failed to spill pixel history:', error);
+    } finally {
+      this.spilling = false;
+    }
+  }
+
+  // Tiles stay in memory until the write finishes, so undo never waits on a half-written file
+  private async spill(data: TileData): Promise<void> {
+    const bytes = data.bytes;
+    if (!bytes || data.released) return;
+
+    const file = `${this.SPILL_DIRECTORY}tile_${this.nextFileId++}.bin`;
+    await FileSystem.writeAsStringAsync(file, bytesToBase64(bytes), { encoding: FileSystem.EncodingType.Base64 });
+
+    if (data.released) {
+      this.deleteFile(file);
+      return;
+    }
+
+    data.file = file;
+    data.bytes = null;
+    this.resident.delete(data);
+    this.residentBytes -= data.size;
+    this.spilledBytes += data.size;
+  }
+
+  // Tiles left over from an earlier session are removed before the first spill
+  private ensureDirectory(): Promise<void> {
+    const directory = this.SPILL_DIRECTORY;
+    if (!directory) return Promise.resolve();
+
+    if (!this.directoryReady) {
+      this.directoryReady = FileSystem.deleteAsync(directory, { idempotent: true })
+        .then(() => FileSystem.makeDirectoryAsync(directory, { intermediates: true }));
+    }
+    return this.directoryReady;
+  }
+
+  private deleteFile(file: string): void {
+    FileSystem.deleteAsync(file, { idempotent: true }).catch(error => {
+      console.error('Failed to delete pixel history tile:', error);
+    });
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const saved = await dataManager.get<PixelHistorySettings>('pixel_history_settings');
+      if (saved && typeof saved.memoryBudget === 'number') {
+        this.memoryBudget = Math.max(this.MIN_MEMORY_BUDGET, saved.memoryBudget);
+      }
+    } catch (error) {
+      console.error('Failed to load pixel history settings:', error);
+    }
+  }
+
+  private async saveSettings(): Promise<void> {
+    try {
+      await dataManager.set<PixelHistorySettings>('pixel_history_settings', { memoryBudget: this.memoryBudget });
+    } catch (error) {
+      console.error('Failed to save pixel history settings:', error);
+    }
+  }
+}
+
+// ===== TYPES =====
+
+export type PatchSide = 'before' | 'after';
+
+export interface PixelPatch {
+  id: string;
+  bounds: Bounds;
+  tiles: PixelTile[];
+}
+
+interface PixelTile {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  before: TileData | null; // null = transparent
+  after: TileData | null;
+}
+
+interface TileData {
+  bytes: Uint8Array | null; // null once spilled or released
+  file: string | null;
+  size: number;
+  released: boolean;
+}
+
+interface PixelHistoryStats {
+  memoryBudget: number;
+  residentBytes: number;
+  spilledBytes: number;
+}
+
+interface PixelHistorySettings {
+  memoryBudget: number;
+}
+
+// Export singleton instance
+export const pixelHistory = PixelHistory.getInstance();
@@ -0,0 +1,181 @@
+// src/engines/drawing/ProcreateBrushCodec.ts
+import { unzipSync, zipSync, Zippable } from 'fflate';
+import {
+  parsePropertyList,
+  writeBinaryPropertyList,
+  unarchiveKeyedObject,
+  archiveKeyedObject,
+  PlistDictionary,
+  PlistValue,
+} from './PropertyList';
+
+/**
+ * Procreate brush archive codec
+ * A .brush is a zip holding Brush.archive (an NSKeyedArchiver SilicaBrush),
+ * Shape.png, Grain.png and a QuickLook thumbnail. A .brushset is a zip of
+ * brush folders named by UUID plus a brushset.plist listing their order.
+ */
+
+const ARCHIVE_FILE = 'Brush.archive';
+const SHAPE_FILE = 'Shape.png';
+const GRAIN_FILE = 'Grain.png';
+const THUMBNAIL_FILE = 'QuickLook/Thumbnail.png';
+const BRUSHSET_MANIFEST = 'brushset.plist';
+const BRUSH_CLASS = 'SilicaBrush';
+
+export class ProcreateBrushCodec {
+  // Reads either a single .brush or a .brushset
+  public static decode(data: ArrayBuffer | Uint8Array): ProcreateArchive {
+    const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+
+    let entries: Record<string, Uint8Array>;
+    try {
+      entries = unzipSync(bytes);
+    } catch (error) {
+      throw new Error(`Not a Procreate brush archive: ${(error as Error).message}`);
+    }
+
+    const paths = Object.keys(entries).filter(path => !path.startsWith('__MACOSX/'));
+    const archivePaths = paths.filter(path => path === ARCHIVE_FILE || path.endsWith(`/${ARCHIVE_FILE}`));
+    if (archivePaths.length === 0) {
+      throw new Error('No Brush.archive found; not a Procreate brush');
+    }
+
+    const warnings: string[] = [];
+    const brushes: ProcreateBrushFile[] = [];
+
+    archivePaths.forEach(archivePath => {
+      const folder = archivePath.slice(0, archivePath.length - ARCHIVE_FILE.length);
+      const uuid = folder.replace(/\/$/, '').split('/').pop() || generateBrushUUID();
+
+      try {
+        const settings = unarchiveKeyedObject(parsePropertyList(entries[archivePath]));
+        delete settings.$classname;
+
+        brushes.push({
+          uuid,
+          name: typeof settings.name === 'string' ? settings.name : '',
+          settings,
+          shape: entries[folder + SHAPE_FILE],
+          grain: entries[folder + GRAIN_FILE],
+          thumbnail: entries[folder + THUMBNAIL_FILE],
+        });
+      } catch (error) {
+        warnings.push(`Brush "${uuid}" could not be read: ${(error as Error).message}`);
+      }
+    });
+
+    const manifestPath = paths.find(path => path === BRUSHSET_MANIFEST || path.endsWith(`/${BRUSHSET_MANIFEST}`));
+    if (!manifestPath) {
+      return { kind: 'brush', name: null, brushes, warnings };
+    }
+
+    let name: string | null = null;
+    try {
+      const manifest = parsePropertyList(entries[manifestPath]) as PlistDictionary;
+      name = typeof manifest.name === 'string' ? manifest.name : null;
+
+      // Keep the set's own ordering; unlisted brushes go last
+      if (Array.isArray(manifest.brushes)) {
+        const order = (manifest.brushes as PlistValue[]).map(String);
+        brushes.sort((a, b) => rank(order, a.uuid) - rank(order, b.uuid));
+      }
+    } catch (error) {
+      warnings.push(`Brush set manifest could not be read: ${(error as Error).message}`);
+    }
+
+    return { kind: 'brushset', name, brushes, warnings };
+  }
+
+  public static encodeBrush(brush: ProcreateBrushFile): Uint8Array {
+    const files: Zippable = {};
+    ProcreateBrushCodec.addBrushFiles(files, '', brush);
+    return zipSync(files, { level: 6 });
+  }
+
+  public static encodeBrushSet(name: string, brushes: ProcreateBrushFile[]): Uint8Array {
+    const files: Zippable = {};
+
+    files[BRUSHSET_MANIFEST] = writeBinaryPropertyList({
+      name,
+      brushes: brushes.map(brush => brush.uuid),
+    });
+
+    brushes.forEach(brush => {
+      ProcreateBrushCodec.addBrushFiles(files, `${brush.uuid}/`, brush);
+    });
+
+    return zipSync(files, { level: 6 });
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private static addBrushFiles(files: Zippable, folder: string, brush: ProcreateBrushFile): void {
+    files[folder + ARCHIVE_FILE] = writeBinaryPropertyList(
+      archiveKeyedObject({ ...brush.settings, name: brush.name }, BRUSH_CLASS)
+    );
+
+    // PNGs are already compressed
+    if (brush.shape) files[folder + SHAPE_FILE] = [brush.shape, { level: 0 }];
+    if (brush.grain) files[folder + GRAIN_FILE] = [brush.grain, { level: 0 }];
+    if (brush.thumbnail) files[folder + THUMBNAIL_FILE] = [brush.thumbnail, { level: 0 }];
+  }
+}
+
+// ===== HELPERS =====
+
+export function generateBrushUUID(): string {
+  const hex = '0123456789ABCDEF';
+  let uuid = '';
+
+  for (let i = 0; i < 36; i++) {
+    if (i === 8 || i === 13 || i === 18 || i === 23) {
+      uuid += '-';
+    } else if (i === 14) {
+      uuid += '4';
+    } else if (i === 19) {
+      uuid += hex[8 + Math.floor(Math.random() * 4)];
+    } else {
+      uuid += hex[Math.floor(Math.random() * 16)];
+    }
+  }
+
+  return uuid;
+}
+
+export function readPlistNumber(settings: PlistDictionary, key: string): number | undefined {
+  const value = settings[key];
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return undefined;
+}
+
+export function readPlistBoolean(settings: PlistDictionary, key: string): boolean | undefined {
+  const value = settings[key];
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return undefined;
+}
+
+function rank(order: string[], uuid: string): number {
+  const index = order.indexOf(uuid);
+  return index === -1 ? order.length : index;
+}
+
+// ===== TYPES =====
+
+export interface ProcreateBrushFile {
+  uuid: string;
+  name: string;
+  settings: PlistDictionary; // Resolved SilicaBrush properties
+  shape?: Uint8Array; // Shape.png: white paints, black is transparent
+  grain?: Uint8Array; // Grain.png: grayscale texture
+  thumbnail?: Uint8Array;
+}
+
+export interface ProcreateArchive {
+  kind: 'brush' | 'brushset';
+  name: string | null;
+  brushes: ProcreateBrushFile[];
+  warnings: string[];
+}
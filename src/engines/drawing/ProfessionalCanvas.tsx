@@ -18,6 +18,7 @@ import {
 import { runOnJS, useSharedValue, withSpring } from 'react-native-reanimated';
 import { performanceOptimizer } from './PerformanceOptimizer';
 import { EventBus } from '../core/EventBus';
+import { createStrokeSeed } from './SeededRandom';
 
 interface ProfessionalCanvasProps {
   width?: number;
@@ -158,6 +159,7 @@ export const ProfessionalCanvas = React.memo(React.forwardRef<any, ProfessionalC
             color: currentColor.value,
             strokeWidth: currentStrokeWidth.value,
             timestamp: Date.now(),
+            seed: createStrokeSeed(),
           };
           
           onStrokeStart?.(currentStroke.current);
@@ -0,0 +1,576 @@
+// src/engines/drawing/PropertyList.ts
+import { BinaryReader, decodeUtf8 } from './BinaryReader';
+
+/**
+ * Apple property list support for brush interchange
+ * Reads binary (bplist00) and XML plists, writes binary plists,
+ * and (un)archives NSKeyedArchiver object graphs as used by Procreate.
+ */
+
+export class PlistUID {
+  constructor(public readonly value: number) {}
+}
+
+// Forces a whole number to be written as <real>
+export class PlistReal {
+  constructor(public readonly value: number) {}
+}
+
+export type PlistValue =
+  | string
+  | number
+  | boolean
+  | Date
+  | Uint8Array
+  | PlistUID
+  | PlistReal
+  | null
+  | PlistValue[]
+  | PlistDictionary;
+
+export interface PlistDictionary {
+  [key: string]: PlistValue;
+}
+
+// Seconds between 1970-01-01 and the plist epoch (2001-01-01)
+const APPLE_EPOCH_OFFSET = 978307200;
+
+// ===== READING =====
+
+export function parsePropertyList(bytes: Uint8Array): PlistValue {
+  const header = String.fromCharCode(...Array.from(bytes.subarray(0, 8)));
+
+  if (header === 'bplist00') {
+    return parseBinaryPlist(bytes);
+  }
+
+  const text = decodeUtf8(bytes);
+  if (text.trimStart().startsWith('<')) {
+    return parseXmlPlist(text);
+  }
+
+  throw new Error('Unrecognized property list format');
+}
+
+function parseBinaryPlist(bytes: Uint8Array): PlistValue {
+  const reader = new BinaryReader(bytes);
+
+  reader.seek(bytes.length - 32 + 6);
+  const offsetSize = reader.readUint8();
+  const refSize = reader.readUint8();
+  const objectCount = reader.readUintN(8);
+  const topObject = reader.readUintN(8);
+  const offsetTableOffset = reader.readUintN(8);
+
+  const offsets: number[] = [];
+  reader.seek(offsetTableOffset);
+  for (let i = 0; i < objectCount; i++) {
+    offsets.push(reader.readUintN(offsetSize));
+  }
+
+  const cache: Map<number, PlistValue> = new Map();
+  const visiting: Set<number> = new Set();
+
+  const readLength = (info: number): number => {
+    if (info !== 0x0f) return info;
+    const marker = reader.readUint8();
+    return reader.readUintN(1 << (marker & 0x0f));
+  };
+
+  const readObject = (index: number): PlistValue => {
+    if (cache.has(index)) return cache.get(index)!;
+    if (visiting.has(index)) {
+      throw new Error('Circular reference in binary plist');
+    }
+    visiting.add(index);
+
+    reader.seek(offsets[index]);
+    const marker = reader.readUint8();
+    const type = marker >> 4;
+    const info = marker & 0x0f;
+    let value: PlistValue;
+
+    switch (type) {
+      case 0x0:
+        value = info === 0x09 ? true : info === 0x08 ? false : null;
+        break;
+      case 0x1: {
+        const size = 1 << info;
+        if (size === 8) {
+          const high = reader.readInt32();
+          const low = reader.readUint32();
+          value = high * 4294967296 + low;
+        } else {
+          value = reader.readUintN(size);
+        }
+        break;
+      }
+      case 0x2:
+        value = info === 2 ? reader.readFloat32() : reader.readFloat64();
+        break;
+      case 0x3:
+        value = new Date((reader.readFloat64() + APPLE_EPOCH_OFFSET) * 1000);
+        break;
+      case 0x4: {
+        const length = readLength(info);
+        value = reader.readBytes(length).slice();
+        break;
+      }
+      case 0x5: {
+        const length = readLength(info);
+        value = reader.readAscii(length);
+        break;
+      }
+      case 0x6: {
+        const length = readLength(info);
+        value = reader.readUtf16(length);
+        break;
+      }
+      case 0x7: {
+        const length = readLength(info);
+        value = reader.readUtf8(length);
+        break;
+      }
+      case 0x8:
+        value = new PlistUID(reader.readUintN(info + 1));
+        break;
+      case 0xa:
+      case 0xc: {
+        const length = readLength(info);
+        const refs: number[] = [];
+        for (let i = 0; i < length; i++) refs.push(reader.readUintN(refSize));
+        value = refs.map(ref => readObject(ref));
+        break;
+      }
+      case 0xd: {
+        const length = readLength(info);
+        const keyRefs: number[] = [];
+        const valueRefs: number[] = [];
+        for (let i = 0; i < length; i++) keyRefs.push(reader.readUintN(refSize));
+        for (let i = 0; i < length; i++) valueRefs.push(reader.readUintN(refSize));
+        const dict: PlistDictionary = {};
+        for (let i = 0; i < length; i++) {
+          dict[String(readObject(keyRefs[i]))] = readObject(valueRefs[i]);
+        }
+        value = dict;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported binary plist object type 0x${type.toString(16)}`);
+    }
+
+    visiting.delete(index);
+    cache.set(index, value);
+    return value;
+  };
+
+  return readObject(topObject);
+}
+
+function parseXmlPlist(text: string): PlistValue {
+  const tokens = text
+    .replace(/<\?xml[^>]*\?>/g, '')
+    .replace(/<!DOCTYPE[^>]*>/g, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .match(/<[^>]+>|[^<]+/g) || [];
+  let position = 0;
+
+  const next = (): string => tokens[position++] ?? '';
+  const peek = (): string => tokens[position] ?? '';
+
+  const readText = (closing: string): string => {
+    let value = '';
+    while (position < tokens.length && peek() !== closing) {
+      value += next();
+    }
+    next(); // closing tag
+    return decodeXmlEntities(value);
+  };
+
+  const readValue = (): PlistValue => {
+    let tag = next().trim();
+    while (tag === '' && position < tokens.length) tag = next().trim();
+
+    if (tag === '<plist>' || tag.startsWith('<plist ')) {
+      const value = readValue();
+      return value;
+    }
+
+    switch (tag) {
+      case '<dict>': {
+        const dict: PlistDictionary = {};
+        while (position < tokens.length) {
+          const token = next().trim();
+          if (token === '') continue;
+          if (token === '</dict>') break;
+          if (token !== '<key>') throw new Error(`Unexpected token in dict: ${token}`);
+          const key = readText('</key>');
+          dict[key] = readValue();
+        }
+        return dict;
+      }
+      case '<dict/>':
+        return {};
+      case '<array>': {
+        const array: PlistValue[] = [];
+        while (position < tokens.length) {
+          if (peek().trim() === '') { next(); continue; }
+          if (peek().trim() === '</array>') { next(); break; }
+          array.push(readValue());
+        }
+        return array;
+      }
+      case '<array/>':
+        return [];
+      case '<string>':
+        return readText('</string>');
+      case '<string/>':
+        return '';
+      case '<integer>':
+        return parseInt(readText('</integer>').trim(), 10);
+      case '<real>':
+        return parseFloat(readText('</real>').trim());
+      case '<true/>':
+        return true;
+      case '<false/>':
+        return false;
+      case '<date>':
+        return new Date(readText('</date>').trim());
+      case '<data>':
+        return base64ToBytes(readText('</data>').replace(/\s+/g, ''));
+      default:
+        throw new Error(`Unsupported plist element: ${tag}`);
+    }
+  };
+
+  return readValue();
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// ===== WRITING =====
+
+export function writeBinaryPropertyList(root: PlistValue): Uint8Array {
+  const objects: PlistValue[] = [];
+  const children: number[][] = [];
+  const stringIndex: Map<string, number> = new Map();
+
+  // Flatten the object graph depth-first; strings are de-duplicated
+  const flatten = (value: PlistValue): number => {
+    if (typeof value === 'string' && stringIndex.has(value)) {
+      return stringIndex.get(value)!;
+    }
+
+    const index = objects.length;
+    objects.push(value);
+    children.push([]);
+
+    if (typeof value === 'string') {
+      stringIndex.set(value, index);
+    } else if (Array.isArray(value)) {
+      children[index] = value.map(item => flatten(item));
+    } else if (isDictionary(value)) {
+      const keys = Object.keys(value);
+      const keyRefs = keys.map(key => flatten(key));
+      const valueRefs = keys.map(key => flatten(value[key]));
+      children[index] = [...keyRefs, ...valueRefs];
+    }
+
+    return index;
+  };
+
+  flatten(root);
+
+  const refSize = objects.length < 256 ? 1 : objects.length < 65536 ? 2 : 4;
+  const encoded = objects.map((value, index) => encodeObject(value, children[index], refSize));
+
+  const header = [0x62, 0x70, 0x6c, 0x69, 0x73, 0x74, 0x30, 0x30]; // "bplist00"
+  const offsets: number[] = [];
+  let length = header.length;
+  encoded.forEach(bytes => {
+    offsets.push(length);
+    length += bytes.length;
+  });
+
+  const offsetTableOffset = length;
+  const offsetSize = offsetTableOffset < 256 ? 1 : offsetTableOffset < 65536 ? 2 : 4;
+
+  const output = new Uint8Array(length + offsets.length * offsetSize + 32);
+  output.set(header, 0);
+  encoded.forEach((bytes, index) => output.set(bytes, offsets[index]));
+
+  let position = offsetTableOffset;
+  offsets.forEach(offset => {
+    writeUintN(output, position, offset, offsetSize);
+    position += offsetSize;
+  });
+
+  // Trailer
+  position += 6;
+  output[position++] = offsetSize;
+  output[position++] = refSize;
+  writeUintN(output, position, objects.length, 8);
+  writeUintN(output, position + 8, 0, 8);
+  writeUintN(output, position + 16, offsetTableOffset, 8);
+
+  return output;
+}
+
+function encodeObject(value: PlistValue, refs: number[], refSize: number): number[] {
+  if (value === null) return [0x00];
+  if (value === false) return [0x08];
+  if (value === true) return [0x09];
+
+  if (value instanceof PlistUID) {
+    const size = value.value < 256 ? 1 : value.value < 65536 ? 2 : 4;
+    return [0x80 | (size - 1), ...uintBytes(value.value, size)];
+  }
+
+  if (value instanceof PlistReal) {
+    return [0x23, ...float64Bytes(value.value)];
+  }
+
+  if (typeof value === 'number') {
+    if (Number.isInteger(value) && value >= 0 && value < 4294967296) {
+      if (value < 256) return [0x10, value];
+      if (value < 65536) return [0x11, ...uintBytes(value, 2)];
+      return [0x12, ...uintBytes(value, 4)];
+    }
+    if (Number.isInteger(value)) {
+      // Negative or large integers are stored as 8-byte signed values
+      const high = Math.floor(value / 4294967296);
+      const low = value - high * 4294967296;
+      return [0x13, ...uintBytes(high >>> 0, 4), ...uintBytes(low >>> 0, 4)];
+    }
+    return [0x23, ...float64Bytes(value)];
+  }
+
+  if (value instanceof Date) {
+    return [0x33, ...float64Bytes(value.getTime() / 1000 - APPLE_EPOCH_OFFSET)];
+  }
+
+  if (value instanceof Uint8Array) {
+    return [...lengthMarker(0x40, value.length), ...Array.from(value)];
+  }
+
+  if (typeof value === 'string') {
+    const isAscii = /^[\x00-\x7f]*$/.test(value);
+    if (isAscii) {
+      return [...lengthMarker(0x50, value.length), ...Array.from(value, c => c.charCodeAt(0))];
+    }
+    const bytes: number[] = [];
+    for (let i = 0; i < value.length; i++) {
+      const code = value.charCodeAt(i);
+      bytes.push(code >> 8, code & 0xff);
+    }
+    return [...lengthMarker(0x60, value.length), ...bytes];
+  }
+
+  const bytes = Array.isArray(value)
+    ? lengthMarker(0xa0, refs.length)
+    : lengthMarker(0xd0, refs.length / 2);
+  refs.forEach(ref => bytes.push(...uintBytes(ref, refSize)));
+  return bytes;
+}
+
+function lengthMarker(type: number, length: number): number[] {
+  if (length < 15) return [type | length];
+  if (length < 256) return [type | 0x0f, 0x10, length];
+  if (length < 65536) return [type | 0x0f, 0x11, ...uintBytes(length, 2)];
+  return [type | 0x0f, 0x12, ...uintBytes(length, 4)];
+}
+
+function uintBytes(value: number, size: number): number[] {
+  const bytes: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Math.floor(value / Math.pow(256, i)) & 0xff);
+  }
+  return bytes;
+}
+
+function float64Bytes(value: number): number[] {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return Array.from(new Uint8Array(view.buffer));
+}
+
+function writeUintN(output: Uint8Array, position: number, value: number, size: number): void {
+  output.set(uintBytes(value, size), position);
+}
+
+function isDictionary(value: PlistValue): value is PlistDictionary {
+  return typeof value === 'object'
+    && value !== null
+    && !Array.isArray(value)
+    && !(value instanceof Uint8Array)
+    && !(value instanceof Date)
+    && !(value instanceof PlistUID)
+    && !(value instanceof PlistReal);
+}
+
+// ===== NSKEYEDARCHIVER =====
+
+/**
+ * Resolves the root object of an NSKeyedArchiver plist into a plain dictionary.
+ * UID references are followed; class metadata is dropped except `$classname`.
+ */
+export function unarchiveKeyedObject(archive: PlistValue): PlistDictionary {
+  if (!isDictionary(archive) || !Array.isArray(archive.$objects) || !isDictionary(archive.$top)) {
+    throw new Error('Not an NSKeyedArchiver archive');
+  }
+
+  const objects = archive.$objects as PlistValue[];
+  const resolved: Map<number, PlistValue> = new Map();
+
+  const resolve = (value: PlistValue): PlistValue => {
+    if (value instanceof PlistUID) {
+      if (resolved.has(value.value)) return resolved.get(value.value)!;
+      const target = objects[value.value];
+      if (target === '$null') return null;
+
+      if (isDictionary(target)) {
+        const result: PlistDictionary = {};
+        resolved.set(value.value, result);
+        Object.keys(target).forEach(key => {
+          if (key === '$class') {
+            const classInfo = resolve(target[key]);
+            if (isDictionary(classInfo) && typeof classInfo.$classname === 'string') {
+              result.$classname = classInfo.$classname;
+            }
+          } else {
+            result[key] = resolve(target[key]);
+          }
+        });
+        const collection = unwrapFoundationObject(result);
+        resolved.set(value.value, collection);
+        return collection;
+      }
+
+      const inline = resolve(target);
+      resolved.set(value.value, inline);
+      return inline;
+    }
+
+    if (Array.isArray(value)) {
+      return value.map(item => resolve(item));
+    }
+
+    return value;
+  };
+
+  const top = archive.$top as PlistDictionary;
+  const root = resolve(top.root ?? Object.values(top)[0]);
+  if (!isDictionary(root)) {
+    throw new Error('Archive root is not an object');
+  }
+  return root;
+}
+
+// NSArray / NSDictionary / NSString wrappers collapse to plain values
+function unwrapFoundationObject(object: PlistDictionary): PlistValue {
+  const keys = object['NS.keys'];
+  const values = object['NS.objects'];
+
+  if (Array.isArray(keys) && Array.isArray(values)) {
+    const dict: PlistDictionary = {};
+    keys.forEach((key, i) => {
+      dict[String(key)] = values[i];
+    });
+    return dict;
+  }
+  if (Array.isArray(values)) {
+    return values;
+  }
+  if (typeof object['NS.string'] === 'string') {
+    return object['NS.string'];
+  }
+  return object;
+}
+
+/**
+ * Archives a flat dictionary of scalar values as a single NSKeyedArchiver object
+ */
+export function archiveKeyedObject(
+  properties: PlistDictionary,
+  className: string,
+  superclasses: string[] = ['NSObject']
+): PlistDictionary {
+  const objects: PlistValue[] = ['$null'];
+  const root: PlistDictionary = {};
+  objects.push(root);
+
+  Object.keys(properties).forEach(key => {
+    const value = properties[key];
+    if (typeof value === 'string' || value instanceof Uint8Array) {
+      objects.push(value);
+      root[key] = new PlistUID(objects.length - 1);
+    } else if (value === null) {
+      root[key] = new PlistUID(0);
+    } else {
+      root[key] = value;
+    }
+  });
+
+  objects.push({ $classname: className, $classes: [className, ...superclasses] });
+  root.$class = new PlistUID(objects.length - 1);
+
+  return {
+    $version: 100000,
+    $archiver: 'NSKeyedArchiver',
+    $top: { root: new PlistUID(1) },
+    $objects: objects,
+  };
+}
+
+// ===== BASE64 =====
+
+const BASE64_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const clean = base64.replace(/[^A-Za-z0-9+/]/g, '');
+  const output = new Uint8Array(Math.floor((clean.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let position = 0;
+
+  for (let i = 0; i < clean.length; i++) {
+    buffer = (buffer << 6) | BASE64_ALPHABET.indexOf(clean[i]);
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      output[position++] = (buffer >> bits) & 0xff;
+    }
+  }
+
+  return output.subarray(0, position);
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let result = '';
+  let i = 0;
+
+  for (; i + 2 < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8) | bytes[i + 2];
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63]
+      + BASE64_ALPHABET[(chunk >> 6) & 63] + BASE64_ALPHABET[chunk & 63];
+  }
+
+  const remaining = bytes.length - i;
+  if (remaining === 1) {
+    const chunk = bytes[i] << 16;
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63] + '==';
+  } else if (remaining === 2) {
+    const chunk = (bytes[i] << 16) | (bytes[i + 1] << 8);
+    result += BASE64_ALPHABET[(chunk >> 18) & 63] + BASE64_ALPHABET[(chunk >> 12) & 63]
+      + BASE64_ALPHABET[(chunk >> 6) & 63] + '=';
+  }
+
+  return result;
+}
@@ -0,0 +1,419 @@
+// src/engines/drawing/QuickShapeEngine.ts
+import { Point, Bounds, Stroke, QuickShape, CanvasSettings } from '../../types/drawing';
+import { CompatSkia, SkImage } from './SkiaCompatibility';
+import { ClipOp } from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { ShapeRecognizer } from './ShapeRecognizer';
+import { brushEngine } from './BrushEngine';
+import { documentStore } from './DocumentStore';
+import { layerManager } from './LayerManager';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { SeededRandom, getStrokeSeed } from './SeededRandom';
+
+/**
+ * QuickShape Engine
+ * Holding the pen still at the end of a stroke replaces the stroke with the shape it
+ * resembles. While the pen stays down the shape follows it, turning and scaling, and
+ * a second finger on the canvas constrains it. Once the pen lifts, handles adjust the
+ * shape until the next stroke begins. With snapToShapes on, strokes snap on lift
+ * without the hold.
+ */
+export class QuickShapeEngine {
+  private static instance: QuickShapeEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly HOLD_DURATION = 500;
+  private readonly HOLD_TOLERANCE = 6; // Pixels the pen may drift while holding
+  private readonly SAMPLE_SPACING = 2; // Pixels between the points of a snapped stroke
+  private readonly HANDLE_RADIUS = 24;
+
+  private settings: Pick<CanvasSettings, 'quickShapeEnabled' | 'snapToShapes'> = {
+    quickShapeEnabled: true,
+    snapToShapes: false,
+  };
+
+  private active: ActiveStroke | null = null;
+  private editing: ShapeEdit | null = null;
+  private holdTimer: NodeJS.Timeout | null = null;
+  private constrained = false;
+
+  private constructor() {
+    this.eventBus.on('document:opened', () => this.syncSettings());
+    this.eventBus.on('document:saved', () => this.syncSettings());
+
+    // Undo moves the pixels the handles redraw over
+    this.eventBus.on('history:undo', () => this.finishEditing());
+    this.eventBus.on('history:redo', () => this.finishEditing());
+  }
+
+  public static getInstance(): QuickShapeEngine {
+    if (!QuickShapeEngine.instance) {
+      QuickShapeEngine.instance = new QuickShapeEngine();
+    }
+    return QuickShapeEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public updateSettings(changes: Partial<Pick<CanvasSettings, 'quickShapeEnabled' | 'snapToShapes'>>): void {
+    this.settings = { ...this.settings, ...changes };
+    if (!this.settings.quickShapeEnabled) {
+      this.cancelHold();
+    }
+  }
+
+  public getSettings(): Pick<CanvasSettings, 'quickShapeEnabled' | 'snapToShapes'> {
+    return { ...this.settings };
+  }
+
+  // Starts watching a stroke. The caller keeps appending to `stroke.points` and reports each move.
+  public beginStroke(stroke: Stroke): void {
+    this.finishEditing();
+    this.cancelHold();
+    this.active = null;
+
+    if (!this.settings.quickShapeEnabled && !this.settings.snapToShapes) return;
+
+    const origin = stroke.points[stroke.points.length - 1] ?? { x: 0, y: 0 };
+    this.active = { stroke, holdOrigin: origin, pen: origin, snapped: null, shape: null };
+    this.scheduleHold();
+  }
+
+  // Returns the points to preview while the stroke is snapped, null while it's still freehand
+  public updateStroke(point: Point): Point[] | null {
+    const active = this.active;
+    if (!active) return null;
+
+    active.pen = point;
+    if (active.snapped) {
+      this.updateActiveShape(active);
+      return this.toStrokePoints(active.shape!, active.stroke.points);
+    }
+
+    if (this.distance(point, active.holdOrigin) > this.HOLD_TOLERANCE) {
+      active.holdOrigin = point;
+      this.scheduleHold();
+    }
+    return null;
+  }
+
+  // A second finger down or up while drawing or dragging a handle
+  public setConstrained(constrained: boolean): void {
+    if (this.constrained === constrained) return;
+    this.constrained = constrained;
+
+    if (this.active?.snapped) {
+      this.updateActiveShape(this.active);
+    } else if (this.editing?.drag) {
+      this.dragHandle(this.editing.drag.point);
+    }
+  }
+
+  public isConstrained(): boolean {
+    return this.constrained;
+  }
+
+  // Call when the pen lifts, before the stroke is drawn onto its layer. Returns the stroke
+  // to draw: the snapped shape, or the stroke as drawn. A snapped shape stays editable.
+  public endStroke(): Stroke | null {
+    const active = this.active;
+    this.cancelHold();
+    this.active = null;
+    if (!active) return null;
+
+    let shape = active.shape;
+    if (!shape && this.settings.snapToShapes) {
+      const recognized = ShapeRecognizer.recognize(active.stroke.points);
+      shape = recognized && this.constrained ? ShapeRecognizer.constrain(recognized) : recognized;
+    }
+    if (!shape) return active.stroke;
+
+    const source = active.stroke.points;
+    const stroke: Stroke = { ...active.stroke, points: this.toStrokePoints(shape, source) };
+
+    // The layer as it is before the shape lands; handle edits redraw over it
+    const surface = valkyrieEngine.getLayerSurface(stroke.layerId);
+    if (surface) {
+      surface.flush();
+      this.editing = { stroke, source, shape, base: surface.makeImageSnapshot(), drag: null };
+      this.eventBus.emit('quickshape:editingStarted', {
+        strokeId: stroke.id,
+        shape,
+        handles: ShapeRecognizer.getHandles(shape),
+      });
+    }
+    return stroke;
+  }
+
+  // Drops the stroke being watched, e.g. when the touch turns out to be a gesture
+  public cancelStroke(): void {
+    this.cancelHold();
+    this.active = null;
+  }
+
+  public getShape(): QuickShape | null {
+    return this.editing?.shape ?? this.active?.shape ?? null;
+  }
+
+  public isEditing(): boolean {
+    return this.editing !== null;
+  }
+
+  public getHandles(): Point[] {
+    return this.editing ? ShapeRecognizer.getHandles(this.editing.shape) : [];
+  }
+
+  // Index of the handle under the point, or -1
+  public hitHandle(point: Point): number {
+    let nearest = -1;
+    let nearestDistance = this.HANDLE_RADIUS;
+
+    this.getHandles().forEach((handle, i) => {
+      const distance = this.distance(handle, point);
+      if (distance <= nearestDistance) {
+        nearest = i;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
+  }
+
+  public beginHandleDrag(index: number): boolean {
+    const editing = this.editing;
+    const surface = editing ? valkyrieEngine.getLayerSurface(editing.stroke.layerId) : null;
+    if (!editing || !surface || index < 0 || index >= this.getHandles().length) return false;
+
+    surface.flush();
+    editing.drag = {
+      index,
+      point: this.getHandles()[index],
+      startShape: editing.shape,
+      before: surface.makeImageSnapshot(),
+    };
+    return true;
+  }
+
+  public dragHandle(point: Point): boolean {
+    const editing = this.editing;
+    if (!editing?.drag) return false;
+
+    editing.drag.point = point;
+    const shape = ShapeRecognizer.moveHandle(editing.drag.startShape, editing.drag.index, point, this.constrained);
+    return this.redraw(editing, shape);
+  }
+
+  // Each handle drag is one undo step
+  public endHandleDrag(): void {
+    const editing = this.editing;
+    const drag = editing?.drag;
+    if (!editing || !drag) return;
+
+    editing.drag = null;
+    const surface = valkyrieEngine.getLayerSurface(editing.stroke.layerId);
+    if (!surface) return;
+
+    surface.flush();
+    layerManager.recordPixelChange(
+      editing.stroke.layerId,
+      { x: 0, y: 0, width: surface.width(), height: surface.height() },
+      drag.before,
+      surface.makeImageSnapshot()
+    );
+  }
+
+  // Handles go away; the shape stays as drawn
+  public finishEditing(): void {
+    const editing = this.editing;
+    if (!editing) return;
+
+    if (editing.drag) {
+      this.endHandleDrag();
+    }
+    this.editing = null;
+    this.eventBus.emit('quickshape:editingEnded', { strokeId: editing.stroke.id });
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private syncSettings(): void {
+    const settings = documentStore.getCurrentDocument()?.settings;
+    if (settings) {
+      this.updateSettings({
+        quickShapeEnabled: settings.quickShapeEnabled,
+        snapToShapes: settings.snapToShapes,
+      });
+    }
+  }
+
+  private scheduleHold(): void {
+    this.cancelHold();
+    if (!this.settings.quickShapeEnabled) return;
+
+    this.holdTimer = setTimeout(() => {
+      this.holdTimer = null;
+      this.snap();
+    }, this.HOLD_DURATION);
+  }
+
+  private cancelHold(): void {
+    if (this.holdTimer) {
+      clearTimeout(this.holdTimer);
+      this.holdTimer = null;
+    }
+  }
+
+  private snap(): void {
+    const active = this.active;
+    if (!active || active.snapped) return;
+
+    const shape = ShapeRecognizer.recognize(active.stroke.points);
+    if (!shape) return;
+
+    active.snapped = { shape, from: active.pen };
+    this.updateActiveShape(active, 'quickshape:snapped');
+  }
+
+  // The snapped shape dragged from where the pen held to where it is now
+  private updateActiveShape(active: ActiveStroke, event: string = 'quickshape:changed'): void {
+    if (!active.snapped) return;
+
+    const dragged = ShapeRecognizer.drag(active.snapped.shape, active.snapped.from, active.pen);
+    active.shape = this.constrained ? ShapeRecognizer.constrain(dragged) : dragged;
+
+    this.eventBus.emit(event, {
+      strokeId: active.stroke.id,
+      shape: active.shape,
+      points: this.toStrokePoints(active.shape, active.stroke.points),
+    });
+  }
+
+  // Restores the pixels under the old and new outlines, then draws the new one
+  private redraw(editing: ShapeEdit, shape: QuickShape): boolean {
+    const layerId = editing.stroke.layerId;
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    const brush = brushEngine.getBrush(editing.stroke.brushId);
+    if (!surface || !brush) return false;
+
+    try {
+      const width = surface.width();
+      const height = surface.height();
+      const oldBounds = layerManager.getStrokeBounds(editing.stroke, brush, width, height);
+
+      // The stroke object is the one in the layer's stroke log, so it's updated in place
+      editing.shape = shape;
+      editing.stroke.points = this.toStrokePoints(shape, editing.source);
+      const bounds = this.unionBounds(oldBounds, layerManager.getStrokeBounds(editing.stroke, brush, width, height));
+      if (!bounds) return true;
+
+      const canvas = surface.getCanvas();
+      canvas.save();
+      canvas.clipRect(CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height), ClipOp.Intersect, false);
+      canvas.clear(CompatSkia.Color('transparent'));
+      canvas.drawImage(editing.base, 0, 0, CompatSkia.Paint());
+
+      const random = new SeededRandom(getStrokeSeed(editing.stroke));
+      const paint = brushEngine.createBrushPaint(
+        brush,
+        editing.stroke.color,
+        editing.stroke.points[0],
+        null,
+        0,
+        () => random.next()
+      );
+      valkyrieEngine.rasterizeStroke(editing.stroke, surface, paint, brush);
+      canvas.restore();
+      surface.flush();
+
+      valkyrieEngine.invalidateLayerEffects(layerId);
+      this.eventBus.emit('quickshape:changed', {
+        strokeId: editing.stroke.id,
+        shape,
+        points: editing.stroke.points,
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to redraw shape:', error);
+      return false;
+    }
+  }
+
+  // The outline as stroke points, with pressure and tilt taken from the same
+  // distance along the drawn stroke so tapering survives the snap
+  private toStrokePoints(shape: QuickShape, source: Point[]): Point[] {
+    const outline = ShapeRecognizer.sample(shape, this.SAMPLE_SPACING, source[0]);
+    if (source.length === 0) return outline;
+
+    const sourceLengths = this.cumulativeLengths(source);
+    const outlineLengths = this.cumulativeLengths(outline);
+    const sourceTotal = sourceLengths[sourceLengths.length - 1] || 1;
+    const outlineTotal = outlineLengths[outlineLengths.length - 1] || 1;
+    const startTime = source[0].timestamp;
+    const endTime = source[source.length - 1].timestamp;
+
+    let j = 0;
+    return outline.map((point, i) => {
+      const target = (outlineLengths[i] / outlineTotal) * sourceTotal;
+      while (j < source.length - 1 && sourceLengths[j + 1] < target) {
+        j++;
+      }
+      const matched = source[j];
+      const fraction = outlineLengths[i] / outlineTotal;
+
+      return {
+        ...matched,
+        x: point.x,
+        y: point.y,
+        timestamp: startTime !== undefined && endTime !== undefined
+          ? startTime + (endTime - startTime) * fraction
+          : matched.timestamp,
+      };
+    });
+  }
+
+  private cumulativeLengths(points: Point[]): number[] {
+    const lengths = [0];
+    for (let i = 1; i < points.length; i++) {
+      lengths.push(lengths[i - 1] + this.distance(points[i - 1], points[i]));
+    }
+    return lengths;
+  }
+
+  private unionBounds(first: Bounds | null, second: Bounds | null): Bounds | null {
+    if (!first) return second;
+    if (!second) return first;
+
+    const x = Math.min(first.x, second.x);
+    const y = Math.min(first.y, second.y);
+    return {
+      x,
+      y,
+      width: Math.max(first.x + first.width, second.x + second.width) - x,
+      height: Math.max(first.y + first.height, second.y + second.height) - y,
+    };
+  }
+
+  private distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+}
+
+// ===== TYPES =====
+
+interface ActiveStroke {
+  stroke: Stroke;
+  holdOrigin: Point; // Where the pen last came to rest
+  pen: Point;
+  snapped: { shape: QuickShape; from: Point } | null; // The recognized shape and the pen position at the snap
+  shape: QuickShape | null; // The snapped shape as currently dragged and constrained
+}
+
+interface ShapeEdit {
+  stroke: Stroke;
+  source: Point[]; // The stroke as drawn, for pressure
+  shape: QuickShape;
+  base: SkImage; // Layer pixels without the shape
+  drag: { index: number; point: Point; startShape: QuickShape; before: SkImage } | null;
+}
+
+// Export singleton instance
+export const quickShapeEngine = QuickShapeEngine.getInstance();
@@ -0,0 +1,259 @@
+// src/engines/drawing/ResponseCurves.ts
+import {
+  Point,
+  CurvePoint,
+  ResponseCurve,
+  ResponseCurvePreset,
+} from '../../types/drawing';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+
+/**
+ * Response Curve Manager
+ * Spline response curves for pressure, tilt, azimuth and velocity,
+ * the global pressure curve, and pressure calibration from sample strokes.
+ */
+export class ResponseCurveManager {
+  private static instance: ResponseCurveManager;
+  private eventBus = EventBus.getInstance();
+
+  private readonly LUT_SIZE = 256;
+  private readonly MIN_CALIBRATION_SAMPLES = 20;
+
+  private readonly PRESETS: Record<Exclude<ResponseCurvePreset, 'custom'>, CurvePoint[]> = {
+    linear: [{ x: 0, y: 0 }, { x: 1, y: 1 }],
+    soft: [{ x: 0, y: 0 }, { x: 0.25, y: 0.45 }, { x: 0.6, y: 0.85 }, { x: 1, y: 1 }],
+    firm: [{ x: 0, y: 0 }, { x: 0.4, y: 0.15 }, { x: 0.75, y: 0.55 }, { x: 1, y: 1 }],
+    light: [{ x: 0, y: 0.1 }, { x: 0.5, y: 0.7 }, { x: 1, y: 1 }],
+    heavy: [{ x: 0, y: 0 }, { x: 0.5, y: 0.25 }, { x: 1, y: 0.9 }],
+  };
+
+  private globalPressureCurve: ResponseCurve = this.createPreset('linear');
+
+  // Sampled curves, checked against the points they were sampled from so in-place edits resample
+  private lutCache: WeakMap<ResponseCurve, { key: string; lut: Float32Array }> = new WeakMap();
+
+  private constructor() {
+    this.loadGlobalCurve();
+  }
+
+  public static getInstance(): ResponseCurveManager {
+    if (!ResponseCurveManager.instance) {
+      ResponseCurveManager.instance = new ResponseCurveManager();
+    }
+    return ResponseCurveManager.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public createPreset(preset: ResponseCurvePreset): ResponseCurve {
+    const points = preset === 'custom' ? this.PRESETS.linear : this.PRESETS[preset];
+    return { preset, points: points.map(point => ({ ...point })) };
+  }
+
+  public getPresets(): ResponseCurvePreset[] {
+    return Object.keys(this.PRESETS) as ResponseCurvePreset[];
+  }
+
+  // Builds a curve from user-edited control points
+  public createCurve(points: CurvePoint[]): ResponseCurve {
+    return { preset: 'custom', points: this.normalizePoints(points) };
+  }
+
+  // Older brushes store evenly spaced output values
+  public fromLegacy(values: number[]): ResponseCurve {
+    if (!values || values.length < 2) return this.createPreset('linear');
+
+    return {
+      preset: 'custom',
+      points: values.map((y, i) => ({ x: i / (values.length - 1), y })),
+    };
+  }
+
+  public evaluate(curve: ResponseCurve, input: number): number {
+    const lut = this.getLUT(curve);
+    const position = Math.max(0, Math.min(1, input)) * (this.LUT_SIZE - 1);
+    const index = Math.floor(position);
+    const t = position - index;
+
+    if (index >= this.LUT_SIZE - 1) return lut[this.LUT_SIZE - 1];
+    return lut[index] * (1 - t) + lut[index + 1] * t;
+  }
+
+  public getGlobalPressureCurve(): ResponseCurve {
+    return this.globalPressureCurve;
+  }
+
+  public async setGlobalPressureCurve(curve: ResponseCurve): Promise<void> {
+    this.globalPressureCurve = { preset: curve.preset, points: this.normalizePoints(curve.points) };
+
+    try {
+      await dataManager.set('global_pressure_curve', this.globalPressureCurve);
+    } catch (error) {
+      console.error('Failed to save global pressure curve:', error);
+    }
+
+    this.eventBus.emit('responseCurve:globalChanged', { curve: this.globalPressureCurve });
+  }
+
+  // Global curve first, so a personal calibration carries across every brush
+  public mapPressure(pressure: number, brushCurve?: ResponseCurve): number {
+    const global = this.evaluate(this.globalPressureCurve, pressure);
+    return brushCurve ? this.evaluate(brushCurve, global) : global;
+  }
+
+  /**
+   * Derives a personal pressure curve from a few natural strokes.
+   * The user's pressure distribution is spread evenly over the output range,
+   * so a light hand reaches full pressure and a heavy hand keeps control.
+   */
+  public calibrate(strokes: Point[][]): ResponseCurve | null {
+    const samples: number[] = [];
+
+    strokes.forEach(points => {
+      // Skip the ramp in and out of each stroke
+      const margin = Math.floor(points.length * 0.1);
+      points.slice(margin, points.length - margin).forEach(point => {
+        if (point.pressure !== undefined && point.pressure > 0) {
+          samples.push(Math.min(1, point.pressure));
+        }
+      });
+    });
+
+    if (samples.length < this.MIN_CALIBRATION_SAMPLES) return null;
+
+    samples.sort((a, b) => a - b);
+    const percentile = (p: number) => samples[Math.min(samples.length - 1, Math.floor(p * samples.length))];
+
+    const points: CurvePoint[] = [{ x: 0, y: 0 }];
+    [0.05, 0.25, 0.5, 0.75, 0.95].forEach(p => {
+      points.push({ x: percentile(p), y: p });
+    });
+    points.push({ x: 1, y: 1 });
+
+    return this.createCurve(points);
+  }
+
+  public async applyCalibration(strokes: Point[][]): Promise<ResponseCurve | null> {
+    const curve = this.calibrate(strokes);
+    if (curve) {
+      await this.setGlobalPressureCurve(curve);
+    }
+    return curve;
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  // Sorted, clamped, de-duplicated control points spanning x = 0..1
+  private normalizePoints(points: CurvePoint[]): CurvePoint[] {
+    const sorted = points
+      .map(point => ({
+        x: Math.max(0, Math.min(1, point.x)),
+        y: Math.max(0, Math.min(1, point.y)),
+      }))
+      .sort((a, b) => a.x - b.x);
+
+    const result: CurvePoint[] = [];
+    sorted.forEach(point => {
+      const last = result[result.length - 1];
+      if (last && point.x - last.x < 1e-4) {
+        last.y = Math.max(last.y, point.y);
+      } else {
+        result.push(point);
+      }
+    });
+
+    if (result.length === 0) return this.PRESETS.linear.map(point => ({ ...point }));
+    if (result[0].x > 0) result.unshift({ x: 0, y: result[0].y });
+    if (result[result.length - 1].x < 1) result.push({ x: 1, y: result[result.length - 1].y });
+
+    return result;
+  }
+
+  private getLUT(curve: ResponseCurve): Float32Array {
+    const key = curve.points.map(point => `${point.x},${point.y}`).join(';');
+    const cached = this.lutCache.get(curve);
+    if (cached && cached.key === key) return cached.lut;
+
+    const points = this.normalizePoints(curve.points);
+    const tangents = this.computeTangents(points);
+    const lut = new Float32Array(this.LUT_SIZE);
+
+    let segment = 0;
+    for (let i = 0; i < this.LUT_SIZE; i++) {
+      const x = i / (this.LUT_SIZE - 1);
+      while (segment < points.length - 2 && x > points[segment + 1].x) {
+        segment++;
+      }
+      lut[i] = Math.max(0, Math.min(1, this.hermite(points, tangents, segment, x)));
+    }
+
+    this.lutCache.set(curve, { key, lut });
+    return lut;
+  }
+
+  // Fritsch-Carlson tangents keep the spline monotone between control points
+  private computeTangents(points: CurvePoint[]): number[] {
+    const count = points.length;
+    if (count < 2) return [0];
+
+    const slopes: number[] = [];
+    for (let i = 0; i < count - 1; i++) {
+      slopes.push((points[i + 1].y - points[i].y) / (points[i + 1].x - points[i].x));
+    }
+
+    const tangents: number[] = [slopes[0]];
+    for (let i = 1; i < count - 1; i++) {
+      tangents.push(slopes[i - 1] * slopes[i] <= 0 ? 0 : (slopes[i - 1] + slopes[i]) / 2);
+    }
+    tangents.push(slopes[count - 2]);
+
+    for (let i = 0; i < count - 1; i++) {
+      if (slopes[i] === 0) {
+        tangents[i] = 0;
+        tangents[i + 1] = 0;
+        continue;
+      }
+      const a = tangents[i] / slopes[i];
+      const b = tangents[i + 1] / slopes[i];
+      const magnitude = a * a + b * b;
+      if (magnitude > 9) {
+        const tau = 3 / Math.sqrt(magnitude);
+        tangents[i] = tau * a * slopes[i];
+        tangents[i + 1] = tau * b * slopes[i];
+      }
+    }
+
+    return tangents;
+  }
+
+  private hermite(points: CurvePoint[], tangents: number[], segment: number, x: number): number {
+    if (points.length === 1) return points[0].y;
+
+    const p0 = points[segment];
+    const p1 = points[segment + 1];
+    const h = p1.x - p0.x;
+    const t = h > 0 ? (x - p0.x) / h : 0;
+    const t2 = t * t;
+    const t3 = t2 * t;
+
+    return (2 * t3 - 3 * t2 + 1) * p0.y
+      + (t3 - 2 * t2 + t) * h * tangents[segment]
+      + (-2 * t3 + 3 * t2) * p1.y
+      + (t3 - t2) * h * tangents[segment + 1];
+  }
+
+  private async loadGlobalCurve(): Promise<void> {
+    try {
+      const saved = await dataManager.get<ResponseCurve>('global_pressure_curve');
+      if (saved && Array.isArray(saved.points)) {
+        this.globalPressureCurve = saved;
+      }
+    } catch (error) {
+      console.error('Failed to load global pressure curve:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const responseCurveManager = ResponseCurveManager.getInstance();
@@ -0,0 +1,519 @@
+// src/engines/drawing/RetouchEngine.ts
+import {
+  Point,
+  Brush,
+  Bounds,
+  Stroke,
+  RetouchTool,
+  RetouchSettings,
+} from '../../types/drawing';
+import {
+  CompatSkia,
+  SkCanvas,
+  SkImage,
+  SkSurface,
+  SkPaint,
+  BlendMode as SkiaBlendMode,
+} from './SkiaCompatibility';
+import {
+  SkRuntimeEffect,
+  TileMode,
+  FilterMode,
+  MipmapMode,
+  ClipOp,
+} from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+import { brushEngine } from './BrushEngine';
+import { layerManager } from './LayerManager';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { selectionManager } from './SelectionManager';
+import { responseCurveManager } from './ResponseCurves';
+import { SeededRandom, createStrokeSeed } from './SeededRandom';
+
+/**
+ * Retouch Engine
+ * Smudge, blur and sharpen: any brush tip reworks the pixels already on a layer.
+ * Each dab blends a processed patch back in under the tip, weighted by strength and pressure.
+ */
+export class RetouchEngine {
+  private static instance: RetouchEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly TOOLS: RetouchTool[] = ['smudge', 'blur', 'sharpen'];
+  private readonly MAX_DABS_PER_STROKE = 20000;
+  private readonly SHARPEN_AMOUNT = 1.5;
+
+  private settings: Record<RetouchTool, RetouchSettings> = {
+    smudge: { strength: 0.7 },
+    blur: { strength: 0.5 },
+    sharpen: { strength: 0.4 },
+  };
+
+  private activeStroke: RetouchStroke | null = null;
+  private sharpenEffect: SkRuntimeEffect | null = null;
+
+  private constructor() {
+    this.loadSettings();
+  }
+
+  public static getInstance(): RetouchEngine {
+    if (!RetouchEngine.instance) {
+      RetouchEngine.instance = new RetouchEngine();
+    }
+    return RetouchEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public isRetouchTool(tool: string): tool is RetouchTool {
+    return this.TOOLS.includes(tool as RetouchTool);
+  }
+
+  public getSettings(tool: RetouchTool): RetouchSettings {
+    return { ...this.settings[tool] };
+  }
+
+  public async setSettings(tool: RetouchTool, settings: Partial<RetouchSettings>): Promise<void> {
+    const next = { ...this.settings[tool], ...settings };
+    next.strength = Math.max(0, Math.min(1, next.strength));
+    this.settings[tool] = next;
+
+    try {
+      await dataManager.set('retouch_settings', this.settings);
+    } catch (error) {
+      console.error('Failed to save retouch settings:', error);
+    }
+
+    this.eventBus.emit('retouch:settingsChanged', { tool, settings: next });
+  }
+
+  public beginStroke(
+    tool: RetouchTool,
+    layerId: string,
+    options: { brushId?: string; strength?: number; seed?: number } = {}
+  ): boolean {
+    if (this.activeStroke) {
+      this.endStroke();
+    }
+
+    const layer = layerManager.getLayer(layerId);
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    if (!layer || layer.locked || !surface) return false;
+
+    const settings = this.settings[tool];
+    const brushId = options.brushId ?? settings.brushId;
+    const brush = (brushId ? brushEngine.getBrush(brushId) : null) ?? brushEngine.getCurrentBrush();
+    if (!brush) return false;
+
+    this.activeStroke = {
+      tool,
+      layerId,
+      brush,
+      strength: options.strength ?? settings.strength,
+      surface,
+      before: surface.makeImageSnapshot(),
+      dirty: null,
+      lastPoint: null,
+      lastDab: null,
+      distanceToNext: 0,
+      dabCount: 0,
+      carried: null,
+      random: new SeededRandom(options.seed ?? createStrokeSeed()),
+    };
+    return true;
+  }
+
+  public addPoints(points: Point[]): void {
+    const stroke = this.activeStroke;
+    if (!stroke || points.length === 0) return;
+
+    try {
+      const canvas = stroke.surface.getCanvas();
+      points.forEach(point => this.advance(stroke, canvas, point));
+      stroke.surface.flush();
+      if (stroke.dirty && selectionManager.hasSelection()) {
+        selectionManager.restrictToSelection(stroke.surface, stroke.before, stroke.dirty);
+      }
+      valkyrieEngine.invalidateLayerEffects(stroke.layerId);
+    } catch (error) {
+      console.error('Failed to apply retouch dabs:', error);
+    }
+  }
+
+  // Commits the stroke to layer history; returns false when nothing changed
+  public endStroke(): boolean {
+    const stroke = this.activeStroke;
+    this.activeStroke = null;
+    if (!stroke || !stroke.dirty) return false;
+
+    try {
+      const bounds = stroke.dirty;
+      const after = stroke.surface.makeImageSnapshot(
+        CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height)
+      );
+      const before = this.cropImage(stroke.before, bounds);
+      if (!before) return false;
+
+      layerManager.recordPixelChange(stroke.layerId, bounds, before, after);
+      return true;
+    } catch (error) {
+      console.error('Failed to commit retouch stroke:', error);
+      return false;
+    }
+  }
+
+  // Puts the layer back the way it was before the stroke started
+  public cancelStroke(): void {
+    const stroke = this.activeStroke;
+    this.activeStroke = null;
+    if (!stroke || !stroke.dirty) return;
+
+    const { x, y, width, height } = stroke.dirty;
+    const canvas = stroke.surface.getCanvas();
+    canvas.save();
+    canvas.clipRect(CompatSkia.XYWHRect(x, y, width, height), ClipOp.Intersect, false);
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.drawImage(stroke.before, 0, 0);
+    canvas.restore();
+    stroke.surface.flush();
+    valkyrieEngine.invalidateLayerEffects(stroke.layerId);
+  }
+
+  // Applies a recorded smudge/blur/sharpen stroke in one go
+  public applyStroke(stroke: Stroke, strength?: number): boolean {
+    if (!this.isRetouchTool(stroke.tool)) return false;
+
+    const started = this.beginStroke(stroke.tool, stroke.layerId, {
+      brushId: stroke.brushId,
+      strength,
+      seed: stroke.seed,
+    });
+    if (!started) return false;
+
+    this.addPoints(stroke.points);
+    return this.endStroke();
+  }
+
+  public isStrokeActive(): boolean {
+    return this.activeStroke !== null;
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  // Walks from the last point to `point`, placing dabs at the brush spacing
+  private advance(stroke: RetouchStroke, canvas: SkCanvas, point: Point): void {
+    const last = stroke.lastPoint;
+    stroke.lastPoint = point;
+
+    if (!last) {
+      stroke.distanceToNext = this.placeDab(stroke, canvas, point, 0);
+      return;
+    }
+
+    const segmentLength = Math.hypot(point.x - last.x, point.y - last.y);
+    const elapsed = (point.timestamp ?? 0) - (last.timestamp ?? 0);
+    const velocity = elapsed > 0 ? (segmentLength / elapsed) * 1000 : 0;
+    let travelled = 0;
+
+    while (
+      travelled + stroke.distanceToNext <= segmentLength &&
+      stroke.dabCount < this.MAX_DABS_PER_STROKE
+    ) {
+      travelled += stroke.distanceToNext;
+      const t = segmentLength > 0 ? travelled / segmentLength : 0;
+      stroke.distanceToNext = this.placeDab(stroke, canvas, this.interpolatePoint(last, point, t), velocity);
+    }
+
+    stroke.distanceToNext -= segmentLength - travelled;
+  }
+
+  // Returns the distance to the next dab
+  private placeDab(stroke: RetouchStroke, canvas: SkCanvas, point: Point, velocity: number): number {
+    const brush = stroke.brush;
+    const dynamics = brushEngine.getDabDynamics(brush, point, stroke.lastDab, velocity, () => stroke.random.next());
+    const size = Math.max(1, Math.round(dynamics.size ?? brush.settings.general.size));
+    const spacingPercent = Math.max(1, brush.shape.settings.spacing || brush.settings.strokePath.spacing);
+    stroke.lastDab = point;
+    stroke.dabCount++;
+
+    const stamp = brushEngine.createDabStamp(brush, size);
+    if (!stamp) return Math.max(0.5, size * spacingPercent / 100);
+
+    // Strength follows pressure; opacity dynamics already carry it when the brush maps pressure to opacity
+    const opacityHasPressure = brush.settings.pencil.pressure
+      && brush.dynamics.opacityPressure
+      && point.pressure !== undefined;
+    const pressure = opacityHasPressure
+      ? 1
+      : responseCurveManager.mapPressure(point.pressure ?? 1, brushEngine.getBrushResponseCurve(brush, 'pressure'));
+    const amount = Math.max(0, Math.min(1, stroke.strength * pressure * (dynamics.opacity ?? 1)));
+
+    // A rotated tip needs room for its diagonal
+    const rotation = dynamics.rotation ?? 0;
+    const extent = rotation
+      ? Math.hypot(stamp.width(), stamp.height())
+      : Math.max(stamp.width(), stamp.height());
+    const side = Math.ceil(extent);
+    const bounds: Bounds = {
+      x: Math.round(point.x - side / 2),
+      y: Math.round(point.y - side / 2),
+      width: side,
+      height: side,
+    };
+
+    if (amount > 0) {
+      const patch = stroke.tool === 'smudge'
+        ? stroke.carried
+        : this.filterPatch(stroke.surface, stroke.tool, bounds, size);
+
+      if (patch) {
+        this.blendPatch(canvas, patch, stamp, bounds, rotation, amount);
+        this.markDirty(stroke, bounds);
+      }
+    }
+
+    // Smudge picks up what is under the tip now, including what it just laid down
+    if (stroke.tool === 'smudge') {
+      stroke.surface.flush();
+      stroke.carried = this.readRegion(stroke.surface, bounds);
+    }
+
+    return Math.max(0.5, size * spacingPercent / 100);
+  }
+
+  // Blurred or sharpened copy of the layer under `bounds`
+  private filterPatch(surface: SkSurface, tool: RetouchTool, bounds: Bounds, size: number): SkImage | null {
+    const sigma = Math.max(0.5, size * 0.08);
+    const pad = Math.ceil(sigma * 3);
+    const source = this.readRegion(surface, {
+      x: bounds.x - pad,
+      y: bounds.y - pad,
+      width: bounds.width + pad * 2,
+      height: bounds.height + pad * 2,
+    });
+    if (!source) return null;
+
+    const blurPaint = CompatSkia.Paint();
+    blurPaint.setImageFilter(CompatSkia.ImageFilter.MakeBlur(sigma, sigma, TileMode.Clamp, null));
+
+    const output = CompatSkia.Surface.Make(bounds.width, bounds.height);
+    if (!output) return null;
+    const canvas = output.getCanvas();
+
+    if (tool === 'blur') {
+      canvas.drawImage(source, -pad, -pad, blurPaint);
+      return output.makeImageSnapshot();
+    }
+
+    // Unsharp mask: push each pixel away from its blurred neighbourhood
+    const effect = this.getSharpenEffect();
+    const blurred = CompatSkia.Surface.Make(source.width(), source.height());
+    if (!effect || !blurred) return null;
+    blurred.getCanvas().drawImage(source, 0, 0, blurPaint);
+
+    const offset = CompatSkia.Matrix();
+    offset.translate(-pad, -pad);
+    const shader = effect.makeShaderWithChildren(
+      [this.SHARPEN_AMOUNT],
+      [
+        source.makeShaderOptions(TileMode.Clamp, TileMode.Clamp, FilterMode.Nearest, MipmapMode.None, offset),
+        blurred.makeImageSnapshot().makeShaderOptions(
+          TileMode.Clamp, TileMode.Clamp, FilterMode.Nearest, MipmapMode.None, offset
+        ),
+      ]
+    );
+
+    const sharpenPaint = CompatSkia.Paint();
+    sharpenPaint.setShader(shader);
+    canvas.drawRect(CompatSkia.XYWHRect(0, 0, bounds.width, bounds.height), sharpenPaint);
+    return output.makeImageSnapshot();
+  }
+
+  // result = layer * (1 - tip * amount) + patch * tip * amount
+  private blendPatch(
+    canvas: SkCanvas,
+    patch: SkImage,
+    stamp: SkImage,
+    bounds: Bounds,
+    rotation: number,
+    amount: number
+  ): void {
+    const masked = CompatSkia.Surface.Make(bounds.width, bounds.height);
+    if (!masked) return;
+
+    const maskedCanvas = masked.getCanvas();
+    maskedCanvas.drawImageRect(
+      patch,
+      CompatSkia.XYWHRect(0, 0, patch.width(), patch.height()),
+      CompatSkia.XYWHRect(0, 0, bounds.width, bounds.height),
+      CompatSkia.Paint()
+    );
+    const maskPaint = CompatSkia.Paint();
+    maskPaint.setBlendMode(SkiaBlendMode.DstIn);
+    this.drawStamp(maskedCanvas, stamp, bounds.width / 2, bounds.height / 2, rotation, maskPaint);
+
+    const erasePaint = CompatSkia.Paint();
+    erasePaint.setBlendMode(SkiaBlendMode.DstOut);
+    erasePaint.setAlphaf(amount);
+    this.drawStamp(
+      canvas,
+      stamp,
+      bounds.x + bounds.width / 2,
+      bounds.y + bounds.height / 2,
+      rotation,
+      erasePaint
+    );
+
+    const addPaint = CompatSkia.Paint();
+    addPaint.setBlendMode(SkiaBlendMode.Plus);
+    addPaint.setAlphaf(amount);
+    canvas.drawImage(masked.makeImageSnapshot(), bounds.x, bounds.y, addPaint);
+  }
+
+  private drawStamp(
+    canvas: SkCanvas,
+    stamp: SkImage,
+    centerX: number,
+    centerY: number,
+    rotation: number,
+    paint: SkPaint
+  ): void {
+    const width = stamp.width();
+    const height = stamp.height();
+
+    canvas.save();
+    canvas.translate(centerX, centerY);
+    if (rotation) {
+      canvas.rotate(rotation, 0, 0);
+    }
+    canvas.drawImageRect(
+      stamp,
+      CompatSkia.XYWHRect(0, 0, width, height),
+      CompatSkia.XYWHRect(-width / 2, -height / 2, width, height),
+      paint
+    );
+    canvas.restore();
+  }
+
+  // Copy of a layer region; anything outside the layer reads as transparent
+  private readRegion(surface: SkSurface, bounds: Bounds): SkImage | null {
+    const left = Math.max(0, bounds.x);
+    const top = Math.max(0, bounds.y);
+    const right = Math.min(surface.width(), bounds.x + bounds.width);
+    const bottom = Math.min(surface.height(), bounds.y + bounds.height);
+
+    const region = CompatSkia.Surface.Make(bounds.width, bounds.height);
+    if (!region) return null;
+    if (right > left && bottom > top) {
+      const snapshot = surface.makeImageSnapshot(CompatSkia.XYWHRect(left, top, right - left, bottom - top));
+      region.getCanvas().drawImage(snapshot, left - bounds.x, top - bounds.y);
+    }
+    return region.makeImageSnapshot();
+  }
+
+  private cropImage(image: SkImage, bounds: Bounds): SkImage | null {
+    const surface = CompatSkia.Surface.Make(bounds.width, bounds.height);
+    if (!surface) return null;
+    surface.getCanvas().drawImage(image, -bounds.x, -bounds.y);
+    return surface.makeImageSnapshot();
+  }
+
+  // Union of touched regions, clamped to the layer
+  private markDirty(stroke: RetouchStroke, bounds: Bounds): void {
+    const left = Math.max(0, bounds.x);
+    const top = Math.max(0, bounds.y);
+    const right = Math.min(stroke.surface.width(), bounds.x + bounds.width);
+    const bottom = Math.min(stroke.surface.height(), bounds.y + bounds.height);
+    if (right <= left || bottom <= top) return;
+
+    const dirty = stroke.dirty;
+    if (!dirty) {
+      stroke.dirty = { x: left, y: top, width: right - left, height: bottom - top };
+      return;
+    }
+
+    const x = Math.min(dirty.x, left);
+    const y = Math.min(dirty.y, top);
+    stroke.dirty = {
+      x,
+      y,
+      width: Math.max(dirty.x + dirty.width, right) - x,
+      height: Math.max(dirty.y + dirty.height, bottom) - y,
+    };
+  }
+
+  private interpolatePoint(a: Point, b: Point, t: number): Point {
+    const lerp = (from: number | undefined, to: number | undefined): number | undefined => {
+      if (from === undefined || to === undefined) return from ?? to;
+      return from + (to - from) * t;
+    };
+
+    return {
+      x: a.x + (b.x - a.x) * t,
+      y: a.y + (b.y - a.y) * t,
+      pressure: lerp(a.pressure, b.pressure),
+      tiltX: lerp(a.tiltX, b.tiltX),
+      tiltY: lerp(a.tiltY, b.tiltY),
+      altitude: lerp(a.altitude, b.altitude),
+      azimuth: lerp(a.azimuth, b.azimuth),
+      timestamp: lerp(a.timestamp, b.timestamp),
+    };
+  }
+
+  private getSharpenEffect(): SkRuntimeEffect | null {
+    if (!this.sharpenEffect) {
+      this.sharpenEffect = CompatSkia.RuntimeEffect.Make(SHARPEN_SKSL);
+    }
+    return this.sharpenEffect;
+  }
+
+  private async loadSettings(): Promise<void> {
+    try {
+      const saved = await dataManager.get<Partial<Record<RetouchTool, RetouchSettings>>>('retouch_settings');
+      if (saved) {
+        this.TOOLS.forEach(tool => {
+          if (saved[tool]) this.settings[tool] = { ...this.settings[tool], ...saved[tool] };
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load retouch settings:', error);
+    }
+  }
+}
+
+// Premultiplied unsharp mask; colour stays within alpha
+const SHARPEN_SKSL = `
+uniform shader image;
+uniform shader blurred;
+uniform float amount;
+
+half4 main(float2 xy) {
+  half4 color = image.eval(xy);
+  half4 blur = blurred.eval(xy);
+  half4 result = color + (color - blur) * amount;
+  half alpha = clamp(result.a, 0.0, 1.0);
+  return half4(clamp(result.rgb, 0.0, alpha), alpha);
+}
+`;
+
+// ===== TYPES =====
+
+interface RetouchStroke {
+  tool: RetouchTool;
+  layerId: string;
+  brush: Brush;
+  strength: number;
+  surface: SkSurface;
+  before: SkImage; // Whole layer at stroke start; cropped to the dirty bounds on commit
+  dirty: Bounds | null;
+  lastPoint: Point | null;
+  lastDab: Point | null;
+  distanceToNext: number;
+  dabCount: number;
+  carried: SkImage | null; // Smudge: paint picked up at the previous dab
+  random: SeededRandom;
+}
+
+// Export singleton instance
+export const retouchEngine = RetouchEngine.getInstance();
@@ -0,0 +1,845 @@
+// src/engines/drawing/SVGCodec.ts
+import { VectorNode } from '../../types/drawing';
+
+/**
+ * SVG Codec
+ * Reads and writes the stroked paths of an SVG document. Paths are kept as cubic
+ * bezier nodes; lines, quadratics, arcs and basic shapes are converted on the way in
+ * and transforms are applied to the coordinates. Our own width profile, brush and
+ * size ride along as data attributes so a round trip is lossless.
+ */
+export class SVGCodec {
+  private static readonly NAMED_COLORS: Record<string, string> = {
+    black: '#000000',
+    white: '#ffffff',
+    red: '#ff0000',
+    green: '#008000',
+    blue: '#0000ff',
+    yellow: '#ffff00',
+    cyan: '#00ffff',
+    magenta: '#ff00ff',
+    gray: '#808080',
+    grey: '#808080',
+    orange: '#ffa500',
+    purple: '#800080',
+    brown: '#a52a2a',
+    pink: '#ffc0cb',
+  };
+
+  // Elements that hold no drawing of their own
+  private static readonly IGNORED_ELEMENTS = new Set([
+    'title', 'desc', 'metadata', 'defs', 'style', 'script', 'sodipodi:namedview',
+  ]);
+
+  private static readonly SHAPE_ELEMENTS = new Set([
+    'path', 'line', 'polyline', 'polygon', 'rect', 'circle', 'ellipse',
+  ]);
+
+  // Presentation attributes that children inherit. `display` is not one of them:
+  // display="none" hides the element's subtree, which collectPaths handles by skipping it.
+  private static readonly INHERITED_STYLES = [
+    'stroke', 'stroke-width', 'stroke-opacity', 'fill', 'fill-opacity', 'visibility',
+  ];
+
+  // ===== PUBLIC API =====
+
+  public static encode(document: SVGDocument): string {
+    const lines = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${document.width}" height="${document.height}" ` +
+        `viewBox="0 0 ${document.width} ${document.height}">`,
+    ];
+
+    document.groups.forEach(group => {
+      const attributes = [
+        group.id ? `id="${SVGCodec.escape(group.id)}"` : '',
+        `data-name="${SVGCodec.escape(group.name)}"`,
+        group.opacity < 1 ? `opacity="${SVGCodec.formatNumber(group.opacity)}"` : '',
+        group.visible ? '' : 'display="none"',
+      ].filter(Boolean);
+      lines.push(`  <g ${attributes.join(' ')}>`);
+      group.paths.forEach(path => lines.push(`    ${SVGCodec.encodePath(path)}`));
+      lines.push('  </g>');
+    });
+
+    lines.push('</svg>', '');
+    return lines.join('\n');
+  }
+
+  public static decode(text: string): SVGDecodeResult {
+    const warnings = new Set<string>();
+    const root = SVGCodec.parseXML(text);
+    const svg = root.children.find(child => child.name === 'svg');
+    if (!svg) {
+      throw new Error('Not an SVG document');
+    }
+
+    const viewBox = SVGCodec.parseNumbers(svg.attributes.viewBox ?? '');
+    const width = viewBox.length === 4 ? viewBox[2] : SVGCodec.parseLength(svg.attributes.width);
+    const height = viewBox.length === 4 ? viewBox[3] : SVGCodec.parseLength(svg.attributes.height);
+    const rootMatrix: Matrix = viewBox.length === 4 ? [1, 0, 0, 1, -viewBox[0], -viewBox[1]] : IDENTITY;
+    const rootStyle = SVGCodec.getStyle(svg, {});
+
+    const groups: SVGGroup[] = [];
+    let looseGroup: SVGGroup | null = null;
+
+    // Top-level groups become layers; anything drawn outside them shares one
+    svg.children.forEach(child => {
+      if (child.name === 'g') {
+        const style = SVGCodec.getStyle(child, rootStyle);
+        const group: SVGGroup = {
+          id: child.attributes.id,
+          name: child.attributes['data-name'] ?? child.attributes['inkscape:label'] ?? child.attributes.id ?? `Layer ${groups.length + 1}`,
+          opacity: SVGCodec.parseOpacity(style.opacity),
+          visible: style.display !== 'none' && style.visibility !== 'hidden',
+          paths: [],
+        };
+        // A hidden group is a hidden layer; its paths are still imported
+        const pathStyle = { ...style };
+        delete pathStyle.visibility;
+        const matrix = SVGCodec.multiply(rootMatrix, SVGCodec.parseTransform(child.attributes.transform));
+        child.children.forEach(grandchild => SVGCodec.collectPaths(grandchild, matrix, pathStyle, 1, group.paths, warnings));
+        groups.push(group);
+      } else {
+        if (!looseGroup) {
+          looseGroup = { name: 'SVG', opacity: 1, visible: true, paths: [] };
+          groups.push(looseGroup);
+        }
+        SVGCodec.collectPaths(child, rootMatrix, rootStyle, 1, looseGroup.paths, warnings);
+      }
+    });
+
+    return { document: { width, height, groups }, warnings: Array.from(warnings) };
+  }
+
+  // ===== ENCODING =====
+
+  private static encodePath(path: SVGPath): string {
+    const attributes = [
+      path.id ? `id="${SVGCodec.escape(path.id)}"` : '',
+      `d="${SVGCodec.encodePathData(path.nodes, path.closed)}"`,
+      'fill="none"',
+      `stroke="${path.color}"`,
+      path.opacity < 1 ? `stroke-opacity="${SVGCodec.formatNumber(path.opacity)}"` : '',
+      `stroke-width="${SVGCodec.formatNumber(path.width)}"`,
+      'stroke-linecap="round"',
+      'stroke-linejoin="round"',
+      path.brushId ? `data-pikaso-brush="${SVGCodec.escape(path.brushId)}"` : '',
+      path.size !== undefined ? `data-pikaso-size="${SVGCodec.formatNumber(path.size)}"` : '',
+      `data-pikaso-pressure="${path.nodes.map(node => SVGCodec.formatNumber(node.pressure)).join(' ')}"`,
+    ].filter(Boolean);
+    return `<path ${attributes.join(' ')}/>`;
+  }
+
+  private static encodePathData(nodes: VectorNode[], closed: boolean): string {
+    if (nodes.length === 0) return '';
+
+    const format = (point: { x: number; y: number }) =>
+      `${SVGCodec.formatNumber(point.x)} ${SVGCodec.formatNumber(point.y)}`;
+    const segment = (from: VectorNode, to: VectorNode) =>
+      `C ${format(from.handleOut)} ${format(to.handleIn)} ${format(to)}`;
+
+    const parts = [`M ${format(nodes[0])}`];
+    for (let i = 1; i < nodes.length; i++) {
+      parts.push(segment(nodes[i - 1], nodes[i]));
+    }
+    // A lone closed point is drawn as a dot by round caps
+    if (closed && nodes.length > 1) {
+      parts.push(segment(nodes[nodes.length - 1], nodes[0]));
+    }
+    if (closed || nodes.length === 1) {
+      parts.push('Z');
+    }
+    return parts.join(' ');
+  }
+
+  private static formatNumber(value: number): string {
+    return (Math.round(value * 100) / 100).toString();
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
+  // ===== DECODING =====
+
+  private static collectPaths(
+    element: XMLElement,
+    parentMatrix: Matrix,
+    parentStyle: Record<string, string>,
+    parentOpacity: number,
+    paths: SVGPath[],
+    warnings: Set<string>
+  ): void {
+    if (SVGCodec.IGNORED_ELEMENTS.has(element.name)) return;
+
+    const style = SVGCodec.getStyle(element, parentStyle);
+    if (style.display === 'none' || style.visibility === 'hidden') return;
+
+    const matrix = SVGCodec.multiply(parentMatrix, SVGCodec.parseTransform(element.attributes.transform));
+    const opacity = parentOpacity * SVGCodec.parseOpacity(style.opacity);
+
+    if (element.name === 'g' || element.name === 'a' || element.name === 'switch') {
+      element.children.forEach(child => SVGCodec.collectPaths(child, matrix, style, opacity, paths, warnings));
+      return;
+    }
+    if (!SVGCodec.SHAPE_ELEMENTS.has(element.name)) {
+      warnings.add(`<${element.name}> elements are not supported and were skipped`);
+      return;
+    }
+
+    const data = SVGCodec.getShapePathData(element);
+    if (!data) return;
+
+    // Strokes come through as drawn; fill-only shapes keep their outline
+    let paint = SVGCodec.parseColor(style.stroke ?? 'none', warnings);
+    let paintOpacity = SVGCodec.parseOpacity(style['stroke-opacity']);
+    let width = SVGCodec.parseLength(style['stroke-width'] ?? '1');
+    if (!paint) {
+      paint = SVGCodec.parseColor(style.fill ?? 'black', warnings);
+      if (!paint) return;
+      paintOpacity = SVGCodec.parseOpacity(style['fill-opacity']);
+      width = 1;
+      warnings.add('Filled shapes were imported as outlines');
+    }
+    if (style['stroke-dasharray'] && style['stroke-dasharray'] !== 'none') {
+      warnings.add('Dashed strokes were imported as solid');
+    }
+
+    // Stroke width scales with the transform's area
+    const widthScale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]));
+    const pressure = SVGCodec.parseNumbers(element.attributes['data-pikaso-pressure'] ?? '');
+    const size = element.attributes['data-pikaso-size'];
+    const subpaths = SVGCodec.parsePathData(data, warnings);
+
+    subpaths.forEach((subpath, index) => {
+      const nodes = subpath.nodes.map(node => SVGCodec.transformNode(node, matrix));
+      // Our pressure attribute only describes single-subpath paths
+      if (subpaths.length === 1 && pressure.length === nodes.length) {
+        nodes.forEach((node, nodeIndex) => (node.pressure = Math.max(0, Math.min(1, pressure[nodeIndex]))));
+      }
+
+      paths.push({
+        id: subpaths.length === 1 ? element.attributes.id : undefined,
+        nodes,
+        closed: subpath.closed,
+        color: paint!,
+        opacity: opacity * paintOpacity,
+        width: width * widthScale,
+        size: size !== undefined && index === 0 ? parseFloat(size) * widthScale : undefined,
+        brushId: element.attributes['data-pikaso-brush'],
+      });
+    });
+  }
+
+  // Basic shapes as path data
+  private static getShapePathData(element: XMLElement): string | null {
+    const attribute = (name: string) => SVGCodec.parseLength(element.attributes[name] ?? '0');
+
+    switch (element.name) {
+      case 'path':
+        return element.attributes.d ?? null;
+      case 'line':
+        return `M ${attribute('x1')} ${attribute('y1')} L ${attribute('x2')} ${attribute('y2')}`;
+      case 'polyline':
+      case 'polygon': {
+        const values = SVGCodec.parseNumbers(element.attributes.points ?? '');
+        if (values.length < 4) return null;
+        const points: string[] = [];
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          points.push(`${values[i]} ${values[i + 1]}`);
+        }
+        return `M ${points.join(' L ')}${element.name === 'polygon' ? ' Z' : ''}`;
+      }
+      case 'rect': {
+        const x = attribute('x');
+        const y = attribute('y');
+        const width = attribute('width');
+        const height = attribute('height');
+        if (width <= 0 || height <= 0) return null;
+
+        let rx = element.attributes.rx !== undefined ? attribute('rx') : attribute('ry');
+        let ry = element.attributes.ry !== undefined ? attribute('ry') : rx;
+        rx = Math.min(rx, width / 2);
+        ry = Math.min(ry, height / 2);
+        if (rx <= 0 || ry <= 0) {
+          return `M ${x} ${y} H ${x + width} V ${y + height} H ${x} Z`;
+        }
+        return `M ${x + rx} ${y} H ${x + width - rx} A ${rx} ${ry} 0 0 1 ${x + width} ${y + ry} ` +
+          `V ${y + height - ry} A ${rx} ${ry} 0 0 1 ${x + width - rx} ${y + height} ` +
+          `H ${x + rx} A ${rx} ${ry} 0 0 1 ${x} ${y + height - ry} ` +
+          `V ${y + ry} A ${rx} ${ry} 0 0 1 ${x + rx} ${y} Z`;
+      }
+      case 'circle':
+      case 'ellipse': {
+        const cx = attribute('cx');
+        const cy = attribute('cy');
+        const rx = element.name === 'circle' ? attribute('r') : attribute('rx');
+        const ry = element.name === 'circle' ? rx : attribute('ry');
+        if (rx <= 0 || ry <= 0) return null;
+        return `M ${cx + rx} ${cy} A ${rx} ${ry} 0 0 1 ${cx} ${cy + ry} A ${rx} ${ry} 0 0 1 ${cx - rx} ${cy} ` +
+          `A ${rx} ${ry} 0 0 1 ${cx} ${cy - ry} A ${rx} ${ry} 0 0 1 ${cx + rx} ${cy} Z`;
+      }
+      default:
+        return null;
+    }
+  }
+
+  // Path data as cubic subpaths in user units
+  private static parsePathData(data: string, warnings: Set<string>): Subpath[] {
+    const scanner = new PathScanner(data);
+    const subpaths: Subpath[] = [];
+    let current = null as Subpath | null;
+    let x = 0;
+    let y = 0;
+    let startX = 0;
+    let startY = 0;
+    let lastControl: { x: number; y: number; command: string } | null = null;
+    let command = '';
+
+    const moveTo = (px: number, py: number) => {
+      current = { nodes: [SVGCodec.createNode(px, py)], closed: false };
+      subpaths.push(current);
+      x = startX = px;
+      y = startY = py;
+    };
+    const curveTo = (c1x: number, c1y: number, c2x: number, c2y: number, px: number, py: number) => {
+      if (!current) moveTo(x, y);
+      const nodes = current!.nodes;
+      nodes[nodes.length - 1].handleOut = { x: c1x, y: c1y };
+      nodes.push({ ...SVGCodec.createNode(px, py), handleIn: { x: c2x, y: c2y } });
+      x = px;
+      y = py;
+    };
+    const lineTo = (px: number, py: number) => curveTo(x, y, px, py, px, py);
+
+    while (scanner.hasMore()) {
+      const next = scanner.readCommand();
+      if (next) {
+        command = next;
+      } else if (!command) {
+        break; // Data that doesn't start with a command is invalid
+      }
+
+      const relative = command === command.toLowerCase();
+      const dx = relative ? x : 0;
+      const dy = relative ? y : 0;
+
+      switch (command.toUpperCase()) {
+        case 'M': {
+          moveTo(scanner.readNumber() + dx, scanner.readNumber() + dy);
+          // Further pairs are implicit line-tos
+          command = relative ? 'l' : 'L';
+          lastControl = null;
+          break;
+        }
+        case 'L':
+          lineTo(scanner.readNumber() + dx, scanner.readNumber() + dy);
+          lastControl = null;
+          break;
+        case 'H':
+          lineTo(scanner.readNumber() + dx, y);
+          lastControl = null;
+          break;
+        case 'V':
+          lineTo(x, scanner.readNumber() + dy);
+          lastControl = null;
+          break;
+        case 'C': {
+          const c1x = scanner.readNumber() + dx;
+          const c1y = scanner.readNumber() + dy;
+          const c2x = scanner.readNumber() + dx;
+          const c2y = scanner.readNumber() + dy;
+          curveTo(c1x, c1y, c2x, c2y, scanner.readNumber() + dx, scanner.readNumber() + dy);
+          lastControl = { x: c2x, y: c2y, command: 'C' };
+          break;
+        }
+        case 'S': {
+          const reflected = lastControl?.command === 'C'
+            ? { x: 2 * x - lastControl.x, y: 2 * y - lastControl.y }
+            : { x, y };
+          const c2x = scanner.readNumber() + dx;
+          const c2y = scanner.readNumber() + dy;
+          curveTo(reflected.x, reflected.y, c2x, c2y, scanner.readNumber() + dx, scanner.readNumber() + dy);
+          lastControl = { x: c2x, y: c2y, command: 'C' };
+          break;
+        }
+        case 'Q': {
+          const qx = scanner.readNumber() + dx;
+          const qy = scanner.readNumber() + dy;
+          const px = scanner.readNumber() + dx;
+          const py = scanner.readNumber() + dy;
+          SVGCodec.quadraticTo(curveTo, x, y, qx, qy, px, py);
+          lastControl = { x: qx, y: qy, command: 'Q' };
+          break;
+        }
+        case 'T': {
+          const qx: number = lastControl?.command === 'Q' ? 2 * x - lastControl.x : x;
+          const qy: number = lastControl?.command === 'Q' ? 2 * y - lastControl.y : y;
+          const px = scanner.readNumber() + dx;
+          const py = scanner.readNumber() + dy;
+          SVGCodec.quadraticTo(curveTo, x, y, qx, qy, px, py);
+          lastControl = { x: qx, y: qy, command: 'Q' };
+          break;
+        }
+        case 'A': {
+          const rx = Math.abs(scanner.readNumber());
+          const ry = Math.abs(scanner.readNumber());
+          const rotation = scanner.readNumber();
+          const largeArc = scanner.readFlag();
+          const sweep = scanner.readFlag();
+          const px = scanner.readNumber() + dx;
+          const py = scanner.readNumber() + dy;
+          SVGCodec.arcTo(curveTo, lineTo, x, y, rx, ry, rotation, largeArc, sweep, px, py);
+          lastControl = null;
+          break;
+        }
+        case 'Z': {
+          if (current) {
+            SVGCodec.closeSubpath(current);
+            x = startX;
+            y = startY;
+            // Drawing on after a close starts a new subpath at the same point
+            current = null;
+            if (scanner.peekDrawCommand()) moveTo(x, y);
+          }
+          command = '';
+          lastControl = null;
+          break;
+        }
+        default:
+          warnings.add(`Unknown path command "${command}"; the rest of the path was skipped`);
+          return subpaths.filter(subpath => subpath.nodes.length > 0);
+      }
+
+      if (scanner.failed) {
+        warnings.add('Malformed path data was cut short');
+        break;
+      }
+    }
+
+    // A moveto followed straight by another moveto leaves an empty point
+    return subpaths.filter(subpath => subpath.nodes.length > 1 || subpath.closed);
+  }
+
+  private static quadraticTo(
+    curveTo: (c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number) => void,
+    x0: number,
+    y0: number,
+    qx: number,
+    qy: number,
+    x: number,
+    y: number
+  ): void {
+    curveTo(
+      x0 + (2 / 3) * (qx - x0),
+      y0 + (2 / 3) * (qy - y0),
+      x + (2 / 3) * (qx - x),
+      y + (2 / 3) * (qy - y),
+      x,
+      y
+    );
+  }
+
+  // Endpoint arc to center form, then one cubic per quarter turn or less
+  private static arcTo(
+    curveTo: (c1x: number, c1y: number, c2x: number, c2y: number, x: number, y: number) => void,
+    lineTo: (x: number, y: number) => void,
+    x0: number,
+    y0: number,
+    rx: number,
+    ry: number,
+    rotation: number,
+    largeArc: boolean,
+    sweep: boolean,
+    x: number,
+    y: number
+  ): void {
+    if (x0 === x && y0 === y) return;
+    if (rx === 0 || ry === 0) {
+      lineTo(x, y);
+      return;
+    }
+
+    const phi = (rotation * Math.PI) / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const hx = (x0 - x) / 2;
+    const hy = (y0 - y) / 2;
+    const x1 = cos * hx + sin * hy;
+    const y1 = -sin * hx + cos * hy;
+
+    // Radii too small to reach the end point are scaled up
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+      rx *= Math.sqrt(lambda);
+      ry *= Math.sqrt(lambda);
+    }
+
+    const numerator = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const denominator = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator));
+    const cx1 = (factor * rx * y1) / ry;
+    const cy1 = (-factor * ry * x1) / rx;
+    const cx = cos * cx1 - sin * cy1 + (x0 + x) / 2;
+    const cy = sin * cx1 + cos * cy1 + (y0 + y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => {
+      const sign = ux * vy - uy * vx < 0 ? -1 : 1;
+      const dot = (ux * vx + uy * vy) / (Math.hypot(ux, uy) * Math.hypot(vx, vy));
+      return sign * Math.acos(Math.max(-1, Math.min(1, dot)));
+    };
+    const start = angle(1, 0, (x1 - cx1) / rx, (y1 - cy1) / ry);
+    let delta = angle((x1 - cx1) / rx, (y1 - cy1) / ry, (-x1 - cx1) / rx, (-y1 - cy1) / ry);
+    if (!sweep && delta > 0) delta -= Math.PI * 2;
+    if (sweep && delta < 0) delta += Math.PI * 2;
+
+    const segments = Math.max(1, Math.ceil(Math.abs(delta) / (Math.PI / 2) - 1e-6));
+    const step = delta / segments;
+    const kappa = (4 / 3) * Math.tan(step / 4);
+    const point = (theta: number) => ({
+      x: cx + rx * Math.cos(theta) * cos - ry * Math.sin(theta) * sin,
+      y: cy + rx * Math.cos(theta) * sin + ry * Math.sin(theta) * cos,
+    });
+    const tangent = (theta: number) => ({
+      x: -rx * Math.sin(theta) * cos - ry * Math.cos(theta) * sin,
+      y: -rx * Math.sin(theta) * sin + ry * Math.cos(theta) * cos,
+    });
+
+    for (let i = 0; i < segments; i++) {
+      const a = start + i * step;
+      const b = a + step;
+      const from = point(a);
+      const to = i === segments - 1 ? { x, y } : point(b);
+      const fromTangent = tangent(a);
+      const toTangent = tangent(b);
+      curveTo(
+        from.x + kappa * fromTangent.x,
+        from.y + kappa * fromTangent.y,
+        to.x - kappa * toTangent.x,
+        to.y - kappa * toTangent.y,
+        to.x,
+        to.y
+      );
+    }
+  }
+
+  // Folds an explicit return to the start into the closing segment
+  private static closeSubpath(subpath: Subpath): void {
+    const nodes = subpath.nodes;
+    const first = nodes[0];
+    const last = nodes[nodes.length - 1];
+    if (nodes.length > 1 && Math.hypot(last.x - first.x, last.y - first.y) < 1e-6) {
+      first.handleIn = last.handleIn;
+      nodes.pop();
+    } else if (nodes.length > 1) {
+      // Straight closing segment
+      last.handleOut = { x: last.x, y: last.y };
+      first.handleIn = { x: first.x, y: first.y };
+    }
+    subpath.closed = true;
+  }
+
+  private static createNode(x: number, y: number): VectorNode {
+    return { x, y, handleIn: { x, y }, handleOut: { x, y }, pressure: 1 };
+  }
+
+  private static transformNode(node: VectorNode, matrix: Matrix): VectorNode {
+    const apply = (point: { x: number; y: number }) => ({
+      x: matrix[0] * point.x + matrix[2] * point.y + matrix[4],
+      y: matrix[1] * point.x + matrix[3] * point.y + matrix[5],
+    });
+    return {
+      ...apply(node),
+      handleIn: apply(node.handleIn),
+      handleOut: apply(node.handleOut),
+      pressure: node.pressure,
+    };
+  }
+
+  // ===== ATTRIBUTES =====
+
+  // Inherited presentation attributes, then the element's own attributes and style
+  private static getStyle(element: XMLElement, inherited: Record<string, string>): Record<string, string> {
+    const style: Record<string, string> = {};
+    SVGCodec.INHERITED_STYLES.forEach(name => {
+      if (inherited[name] !== undefined) style[name] = inherited[name];
+    });
+
+    Object.entries(element.attributes).forEach(([name, value]) => {
+      if (name !== 'style' && name !== 'transform') style[name] = value.trim();
+    });
+    (element.attributes.style ?? '').split(';').forEach(declaration => {
+      const colon = declaration.indexOf(':');
+      if (colon > 0) {
+        style[declaration.slice(0, colon).trim()] = declaration.slice(colon + 1).trim();
+      }
+    });
+    return style;
+  }
+
+  private static parseTransform(value: string | undefined): Matrix {
+    if (!value) return IDENTITY;
+
+    let matrix = IDENTITY;
+    const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(value))) {
+      const args = SVGCodec.parseNumbers(match[2]);
+      let next: Matrix = IDENTITY;
+
+      switch (match[1]) {
+        case 'matrix':
+          if (args.length === 6) next = args as Matrix;
+          break;
+        case 'translate':
+          next = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+          break;
+        case 'scale':
+          next = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+          break;
+        case 'rotate': {
+          const radians = ((args[0] ?? 0) * Math.PI) / 180;
+          const cos = Math.cos(radians);
+          const sin = Math.sin(radians);
+          const cx = args[1] ?? 0;
+          const cy = args[2] ?? 0;
+          next = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy];
+          break;
+        }
+        case 'skewX':
+          next = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+          break;
+        case 'skewY':
+          next = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+          break;
+      }
+      matrix = SVGCodec.multiply(matrix, next);
+    }
+    return matrix;
+  }
+
+  private static multiply(a: Matrix, b: Matrix): Matrix {
+    return [
+      a[0] * b[0] + a[2] * b[1],
+      a[1] * b[0] + a[3] * b[1],
+      a[0] * b[2] + a[2] * b[3],
+      a[1] * b[2] + a[3] * b[3],
+      a[0] * b[4] + a[2] * b[5] + a[4],
+      a[1] * b[4] + a[3] * b[5] + a[5],
+    ];
+  }
+
+  // '#rgb', '#rrggbb', rgb() and the common names; null for none and paint servers
+  private static parseColor(value: string, warnings: Set<string>): string | null {
+    const color = value.trim().toLowerCase();
+    if (color === 'none' || color === 'transparent') return null;
+    if (color.startsWith('url(')) {
+      warnings.add('Gradient and pattern paints were skipped');
+      return null;
+    }
+
+    const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/);
+    if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`;
+    if (/^#[0-9a-f]{6}$/.test(color)) return color;
+
+    const rgb = color.match(/^rgba?\(([^)]*)\)$/);
+    if (rgb) {
+      const channels = rgb[1].split(/[\s,]+/).filter(Boolean).slice(0, 3).map(channel =>
+        channel.endsWith('%') ? (parseFloat(channel) / 100) * 255 : parseFloat(channel)
+      );
+      return `#${channels.map(channel => Math.round(Math.max(0, Math.min(255, channel || 0))).toString(16).padStart(2, '0')).join('')}`;
+    }
+
+    if (color === 'currentcolor') return '#000000';
+    const named = SVGCodec.NAMED_COLORS[color];
+    if (named) return named;
+
+    warnings.add(`Unrecognized color "${value}" was drawn in black`);
+    return '#000000';
+  }
+
+  private static parseOpacity(value: string | undefined): number {
+    if (value === undefined) return 1;
+    const opacity = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value);
+    return isNaN(opacity) ? 1 : Math.max(0, Math.min(1, opacity));
+  }
+
+  // Lengths in user units; physical units are converted at 96 dpi
+  private static parseLength(value: string | undefined): number {
+    if (!value) return 0;
+    const match = value.trim().match(/^([-+]?(?:\d*\.\d+|\d+\.?)(?:e[-+]?\d+)?)\s*([a-z%]*)$/i);
+    if (!match) return 0;
+
+    const number = parseFloat(match[1]);
+    const units: Record<string, number> = { '': 1, px: 1, pt: 96 / 72, pc: 16, mm: 96 / 25.4, cm: 96 / 2.54, in: 96 };
+    return number * (units[match[2].toLowerCase()] ?? 1);
+  }
+
+  private static parseNumbers(value: string): number[] {
+    return (value.match(/[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/g) ?? []).map(Number);
+  }
+
+  // ===== XML =====
+
+  // Just enough XML for SVG: elements, attributes and entities; text is ignored
+  private static parseXML(text: string): XMLElement {
+    const root: XMLElement = { name: '#document', attributes: {}, children: [] };
+    const stack: XMLElement[] = [root];
+    const pattern = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([\w:.-]+)\s*>|<([\w:.-]+)((?:\s+[\w:.-]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text))) {
+      if (match[1]) {
+        // Closing tag: pop back to the matching element
+        const index = stack.map(element => element.name).lastIndexOf(match[1]);
+        if (index > 0) stack.length = index;
+      } else if (match[2]) {
+        const element: XMLElement = {
+          name: match[2],
+          attributes: SVGCodec.parseAttributes(match[3] ?? ''),
+          children: [],
+        };
+        stack[stack.length - 1].children.push(element);
+        if (!match[4]) stack.push(element);
+      }
+    }
+    return root;
+  }
+
+  private static parseAttributes(text: string): Record<string, string> {
+    const attributes: Record<string, string> = {};
+    const pattern = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text))) {
+      attributes[match[1]] = SVGCodec.decodeEntities(match[2] ?? match[3] ?? '');
+    }
+    return attributes;
+  }
+
+  private static decodeEntities(value: string): string {
+    const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+        return isNaN(point) ? entity : String.fromCodePoint(point);
+      }
+      return entities[code] ?? entity;
+    });
+  }
+}
+
+// Reads path data a token at a time; arc flags may be written without separators
+class PathScanner {
+  private index = 0;
+  public failed = false;
+
+  constructor(private readonly data: string) {}
+
+  public hasMore(): boolean {
+    this.skipSeparators();
+    return this.index < this.data.length;
+  }
+
+  public readCommand(): string | null {
+    this.skipSeparators();
+    const char = this.data[this.index];
+    if (char && /[MmLlHhVvCcSsQqTtAaZz]/.test(char)) {
+      this.index++;
+      return char;
+    }
+    return null;
+  }
+
+  // True when the next token is a command other than moveto
+  public peekDrawCommand(): boolean {
+    this.skipSeparators();
+    const char = this.data[this.index];
+    return !!char && /[LlHhVvCcSsQqTtAa]/.test(char);
+  }
+
+  public readNumber(): number {
+    this.skipSeparators();
+    const match = this.data.slice(this.index).match(/^[-+]?(?:\d*\.\d+|\d+\.?)(?:[eE][-+]?\d+)?/);
+    if (!match) {
+      this.fail();
+      return 0;
+    }
+    this.index += match[0].length;
+    return parseFloat(match[0]);
+  }
+
+  public readFlag(): boolean {
+    this.skipSeparators();
+    const char = this.data[this.index];
+    if (char !== '0' && char !== '1') {
+      this.fail();
+      return false;
+    }
+    this.index++;
+    return char === '1';
+  }
+
+  private skipSeparators(): void {
+    while (this.index < this.data.length && /[\s,]/.test(this.data[this.index])) {
+      this.index++;
+    }
+  }
+
+  // Stops the parse at the bad token
+  private fail(): void {
+    this.failed = true;
+    this.index = this.data.length;
+  }
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+// ===== TYPES =====
+
+type Matrix = [number, number, number, number, number, number]; // a b c d e f, as in SVG
+
+interface XMLElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XMLElement[];
+}
+
+interface Subpath {
+  nodes: VectorNode[];
+  closed: boolean;
+}
+
+export interface SVGPath {
+  id?: string;
+  nodes: VectorNode[];
+  closed: boolean;
+  color: string; // '#rrggbb'
+  opacity: number;
+  width: number;
+  size?: number; // Brush size behind `width`, when written by us
+  brushId?: string;
+}
+
+export interface SVGGroup {
+  id?: string;
+  name: string;
+  opacity: number;
+  visible: boolean;
+  paths: SVGPath[];
+}
+
+export interface SVGDocument {
+  width: number;
+  height: number;
+  groups: SVGGroup[];
+}
+
+export interface SVGDecodeResult {
+  document: SVGDocument;
+  warnings: string[];
+}
@@ -0,0 +1,52 @@
+// src/engines/drawing/SeededRandom.ts
+import { Stroke } from '../../types/drawing';
+
+/**
+ * Deterministic pseudo-random generator (mulberry32)
+ * Strokes carry a seed so jitter and scatter replay identically on undo/redo.
+ */
+export class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Stable seed for strokes recorded before seeds existed
+  public static fromString(value: string): SeededRandom {
+    return new SeededRandom(hashString(value));
+  }
+
+  // Uniform in [0, 1)
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  public range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+}
+
+// Seed for everything random about a stroke (dabs, colour jitter); strokes
+// recorded before seeds existed fall back to their id
+export function getStrokeSeed(stroke: Pick<Stroke, 'id' | 'seed'>): number {
+  return stroke.seed ?? hashString(stroke.id);
+}
+
+export function createStrokeSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// FNV-1a
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
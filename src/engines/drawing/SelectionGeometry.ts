@@ -0,0 +1,90 @@
+// src/engines/drawing/SelectionGeometry.ts
+import { Point, Bounds, Selection } from '../../types/drawing';
+
+/**
+ * Selection Geometry
+ * Bounds and path math for selections: shape bounds, how bounds combine across
+ * selection modes, padding and clamping to a surface, and evenly spaced points
+ * along a path for edge snapping. All coordinates are surface pixels.
+ */
+export class SelectionGeometry {
+  // ===== PUBLIC API =====
+
+  public static getPathBounds(path: Point[]): Bounds {
+    if (path.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+
+    const xs = path.map(point => point.x);
+    const ys = path.map(point => point.y);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+  }
+
+  public static rectPath(bounds: Bounds): Point[] {
+    return [
+      { x: bounds.x, y: bounds.y },
+      { x: bounds.x + bounds.width, y: bounds.y },
+      { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+      { x: bounds.x, y: bounds.y + bounds.height },
+    ];
+  }
+
+  // Bounds of the mask once a shape with `bounds` is combined into a selection with `current`
+  public static combineBounds(mode: Selection['mode'], current: Bounds | null, bounds: Bounds): Bounds {
+    if (mode === 'new' || !current) return bounds;
+    if (mode === 'subtract') return current;
+
+    const left = mode === 'add' ? Math.min(current.x, bounds.x) : Math.max(current.x, bounds.x);
+    const top = mode === 'add' ? Math.min(current.y, bounds.y) : Math.max(current.y, bounds.y);
+    const right = mode === 'add'
+      ? Math.max(current.x + current.width, bounds.x + bounds.width)
+      : Math.min(current.x + current.width, bounds.x + bounds.width);
+    const bottom = mode === 'add'
+      ? Math.max(current.y + current.height, bounds.y + bounds.height)
+      : Math.min(current.y + current.height, bounds.y + bounds.height);
+    return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+  }
+
+  public static expandBounds(bounds: Bounds, amount: number): Bounds {
+    return {
+      x: bounds.x - amount,
+      y: bounds.y - amount,
+      width: bounds.width + amount * 2,
+      height: bounds.height + amount * 2,
+    };
+  }
+
+  // Whole pixels inside a `width` x `height` surface
+  public static clampBounds(bounds: Bounds, width: number, height: number): Bounds {
+    const left = Math.max(0, Math.floor(bounds.x));
+    const top = Math.max(0, Math.floor(bounds.y));
+    const right = Math.min(width, Math.ceil(bounds.x + bounds.width));
+    const bottom = Math.min(height, Math.ceil(bounds.y + bounds.height));
+    return { x: left, y: top, width: Math.max(0, right - left), height: Math.max(0, bottom - top) };
+  }
+
+  // Points every `spacing` pixels along the path, keeping both ends
+  public static resample(path: Point[], spacing: number): Point[] {
+    if (path.length === 0) return [];
+
+    const result: Point[] = [path[0]];
+    let carry = 0;
+
+    for (let i = 1; i < path.length; i++) {
+      const from = path[i - 1];
+      const to = path[i];
+      const segment = Math.hypot(to.x - from.x, to.y - from.y);
+      let distance = spacing - carry;
+
+      while (distance <= segment) {
+        const t = distance / segment;
+        result.push({ x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t });
+        distance += spacing;
+      }
+      carry = segment - (distance - spacing);
+    }
+
+    result.push(path[path.length - 1]);
+    return result;
+  }
+}
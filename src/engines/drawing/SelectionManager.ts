@@ -0,0 +1,807 @@
+// src/engines/drawing/SelectionManager.ts
+import {
+  Point,
+  Bounds,
+  Color,
+  Selection,
+  LayerEffect,
+  LayerAdjustment,
+} from '../../types/drawing';
+import {
+  CompatSkia,
+  SkCanvas,
+  SkImage,
+  SkSurface,
+  SkPath,
+  BlendMode as SkiaBlendMode,
+  PaintStyle,
+} from './SkiaCompatibility';
+import {
+  ClipOp,
+  ColorType,
+  AlphaType,
+  TileMode,
+} from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { layerManager } from './LayerManager';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { adjustmentManager } from './Adjustments';
+import { layerEffectRenderer } from './LayerEffects';
+import { pixelHistory, PixelPatch, PatchSide } from './PixelHistory';
+import { SelectionGeometry } from './SelectionGeometry';
+
+/**
+ * Selection Manager
+ * Holds the active selection as a coverage mask the size of the layer surfaces.
+ * Shapes combine into it (new/add/subtract/intersect); strokes, fills, effects and
+ * adjustments on layers are clipped to it. Every change is a step in layer history.
+ */
+export class SelectionManager {
+  private static instance: SelectionManager;
+  private eventBus = EventBus.getInstance();
+
+  private readonly DEFAULT_TOLERANCE = 0.1;
+  private readonly MAGNETIC_RADIUS = 10; // Search distance for an edge, in surface pixels
+  private readonly MAGNETIC_SPACING = 4;
+  private readonly MAGNETIC_THRESHOLD = 24; // Weakest gradient that counts as an edge (0-255)
+  private readonly OUTLINE_MAX_SIZE = 1024; // Longest side of the grid the outline is traced on
+  private readonly ANTS_DASH = 6;
+  private readonly ANTS_SPEED = 60; // Milliseconds per pixel of dash movement
+
+  // White, with coverage in alpha; only meaningful while a selection is active
+  private surface: SkSurface | null = null;
+  private maskImage: SkImage | null = null;
+  private active = false;
+  private selection: Selection | null = null; // Last shape combined into the mask
+  private bounds: Bounds | null = null; // Can be larger than the selected area after subtracting
+  private outline: SkPath | null = null;
+
+  private constructor() {
+    this.eventBus.on('selection:historyApplied', (data: SelectionHistoryEvent) => this.applyHistory(data));
+    this.eventBus.on('layers:initialized', () => this.reset());
+    this.eventBus.on('layers:imported', () => this.reset());
+  }
+
+  public static getInstance(): SelectionManager {
+    if (!SelectionManager.instance) {
+      SelectionManager.instance = new SelectionManager();
+    }
+    return SelectionManager.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public hasSelection(): boolean {
+    return this.active;
+  }
+
+  public getSelection(): Selection | null {
+    return this.active ? this.selection : null;
+  }
+
+  public getBounds(): Bounds | null {
+    return this.active ? this.bounds : null;
+  }
+
+  public getMaskImage(): SkImage | null {
+    return this.maskImage;
+  }
+
+  public selectRectangle(bounds: Bounds, options: SelectionOptions = {}): boolean {
+    return this.select(this.createSelection('rectangle', SelectionGeometry.rectPath(bounds), options));
+  }
+
+  public selectEllipse(bounds: Bounds, options: SelectionOptions = {}): boolean {
+    return this.select(this.createSelection('ellipse', SelectionGeometry.rectPath(bounds), options));
+  }
+
+  public selectLasso(path: Point[], options: SelectionOptions = {}): boolean {
+    return this.select(this.createSelection('lasso', path, options));
+  }
+
+  public selectPolygon(points: Point[], options: SelectionOptions = {}): boolean {
+    return this.select(this.createSelection('polygonal', points, options));
+  }
+
+  // Freehand path pulled onto the strongest nearby edges of the current layer
+  public selectMagnetic(path: Point[], options: SelectionOptions = {}): boolean {
+    return this.select(this.createSelection('magnetic', path, options));
+  }
+
+  // Pixels of the current layer close in color to the one under `point`
+  public selectColor(point: Point, options: ColorSelectionOptions = {}): boolean {
+    try {
+      const tolerance = options.tolerance ?? this.DEFAULT_TOLERANCE;
+      const shape = this.createColorShape(point, tolerance, options.contiguous ?? true);
+      if (!shape) return false;
+
+      const selection = this.createSelection('quick', [point], options);
+      return this.combine({ ...selection, bounds: shape.bounds }, shape.image);
+    } catch (error) {
+      console.error('Failed to select by color:', error);
+      return false;
+    }
+  }
+
+  public select(selection: Selection): boolean {
+    try {
+      if (selection.type === 'quick') {
+        const seed = selection.path[0];
+        return seed ? this.selectColor(seed, selection) : false;
+      }
+
+      const path = selection.type === 'magnetic' ? this.snapToEdges(selection.path) : selection.path;
+      if (path.length < 2) return false;
+
+      const shape = this.createShapeImage(selection.type, path, selection.antiAlias);
+      if (!shape) return false;
+
+      return this.combine({ ...selection, path, bounds: SelectionGeometry.getPathBounds(path) }, shape);
+    } catch (error) {
+      console.error('Failed to make selection:', error);
+      return false;
+    }
+  }
+
+  public selectAll(): boolean {
+    const surface = this.ensureSurface();
+    if (!surface) return false;
+
+    const bounds = this.getSurfaceBounds(surface);
+    return this.change(surface, canvas => {
+      canvas.clear(CompatSkia.Color('white'));
+    }, { selection: this.createSelection('rectangle', SelectionGeometry.rectPath(bounds), {}), bounds });
+  }
+
+  public deselect(): boolean {
+    if (!this.active) return false;
+
+    const before = this.captureState();
+    this.active = false;
+    layerManager.recordSelectionChange(before, this.captureState(), null);
+    this.publish();
+    return true;
+  }
+
+  // Swaps selected and unselected; with nothing selected this selects everything
+  public invert(): boolean {
+    const surface = this.ensureSurface();
+    if (!surface) return false;
+    if (!this.active) return this.selectAll();
+
+    const paint = CompatSkia.Paint();
+    paint.setColor(CompatSkia.Color('white'));
+    paint.setBlendMode(SkiaBlendMode.SrcOut);
+    return this.change(surface, canvas => {
+      canvas.drawPaint(paint);
+    }, { selection: this.selection, bounds: this.getSurfaceBounds(surface) });
+  }
+
+  // Softens the edge of the current selection by `radius` surface pixels
+  public feather(radius: number): boolean {
+    const surface = this.surface;
+    if (!surface || !this.active || radius <= 0) return false;
+
+    const image = surface.makeImageSnapshot();
+    const paint = CompatSkia.Paint();
+    paint.setImageFilter(CompatSkia.ImageFilter.MakeBlur(radius / 2, radius / 2, TileMode.Clamp, null));
+    const bounds = this.bounds && SelectionGeometry.clampBounds(
+      SelectionGeometry.expandBounds(this.bounds, radius), surface.width(), surface.height()
+    );
+    return this.change(surface, canvas => {
+      canvas.clear(CompatSkia.Color('transparent'));
+      canvas.drawImage(image, 0, 0, paint);
+    }, { selection: this.selection && { ...this.selection, feather: this.selection.feather + radius }, bounds });
+  }
+
+  public isSelected(point: Point): boolean {
+    if (!this.active || !this.maskImage) return true;
+
+    const x = Math.floor(point.x);
+    const y = Math.floor(point.y);
+    if (x < 0 || y < 0 || x >= this.maskImage.width() || y >= this.maskImage.height()) return false;
+
+    const pixel = this.maskImage.readPixels(x, y, {
+      width: 1,
+      height: 1,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Premul,
+    }) as Uint8Array | null;
+    return !!pixel && pixel[3] >= 128;
+  }
+
+  // Fills the selection (or the whole layer) with `color`
+  public fillSelection(layerId: string, color: Color): boolean {
+    const alphaLock = layerManager.getLayer(layerId)?.alphaLock ?? false;
+    const paint = CompatSkia.Paint();
+    paint.setColor(CompatSkia.Color(color.hex));
+    paint.setAlphaf(color.alpha);
+    paint.setBlendMode(alphaLock ? SkiaBlendMode.SrcATop : SkiaBlendMode.SrcOver);
+
+    return this.editLayer(layerId, canvas => {
+      canvas.drawPaint(paint);
+    });
+  }
+
+  // Removes the selected pixels from a layer
+  public clearSelection(layerId: string): boolean {
+    return this.editLayer(layerId, canvas => {
+      canvas.clear(CompatSkia.Color('transparent'));
+    });
+  }
+
+  // Bakes an adjustment into the selected pixels of a layer
+  public applyAdjustment(layerId: string, adjustment: LayerAdjustment): boolean {
+    return this.editLayer(layerId, (canvas, source) => {
+      const shader = adjustmentManager.createShader(adjustment, source);
+      if (!shader) return;
+
+      const paint = CompatSkia.Paint();
+      paint.setShader(shader);
+      paint.setBlendMode(SkiaBlendMode.Src);
+      canvas.drawPaint(paint);
+    });
+  }
+
+  // Bakes layer effects (blur, noise, ...) into the selected pixels of a layer
+  public applyEffects(layerId: string, effects: LayerEffect[]): boolean {
+    return this.editLayer(layerId, (canvas, source) => {
+      const rendered = layerEffectRenderer.render(source, effects);
+      canvas.clear(CompatSkia.Color('transparent'));
+      canvas.drawImage(rendered, 0, 0);
+    });
+  }
+
+  // Puts back the unselected part of `bounds` from `before`, for tools that edit
+  // pixels directly. `before` covers `bounds`, or the whole surface.
+  public restrictToSelection(surface: SkSurface, before: SkImage, bounds: Bounds): void {
+    const mask = this.maskImage;
+    if (!mask) return;
+
+    const isWhole = before.width() === surface.width() && before.height() === surface.height();
+    const beforeX = isWhole ? 0 : bounds.x;
+    const beforeY = isWhole ? 0 : bounds.y;
+
+    surface.flush();
+    const after = surface.makeImageSnapshot();
+    const canvas = surface.getCanvas();
+    const inPaint = CompatSkia.Paint();
+    inPaint.setBlendMode(SkiaBlendMode.DstIn);
+    const outPaint = CompatSkia.Paint();
+    outPaint.setBlendMode(SkiaBlendMode.DstOut);
+    const plusPaint = CompatSkia.Paint();
+    plusPaint.setBlendMode(SkiaBlendMode.Plus);
+
+    // after × coverage + before × (1 − coverage)
+    canvas.save();
+    canvas.clipRect(CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height), ClipOp.Intersect, false);
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.saveLayer();
+    canvas.drawImage(after, 0, 0);
+    canvas.drawImage(mask, 0, 0, inPaint);
+    canvas.restore();
+    canvas.saveLayer(plusPaint);
+    canvas.drawImage(before, beforeX, beforeY);
+    canvas.drawImage(mask, 0, 0, outPaint);
+    canvas.restore();
+    canvas.restore();
+    surface.flush();
+  }
+
+  // Selection edge traced from the mask, in surface pixels
+  public getOutline(): SkPath | null {
+    if (!this.active || !this.maskImage) return null;
+    if (!this.outline) {
+      this.outline = this.traceOutline(this.maskImage);
+    }
+    return this.outline;
+  }
+
+  // Marching ants: call every frame; `zoom` keeps the line one screen pixel wide
+  public drawMarchingAnts(canvas: SkCanvas, zoom: number = 1, time: number = Date.now()): void {
+    const outline = this.getOutline();
+    if (!outline) return;
+
+    const width = 1 / zoom;
+    const dash = this.ANTS_DASH / zoom;
+    const phase = ((time / this.ANTS_SPEED) % (this.ANTS_DASH * 2)) / zoom;
+
+    const base = CompatSkia.Paint();
+    base.setStyle(PaintStyle.Stroke);
+    base.setStrokeWidth(width);
+    base.setAntiAlias(true);
+    base.setColor(CompatSkia.Color('white'));
+    canvas.drawPath(outline, base);
+
+    const ants = CompatSkia.Paint();
+    ants.setStyle(PaintStyle.Stroke);
+    ants.setStrokeWidth(width);
+    ants.setAntiAlias(true);
+    ants.setColor(CompatSkia.Color('black'));
+    const dashEffect = CompatSkia.PathEffect.MakeDash([dash, dash], phase);
+    if (dashEffect) {
+      ants.setPathEffect(dashEffect);
+    }
+    canvas.drawPath(outline, ants);
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private createSelection(type: Selection['type'], path: Point[], options: SelectionOptions): Selection {
+    return {
+      id: `selection_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      path,
+      bounds: SelectionGeometry.getPathBounds(path),
+      feather: options.feather ?? 0,
+      antiAlias: options.antiAlias ?? true,
+      mode: options.mode ?? 'new',
+    };
+  }
+
+  // Merges a shape's coverage into the mask according to the selection mode
+  private combine(selection: Selection, shape: SkImage): boolean {
+    const surface = this.ensureSurface();
+    if (!surface) return false;
+
+    // With nothing selected, adding starts a new selection and the rest select nothing
+    const mode = this.active ? selection.mode : 'new';
+    if (!this.active && selection.mode !== 'new' && selection.mode !== 'add') return false;
+
+    const paint = CompatSkia.Paint();
+    if (selection.feather > 0) {
+      const sigma = selection.feather / 2;
+      paint.setImageFilter(CompatSkia.ImageFilter.MakeBlur(sigma, sigma, TileMode.Decal, null));
+    }
+    paint.setBlendMode(
+      mode === 'subtract' ? SkiaBlendMode.DstOut
+        : mode === 'intersect' ? SkiaBlendMode.DstIn
+        : SkiaBlendMode.SrcOver
+    );
+
+    const shapeBounds = SelectionGeometry.clampBounds(
+      SelectionGeometry.expandBounds(selection.bounds, selection.feather), surface.width(), surface.height()
+    );
+    return this.change(surface, canvas => {
+      if (mode === 'new') {
+        canvas.clear(CompatSkia.Color('transparent'));
+      }
+      canvas.drawImage(shape, 0, 0, paint);
+    }, { selection, bounds: SelectionGeometry.combineBounds(mode, this.active ? this.bounds : null, shapeBounds) });
+  }
+
+  // Applies a mask edit and records it as one history step
+  private change(
+    surface: SkSurface,
+    edit: (canvas: SkCanvas) => void,
+    next: { selection: Selection | null; bounds: Bounds | null }
+  ): boolean {
+    try {
+      const canvas = surface.getCanvas();
+      const state = this.captureState();
+
+      // Taken before the stale pixels go, so undoing past a deselect still finds the old mask
+      const before = surface.makeImageSnapshot();
+
+      // Stale pixels from an earlier selection don't count as selected
+      if (!this.active) {
+        canvas.clear(CompatSkia.Color('transparent'));
+        surface.flush();
+      }
+
+      edit(canvas);
+      surface.flush();
+
+      this.active = true;
+      this.selection = next.selection;
+      this.bounds = next.bounds;
+
+      const patch = pixelHistory.createPatch(this.getSurfaceBounds(surface), before, surface.makeImageSnapshot());
+      layerManager.recordSelectionChange(state, this.captureState(), patch);
+      this.publish();
+      return true;
+    } catch (error) {
+      console.error('Failed to update selection:', error);
+      return false;
+    }
+  }
+
+  // Runs a pixel edit on a layer, limited to the selection, as one history step
+  private editLayer(layerId: string, edit: (canvas: SkCanvas, source: SkImage) => void): boolean {
+    const layer = layerManager.getLayer(layerId);
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    if (!layer || layer.locked || layer.type !== 'raster' || !surface) return false;
+
+    try {
+      const bounds = this.active && this.bounds ? this.bounds : this.getSurfaceBounds(surface);
+      if (bounds.width <= 0 || bounds.height <= 0) return false;
+
+      surface.flush();
+      const source = surface.makeImageSnapshot();
+      const rect = CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height);
+      const before = surface.makeImageSnapshot(rect);
+
+      const canvas = surface.getCanvas();
+      canvas.save();
+      canvas.clipRect(rect, ClipOp.Intersect, false);
+      edit(canvas, source);
+      canvas.restore();
+      surface.flush();
+
+      if (this.active) {
+        this.restrictToSelection(surface, source, bounds);
+      }
+
+      valkyrieEngine.invalidateLayerEffects(layerId);
+      layerManager.recordPixelChange(layerId, bounds, before, surface.makeImageSnapshot(rect));
+      return true;
+    } catch (error) {
+      console.error('Failed to edit selected pixels:', error);
+      return false;
+    }
+  }
+
+  private createShapeImage(type: Selection['type'], path: Point[], antiAlias: boolean): SkImage | null {
+    const size = this.ensureSurface();
+    if (!size) return null;
+
+    const surface = CompatSkia.Surface.Make(size.width(), size.height());
+    if (!surface) return null;
+
+    const canvas = surface.getCanvas();
+    canvas.clear(CompatSkia.Color('transparent'));
+
+    const paint = CompatSkia.Paint();
+    paint.setColor(CompatSkia.Color('white'));
+    paint.setAntiAlias(antiAlias);
+
+    const bounds = SelectionGeometry.getPathBounds(path);
+    const rect = CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height);
+    if (type === 'rectangle') {
+      canvas.drawRect(rect, paint);
+    } else if (type === 'ellipse') {
+      canvas.drawOval(rect, paint);
+    } else {
+      const shape = CompatSkia.Path.Make();
+      shape.moveTo(path[0].x, path[0].y);
+      path.slice(1).forEach(point => shape.lineTo(point.x, point.y));
+      shape.close();
+      canvas.drawPath(shape, paint);
+    }
+
+    surface.flush();
+    return surface.makeImageSnapshot();
+  }
+
+  // Flood fill (or global match) on the current layer's colors
+  private createColorShape(
+    seed: Point,
+    tolerance: number,
+    contiguous: boolean
+  ): { image: SkImage; bounds: Bounds } | null {
+    const surface = layerManager.getCurrentLayerSurface();
+    if (!surface) return null;
+
+    const width = surface.width();
+    const height = surface.height();
+    const seedX = Math.floor(seed.x);
+    const seedY = Math.floor(seed.y);
+    if (seedX < 0 || seedY < 0 || seedX >= width || seedY >= height) return null;
+
+    const pixels = surface.makeImageSnapshot().readPixels(0, 0, {
+      width,
+      height,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Unpremul,
+    }) as Uint8Array | null;
+    if (!pixels) return null;
+
+    const seedIndex = (seedY * width + seedX) * 4;
+    const target = [pixels[seedIndex], pixels[seedIndex + 1], pixels[seedIndex + 2], pixels[seedIndex + 3]];
+    const limit = Math.max(0, Math.min(1, tolerance)) * 255;
+    const matches = (index: number): boolean => {
+      const offset = index * 4;
+      return Math.abs(pixels[offset] - target[0]) <= limit
+        && Math.abs(pixels[offset + 1] - target[1]) <= limit
+        && Math.abs(pixels[offset + 2] - target[2]) <= limit
+        && Math.abs(pixels[offset + 3] - target[3]) <= limit;
+    };
+
+    const selected = new Uint8Array(width * height);
+    if (contiguous) {
+      // Scanline fill: each popped seed fills its whole run and queues the rows around it
+      const stack = [seedY * width + seedX];
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        if (selected[index] || !matches(index)) continue;
+
+        const y = Math.floor(index / width);
+        let left = index % width;
+        let right = left;
+        while (left > 0 && !selected[y * width + left - 1] && matches(y * width + left - 1)) left--;
+        while (right < width - 1 && !selected[y * width + right + 1] && matches(y * width + right + 1)) right++;
+
+        for (let x = left; x <= right; x++) {
+          selected[y * width + x] = 1;
+          if (y > 0 && !selected[(y - 1) * width + x]) stack.push((y - 1) * width + x);
+          if (y < height - 1 && !selected[(y + 1) * width + x]) stack.push((y + 1) * width + x);
+        }
+      }
+    } else {
+      for (let index = 0; index < selected.length; index++) {
+        selected[index] = matches(index) ? 1 : 0;
+      }
+    }
+
+    let minX = width;
+    let minY = height;
+    let maxX = -1;
+    let maxY = -1;
+    const bytes = new Uint8Array(width * height * 4);
+    for (let index = 0; index < selected.length; index++) {
+      if (!selected[index]) continue;
+
+      bytes.fill(255, index * 4, index * 4 + 4);
+      const x = index % width;
+      const y = Math.floor(index / width);
+      minX = Math.min(minX, x);
+      minY = Math.min(minY, y);
+      maxX = Math.max(maxX, x);
+      maxY = Math.max(maxY, y);
+    }
+    if (maxX < 0) return null;
+
+    const image = CompatSkia.Image.MakeImage(
+      { width, height, colorType: ColorType.RGBA_8888, alphaType: AlphaType.Premul },
+      CompatSkia.Data.fromBytes(bytes),
+      width * 4
+    );
+    if (!image) return null;
+
+    return { image, bounds: { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 } };
+  }
+
+  // Moves each point (resampled along the path) to the strongest edge within reach
+  private snapToEdges(path: Point[]): Point[] {
+    const surface = layerManager.getCurrentLayerSurface();
+    if (!surface || path.length < 2) return path;
+
+    const image = surface.makeImageSnapshot();
+    const radius = this.MAGNETIC_RADIUS;
+    const size = radius * 2 + 3;
+
+    return SelectionGeometry.resample(path, this.MAGNETIC_SPACING).map(point => {
+      const left = Math.round(point.x) - radius - 1;
+      const top = Math.round(point.y) - radius - 1;
+      if (left < 0 || top < 0 || left + size > image.width() || top + size > image.height()) return point;
+
+      const pixels = image.readPixels(left, top, {
+        width: size,
+        height: size,
+        colorType: ColorType.RGBA_8888,
+        alphaType: AlphaType.Premul,
+      }) as Uint8Array | null;
+      if (!pixels) return point;
+
+      // Premultiplied luminance, so edges against transparency count too
+      const value = (x: number, y: number): number => {
+        const offset = (y * size + x) * 4;
+        return pixels[offset] * 0.299 + pixels[offset + 1] * 0.587 + pixels[offset + 2] * 0.114 + pixels[offset + 3] * 0.5;
+      };
+
+      let best = this.MAGNETIC_THRESHOLD;
+      let snapped = point;
+      for (let y = 1; y < size - 1; y++) {
+        for (let x = 1; x < size - 1; x++) {
+          const dx = (value(x + 1, y) - value(x - 1, y)) / 2;
+          const dy = (value(x, y + 1) - value(x, y - 1)) / 2;
+          const distance = Math.hypot(x - radius - 1, y - radius - 1);
+          if (distance > radius) continue;
+
+          // Slightly favour nearer edges so the path doesn't jump between parallel ones
+          const strength = Math.hypot(dx, dy) * (1 - distance / (radius * 4));
+          if (strength > best) {
+            best = strength;
+            snapped = { x: left + x + 0.5, y: top + y + 0.5 };
+          }
+        }
+      }
+      return snapped;
+    });
+  }
+
+  // Marching squares on a downscaled copy of the mask; contours are chained into closed paths
+  private traceOutline(mask: SkImage): SkPath | null {
+    const scale = Math.max(1, Math.ceil(Math.max(mask.width(), mask.height()) / this.OUTLINE_MAX_SIZE));
+    const gridWidth = Math.ceil(mask.width() / scale);
+    const gridHeight = Math.ceil(mask.height() / scale);
+
+    const grid = CompatSkia.Surface.Make(gridWidth, gridHeight);
+    if (!grid) return null;
+    const canvas = grid.getCanvas();
+    canvas.clear(CompatSkia.Color('transparent'));
+    canvas.scale(1 / scale, 1 / scale);
+    canvas.drawImage(mask, 0, 0);
+    grid.flush();
+
+    const pixels = grid.makeImageSnapshot().readPixels(0, 0, {
+      width: gridWidth,
+      height: gridHeight,
+      colorType: ColorType.RGBA_8888,
+      alphaType: AlphaType.Premul,
+    }) as Uint8Array | null;
+    if (!pixels) return null;
+
+    const inside = (x: number, y: number): number =>
+      x >= 0 && y >= 0 && x < gridWidth && y < gridHeight && pixels[(y * gridWidth + x) * 4 + 3] >= 128 ? 1 : 0;
+
+    // Crossing points sit on cell edge midpoints, keyed in doubled grid coordinates
+    const stride = gridWidth * 2 + 6;
+    const key = (x: number, y: number): number => (y + 2) * stride + (x + 2);
+    const links = new Map<number, number[]>();
+    const connect = (from: number, to: number) => {
+      const list = links.get(from);
+      if (list) list.push(to);
+      else links.set(from, [to]);
+    };
+    const link = (a: number, b: number) => {
+      connect(a, b);
+      connect(b, a);
+    };
+
+    for (let y = -1; y < gridHeight; y++) {
+      for (let x = -1; x < gridWidth; x++) {
+        const cell = inside(x, y) * 8 + inside(x + 1, y) * 4 + inside(x + 1, y + 1) * 2 + inside(x, y + 1);
+        if (cell === 0 || cell === 15) continue;
+
+        const top = key(2 * x + 1, 2 * y);
+        const right = key(2 * x + 2, 2 * y + 1);
+        const bottom = key(2 * x + 1, 2 * y + 2);
+        const left = key(2 * x, 2 * y + 1);
+
+        switch (cell) {
+          case 1: case 14: link(left, bottom); break;
+          case 2: case 13: link(bottom, right); break;
+          case 3: case 12: link(left, right); break;
+          case 4: case 11: link(top, right); break;
+          case 6: case 9: link(top, bottom); break;
+          case 7: case 8: link(left, top); break;
+          case 5: link(left, top); link(bottom, right); break;
+          case 10: link(top, right); link(left, bottom); break;
+        }
+      }
+    }
+    if (links.size === 0) return null;
+
+    const toPoint = (id: number): Point => ({
+      x: ((id % stride) - 2) / 2 * scale + scale / 2,
+      y: (Math.floor(id / stride) - 2) / 2 * scale + scale / 2,
+    });
+    const unlink = (a: number, b: number) => {
+      const list = links.get(a);
+      if (list) list.splice(list.indexOf(b), 1);
+    };
+
+    const outline = CompatSkia.Path.Make();
+    for (const start of links.keys()) {
+      if ((links.get(start) ?? []).length === 0) continue;
+
+      const first = toPoint(start);
+      outline.moveTo(first.x, first.y);
+      let current = start;
+      while (true) {
+        const next = links.get(current)?.pop();
+        if (next === undefined) break;
+        unlink(next, current);
+        if (next === start) break;
+
+        const point = toPoint(next);
+        outline.lineTo(point.x, point.y);
+        current = next;
+      }
+      outline.close();
+    }
+    return outline;
+  }
+
+  private applyHistory(data: SelectionHistoryEvent): void {
+    this.setState(data.state);
+    if (!data.patch || !this.surface) {
+      this.publish();
+      return;
+    }
+
+    // Spilled tiles are read back first, so this may land a moment later
+    pixelHistory.apply(data.patch, data.side, this.surface, () => this.publish());
+  }
+
+  private captureState(): SelectionState {
+    return {
+      active: this.active,
+      selection: this.selection,
+      bounds: this.bounds,
+    };
+  }
+
+  private setState(state: SelectionState): void {
+    this.active = state.active;
+    this.selection = state.selection;
+    this.bounds = state.bounds;
+  }
+
+  // Shares the new mask with the renderer and drops the traced outline
+  private publish(): void {
+    this.surface?.flush();
+    this.maskImage = this.active && this.surface ? this.surface.makeImageSnapshot() : null;
+    this.outline = null;
+    valkyrieEngine.setSelectionMask(this.maskImage);
+
+    this.eventBus.emit('selection:changed', {
+      selection: this.getSelection(),
+      bounds: this.getBounds(),
+      active: this.active,
+    });
+  }
+
+  private reset(): void {
+    this.active = false;
+    this.selection = null;
+    this.bounds = null;
+    this.surface = null;
+    this.publish();
+  }
+
+  // The mask matches the layer surfaces; a new canvas size starts over
+  private ensureSurface(): SkSurface | null {
+    const layerSurface = layerManager.getAllLayers()
+      .map(layer => valkyrieEngine.getLayerSurface(layer.id))
+      .find((surface): surface is SkSurface => !!surface);
+    if (!layerSurface) return null;
+
+    const width = layerSurface.width();
+    const height = layerSurface.height();
+    if (this.surface && this.surface.width() === width && this.surface.height() === height) {
+      return this.surface;
+    }
+
+    const surface = CompatSkia.Surface.Make(width, height);
+    if (!surface) return null;
+
+    surface.getCanvas().clear(CompatSkia.Color('transparent'));
+    surface.flush();
+    this.surface = surface;
+    this.active = false;
+    return surface;
+  }
+
+  private getSurfaceBounds(surface: SkSurface): Bounds {
+    return { x: 0, y: 0, width: surface.width(), height: surface.height() };
+  }
+}
+
+// ===== TYPES =====
+
+export interface SelectionOptions {
+  mode?: Selection['mode'];
+  feather?: number; // Surface pixels
+  antiAlias?: boolean;
+}
+
+export interface ColorSelectionOptions extends SelectionOptions {
+  tolerance?: number; // 0-1, per channel
+  contiguous?: boolean; // Only pixels connected to the sampled one
+}
+
+interface SelectionState {
+  active: boolean;
+  selection: Selection | null;
+  bounds: Bounds | null;
+}
+
+interface SelectionHistoryEvent {
+  state: SelectionState;
+  patch: PixelPatch | null;
+  side: PatchSide;
+}
+
+export const selectionManager = SelectionManager.getInstance();
@@ -0,0 +1,836 @@
+// src/engines/drawing/ShapeRecognizer.ts
+import { Point, QuickShape, QuickShapeType } from '../../types/drawing';
+
+/**
+ * Shape Recognizer
+ * Fits hand-drawn points to lines, arcs, ellipses, rectangles, triangles and polygons
+ * by least squares and corner detection, and edits fitted shapes: dragging, handles,
+ * constraints, and sampling back into stroke points. QuickShape uses it on the canvas
+ * and lessons use it to score drawing exercises.
+ */
+export class ShapeRecognizer {
+  private static readonly SAMPLE_COUNT = 96;
+  private static readonly MIN_LENGTH = 24; // Shorter strokes are left alone
+  private static readonly CLOSE_RATIO = 0.2; // End gap, relative to the shape size, that closes a stroke
+  private static readonly CLOSE_DISTANCE = 16;
+  private static readonly TOLERANCE = 0.045; // Mean error, relative to the shape size, a fit may have
+  private static readonly LINE_TOLERANCE = 0.025;
+  private static readonly CORNER_TOLERANCE = 0.05; // Simplification distance that finds corners
+  private static readonly MIN_CORNER_ANGLE = 25; // Degrees a polygon must turn at each corner
+  private static readonly RIGHT_ANGLE_TOLERANCE = 20;
+  private static readonly POLYGON_PREFERENCE = 0.75; // A polygon must beat the curve's error by this factor
+  private static readonly MAX_CORNERS = 8;
+  private static readonly MAX_ARC_RADIUS = 10; // Relative to the shape size; flatter arcs are lines
+  private static readonly ANGLE_STEP = 15; // Degrees constrained angles snap to
+  private static readonly SCORE_TOLERANCE = 0.1; // Relative error that scores zero
+
+  private static readonly TARGET_TYPES: Record<string, QuickShapeType> = {
+    line: 'line',
+    arc: 'arc',
+    circle: 'ellipse',
+    ellipse: 'ellipse',
+    oval: 'ellipse',
+    square: 'rectangle',
+    rectangle: 'rectangle',
+    triangle: 'triangle',
+    polygon: 'polygon',
+  };
+
+  // ===== PUBLIC API =====
+
+  // The best fitting shape, or null when the stroke isn't close enough to any
+  public static recognize(points: Point[]): QuickShape | null {
+    const samples = ShapeRecognizer.prepare(points);
+    if (!samples) return null;
+
+    const size = ShapeRecognizer.getSize(samples);
+    const limit = size * ShapeRecognizer.TOLERANCE;
+
+    if (!ShapeRecognizer.isClosed(samples, size)) {
+      const line = ShapeRecognizer.fitLine(samples);
+      if (line.error <= size * ShapeRecognizer.LINE_TOLERANCE) return line;
+
+      return ShapeRecognizer.choose(
+        ShapeRecognizer.fitArc(samples),
+        ShapeRecognizer.fitPolygon(samples, false),
+        limit
+      );
+    }
+
+    return ShapeRecognizer.choose(
+      ShapeRecognizer.fitEllipse(samples),
+      ShapeRecognizer.fitPolygon(samples, true),
+      limit
+    );
+  }
+
+  // The best fit of one kind of shape, however poor
+  public static fit(points: Point[], type: QuickShapeType): QuickShape | null {
+    const samples = ShapeRecognizer.prepare(points);
+    return samples ? ShapeRecognizer.fitType(samples, type) : null;
+  }
+
+  public static canScore(target: string): boolean {
+    return target in ShapeRecognizer.TARGET_TYPES;
+  }
+
+  // How well the points draw a named shape ('circle', 'square', 'line', ...), 0 to 1
+  public static score(points: Point[], target: string): number {
+    const type = ShapeRecognizer.TARGET_TYPES[target];
+    const samples = ShapeRecognizer.prepare(points);
+    if (!type || !samples) return 0;
+
+    const shape = ShapeRecognizer.fitType(samples, type);
+    if (!shape) return 0;
+
+    const size = ShapeRecognizer.getSize(samples);
+    let score = 1 - shape.error / (size * ShapeRecognizer.SCORE_TOLERANCE);
+
+    // Closed shapes lose points for a gap between the ends
+    if (shape.closed) {
+      score -= ShapeRecognizer.distance(samples[0], samples[samples.length - 1]) / size;
+    }
+    if (target === 'circle' || target === 'square') {
+      score *= ShapeRecognizer.getRegularity(shape);
+    }
+    return Math.max(0, Math.min(1, score));
+  }
+
+  // A plain name for the shape, telling circles and squares apart from other ellipses and rectangles
+  public static getShapeName(shape: QuickShape): string {
+    if (shape.type === 'ellipse' && ShapeRecognizer.getRegularity(shape) >= 0.85) return 'circle';
+    if (shape.type === 'rectangle' && ShapeRecognizer.getRegularity(shape) >= 0.9) return 'square';
+    return shape.type;
+  }
+
+  // Points along the outline, `spacing` pixels apart. Closed outlines start at the point nearest `start`.
+  public static sample(shape: QuickShape, spacing: number = 2, start?: Point): Point[] {
+    const outline = ShapeRecognizer.getOutline(shape, Math.max(0.5, spacing));
+    if (!shape.closed || !start || outline.length < 3) return outline;
+
+    // The last point repeats the first
+    const loop = outline.slice(0, -1);
+    let nearest = 0;
+    loop.forEach((point, i) => {
+      if (ShapeRecognizer.distance(point, start) < ShapeRecognizer.distance(loop[nearest], start)) {
+        nearest = i;
+      }
+    });
+    return [...loop.slice(nearest), ...loop.slice(0, nearest), loop[nearest]];
+  }
+
+  // Handles for editing: the axis ends of an ellipse, the vertices of anything else
+  public static getHandles(shape: QuickShape): Point[] {
+    if (shape.type !== 'ellipse') return shape.vertices.map(vertex => ({ x: vertex.x, y: vertex.y }));
+
+    const [center, first, second] = shape.vertices;
+    const u = ShapeRecognizer.subtract(first, center);
+    const w = ShapeRecognizer.subtract(second, center);
+    return [
+      ShapeRecognizer.add(center, u),
+      ShapeRecognizer.add(center, w),
+      ShapeRecognizer.subtract(center, u),
+      ShapeRecognizer.subtract(center, w),
+    ];
+  }
+
+  // Moves one handle. Constrained ellipses stay circles, rectangles squares,
+  // and other handles snap to angle steps around their neighbour.
+  public static moveHandle(shape: QuickShape, index: number, point: Point, constrained: boolean = false): QuickShape {
+    const vertices = shape.vertices.map(vertex => ({ x: vertex.x, y: vertex.y }));
+
+    if (shape.type === 'ellipse') {
+      const [center, first, second] = vertices;
+      const axis = ShapeRecognizer.normalize(ShapeRecognizer.subtract(index % 2 === 0 ? first : second, center));
+      const radius = Math.max(1, Math.abs(ShapeRecognizer.dot(ShapeRecognizer.subtract(point, center), axis)));
+
+      const other = index % 2 === 0 ? second : first;
+      const otherRadius = constrained ? radius : ShapeRecognizer.distance(other, center);
+      const otherAxis = ShapeRecognizer.normalize(ShapeRecognizer.subtract(other, center));
+      const moved = ShapeRecognizer.add(center, ShapeRecognizer.scale(axis, radius));
+      const resized = ShapeRecognizer.add(center, ShapeRecognizer.scale(otherAxis, otherRadius));
+
+      return {
+        ...shape,
+        vertices: index % 2 === 0 ? [center, moved, resized] : [center, resized, moved],
+      };
+    }
+
+    if (shape.type === 'rectangle' && vertices.length === 4) {
+      return { ...shape, vertices: ShapeRecognizer.resizeRectangle(vertices, index, point, constrained) };
+    }
+
+    if (index < 0 || index >= vertices.length) return shape;
+
+    const neighbour = vertices[index > 0 ? index - 1 : 1];
+    vertices[index] = constrained && neighbour ? ShapeRecognizer.snapAngle(neighbour, point) : { x: point.x, y: point.y };
+    return { ...shape, vertices };
+  }
+
+  // Follows the pen after a snap: lines stretch to it, other shapes turn and scale around their anchor
+  public static drag(shape: QuickShape, from: Point, to: Point): QuickShape {
+    if (shape.type === 'line') {
+      const offset = ShapeRecognizer.subtract(to, from);
+      return { ...shape, vertices: [shape.vertices[0], ShapeRecognizer.add(shape.vertices[1], offset)] };
+    }
+
+    const anchor = ShapeRecognizer.getAnchor(shape);
+    const before = ShapeRecognizer.subtract(from, anchor);
+    const after = ShapeRecognizer.subtract(to, anchor);
+    const length = ShapeRecognizer.magnitude(before);
+    if (length < 1 || ShapeRecognizer.magnitude(after) < 1) return shape;
+
+    const scale = ShapeRecognizer.magnitude(after) / length;
+    const rotation = Math.atan2(after.y, after.x) - Math.atan2(before.y, before.x);
+    return { ...shape, vertices: shape.vertices.map(vertex => ShapeRecognizer.rotateScale(vertex, anchor, rotation, scale)) };
+  }
+
+  // The perfect version: circles, squares, equilateral triangles, regular polygons,
+  // and lines, arcs and polyline segments at whole angle steps
+  public static constrain(shape: QuickShape): QuickShape {
+    const vertices = shape.vertices;
+
+    switch (shape.type) {
+      case 'line':
+      case 'arc': {
+        const end = vertices[vertices.length - 1];
+        const snapped = ShapeRecognizer.snapAngle(vertices[0], end);
+        const rotation = ShapeRecognizer.angleOf(ShapeRecognizer.subtract(snapped, vertices[0])) -
+          ShapeRecognizer.angleOf(ShapeRecognizer.subtract(end, vertices[0]));
+        return { ...shape, vertices: vertices.map(vertex => ShapeRecognizer.rotateScale(vertex, vertices[0], rotation, 1)) };
+      }
+
+      case 'ellipse': {
+        const [center, first, second] = vertices;
+        const radius = (ShapeRecognizer.distance(first, center) + ShapeRecognizer.distance(second, center)) / 2;
+        const angle = ShapeRecognizer.snapRadians(ShapeRecognizer.angleOf(ShapeRecognizer.subtract(first, center)));
+        const turn = ShapeRecognizer.cross(ShapeRecognizer.subtract(first, center), ShapeRecognizer.subtract(second, center)) < 0 ? -1 : 1;
+        return {
+          ...shape,
+          vertices: [
+            center,
+            ShapeRecognizer.polar(center, radius, angle),
+            ShapeRecognizer.polar(center, radius, angle + (turn * Math.PI) / 2),
+          ],
+        };
+      }
+
+      case 'rectangle':
+      case 'triangle':
+        return { ...shape, vertices: ShapeRecognizer.makeRegular(vertices) };
+
+      case 'polygon': {
+        if (shape.closed) return { ...shape, vertices: ShapeRecognizer.makeRegular(vertices) };
+
+        const snapped = [vertices[0]];
+        for (let i = 1; i < vertices.length; i++) {
+          const offset = ShapeRecognizer.subtract(vertices[i], vertices[i - 1]);
+          snapped.push(ShapeRecognizer.add(snapped[i - 1], ShapeRecognizer.snapAngle({ x: 0, y: 0 }, offset)));
+        }
+        return { ...shape, vertices: snapped };
+      }
+
+      default:
+        return shape;
+    }
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  // Evenly spaced samples along the stroke, or null for strokes too short to judge
+  private static prepare(points: Point[]): Point[] | null {
+    const path = points.filter((point, i) => i === 0 || ShapeRecognizer.distance(point, points[i - 1]) > 0.01);
+    if (path.length < 3 || ShapeRecognizer.pathLength(path) < ShapeRecognizer.MIN_LENGTH) return null;
+
+    return ShapeRecognizer.resample(path, ShapeRecognizer.SAMPLE_COUNT);
+  }
+
+  private static fitType(samples: Point[], type: QuickShapeType): QuickShape | null {
+    switch (type) {
+      case 'line':
+        return ShapeRecognizer.fitLine(samples);
+      case 'arc':
+        return ShapeRecognizer.fitArc(samples);
+      case 'ellipse':
+        return ShapeRecognizer.fitEllipse(samples);
+      case 'polygon':
+        return ShapeRecognizer.fitPolygon(samples, ShapeRecognizer.isClosed(samples, ShapeRecognizer.getSize(samples)));
+      default: {
+        const polygon = ShapeRecognizer.fitPolygon(samples, true);
+        return polygon?.type === type ? polygon : null;
+      }
+    }
+  }
+
+  // Polygons win when their corners fit clearly better than the curve
+  private static choose(curve: QuickShape | null, polygon: QuickShape | null, limit: number): QuickShape | null {
+    if (polygon && (!curve || polygon.error < curve.error * ShapeRecognizer.POLYGON_PREFERENCE)) {
+      return polygon.error <= limit ? polygon : null;
+    }
+    return curve && curve.error <= limit ? curve : null;
+  }
+
+  // Total least squares: the line through the centroid along the principal axis
+  private static fitLine(samples: Point[]): QuickShape {
+    const center = ShapeRecognizer.centroid(samples);
+    const { angle } = ShapeRecognizer.principalAxis(samples, center);
+    const direction = { x: Math.cos(angle), y: Math.sin(angle) };
+    const project = (point: Point) =>
+      ShapeRecognizer.add(center, ShapeRecognizer.scale(direction, ShapeRecognizer.dot(ShapeRecognizer.subtract(point, center), direction)));
+
+    return ShapeRecognizer.withError(samples, {
+      type: 'line',
+      vertices: [project(samples[0]), project(samples[samples.length - 1])],
+      closed: false,
+      error: 0,
+    });
+  }
+
+  // Algebraic circle fit (Kåsa), keeping the drawn ends and middle on the circle
+  private static fitArc(samples: Point[]): QuickShape | null {
+    const circle = ShapeRecognizer.fitCircle(samples);
+    if (!circle || circle.radius > ShapeRecognizer.getSize(samples) * ShapeRecognizer.MAX_ARC_RADIUS) return null;
+
+    const project = (point: Point) => {
+      const direction = ShapeRecognizer.normalize(ShapeRecognizer.subtract(point, circle.center));
+      return ShapeRecognizer.add(circle.center, ShapeRecognizer.scale(direction, circle.radius));
+    };
+
+    return ShapeRecognizer.withError(samples, {
+      type: 'arc',
+      vertices: [
+        project(samples[0]),
+        project(samples[Math.floor(samples.length / 2)]),
+        project(samples[samples.length - 1]),
+      ],
+      closed: false,
+      error: 0,
+    });
+  }
+
+  // Axes from the principal directions, radii from a least squares fit of x²/a² + y²/b² = 1
+  private static fitEllipse(samples: Point[]): QuickShape | null {
+    const center = ShapeRecognizer.centroid(samples);
+    const { angle, varianceX, varianceY } = ShapeRecognizer.principalAxis(samples, center);
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+
+    let sxxxx = 0, sxxyy = 0, syyyy = 0, sxx = 0, syy = 0;
+    samples.forEach(point => {
+      const dx = point.x - center.x;
+      const dy = point.y - center.y;
+      const x2 = (dx * cos + dy * sin) ** 2;
+      const y2 = (-dx * sin + dy * cos) ** 2;
+      sxxxx += x2 * x2;
+      sxxyy += x2 * y2;
+      syyyy += y2 * y2;
+      sxx += x2;
+      syy += y2;
+    });
+
+    const determinant = sxxxx * syyyy - sxxyy * sxxyy;
+    let radiusX = Math.sqrt(2 * varianceX);
+    let radiusY = Math.sqrt(2 * varianceY);
+    if (Math.abs(determinant) > 1e-9) {
+      const a = (sxx * syyyy - syy * sxxyy) / determinant;
+      const b = (syy * sxxxx - sxx * sxxyy) / determinant;
+      if (a > 0 && b > 0) {
+        radiusX = 1 / Math.sqrt(a);
+        radiusY = 1 / Math.sqrt(b);
+      }
+    }
+    if (radiusX < 1 || radiusY < 1) return null;
+
+    return ShapeRecognizer.withError(samples, {
+      type: 'ellipse',
+      vertices: [
+        center,
+        ShapeRecognizer.polar(center, radiusX, angle),
+        ShapeRecognizer.polar(center, radiusY, angle + Math.PI / 2),
+      ],
+      closed: true,
+      error: 0,
+    });
+  }
+
+  // Corners by Douglas-Peucker simplification, dropping the ones that barely turn
+  private static fitPolygon(samples: Point[], closed: boolean): QuickShape | null {
+    const size = ShapeRecognizer.getSize(samples);
+    let path = samples;
+
+    if (closed) {
+      // The point farthest from the center is almost always a corner, so the loop starts there
+      const center = ShapeRecognizer.centroid(samples);
+      let start = 0;
+      samples.forEach((point, i) => {
+        if (ShapeRecognizer.distance(point, center) > ShapeRecognizer.distance(samples[start], center)) {
+          start = i;
+        }
+      });
+      path = [...samples.slice(start), ...samples.slice(0, start), samples[start]];
+    }
+
+    let vertices = ShapeRecognizer.simplify(path, size * ShapeRecognizer.CORNER_TOLERANCE);
+    if (closed) {
+      vertices.pop();
+    }
+    vertices = ShapeRecognizer.removeShallowCorners(vertices, closed);
+
+    const cornerCount = closed ? vertices.length : vertices.length - 2;
+    if (cornerCount < (closed ? 3 : 1) || cornerCount > ShapeRecognizer.MAX_CORNERS) return null;
+
+    let type: QuickShapeType = 'polygon';
+    if (closed && vertices.length === 3) {
+      type = 'triangle';
+    } else if (closed && vertices.length === 4 && ShapeRecognizer.hasRightAngles(vertices)) {
+      type = 'rectangle';
+      vertices = ShapeRecognizer.makeRectangle(vertices);
+    }
+
+    return ShapeRecognizer.withError(samples, { type, vertices, closed, error: 0 });
+  }
+
+  private static withError(samples: Point[], shape: QuickShape): QuickShape {
+    const outline = ShapeRecognizer.getOutline(shape, Math.max(1, ShapeRecognizer.getSize(samples) / 64));
+    const total = samples.reduce((sum, point) => sum + ShapeRecognizer.distanceToPolyline(point, outline), 0);
+    return { ...shape, error: total / samples.length };
+  }
+
+  private static getOutline(shape: QuickShape, spacing: number): Point[] {
+    const vertices = shape.vertices;
+
+    switch (shape.type) {
+      case 'arc': {
+        const circle = ShapeRecognizer.circleThrough(vertices[0], vertices[1], vertices[2]);
+        if (!circle) return ShapeRecognizer.densify([vertices[0], vertices[2]], spacing, false);
+
+        const start = ShapeRecognizer.angleOf(ShapeRecognizer.subtract(vertices[0], circle.center));
+        const through = ShapeRecognizer.wrapAngle(ShapeRecognizer.angleOf(ShapeRecognizer.subtract(vertices[1], circle.center)) - start);
+        let sweep = ShapeRecognizer.wrapAngle(ShapeRecognizer.angleOf(ShapeRecognizer.subtract(vertices[2], circle.center)) - start);
+        if (through > sweep) {
+          sweep -= Math.PI * 2; // The arc runs the other way round
+        }
+
+        const steps = Math.max(2, Math.ceil((Math.abs(sweep) * circle.radius) / spacing));
+        return Array.from({ length: steps + 1 }, (_, i) =>
+          ShapeRecognizer.polar(circle.center, circle.radius, start + (sweep * i) / steps)
+        );
+      }
+
+      case 'ellipse': {
+        const [center, first, second] = vertices;
+        const u = ShapeRecognizer.subtract(first, center);
+        const w = ShapeRecognizer.subtract(second, center);
+        const a = ShapeRecognizer.magnitude(u);
+        const b = ShapeRecognizer.magnitude(w);
+
+        // Ramanujan's approximation of the perimeter
+        const h = ((a - b) / (a + b || 1)) ** 2;
+        const perimeter = Math.PI * (a + b) * (1 + (3 * h) / (10 + Math.sqrt(4 - 3 * h)));
+        const steps = Math.max(8, Math.ceil(perimeter / spacing));
+
+        return Array.from({ length: steps + 1 }, (_, i) => {
+          const t = (Math.PI * 2 * i) / steps;
+          return {
+            x: center.x + u.x * Math.cos(t) + w.x * Math.sin(t),
+            y: center.y + u.y * Math.cos(t) + w.y * Math.sin(t),
+          };
+        });
+      }
+
+      default:
+        return ShapeRecognizer.densify(vertices, spacing, shape.closed);
+    }
+  }
+
+  private static densify(vertices: Point[], spacing: number, closed: boolean): Point[] {
+    const corners = closed ? [...vertices, vertices[0]] : vertices;
+    const points: Point[] = [{ x: corners[0].x, y: corners[0].y }];
+
+    for (let i = 1; i < corners.length; i++) {
+      const steps = Math.max(1, Math.ceil(ShapeRecognizer.distance(corners[i - 1], corners[i]) / spacing));
+      for (let step = 1; step <= steps; step++) {
+        points.push(ShapeRecognizer.lerp(corners[i - 1], corners[i], step / steps));
+      }
+    }
+    return points;
+  }
+
+  private static resample(path: Point[], count: number): Point[] {
+    const interval = ShapeRecognizer.pathLength(path) / (count - 1);
+    const samples: Point[] = [{ x: path[0].x, y: path[0].y }];
+    let carried = 0;
+
+    for (let i = 1; i < path.length && samples.length < count; i++) {
+      let previous = path[i - 1];
+      let segment = ShapeRecognizer.distance(previous, path[i]);
+
+      while (carried + segment >= interval && samples.length < count) {
+        const t = (interval - carried) / segment;
+        const point = ShapeRecognizer.lerp(previous, path[i], t);
+        samples.push(point);
+        segment = ShapeRecognizer.distance(point, path[i]);
+        previous = point;
+        carried = 0;
+      }
+      carried += segment;
+    }
+
+    while (samples.length < count) {
+      const last = path[path.length - 1];
+      samples.push({ x: last.x, y: last.y });
+    }
+    return samples;
+  }
+
+  private static simplify(points: Point[], tolerance: number): Point[] {
+    if (points.length < 3) return [...points];
+
+    const first = points[0];
+    const last = points[points.length - 1];
+    let farthest = 0;
+    let index = 0;
+    for (let i = 1; i < points.length - 1; i++) {
+      const distance = ShapeRecognizer.distanceToSegment(points[i], first, last);
+      if (distance > farthest) {
+        farthest = distance;
+        index = i;
+      }
+    }
+
+    if (farthest <= tolerance) return [first, last];
+    return [
+      ...ShapeRecognizer.simplify(points.slice(0, index + 1), tolerance).slice(0, -1),
+      ...ShapeRecognizer.simplify(points.slice(index), tolerance),
+    ];
+  }
+
+  private static removeShallowCorners(vertices: Point[], closed: boolean): Point[] {
+    const result = [...vertices];
+    const minimum = (ShapeRecognizer.MIN_CORNER_ANGLE * Math.PI) / 180;
+
+    let removed = true;
+    while (removed && result.length > (closed ? 3 : 2)) {
+      removed = false;
+      let shallowest = -1;
+      let smallest = minimum;
+
+      for (let i = closed ? 0 : 1; i < (closed ? result.length : result.length - 1); i++) {
+        const previous = result[(i - 1 + result.length) % result.length];
+        const next = result[(i + 1) % result.length];
+        const turn = Math.abs(ShapeRecognizer.wrapAngle(
+          ShapeRecognizer.angleOf(ShapeRecognizer.subtract(next, result[i])) -
+            ShapeRecognizer.angleOf(ShapeRecognizer.subtract(result[i], previous)) + Math.PI
+        ) - Math.PI);
+        if (turn < smallest) {
+          smallest = turn;
+          shallowest = i;
+        }
+      }
+
+      if (shallowest >= 0) {
+        result.splice(shallowest, 1);
+        removed = true;
+      }
+    }
+    return result;
+  }
+
+  private static hasRightAngles(vertices: Point[]): boolean {
+    const tolerance = (ShapeRecognizer.RIGHT_ANGLE_TOLERANCE * Math.PI) / 180;
+    return vertices.every((vertex, i) => {
+      const previous = ShapeRecognizer.normalize(ShapeRecognizer.subtract(vertices[(i + 3) % 4], vertex));
+      const next = ShapeRecognizer.normalize(ShapeRecognizer.subtract(vertices[(i + 1) % 4], vertex));
+      return Math.abs(Math.acos(Math.max(-1, Math.min(1, ShapeRecognizer.dot(previous, next)))) - Math.PI / 2) <= tolerance;
+    });
+  }
+
+  // The rectangle whose sides run along the drawn sides' average direction, corners kept in drawing order
+  private static makeRectangle(vertices: Point[]): Point[] {
+    let sin = 0;
+    let cos = 0;
+    vertices.forEach((vertex, i) => {
+      const angle = ShapeRecognizer.angleOf(ShapeRecognizer.subtract(vertices[(i + 1) % 4], vertex));
+      sin += Math.sin(angle * 4);
+      cos += Math.cos(angle * 4);
+    });
+    const angle = Math.atan2(sin, cos) / 4;
+
+    const center = ShapeRecognizer.centroid(vertices);
+    const local = vertices.map(vertex => ShapeRecognizer.rotateScale(vertex, center, -angle, 1));
+    const xs = local.map(point => point.x).sort((a, b) => a - b);
+    const ys = local.map(point => point.y).sort((a, b) => a - b);
+    const left = (xs[0] + xs[1]) / 2;
+    const right = (xs[2] + xs[3]) / 2;
+    const top = (ys[0] + ys[1]) / 2;
+    const bottom = (ys[2] + ys[3]) / 2;
+
+    let corners = [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+    ].map(corner => ShapeRecognizer.rotateScale(corner, center, angle, 1));
+
+    if (Math.sign(ShapeRecognizer.signedArea(corners)) !== Math.sign(ShapeRecognizer.signedArea(vertices))) {
+      corners = corners.reverse();
+    }
+    let first = 0;
+    corners.forEach((corner, i) => {
+      if (ShapeRecognizer.distance(corner, vertices[0]) < ShapeRecognizer.distance(corners[first], vertices[0])) {
+        first = i;
+      }
+    });
+    return [...corners.slice(first), ...corners.slice(0, first)];
+  }
+
+  // Keeps the opposite corner in place and the sides at their angle
+  private static resizeRectangle(vertices: Point[], index: number, point: Point, square: boolean): Point[] {
+    if (index < 0 || index > 3) return vertices;
+
+    const opposite = vertices[(index + 2) % 4];
+    const sideA = ShapeRecognizer.normalize(ShapeRecognizer.subtract(vertices[(index + 1) % 4], opposite));
+    const sideB = ShapeRecognizer.normalize(ShapeRecognizer.subtract(vertices[(index + 3) % 4], opposite));
+    if (ShapeRecognizer.magnitude(sideA) === 0 || ShapeRecognizer.magnitude(sideB) === 0) return vertices;
+
+    const offset = ShapeRecognizer.subtract(point, opposite);
+    let a = ShapeRecognizer.dot(offset, sideA);
+    let b = ShapeRecognizer.dot(offset, sideB);
+    if (square) {
+      const side = Math.max(Math.abs(a), Math.abs(b));
+      a = (a < 0 ? -1 : 1) * side;
+      b = (b < 0 ? -1 : 1) * side;
+    }
+
+    const result = [...vertices];
+    result[(index + 1) % 4] = ShapeRecognizer.add(opposite, ShapeRecognizer.scale(sideA, a));
+    result[(index + 3) % 4] = ShapeRecognizer.add(opposite, ShapeRecognizer.scale(sideB, b));
+    result[index] = ShapeRecognizer.add(result[(index + 1) % 4], ShapeRecognizer.scale(sideB, b));
+    return result;
+  }
+
+  // Same center, size, winding and first corner direction (snapped), equal sides
+  private static makeRegular(vertices: Point[]): Point[] {
+    const center = ShapeRecognizer.centroid(vertices);
+    const radius = vertices.reduce((sum, vertex) => sum + ShapeRecognizer.distance(vertex, center), 0) / vertices.length;
+    const start = ShapeRecognizer.snapRadians(ShapeRecognizer.angleOf(ShapeRecognizer.subtract(vertices[0], center)));
+    const turn = ShapeRecognizer.signedArea(vertices) < 0 ? -1 : 1;
+
+    return vertices.map((_, i) =>
+      ShapeRecognizer.polar(center, radius, start + (turn * Math.PI * 2 * i) / vertices.length)
+    );
+  }
+
+  // 1 for circles and squares, less the further the sides or axes differ
+  private static getRegularity(shape: QuickShape): number {
+    const vertices = shape.vertices;
+    let a = 0;
+    let b = 0;
+
+    if (shape.type === 'ellipse') {
+      a = ShapeRecognizer.distance(vertices[1], vertices[0]);
+      b = ShapeRecognizer.distance(vertices[2], vertices[0]);
+    } else if (shape.type === 'rectangle') {
+      a = ShapeRecognizer.distance(vertices[0], vertices[1]);
+      b = ShapeRecognizer.distance(vertices[1], vertices[2]);
+    } else {
+      return 1;
+    }
+    return Math.max(a, b) > 0 ? Math.min(a, b) / Math.max(a, b) : 0;
+  }
+
+  private static getAnchor(shape: QuickShape): Point {
+    if (shape.type === 'ellipse') return shape.vertices[0];
+    return shape.closed ? ShapeRecognizer.centroid(shape.vertices) : shape.vertices[0];
+  }
+
+  private static isClosed(samples: Point[], size: number): boolean {
+    const gap = ShapeRecognizer.distance(samples[0], samples[samples.length - 1]);
+    return gap <= Math.max(ShapeRecognizer.CLOSE_DISTANCE, size * ShapeRecognizer.CLOSE_RATIO) &&
+      ShapeRecognizer.pathLength(samples) > gap * 3;
+  }
+
+  private static fitCircle(points: Point[]): { center: Point; radius: number } | null {
+    const mean = ShapeRecognizer.centroid(points);
+    let sxx = 0, sxy = 0, syy = 0, sxz = 0, syz = 0, sz = 0;
+
+    points.forEach(point => {
+      const x = point.x - mean.x;
+      const y = point.y - mean.y;
+      const z = x * x + y * y;
+      sxx += x * x;
+      sxy += x * y;
+      syy += y * y;
+      sxz += x * z;
+      syz += y * z;
+      sz += z;
+    });
+
+    // Centered coordinates make the sums of x and y zero, which decouples F
+    const determinant = sxx * syy - sxy * sxy;
+    if (Math.abs(determinant) < 1e-9) return null;
+
+    const d = -(sxz * syy - syz * sxy) / determinant;
+    const e = -(syz * sxx - sxz * sxy) / determinant;
+    const f = -sz / points.length;
+    const cx = -d / 2;
+    const cy = -e / 2;
+    const radius = Math.sqrt(cx * cx + cy * cy - f);
+    if (!isFinite(radius) || radius < 1) return null;
+
+    return { center: { x: cx + mean.x, y: cy + mean.y }, radius };
+  }
+
+  private static circleThrough(a: Point, b: Point, c: Point): { center: Point; radius: number } | null {
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    if (Math.abs(d) < 1e-6) return null;
+
+    const a2 = a.x * a.x + a.y * a.y;
+    const b2 = b.x * b.x + b.y * b.y;
+    const c2 = c.x * c.x + c.y * c.y;
+    const center = {
+      x: (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d,
+      y: (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d,
+    };
+    return { center, radius: ShapeRecognizer.distance(center, a) };
+  }
+
+  private static principalAxis(points: Point[], center: Point): { angle: number; varianceX: number; varianceY: number } {
+    let sxx = 0, sxy = 0, syy = 0;
+    points.forEach(point => {
+      const dx = point.x - center.x;
+      const dy = point.y - center.y;
+      sxx += dx * dx;
+      sxy += dx * dy;
+      syy += dy * dy;
+    });
+    sxx /= points.length;
+    sxy /= points.length;
+    syy /= points.length;
+
+    const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return {
+      angle,
+      varianceX: sxx * cos * cos + 2 * sxy * cos * sin + syy * sin * sin,
+      varianceY: sxx * sin * sin - 2 * sxy * cos * sin + syy * cos * cos,
+    };
+  }
+
+  private static snapAngle(origin: Point, point: Point): Point {
+    const offset = ShapeRecognizer.subtract(point, origin);
+    return ShapeRecognizer.polar(origin, ShapeRecognizer.magnitude(offset), ShapeRecognizer.snapRadians(ShapeRecognizer.angleOf(offset)));
+  }
+
+  private static snapRadians(angle: number): number {
+    const step = (ShapeRecognizer.ANGLE_STEP * Math.PI) / 180;
+    return Math.round(angle / step) * step;
+  }
+
+  private static getSize(points: Point[]): number {
+    const xs = points.map(point => point.x);
+    const ys = points.map(point => point.y);
+    return Math.max(1, Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)));
+  }
+
+  private static pathLength(points: Point[]): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += ShapeRecognizer.distance(points[i - 1], points[i]);
+    }
+    return length;
+  }
+
+  private static centroid(points: Point[]): Point {
+    const sum = points.reduce((total, point) => ({ x: total.x + point.x, y: total.y + point.y }), { x: 0, y: 0 });
+    return { x: sum.x / points.length, y: sum.y / points.length };
+  }
+
+  private static signedArea(points: Point[]): number {
+    let area = 0;
+    points.forEach((point, i) => {
+      area += ShapeRecognizer.cross(point, points[(i + 1) % points.length]);
+    });
+    return area / 2;
+  }
+
+  private static distanceToPolyline(point: Point, polyline: Point[]): number {
+    if (polyline.length === 1) return ShapeRecognizer.distance(point, polyline[0]);
+
+    let nearest = Infinity;
+    for (let i = 1; i < polyline.length; i++) {
+      nearest = Math.min(nearest, ShapeRecognizer.distanceToSegment(point, polyline[i - 1], polyline[i]));
+    }
+    return nearest;
+  }
+
+  private static distanceToSegment(point: Point, a: Point, b: Point): number {
+    const segment = ShapeRecognizer.subtract(b, a);
+    const lengthSquared = ShapeRecognizer.dot(segment, segment);
+    if (lengthSquared === 0) return ShapeRecognizer.distance(point, a);
+
+    const t = Math.max(0, Math.min(1, ShapeRecognizer.dot(ShapeRecognizer.subtract(point, a), segment) / lengthSquared));
+    return ShapeRecognizer.distance(point, ShapeRecognizer.lerp(a, b, t));
+  }
+
+  private static rotateScale(point: Point, origin: Point, angle: number, scale: number): Point {
+    const dx = (point.x - origin.x) * scale;
+    const dy = (point.y - origin.y) * scale;
+    return {
+      x: origin.x + dx * Math.cos(angle) - dy * Math.sin(angle),
+      y: origin.y + dx * Math.sin(angle) + dy * Math.cos(angle),
+    };
+  }
+
+  // Wraps into [0, 2π)
+  private static wrapAngle(angle: number): number {
+    const full = Math.PI * 2;
+    return ((angle % full) + full) % full;
+  }
+
+  private static polar(origin: Point, radius: number, angle: number): Point {
+    return { x: origin.x + radius * Math.cos(angle), y: origin.y + radius * Math.sin(angle) };
+  }
+
+  private static angleOf(vector: Point): number {
+    return Math.atan2(vector.y, vector.x);
+  }
+
+  private static lerp(a: Point, b: Point, t: number): Point {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  }
+
+  private static add(a: Point, b: Point): Point {
+    return { x: a.x + b.x, y: a.y + b.y };
+  }
+
+  private static subtract(a: Point, b: Point): Point {
+    return { x: a.x - b.x, y: a.y - b.y };
+  }
+
+  private static scale(vector: Point, factor: number): Point {
+    return { x: vector.x * factor, y: vector.y * factor };
+  }
+
+  private static dot(a: Point, b: Point): number {
+    return a.x * b.x + a.y * b.y;
+  }
+
+  private static cross(a: Point, b: Point): number {
+    return a.x * b.y - a.y * b.x;
+  }
+
+  private static magnitude(vector: Point): number {
+    return Math.hypot(vector.x, vector.y);
+  }
+
+  private static normalize(vector: Point): Point {
+    const length = ShapeRecognizer.magnitude(vector);
+    return length > 0 ? { x: vector.x / length, y: vector.y / length } : { x: 0, y: 0 };
+  }
+
+  private static distance(a: Point, b: Point): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+}
@@ -0,0 +1,640 @@
+// src/engines/drawing/TextEngine.ts
+import * as FileSystem from 'expo-file-system';
+import { Image, Platform } from 'react-native';
+import {
+  Point,
+  Bounds,
+  LayerTransform,
+  TextLayer,
+  TextProperties,
+  FontFamilyInfo,
+} from '../../types/drawing';
+import { CompatSkia, SkSurface } from './SkiaCompatibility';
+import {
+  ClipOp,
+  FontSlant,
+  FontWeight,
+  TextAlign,
+  SkParagraph,
+  SkTypefaceFontProvider,
+} from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { dataManager } from '../core/DataManager';
+import { colorManager } from './ColorManager';
+import { layerManager } from './LayerManager';
+import { pixelHistory } from './PixelHistory';
+import { valkyrieEngine } from './ValkyrieEngine';
+
+/**
+ * Text Engine
+ * Text layers keep their text and type settings on the layer and redraw their pixels
+ * from them as Skia paragraphs, with the layer transform applied. Fonts come from the
+ * app bundle, from files the user imports, or from the system. Rasterizing a text
+ * layer turns it into a plain raster layer. Every edit is one undo step through
+ * LayerManager.
+ */
+export class TextEngine {
+  private static instance: TextEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly FONTS_DIRECTORY = FileSystem.documentDirectory
+    ? `${FileSystem.documentDirectory}fonts/`
+    : null;
+  private readonly DEFAULT_FAMILY = Platform.OS === 'ios' ? 'Helvetica' : 'Roboto';
+  private readonly FALLBACK_FAMILIES = ['Helvetica', 'Roboto', 'sans-serif'];
+  private readonly FONT_EXTENSIONS = ['.ttf', '.otf'];
+  private readonly MAX_LAYOUT_WIDTH = 100000;
+  private readonly HIT_TOLERANCE = 8;
+
+  private readonly DEFAULT_PROPERTIES: Omit<TextProperties, 'text' | 'color'> = {
+    font: { family: this.DEFAULT_FAMILY, size: 64, weight: 400, style: 'normal' },
+    boxWidth: null,
+    alignment: 'left',
+    lineHeight: 1.2,
+    letterSpacing: 0,
+    textTransform: 'none',
+  };
+
+  private readonly ALIGNMENTS: Record<TextLayer['alignment'], TextAlign> = {
+    left: TextAlign.Left,
+    center: TextAlign.Center,
+    right: TextAlign.Right,
+    justify: TextAlign.Justify,
+  };
+
+  private readonly SLANTS: Record<TextLayer['font']['style'], FontSlant> = {
+    normal: FontSlant.Upright,
+    italic: FontSlant.Italic,
+    oblique: FontSlant.Oblique,
+  };
+
+  private fontProvider: SkTypefaceFontProvider = CompatSkia.TypefaceFontProvider.Make();
+  private fonts: Map<string, { source: 'bundled' | 'imported'; file: string | null }> = new Map();
+  private fontsLoaded: Promise<void> | null = null;
+
+  private editingLayerId: string | null = null;
+
+  private constructor() {
+    this.loadFonts();
+  }
+
+  public static getInstance(): TextEngine {
+    if (!TextEngine.instance) {
+      TextEngine.instance = new TextEngine();
+    }
+    return TextEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  // Resolves once the fonts imported in earlier sessions are registered
+  public loadFonts(): Promise<void> {
+    if (!this.fontsLoaded) {
+      this.fontsLoaded = this.loadImportedFonts();
+    }
+    return this.fontsLoaded;
+  }
+
+  // Font files shipped with the app, as `require('./Font.ttf')` modules or URIs.
+  // Several files under one family register its weights and styles.
+  public async registerBundledFonts(fonts: Record<string, FontSource | FontSource[]>): Promise<string[]> {
+    const registered: string[] = [];
+
+    for (const [family, sources] of Object.entries(fonts)) {
+      let loaded = false;
+      for (const source of Array.isArray(sources) ? sources : [sources]) {
+        const uri = typeof source === 'number' ? Image.resolveAssetSource(source)?.uri : source;
+        if (uri && (await this.registerFontFile(uri, family))) {
+          loaded = true;
+        }
+      }
+
+      if (loaded) {
+        this.fonts.set(family, { source: 'bundled', file: null });
+        registered.push(family);
+      }
+    }
+
+    if (registered.length > 0) {
+      this.eventBus.emit('fonts:changed', { families: registered });
+    }
+    return registered;
+  }
+
+  // Copies a TTF or OTF file into the app and registers it. The family defaults to the file name.
+  public async importFont(uri: string, family?: string): Promise<string | null> {
+    try {
+      if (!this.FONTS_DIRECTORY) {
+        throw new Error('Font storage is not available');
+      }
+
+      const extension = this.getFontExtension(uri);
+      if (!extension) {
+        throw new Error('Only TrueType and OpenType fonts can be imported');
+      }
+
+      await this.loadFonts();
+      const name = family?.trim() || this.getFileName(uri);
+      const file = `${this.FONTS_DIRECTORY}${this.sanitizeFileName(name)}${extension}`;
+
+      await FileSystem.makeDirectoryAsync(this.FONTS_DIRECTORY, { intermediates: true });
+      await FileSystem.deleteAsync(file, { idempotent: true });
+      await FileSystem.copyAsync({ from: uri, to: file });
+
+      if (!(await this.registerFontFile(file, name))) {
+        await FileSystem.deleteAsync(file, { idempotent: true });
+        throw new Error('Unreadable font file');
+      }
+
+      this.fonts.set(name, { source: 'imported', file });
+      await this.saveImportedFonts();
+
+      this.eventBus.emit('fonts:changed', { families: [name] });
+      return name;
+    } catch (error) {
+      console.error('Failed to import font:', error);
+      return null;
+    }
+  }
+
+  // The typeface stays usable until the app restarts; text layers keep their pixels either way
+  public async removeFont(family: string): Promise<boolean> {
+    const font = this.fonts.get(family);
+    if (!font || font.source !== 'imported') return false;
+
+    try {
+      this.fonts.delete(family);
+      if (font.file) {
+        await FileSystem.deleteAsync(font.file, { idempotent: true });
+      }
+      await this.saveImportedFonts();
+
+      this.eventBus.emit('fonts:changed', { families: [family] });
+      return true;
+    } catch (error) {
+      console.error('Failed to remove font:', error);
+      return false;
+    }
+  }
+
+  public getAvailableFonts(): FontFamilyInfo[] {
+    const families: FontFamilyInfo[] = Array.from(this.fonts.entries()).map(([family, font]) => ({
+      family,
+      source: font.source,
+    }));
+
+    const systemFonts = CompatSkia.FontMgr.System();
+    for (let i = 0; i < systemFonts.countFamilies(); i++) {
+      const family = systemFonts.getFamilyName(i);
+      if (!this.fonts.has(family)) {
+        families.push({ family, source: 'system' });
+      }
+    }
+    return families.sort((a, b) => a.family.localeCompare(b.family));
+  }
+
+  public hasFont(family: string): boolean {
+    return this.fonts.has(family);
+  }
+
+  // The app copy of an imported font, so documents can carry it along
+  public getFontFile(family: string): string | null {
+    const font = this.fonts.get(family);
+    return font?.source === 'imported' ? font.file : null;
+  }
+
+  public isTextLayer(layerId: string): boolean {
+    return layerManager.getLayer(layerId)?.type === 'text';
+  }
+
+  public getTextLayer(layerId: string): TextLayer | null {
+    const layer = layerManager.getLayer(layerId);
+    return layer?.type === 'text' ? (layer as TextLayer) : null;
+  }
+
+  // `position` is the top left corner of the text box in surface pixels
+  public createTextLayer(text: string, position: Point, properties: Partial<TextProperties> = {}): TextLayer | null {
+    try {
+      const fields: TextProperties = {
+        ...this.DEFAULT_PROPERTIES,
+        ...properties,
+        text,
+        color: { ...(properties.color ?? colorManager.getCurrentColor()) },
+        font: { ...this.DEFAULT_PROPERTIES.font, ...properties.font },
+      };
+
+      const layer = layerManager.createLayer(this.getLayerName(text), 'text', {
+        ...fields,
+        transform: { x: position.x, y: position.y, scale: 1, rotation: 0, flipX: false, flipY: false },
+      } as Partial<TextLayer>) as TextLayer;
+
+      const surface = valkyrieEngine.getLayerSurface(layer.id);
+      if (surface) {
+        this.drawText(surface, layer, null);
+      }
+      layerManager.recordCreatedContent(layer.id);
+
+      this.eventBus.emit('text:created', { layerId: layer.id });
+      return layer;
+    } catch (error) {
+      console.error('Failed to create text layer:', error);
+      return null;
+    }
+  }
+
+  public updateText(layerId: string, changes: Partial<TextProperties>): boolean {
+    const layer = this.getEditableLayer(layerId);
+    if (!layer) return false;
+
+    const next: Partial<TextLayer> = { ...changes };
+    if (changes.font) {
+      next.font = { ...layer.font, ...changes.font };
+    }
+    if (changes.color) {
+      next.color = { ...changes.color };
+    }
+    if (changes.text !== undefined && layer.name === this.getLayerName(layer.text)) {
+      // Layers still named after their text follow it
+      next.name = this.getLayerName(changes.text);
+    }
+    return this.commit(layer, next);
+  }
+
+  // Moves, rotates, scales, flips or skews the text box; rotation and skew are in degrees
+  public transformText(layerId: string, transform: Partial<LayerTransform>): boolean {
+    const layer = this.getEditableLayer(layerId);
+    if (!layer) return false;
+
+    return this.commit(layer, { transform: { ...layer.transform, ...transform } });
+  }
+
+  // Where the text sits on the layer, padded for glyphs that reach past their box
+  public getTextBounds(layerId: string): Bounds | null {
+    const layer = this.getTextLayer(layerId);
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    if (!layer || !surface) return null;
+
+    return this.getLayerBounds(layer, surface);
+  }
+
+  // The topmost visible text layer whose box contains the point
+  public hitTest(point: Point): string | null {
+    const layers = layerManager.getAllLayers().reverse();
+
+    for (const layer of layers) {
+      if (layer.type !== 'text' || !layer.visible) continue;
+
+      const { width, height } = this.measure(layer as TextLayer);
+      const local = this.toLocal(layer as TextLayer, point, width, height);
+      if (!local) continue;
+
+      const tolerance = this.HIT_TOLERANCE / Math.max(layer.transform.scale, 0.01);
+      if (
+        local.x >= -tolerance &&
+        local.y >= -tolerance &&
+        local.x <= width + tolerance &&
+        local.y <= height + tolerance
+      ) {
+        return layer.id;
+      }
+    }
+    return null;
+  }
+
+  // Text tool: a tap on existing text edits it, anywhere else starts a new text layer
+  public beginEditing(point: Point, properties: Partial<TextProperties> = {}): TextLayer | null {
+    this.endEditing();
+
+    const hitId = this.hitTest(point);
+    const existing = hitId ? this.getEditableLayer(hitId) : null;
+    let layer = existing;
+
+    if (!layer) {
+      const font = { ...this.DEFAULT_PROPERTIES.font, ...properties.font };
+      const lineHeight = properties.lineHeight ?? this.DEFAULT_PROPERTIES.lineHeight;
+      layer = this.createTextLayer('', { x: point.x, y: point.y - (font.size * lineHeight) / 2 }, properties);
+    }
+    if (!layer) return null;
+
+    this.editingLayerId = layer.id;
+    layerManager.setCurrentLayer(layer.id);
+    this.eventBus.emit('text:editingStarted', { layerId: layer.id, created: !existing });
+    return layer;
+  }
+
+  // Text left empty when editing ends is removed
+  public endEditing(): void {
+    const layerId = this.editingLayerId;
+    if (!layerId) return;
+
+    this.editingLayerId = null;
+    const layer = this.getTextLayer(layerId);
+    if (layer && layer.text.trim().length === 0) {
+      layerManager.deleteLayer(layerId);
+    }
+    this.eventBus.emit('text:editingEnded', { layerId });
+  }
+
+  public getEditingLayerId(): string | null {
+    return this.editingLayerId;
+  }
+
+  // Keeps the pixels and drops the ability to edit the text
+  public rasterize(layerId: string): boolean {
+    const layer = this.getEditableLayer(layerId);
+    if (!layer) return false;
+
+    if (this.editingLayerId === layerId) {
+      this.editingLayerId = null;
+    }
+
+    layer.type = 'raster';
+    layerManager.recordTextChange(layerId, { type: 'text' }, { type: 'raster' }, null);
+    this.eventBus.emit('text:rasterized', { layerId });
+    return true;
+  }
+
+  // Redraws a text layer from its settings, e.g. once the font it uses has been imported
+  public renderLayer(layerId: string): boolean {
+    const layer = this.getTextLayer(layerId);
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    if (!layer || !surface) return false;
+
+    try {
+      this.drawText(surface, layer, null);
+      valkyrieEngine.invalidateLayerEffects(layerId);
+      return true;
+    } catch (error) {
+      console.error('Failed to render text layer:', error);
+      return false;
+    }
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private getEditableLayer(layerId: string): TextLayer | null {
+    const layer = this.getTextLayer(layerId);
+    return layer && !layer.locked ? layer : null;
+  }
+
+  // Applies the changes, redraws the layer and records the changed pixels for undo
+  private commit(layer: TextLayer, changes: Partial<TextLayer>): boolean {
+    const surface = valkyrieEngine.getLayerSurface(layer.id);
+    if (!surface) return false;
+
+    try {
+      const before: Partial<TextLayer> = {};
+      (Object.keys(changes) as Array<keyof TextLayer>).forEach(key => {
+        copyField(before, layer, key);
+      });
+
+      const oldBounds = this.getLayerBounds(layer, surface);
+      Object.assign(layer, changes);
+      const newBounds = this.getLayerBounds(layer, surface);
+
+      const bounds = this.unionBounds(oldBounds, newBounds);
+      const rect = bounds ? CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height) : null;
+      const beforeImage = rect ? surface.makeImageSnapshot(rect) : null;
+
+      this.drawText(surface, layer, bounds);
+
+      const patch = bounds && beforeImage
+        ? pixelHistory.createPatch(bounds, beforeImage, surface.makeImageSnapshot(rect!))
+        : null;
+      valkyrieEngine.invalidateLayerEffects(layer.id);
+      layerManager.recordTextChange(layer.id, before, changes, patch);
+      return true;
+    } catch (error) {
+      console.error('Failed to update text layer:', error);
+      return false;
+    }
+  }
+
+  // Clears `bounds` (the whole surface when null) and paints the text
+  private drawText(surface: SkSurface, layer: TextLayer, bounds: Bounds | null): void {
+    const { paragraph, width, height } = this.layoutParagraph(layer);
+    const canvas = surface.getCanvas();
+
+    canvas.save();
+    if (bounds) {
+      canvas.clipRect(CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height), ClipOp.Intersect, false);
+    }
+    canvas.clear(CompatSkia.Color('transparent'));
+
+    if (layer.text.length > 0) {
+      const [a, b, c, d, e, f] = this.getMatrix(layer, width, height);
+      canvas.concat([a, c, e, b, d, f, 0, 0, 1]);
+      paragraph.paint(canvas, 0, 0);
+    }
+
+    canvas.restore();
+    surface.flush();
+  }
+
+  private layoutParagraph(layer: TextLayer): { paragraph: SkParagraph; width: number; height: number } {
+    const { r, g, b } = layer.color.rgb;
+    const builder = CompatSkia.ParagraphBuilder.Make(
+      { textAlign: this.ALIGNMENTS[layer.alignment] ?? TextAlign.Left },
+      this.fontProvider
+    );
+
+    builder.pushStyle({
+      color: CompatSkia.Color(`rgba(${r}, ${g}, ${b}, ${layer.color.alpha})`),
+      fontFamilies: [layer.font.family, ...this.FALLBACK_FAMILIES],
+      fontSize: layer.font.size,
+      fontStyle: {
+        weight: this.clampWeight(layer.font.weight),
+        slant: this.SLANTS[layer.font.style] ?? FontSlant.Upright,
+      },
+      letterSpacing: layer.letterSpacing,
+      heightMultiplier: layer.lineHeight,
+    });
+    builder.addText(this.applyTextTransform(layer.text, layer.textTransform));
+    const paragraph = builder.build();
+
+    // Without a box width the box hugs the longest line
+    let width = layer.boxWidth ?? this.MAX_LAYOUT_WIDTH;
+    paragraph.layout(width);
+    if (layer.boxWidth === null) {
+      width = Math.ceil(paragraph.getMaxIntrinsicWidth()) + 1;
+      paragraph.layout(width);
+    }
+    return { paragraph, width, height: paragraph.getHeight() };
+  }
+
+  private measure(layer: TextLayer): { width: number; height: number } {
+    const { width, height } = this.layoutParagraph(layer);
+    return { width, height };
+  }
+
+  // Text box to surface: flip, scale, skew and rotate about the box center, then move
+  private getMatrix(layer: TextLayer, width: number, height: number): number[] {
+    const { x, y, scale, rotation, flipX, flipY, skewX = 0, skewY = 0 } = layer.transform;
+    const cx = width / 2;
+    const cy = height / 2;
+
+    const sx = scale * (flipX ? -1 : 1);
+    const sy = scale * (flipY ? -1 : 1);
+    const kx = Math.tan((skewX * Math.PI) / 180);
+    const ky = Math.tan((skewY * Math.PI) / 180);
+    const cos = Math.cos((rotation * Math.PI) / 180);
+    const sin = Math.sin((rotation * Math.PI) / 180);
+
+    // Skew after scale: [sx, kx * sy; ky * sx, sy]
+    const m00 = sx;
+    const m01 = kx * sy;
+    const m10 = ky * sx;
+    const m11 = sy;
+
+    const a = cos * m00 - sin * m10;
+    const c = cos * m01 - sin * m11;
+    const b = sin * m00 + cos * m10;
+    const d = sin * m01 + cos * m11;
+
+    return [a, b, c, d, x + cx - (a * cx + c * cy), y + cy - (b * cx + d * cy)];
+  }
+
+  private toLocal(layer: TextLayer, point: Point, width: number, height: number): Point | null {
+    const [a, b, c, d, e, f] = this.getMatrix(layer, width, height);
+    const determinant = a * d - b * c;
+    if (Math.abs(determinant) < 1e-9) return null;
+
+    const dx = point.x - e;
+    const dy = point.y - f;
+    return {
+      x: (d * dx - c * dy) / determinant,
+      y: (a * dy - b * dx) / determinant,
+    };
+  }
+
+  private getLayerBounds(layer: TextLayer, surface: SkSurface): Bounds | null {
+    if (layer.text.length === 0) return null;
+
+    const { width, height } = this.measure(layer);
+    const [a, b, c, d, e, f] = this.getMatrix(layer, width, height);
+    const corners = [
+      [0, 0],
+      [width, 0],
+      [0, height],
+      [width, height],
+    ].map(([u, v]) => ({ x: a * u + c * v + e, y: b * u + d * v + f }));
+
+    // Italics, accents and tight line heights draw outside the layout box
+    const padding = Math.ceil(layer.font.size * 0.5 * Math.abs(layer.transform.scale)) + 2;
+    const minX = Math.max(0, Math.floor(Math.min(...corners.map(p => p.x)) - padding));
+    const minY = Math.max(0, Math.floor(Math.min(...corners.map(p => p.y)) - padding));
+    const maxX = Math.min(surface.width(), Math.ceil(Math.max(...corners.map(p => p.x)) + padding));
+    const maxY = Math.min(surface.height(), Math.ceil(Math.max(...corners.map(p => p.y)) + padding));
+
+    if (maxX <= minX || maxY <= minY) return null;
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+  }
+
+  private unionBounds(first: Bounds | null, second: Bounds | null): Bounds | null {
+    if (!first) return second;
+    if (!second) return first;
+
+    const x = Math.min(first.x, second.x);
+    const y = Math.min(first.y, second.y);
+    return {
+      x,
+      y,
+      width: Math.max(first.x + first.width, second.x + second.width) - x,
+      height: Math.max(first.y + first.height, second.y + second.height) - y,
+    };
+  }
+
+  private applyTextTransform(text: string, transform: TextLayer['textTransform']): string {
+    switch (transform) {
+      case 'uppercase':
+        return text.toUpperCase();
+      case 'lowercase':
+        return text.toLowerCase();
+      case 'capitalize':
+        return text.replace(/(^|\s)(\S)/g, (_, space: string, letter: string) => space + letter.toUpperCase());
+      default:
+        return text;
+    }
+  }
+
+  private clampWeight(weight: number): FontWeight {
+    return (Math.max(1, Math.min(9, Math.round(weight / 100))) * 100) as FontWeight;
+  }
+
+  private getLayerName(text: string): string {
+    const line = text.trim().split('\n')[0];
+    if (!line) return 'Text';
+    return line.length > 24 ? `${line.slice(0, 24)}…` : line;
+  }
+
+  private async registerFontFile(uri: string, family: string): Promise<boolean> {
+    try {
+      const data = await CompatSkia.Data.fromURI(uri);
+      const typeface = CompatSkia.Typeface.MakeFreeTypeFaceFromData(data);
+      if (!typeface) return false;
+
+      this.fontProvider.registerFont(typeface, family);
+      return true;
+    } catch (error) {
+      console.error('Failed to load font:', error);
+      return false;
+    }
+  }
+
+  private async loadImportedFonts(): Promise<void> {
+    try {
+      const saved = await dataManager.get<Record<string, string>>('imported_fonts');
+      if (!saved) return;
+
+      for (const [family, file] of Object.entries(saved)) {
+        if (await this.registerFontFile(file, family)) {
+          this.fonts.set(family, { source: 'imported', file });
+        }
+      }
+
+      if (this.fonts.size > 0) {
+        this.eventBus.emit('fonts:changed', { families: Array.from(this.fonts.keys()) });
+      }
+    } catch (error) {
+      console.error('Failed to load imported fonts:', error);
+    }
+  }
+
+  private async saveImportedFonts(): Promise<void> {
+    const imported: Record<string, string> = {};
+    this.fonts.forEach((font, family) => {
+      if (font.source === 'imported' && font.file) {
+        imported[family] = font.file;
+      }
+    });
+    await dataManager.set('imported_fonts', imported);
+  }
+
+  private getFontExtension(uri: string): string | null {
+    const path = uri.split(/[?#]/)[0].toLowerCase();
+    return this.FONT_EXTENSIONS.find(extension => path.endsWith(extension)) ?? null;
+  }
+
+  private getFileName(uri: string): string {
+    const name = decodeURIComponent(uri.split(/[?#]/)[0].split('/').pop() ?? 'Font');
+    return name.replace(/\.[^.]+$/, '') || 'Font';
+  }
+
+  private sanitizeFileName(name: string): string {
+    return name.replace(/[^a-zA-Z0-9_-]+/g, '_');
+  }
+}
+
+// ===== HELPERS =====
+
+function copyField<K extends keyof TextLayer>(target: Partial<TextLayer>, source: TextLayer, key: K): void {
+  target[key] = source[key];
+}
+
+// ===== TYPES =====
+
+// A `require()`d font asset or a file URI
+export type FontSource = number | string;
+
+// Export singleton instance
+export const textEngine = TextEngine.getInstance();
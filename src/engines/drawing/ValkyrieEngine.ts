@@ -16,13 +16,34 @@ import {
   StrokeJoin,
   BlendMode as SkiaBlendMode,
   SkRect,
+  SkColorFilter,
+  SkShader,
+  SkRuntimeEffect,
   ClipOp,
+  ColorType,
+  AlphaType,
+  TileMode,
+  FilterMode,
+  MipmapMode,
 } from '@shopify/react-native-skia';
 import { Platform } from 'react-native';
-import { Point, Stroke, Layer, BlendMode } from '../../types/drawing';
+import {
+  Point,
+  Stroke,
+  Layer,
+  LayerGroup,
+  LayerTreeNode,
+  BlendMode,
+  Brush,
+  BrushDynamics,
+  BrushCombineMode,
+} from '../../types/drawing';
 import { performanceOptimizer } from './PerformanceOptimizer';
 import { EventBus } from '../core/EventBus';
 import { CompatSkia } from './SkiaCompatibility';
+import { SeededRandom, getStrokeSeed } from './SeededRandom';
+import { adjustmentManager } from './Adjustments';
+import { layerEffectRenderer } from './LayerEffects';
 
 /**
  * Valkyrie Graphics Engine - Commercial Grade
@@ -36,6 +57,7 @@ export class ValkyrieEngine {
   private readonly TARGET_FPS = 120; // ProMotion support
   private readonly FRAME_BUDGET = 1000 / this.TARGET_FPS; // 8.33ms
   private readonly PREDICTION_FRAMES = 3; // Predictive stroke technology
+  private readonly MAX_DABS_PER_STROKE = 20000;
   
   // Canvas surfaces - Fixed surface management
   private mainSurface: SkSurface | null = null;
@@ -56,6 +78,8 @@ export class ValkyrieEngine {
   
   // Memory management
   private textureCache: Map<string, SkImage> = new Map();
+  private effectCache: Map<string, EffectCacheEntry> = new Map();
+  private surfaceVersions: WeakMap<SkSurface, number> = new WeakMap();
   private surfacePool: SurfacePool;
   private memoryPressure = 0;
   
@@ -67,6 +91,19 @@ export class ValkyrieEngine {
   // FIXED: Paint property tracking for copying
   private paintProperties: WeakMap<SkPaint, PaintProperties> = new WeakMap();
   
+  // Coverage of the active selection (set by SelectionManager); strokes onto layers are clipped to it
+  private selectionMask: SkImage | null = null;
+  
+  // Brush tip dynamics/stamps for dab rendering (registered by BrushEngine)
+  private dabSource: DabSource | null = null;
+  private dualBrushEffect: SkRuntimeEffect | null = null;
+  
+  // Uniform index for each combine mode in DUAL_BRUSH_SKSL
+  private readonly DUAL_BRUSH_MODES: BrushCombineMode[] = [
+    'multiply', 'subtract', 'darken', 'lighten', 'difference',
+    'overlay', 'color-burn', 'linear-burn', 'hard-mix',
+  ];
+  
   // Rendering statistics
   private stats = {
     fps: 0,
@@ -138,6 +175,20 @@ export class ValkyrieEngine {
       this.surfacePool.release(surface);
       this.layerSurfaces.delete(layerId);
     }
+    this.effectCache.delete(layerId);
+  }
+
+  public setSelectionMask(mask: SkImage | null): void {
+    this.selectionMask = mask;
+  }
+
+  public getSelectionMask(): SkImage | null {
+    return this.selectionMask;
+  }
+
+  // For pixel edits made directly on a layer surface rather than through render commands
+  public invalidateLayerEffects(layerId: string): void {
+    this.effectCache.delete(layerId);
   }
 
   public renderStroke(
@@ -148,7 +199,7 @@ export class ValkyrieEngine {
   ): void {
     const command: RenderCommand = {
       type: 'stroke',
-      data: { stroke, paint: this.copyPaint(paint), options },
+      data: { stroke, paint: this.copyPaint(paint), options: this.withSelection(surface, options) },
       surface,
       priority: options.priority || RenderPriority.NORMAL,
     };
@@ -156,6 +207,51 @@ export class ValkyrieEngine {
     this.enqueueRender(command);
   }
 
+  // Renders a brush stroke immediately, bypassing the queue (previews, replays)
+  public rasterizeStroke(
+    stroke: Stroke,
+    surface: SkSurface,
+    paint: SkPaint,
+    brush: Brush,
+    options: RenderOptions = {}
+  ): void {
+    const canvas = surface.getCanvas();
+    this.renderStrokeCommand(canvas, {
+      stroke,
+      paint: this.copyPaint(paint),
+      options: { ...this.withSelection(surface, options), brush },
+    });
+    surface.flush();
+    this.markSurfaceChanged(surface);
+  }
+
+  // Draws a layer's pixels with its mask and clipping applied; `paint` carries opacity and blend mode
+  public drawLayerImage(canvas: SkCanvas, layer: Layer, paint: SkPaint): void {
+    const layerSurface = this.layerSurfaces.get(layer.id);
+    if (!layerSurface) return;
+    
+    const layerImage = this.getEffectedLayerImage(layer, layerSurface);
+    this.drawLayerContent(canvas, layer, paint, contentPaint => {
+      canvas.drawImage(layerImage, 0, 0, contentPaint);
+    });
+  }
+
+  // Turns a grayscale mask into coverage: white keeps, black hides
+  public createMaskFilter(inverted: boolean): SkColorFilter {
+    const sign = inverted ? -1 : 1;
+    return CompatSkia.ColorFilter.MakeMatrix([
+      0, 0, 0, 0, 0,
+      0, 0, 0, 0, 0,
+      0, 0, 0, 0, 0,
+      0.2126 * sign, 0.7152 * sign, 0.0722 * sign, 0, inverted ? 1 : 0,
+    ]);
+  }
+
+  // Brush-backed strokes are rasterized as dabs when a source is registered
+  public setDabSource(source: DabSource | null): void {
+    this.dabSource = source;
+  }
+
   public renderPath(
     path: SkPath,
     surface: SkSurface,
@@ -173,13 +269,13 @@ export class ValkyrieEngine {
   }
 
   public composite(
-    layers: Layer[],
+    nodes: LayerTreeNode[],
     targetSurface: SkSurface,
     viewport?: Viewport
   ): void {
     const command: RenderCommand = {
       type: 'composite',
-      data: { layers, viewport },
+      data: { nodes, viewport },
       surface: targetSurface,
       priority: RenderPriority.HIGH,
     };
@@ -187,6 +283,13 @@ export class ValkyrieEngine {
     this.enqueueRender(command);
   }
 
+  // Composites a layer tree straight into `surface`, bypassing the queue (group merges)
+  public flattenLayers(nodes: LayerTreeNode[], surface: SkSurface): void {
+    this.compositeNodes(surface.getCanvas(), surface, nodes);
+    surface.flush();
+    this.markSurfaceChanged(surface);
+  }
+
   public predictStroke(currentPoint: Point, history: Point[]): Point[] {
     return this.strokePredictor.predict(currentPoint, history, this.PREDICTION_FRAMES);
   }
@@ -331,12 +434,14 @@ export class ValkyrieEngine {
     switch (command.type) {
       case 'stroke':
         this.renderStrokeCommand(canvas, command.data);
+        this.markSurfaceChanged(command.surface!);
         break;
       case 'path':
         this.renderPathCommand(canvas, command.data);
+        this.markSurfaceChanged(command.surface!);
         break;
       case 'composite':
-        this.compositeLayersCommand(canvas, command.data);
+        this.compositeLayersCommand(canvas, command.data, command.surface!);
         break;
     }
     
@@ -346,6 +451,41 @@ export class ValkyrieEngine {
   private renderStrokeCommand(canvas: SkCanvas, data: any): void {
     const { stroke, paint, options } = data;
     
+    // Erasing and clipping build the stroke in its own layer first, so grain and
+    // overlapping dabs combine as they would when painting
+    if (options.erase || options.clipImage || options.selectionMask) {
+      const layerPaint = CompatSkia.Paint();
+      layerPaint.setBlendMode(
+        options.erase ? SkiaBlendMode.DstOut : this.paintProperties.get(paint)?.blendMode ?? SkiaBlendMode.SrcOver
+      );
+      
+      const strokePaint = this.copyPaint(paint);
+      strokePaint.setBlendMode(SkiaBlendMode.SrcOver);
+      this.trackPaintProperties(strokePaint, { blendMode: SkiaBlendMode.SrcOver });
+      
+      canvas.saveLayer(layerPaint);
+      this.renderStrokeCommand(canvas, {
+        stroke,
+        paint: strokePaint,
+        options: { ...options, erase: false, clipImage: undefined, selectionMask: undefined },
+      });
+      const clipPaint = CompatSkia.Paint();
+      clipPaint.setBlendMode(SkiaBlendMode.DstIn);
+      if (options.clipImage) {
+        canvas.drawImage(options.clipImage, 0, 0, clipPaint);
+      }
+      if (options.selectionMask) {
+        canvas.drawImage(options.selectionMask, 0, 0, clipPaint);
+      }
+      canvas.restore();
+      return;
+    }
+    
+    if (options.brush && this.dabSource) {
+      this.renderStrokeDabs(canvas, stroke, options.brush, paint);
+      return;
+    }
+    
     if (options.predictive && stroke.points.length > 1) {
       // Add predicted points for smoother rendering
       const predicted = this.predictStroke(
@@ -366,6 +506,367 @@ export class ValkyrieEngine {
     }
   }
 
+  // Places brush-tip dabs along the stroke at the brush spacing.
+  // Jitter/scatter come from a per-stroke seed so the result is reproducible.
+  private renderStrokeDabs(canvas: SkCanvas, stroke: Stroke, brush: Brush, paint: SkPaint): void {
+    const source = this.dabSource;
+    if (!source || stroke.points.length === 0) return;
+    
+    const seed = getStrokeSeed(stroke);
+    const secondary = brush.dualBrush?.enabled ? source.resolveDualBrush(brush) : null;
+    
+    if (!secondary || !this.renderDualBrushStroke(canvas, stroke, brush, secondary, paint, seed)) {
+      this.drawStrokeDabs(canvas, canvas, stroke.points, brush, paint, new SeededRandom(seed));
+    }
+  }
+
+  // Primary and secondary tips go to offscreen surfaces, then the primary is
+  // masked by the secondary through the combine shader
+  private renderDualBrushStroke(
+    canvas: SkCanvas,
+    stroke: Stroke,
+    brush: Brush,
+    secondary: Brush,
+    paint: SkPaint,
+    seed: number
+  ): boolean {
+    const effect = this.getDualBrushEffect();
+    if (!effect) return false;
+    
+    const pad = Math.max(brush.settings.general.sizeMax, secondary.settings.general.sizeMax) * 1.5;
+    const xs = stroke.points.map(point => point.x);
+    const ys = stroke.points.map(point => point.y);
+    const left = Math.floor(Math.min(...xs) - pad);
+    const top = Math.floor(Math.min(...ys) - pad);
+    const width = Math.ceil(Math.max(...xs) + pad) - left;
+    const height = Math.ceil(Math.max(...ys) + pad) - top;
+    
+    const primarySurface = CompatSkia.Surface.Make(width, height);
+    const secondarySurface = CompatSkia.Surface.Make(width, height);
+    if (!primarySurface || !secondarySurface) return false;
+    
+    const primaryCanvas = primarySurface.getCanvas();
+    primaryCanvas.translate(-left, -top);
+    this.drawStrokeDabs(primaryCanvas, canvas, stroke.points, brush, paint, new SeededRandom(seed));
+    
+    // The secondary tip only contributes coverage, so it is drawn in white
+    const maskPaint = CompatSkia.Paint();
+    this.trackPaintProperties(maskPaint, { color: '#ffffff', alpha: 1 });
+    const secondaryCanvas = secondarySurface.getCanvas();
+    secondaryCanvas.translate(-left, -top);
+    this.drawStrokeDabs(
+      secondaryCanvas,
+      secondaryCanvas,
+      stroke.points,
+      secondary,
+      maskPaint,
+      new SeededRandom((seed ^ 0x9e3779b9) >>> 0)
+    );
+    
+    const offset = CompatSkia.Matrix();
+    offset.translate(left, top);
+    const shader = effect.makeShaderWithChildren(
+      [this.DUAL_BRUSH_MODES.indexOf(brush.dualBrush!.mode)],
+      [
+        primarySurface.makeImageSnapshot().makeShaderOptions(
+          TileMode.Decal, TileMode.Decal, FilterMode.Nearest, MipmapMode.None, offset
+        ),
+        secondarySurface.makeImageSnapshot().makeShaderOptions(
+          TileMode.Decal, TileMode.Decal, FilterMode.Nearest, MipmapMode.None, offset
+        ),
+      ]
+    );
+    
+    const compositePaint = CompatSkia.Paint();
+    compositePaint.setShader(shader);
+    compositePaint.setBlendMode(this.paintProperties.get(paint)?.blendMode ?? SkiaBlendMode.SrcOver);
+    canvas.drawRect(CompatSkia.XYWHRect(left, top, width, height), compositePaint);
+    
+    return true;
+  }
+
+  private getDualBrushEffect(): SkRuntimeEffect | null {
+    if (!this.dualBrushEffect) {
+      this.dualBrushEffect = CompatSkia.RuntimeEffect.Make(DUAL_BRUSH_SKSL);
+    }
+    return this.dualBrushEffect;
+  }
+
+  // Dabs go to `canvas`; wet paint is always sampled from the layer via `sampleCanvas`
+  private drawStrokeDabs(
+    canvas: SkCanvas,
+    sampleCanvas: SkCanvas,
+    points: Point[],
+    brush: Brush,
+    paint: SkPaint,
+    random: SeededRandom
+  ): void {
+    const source = this.dabSource;
+    if (!source || points.length === 0) return;
+    
+    const next = () => random.next();
+    const props = this.paintProperties.get(paint);
+    const baseAlpha = props?.alpha ?? 1;
+    const baseColor = CompatSkia.Color(props?.color ?? '#000000');
+    const tint = CompatSkia.ColorFilter.MakeBlend(baseColor, SkiaBlendMode.SrcIn);
+    const spacingPercent = Math.max(1, brush.shape.settings.spacing || brush.settings.strokePath.spacing);
+    
+    // Wet brushes carry paint that picks up color from the layer under each dab
+    const wetState = source.createWetPaintState(brush, {
+      r: baseColor[0],
+      g: baseColor[1],
+      b: baseColor[2],
+      a: baseColor[3],
+    });
+    
+    // Grain is applied to the whole stroke once its dabs are down
+    const grainShader = brush.settings.grain.textured ? source.createGrainShader(brush) : null;
+    if (grainShader) {
+      canvas.saveLayer();
+    }
+    
+    // Taper shrinks dabs over the first and last stretch of the stroke
+    const strokeLength = this.measurePoints(points);
+    const taperLength = Math.min(strokeLength / 2, strokeLength * brush.settings.taper.size / 100);
+    let travelledTotal = 0;
+    
+    let lastDab: Point | null = null;
+    let dabCount = 0;
+    
+    const placeDab = (point: Point, velocity: number): number => {
+      const count = Math.max(1, Math.round(brush.shape.settings.count ?? 1));
+      const taper = this.getTaperFactor(brush, travelledTotal, strokeLength, taperLength);
+      let size = brush.settings.general.size;
+      
+      for (let i = 0; i < count; i++) {
+        const dynamics = source.getDabDynamics(brush, point, lastDab, velocity, next);
+        if (taper < 1) {
+          dynamics.size = (dynamics.size ?? size) * taper;
+          dynamics.opacity = (dynamics.opacity ?? 1) * (1 - brush.settings.taper.opacity * (1 - taper));
+        }
+        size = dynamics.size ?? size;
+        
+        if (wetState) {
+          const sample = this.samplePaint(sampleCanvas, point.x, point.y, size);
+          const wet = source.mixWetPaint(brush, wetState, sample, dynamics, next);
+          const wetTint = CompatSkia.ColorFilter.MakeBlend(
+            CompatSkia.Color(this.sampleToHex(wet.color)),
+            SkiaBlendMode.SrcIn
+          );
+          this.drawDab(canvas, point, lastDab, dynamics, brush, paint, baseAlpha * wet.opacity, wetTint, wet.wetEdge);
+        } else {
+          this.drawDab(canvas, point, lastDab, dynamics, brush, paint, baseAlpha, tint, 0);
+        }
+      }
+      
+      lastDab = point;
+      dabCount++;
+      return Math.max(0.5, size * spacingPercent / 100);
+    };
+    
+    if (points.length === 1) {
+      placeDab(points[0], 0);
+    }
+    
+    // Walk the polyline; distanceToNext carries over between segments
+    let distanceToNext = 0;
+    for (let i = 0; i < points.length - 1 && dabCount < this.MAX_DABS_PER_STROKE; i++) {
+      const a = points[i];
+      const b = points[i + 1];
+      const segmentLength = Math.hypot(b.x - a.x, b.y - a.y);
+      const elapsed = (b.timestamp ?? 0) - (a.timestamp ?? 0);
+      const velocity = elapsed > 0 ? (segmentLength / elapsed) * 1000 : 0;
+      const segmentStart = travelledTotal;
+      let travelled = 0;
+      
+      while (travelled + distanceToNext <= segmentLength && dabCount < this.MAX_DABS_PER_STROKE) {
+        travelled += distanceToNext;
+        travelledTotal = segmentStart + travelled;
+        const t = segmentLength > 0 ? travelled / segmentLength : 0;
+        distanceToNext = placeDab(this.interpolatePoint(a, b, t), velocity);
+      }
+      
+      distanceToNext -= segmentLength - travelled;
+      travelledTotal = segmentStart + segmentLength;
+    }
+    
+    if (grainShader) {
+      this.applyGrain(canvas, grainShader, brush.settings.grain.intensity);
+      canvas.restore();
+    }
+  }
+
+  private measurePoints(points: Point[]): number {
+    let length = 0;
+    for (let i = 1; i < points.length; i++) {
+      length += Math.hypot(points[i].x - points[i - 1].x, points[i].y - points[i - 1].y);
+    }
+    return length;
+  }
+
+  // 0-1 size multiplier at `distance` along a stroke of `length`
+  private getTaperFactor(brush: Brush, distance: number, length: number, taperLength: number): number {
+    if (taperLength <= 0) return 1;
+    
+    const fromEnd = Math.min(distance, length - distance);
+    const factor = Math.max(0.05, Math.min(1, fromEnd / taperLength));
+    
+    // A pointed tip falls off faster towards the ends
+    return brush.settings.taper.tip ? factor * factor : factor;
+  }
+
+  // Knocks paint out of the stroke layer where the grain is dark
+  private applyGrain(canvas: SkCanvas, shader: SkShader, intensity: number): void {
+    const amount = Math.max(0, Math.min(1, intensity));
+    if (amount === 0) return;
+    
+    // alpha = amount * (1 - luminance)
+    const knockout = CompatSkia.ColorFilter.MakeMatrix([
+      0, 0, 0, 0, 0,
+      0, 0, 0, 0, 0,
+      0, 0, 0, 0, 0,
+      -0.2126 * amount, -0.7152 * amount, -0.0722 * amount, 0, amount,
+    ]);
+    
+    const grainPaint = CompatSkia.Paint();
+    grainPaint.setShader(shader);
+    grainPaint.setColorFilter(knockout);
+    grainPaint.setBlendMode(SkiaBlendMode.DstOut);
+    canvas.drawPaint(grainPaint);
+  }
+
+  private drawDab(
+    canvas: SkCanvas,
+    point: Point,
+    lastDab: Point | null,
+    dynamics: BrushDynamics,
+    brush: Brush,
+    paint: SkPaint,
+    alpha: number,
+    tint: SkColorFilter | null,
+    wetEdge: number
+  ): void {
+    const size = Math.max(1, Math.round(dynamics.size ?? brush.settings.general.size));
+    const stamp = this.dabSource?.createDabStamp(brush, size);
+    if (!stamp) return;
+    
+    // Scatter is an offset perpendicular to the stroke direction
+    let offsetX = 0;
+    let offsetY = 0;
+    if (dynamics.scatter) {
+      const direction = lastDab ? Math.atan2(point.y - lastDab.y, point.x - lastDab.x) : 0;
+      offsetX = -Math.sin(direction) * dynamics.scatter;
+      offsetY = Math.cos(direction) * dynamics.scatter;
+    }
+    
+    const dabPaint = this.copyPaint(paint);
+    dabPaint.setStyle(PaintStyle.Fill);
+    dabPaint.setAlphaf(alpha * (dynamics.opacity ?? 1) * (dynamics.flow ?? 1));
+    if (tint) {
+      dabPaint.setColorFilter(tint);
+    }
+    
+    const width = stamp.width();
+    const height = stamp.height();
+    const src = CompatSkia.XYWHRect(0, 0, width, height);
+    
+    const dst = CompatSkia.XYWHRect(-width / 2, -height / 2, width, height);
+    
+    canvas.save();
+    canvas.translate(point.x + offsetX, point.y + offsetY);
+    if (dynamics.rotation) {
+      canvas.rotate(dynamics.rotation, 0, 0);
+    }
+    
+    // Wet edges: thin out the middle of the dab so pigment reads as pooled at the rim.
+    // The dab gets its own layer so the DstOut pass never eats into paint already on the canvas.
+    if (wetEdge > 0) {
+      const layerPaint = CompatSkia.Paint();
+      layerPaint.setBlendMode(this.paintProperties.get(paint)?.blendMode ?? SkiaBlendMode.SrcOver);
+      canvas.saveLayer(layerPaint, dst);
+      dabPaint.setBlendMode(SkiaBlendMode.SrcOver);
+      canvas.drawImageRect(stamp, src, dst, dabPaint);
+      
+      const edgePaint = CompatSkia.Paint();
+      edgePaint.setAntiAlias(true);
+      edgePaint.setBlendMode(SkiaBlendMode.DstOut);
+      edgePaint.setAlphaf(Math.min(1, wetEdge) * 0.35);
+      const inset = 0.8;
+      canvas.drawImageRect(
+        stamp,
+        src,
+        CompatSkia.XYWHRect(-width * inset / 2, -height * inset / 2, width * inset, height * inset),
+        edgePaint
+      );
+      canvas.restore();
+    } else {
+      canvas.drawImageRect(stamp, src, dst, dabPaint);
+    }
+    canvas.restore();
+    
+    this.stats.drawCalls++;
+  }
+
+  // Average colour of the layer under a dab (a small window around the centre)
+  private samplePaint(canvas: SkCanvas, x: number, y: number, size: number): PaintSample | null {
+    const window = Math.max(1, Math.min(16, Math.round(size)));
+    const left = Math.round(x - window / 2);
+    const top = Math.round(y - window / 2);
+    
+    let pixels: Float32Array | Uint8Array | null = null;
+    try {
+      pixels = canvas.readPixels(left, top, {
+        width: window,
+        height: window,
+        colorType: ColorType.RGBA_8888,
+        alphaType: AlphaType.Unpremul,
+      });
+    } catch (error) {
+      return null;
+    }
+    if (!pixels) return null;
+    
+    // Alpha-weighted so transparent pixels don't pull the colour towards black
+    let r = 0, g = 0, b = 0, a = 0;
+    const count = pixels.length / 4;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const alpha = pixels[i + 3] / 255;
+      r += pixels[i] * alpha;
+      g += pixels[i + 1] * alpha;
+      b += pixels[i + 2] * alpha;
+      a += alpha;
+    }
+    if (a === 0) {
+      return { r: 0, g: 0, b: 0, a: 0 };
+    }
+    
+    return { r: r / a / 255, g: g / a / 255, b: b / a / 255, a: a / count };
+  }
+
+  private sampleToHex(color: PaintSample): string {
+    const channel = (value: number) =>
+      Math.round(Math.max(0, Math.min(1, value)) * 255).toString(16).padStart(2, '0');
+    return `#${channel(color.r)}${channel(color.g)}${channel(color.b)}`;
+  }
+
+  private interpolatePoint(a: Point, b: Point, t: number): Point {
+    const lerp = (from: number | undefined, to: number | undefined): number | undefined => {
+      if (from === undefined || to === undefined) return from ?? to;
+      return from + (to - from) * t;
+    };
+    
+    return {
+      x: a.x + (b.x - a.x) * t,
+      y: a.y + (b.y - a.y) * t,
+      pressure: lerp(a.pressure, b.pressure),
+      tiltX: lerp(a.tiltX, b.tiltX),
+      tiltY: lerp(a.tiltY, b.tiltY),
+      altitude: lerp(a.altitude, b.altitude),
+      azimuth: lerp(a.azimuth, b.azimuth),
+      timestamp: lerp(a.timestamp, b.timestamp),
+    };
+  }
+
   private renderPathCommand(canvas: SkCanvas, data: any): void {
     const { path, paint, options } = data;
     
@@ -376,8 +877,8 @@ export class ValkyrieEngine {
     canvas.drawPath(path, paint);
   }
 
-  private compositeLayersCommand(canvas: SkCanvas, data: any): void {
-    const { layers, viewport } = data;
+  private compositeLayersCommand(canvas: SkCanvas, data: any, surface: SkSurface): void {
+    const { nodes, viewport } = data;
     
     canvas.save();
     
@@ -389,25 +890,152 @@ export class ValkyrieEngine {
     // Clear canvas
     canvas.clear(CompatSkia.Color('transparent'));
     
-    // Composite each layer
-    for (const layer of layers) {
-      if (!layer.visible) continue;
+    this.compositeNodes(canvas, surface, nodes);
+    
+    canvas.restore();
+  }
+
+  private compositeNodes(canvas: SkCanvas, surface: SkSurface, nodes: LayerTreeNode[]): void {
+    for (const node of nodes) {
+      if (node.type === 'group') {
+        this.drawLayerGroup(canvas, surface, node.group, node.children);
+        continue;
+      }
       
-      const layerSurface = this.layerSurfaces.get(layer.id);
-      if (!layerSurface) continue;
+      const layer = node.layer;
+      if (!layer.visible) continue;
       
-      const layerImage = layerSurface.makeImageSnapshot();
       const paint = CompatSkia.Paint();
       
       paint.setAlphaf(layer.opacity);
       paint.setBlendMode(this.getSkiaBlendMode(layer.blendMode));
       
-      canvas.drawImage(layerImage, 0, 0, paint);
+      if (layer.type === 'adjustment') {
+        this.drawAdjustmentLayer(canvas, surface, layer, paint);
+      } else {
+        this.drawLayerImage(canvas, layer, paint);
+      }
+    }
+  }
+
+  // A normal group composites its children on their own surface, so their blend
+  // modes and adjustments only see the group, then blends that as one layer.
+  // Pass-through children blend straight into what's below; group opacity then
+  // fades the result back towards the backdrop.
+  private drawLayerGroup(canvas: SkCanvas, surface: SkSurface, group: LayerGroup, children: LayerTreeNode[]): void {
+    if (!group.visible || group.opacity <= 0) return;
+    
+    if (group.blendMode === 'pass-through' && group.opacity >= 1) {
+      this.compositeNodes(canvas, surface, children);
+      return;
+    }
+    
+    const groupSurface = CompatSkia.Surface.Make(surface.width(), surface.height());
+    if (!groupSurface) return;
+    
+    const groupCanvas = groupSurface.getCanvas();
+    const paint = CompatSkia.Paint();
+    paint.setAlphaf(group.opacity);
+    
+    if (group.blendMode === 'pass-through') {
+      surface.flush();
+      groupCanvas.drawImage(surface.makeImageSnapshot(), 0, 0);
+    } else {
+      paint.setBlendMode(this.getSkiaBlendMode(group.blendMode));
+    }
+    
+    this.compositeNodes(groupCanvas, groupSurface, children);
+    groupSurface.flush();
+    canvas.drawImage(groupSurface.makeImageSnapshot(), 0, 0, paint);
+  }
+
+  // Re-draws everything composited so far through the adjustment, then blends
+  // that over the original with the layer's opacity, blend mode, mask and clipping
+  private drawAdjustmentLayer(canvas: SkCanvas, surface: SkSurface, layer: Layer, paint: SkPaint): void {
+    if (!layer.adjustment) return;
+    
+    surface.flush();
+    const below = surface.makeImageSnapshot();
+    const shader = adjustmentManager.createShader(layer.adjustment, below);
+    if (!shader) return;
+    
+    const bounds = CompatSkia.XYWHRect(0, 0, below.width(), below.height());
+    this.drawLayerContent(canvas, layer, paint, contentPaint => {
+      contentPaint.setShader(shader);
+      canvas.drawRect(bounds, contentPaint);
+    });
+  }
+
+  // `draw` receives the layer paint directly when nothing needs isolating,
+  // otherwise a plain paint inside a layer that is masked/clipped before blending
+  private drawLayerContent(
+    canvas: SkCanvas,
+    layer: Layer,
+    paint: SkPaint,
+    draw: (contentPaint: SkPaint) => void
+  ): void {
+    const maskSurface = layer.mask?.enabled ? this.layerSurfaces.get(layer.mask.id) : undefined;
+    const clipSurface = layer.clippingMask && layer.maskLayerId
+      ? this.layerSurfaces.get(layer.maskLayerId)
+      : undefined;
+    
+    if (!maskSurface && !clipSurface) {
+      draw(paint);
+      return;
+    }
+    
+    canvas.saveLayer(paint);
+    draw(CompatSkia.Paint());
+    
+    if (layer.mask && maskSurface) {
+      const maskPaint = CompatSkia.Paint();
+      maskPaint.setBlendMode(SkiaBlendMode.DstIn);
+      maskPaint.setColorFilter(this.createMaskFilter(layer.mask.inverted));
+      canvas.drawImage(maskSurface.makeImageSnapshot(), 0, 0, maskPaint);
+    }
+    if (clipSurface) {
+      const clipPaint = CompatSkia.Paint();
+      clipPaint.setBlendMode(SkiaBlendMode.DstIn);
+      canvas.drawImage(clipSurface.makeImageSnapshot(), 0, 0, clipPaint);
     }
     
     canvas.restore();
   }
 
+  // Layer pixels run through the layer's effects. The result is reused until the
+  // pixels or the effect list change, so effects don't re-render every frame.
+  private getEffectedLayerImage(layer: Layer, surface: SkSurface): SkImage {
+    const effects = layer.effects.filter(effect => layerEffectRenderer.isRenderable(effect));
+    if (effects.length === 0) {
+      this.effectCache.delete(layer.id);
+      return surface.makeImageSnapshot();
+    }
+    
+    const key = `${this.surfaceVersions.get(surface) ?? 0}:${JSON.stringify(effects)}`;
+    const cached = this.effectCache.get(layer.id);
+    if (cached && cached.key === key) return cached.image;
+    
+    const image = layerEffectRenderer.render(surface.makeImageSnapshot(), effects);
+    this.effectCache.set(layer.id, { key, image });
+    return image;
+  }
+
+  // Previews and scratch surfaces aren't layers, so only layer (and mask) surfaces follow the selection
+  private withSelection(surface: SkSurface, options: RenderOptions): RenderOptions {
+    if (!this.selectionMask || options.ignoreSelection || options.selectionMask) return options;
+    
+    for (const layerSurface of this.layerSurfaces.values()) {
+      if (layerSurface === surface) {
+        return { ...options, selectionMask: this.selectionMask };
+      }
+    }
+    return options;
+  }
+
+  private markSurfaceChanged(surface: SkSurface): void {
+    this.surfaceVersions.set(surface, (this.surfaceVersions.get(surface) ?? 0) + 1);
+  }
+
   private createPathFromPoints(points: Point[]): SkPath {
     const path = CompatSkia.Path.Make();
     
@@ -587,6 +1215,7 @@ export class ValkyrieEngine {
     
     // Clear unused textures
     this.textureCache.clear();
+    this.effectCache.clear();
     
     // Compact surface pool
     this.surfacePool.compact();
@@ -632,6 +1261,7 @@ export class ValkyrieEngine {
     this.layerSurfaces.clear();
     
     this.textureCache.clear();
+    this.effectCache.clear();
     this.renderQueue = [];
     this.paintProperties = new WeakMap(); // FIXED: Use WeakMap type consistently
     
@@ -756,6 +1386,45 @@ class SurfacePool {
   }
 }
 
+// Combines primary paint with secondary tip coverage; mode indexes DUAL_BRUSH_MODES
+const DUAL_BRUSH_SKSL = `
+uniform shader primary;
+uniform shader secondary;
+uniform float mode;
+
+half4 main(float2 xy) {
+  half4 color = primary.eval(xy);
+  half a = color.a;
+  half s = secondary.eval(xy).a;
+  half r;
+
+  if (mode < 0.5) {
+    r = a * s;
+  } else if (mode < 1.5) {
+    r = max(a - s, 0.0);
+  } else if (mode < 2.5) {
+    r = min(a, s);
+  } else if (mode < 3.5) {
+    r = max(a, s);
+  } else if (mode < 4.5) {
+    r = abs(a - s);
+  } else if (mode < 5.5) {
+    r = a < 0.5 ? 2.0 * a * s : 1.0 - 2.0 * (1.0 - a) * (1.0 - s);
+  } else if (mode < 6.5) {
+    r = s <= 0.0 ? 0.0 : 1.0 - min(1.0, (1.0 - a) / s);
+  } else if (mode < 7.5) {
+    r = max(a + s - 1.0, 0.0);
+  } else {
+    r = a + s >= 1.0 ? a : 0.0;
+  }
+
+  if (a <= 0.0) {
+    return half4(0.0);
+  }
+  return half4(color.rgb / a * r, r);
+}
+`;
+
 // ===== TYPES =====
 
 interface RenderCommand {
@@ -777,6 +1446,53 @@ interface RenderOptions {
   predictive?: boolean;
   antiAlias?: boolean;
   cached?: boolean;
+  brush?: Brush; // Render as brush dabs instead of a single path
+  erase?: boolean; // Remove paint (destination-out) instead of laying it down
+  clipImage?: SkImage; // Limit the stroke to this image's coverage (clipping masks)
+  selectionMask?: SkImage; // Set from the active selection when drawing onto a layer
+  ignoreSelection?: boolean; // Draw outside the selection too (redrawing existing content)
+}
+
+export interface DabSource {
+  getDabDynamics(
+    brush: Brush,
+    point: Point,
+    lastPoint: Point | null,
+    velocity: number,
+    random: () => number
+  ): BrushDynamics;
+  createDabStamp(brush: Brush, size: number): SkImage | null;
+  createGrainShader(brush: Brush): SkShader | null;
+  resolveDualBrush(brush: Brush): Brush | null;
+  createWetPaintState(brush: Brush, color: PaintSample): WetPaintState | null;
+  mixWetPaint(
+    brush: Brush,
+    state: WetPaintState,
+    sample: PaintSample | null,
+    dynamics: BrushDynamics,
+    random: () => number
+  ): WetDab;
+}
+
+// Straight (unpremultiplied) colour, channels 0-1
+export interface PaintSample {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+// Paint carried by a wet brush over the course of one stroke
+export interface WetPaintState {
+  color: PaintSample;
+  brushColor: PaintSample;
+  load: number; // 0-1, remaining paint on the brush
+}
+
+export interface WetDab {
+  color: PaintSample;
+  opacity: number; // Multiplier on the dab alpha
+  wetEdge: number; // 0-1
 }
 
 interface Viewport {
@@ -820,5 +1536,10 @@ interface PaintProperties {
   antiAlias: boolean;
 }
 
+interface EffectCacheEntry {
+  key: string; // surface version + enabled effects
+  image: SkImage;
+}
+
 // Export singleton
 export const valkyrieEngine = ValkyrieEngine.getInstance();
\ No newline at end of file
@@ -0,0 +1,955 @@
+// src/engines/drawing/VectorEngine.ts
+import {
+  Point,
+  Brush,
+  Bounds,
+  Layer,
+  Stroke,
+  VectorNode,
+  VectorStroke,
+  VectorHit,
+  SVGImportReport,
+} from '../../types/drawing';
+import { CompatSkia, SkSurface } from './SkiaCompatibility';
+import { ClipOp } from '@shopify/react-native-skia';
+import { EventBus } from '../core/EventBus';
+import { SVGCodec, SVGGroup } from './SVGCodec';
+import { brushEngine } from './BrushEngine';
+import { colorManager } from './ColorManager';
+import { layerManager } from './LayerManager';
+import { pixelHistory } from './PixelHistory';
+import { valkyrieEngine } from './ValkyrieEngine';
+import { SeededRandom, getStrokeSeed } from './SeededRandom';
+
+/**
+ * Vector Engine
+ * Strokes on vector layers are fitted to cubic beziers with a pressure profile and
+ * kept on the layer, which redraws its pixels from them with each stroke's brush.
+ * Strokes stay editable after drawing: restyle, move nodes and handles, join, split.
+ * Every edit is one undo step through LayerManager.
+ */
+export class VectorEngine {
+  private static instance: VectorEngine;
+  private eventBus = EventBus.getInstance();
+
+  private readonly FIT_TOLERANCE = 1.5; // Pixels the curve may stray from the input
+  private readonly PRESSURE_TOLERANCE = 0.08; // Profile error before a segment is split
+  private readonly MAX_REPARAMETERIZE = 4;
+  private readonly MIN_POINT_DISTANCE = 0.5;
+  private readonly SAMPLE_SPACING = 2; // Pixels between rendered curve points
+  private readonly HIT_TOLERANCE = 12;
+  private readonly JOIN_DISTANCE = 1; // Ends this close are merged rather than bridged
+  private readonly FALLBACK_BRUSH_ID = 'technical-pen';
+
+  private selection: VectorSelection | null = null;
+
+  private constructor() {}
+
+  public static getInstance(): VectorEngine {
+    if (!VectorEngine.instance) {
+      VectorEngine.instance = new VectorEngine();
+    }
+    return VectorEngine.instance;
+  }
+
+  // ===== PUBLIC API =====
+
+  public isVectorLayer(layerId: string): boolean {
+    return layerManager.getLayer(layerId)?.type === 'vector';
+  }
+
+  public createVectorLayer(name: string = 'Vector Layer'): Layer {
+    return layerManager.createLayer(name, 'vector');
+  }
+
+  public getStrokes(layerId: string): VectorStroke[] {
+    return [...(layerManager.getLayer(layerId)?.vectorStrokes ?? [])];
+  }
+
+  public getStroke(layerId: string, strokeId: string): VectorStroke | null {
+    return this.getStrokes(layerId).find(stroke => stroke.id === strokeId) ?? null;
+  }
+
+  // Fits a drawn stroke and adds it on top of its vector layer
+  public addStroke(stroke: Stroke): VectorStroke | null {
+    if (stroke.points.length === 0 || !this.getEditableLayer(stroke.layerId)) return null;
+
+    const brush = brushEngine.getBrush(stroke.brushId);
+    const vectorStroke: VectorStroke = {
+      id: stroke.id,
+      brushId: stroke.brushId,
+      color: { ...stroke.color },
+      size: brush?.settings.general.size ?? 10,
+      nodes: this.fitPoints(stroke.points),
+      closed: false,
+      timestamp: stroke.timestamp,
+    };
+
+    if (!this.commit(stroke.layerId, [...this.getStrokes(stroke.layerId), vectorStroke], [vectorStroke])) {
+      return null;
+    }
+    this.eventBus.emit('vector:strokeAdded', { layerId: stroke.layerId, stroke: vectorStroke });
+    return vectorStroke;
+  }
+
+  // Least-squares cubic fit (Schneider); segments also split where the pressure profile would drift
+  public fitPoints(points: Point[]): VectorNode[] {
+    const cleaned = points.filter((point, index) =>
+      index === 0 || this.distance(point, points[index - 1]) >= this.MIN_POINT_DISTANCE
+    );
+    if (cleaned.length === 1) {
+      return [this.createNode(cleaned[0], this.getPressure(cleaned[0]))];
+    }
+
+    const last = cleaned.length - 1;
+    const segments: FittedSegment[] = [];
+    this.fitCubic(
+      cleaned,
+      0,
+      last,
+      this.normalize(this.subtract(cleaned[1], cleaned[0])),
+      this.normalize(this.subtract(cleaned[last - 1], cleaned[last])),
+      segments
+    );
+
+    const nodes: VectorNode[] = [this.createNode(cleaned[0], this.getPressure(cleaned[0]))];
+    segments.forEach(segment => {
+      nodes[nodes.length - 1].handleOut = segment.curve[1];
+      nodes.push({
+        ...this.createNode(segment.curve[3], this.getPressure(cleaned[segment.last])),
+        handleIn: segment.curve[2],
+      });
+    });
+    return nodes;
+  }
+
+  // Topmost stroke under `point`, within the tolerance plus half the stroke's width
+  public hitTest(layerId: string, point: { x: number; y: number }, tolerance: number = this.HIT_TOLERANCE): VectorHit | null {
+    const strokes = this.getStrokes(layerId);
+
+    for (let i = strokes.length - 1; i >= 0; i--) {
+      const stroke = strokes[i];
+      const hit = this.findClosest(stroke, point);
+      if (hit && hit.distance <= tolerance + stroke.size / 2) {
+        return hit;
+      }
+    }
+    return null;
+  }
+
+  public select(layerId: string, strokeId: string | null): boolean {
+    if (strokeId && !this.getStroke(layerId, strokeId)) return false;
+
+    this.selection = strokeId ? { layerId, strokeId } : null;
+    this.eventBus.emit('vector:selectionChanged', { selection: this.getSelection() });
+    return true;
+  }
+
+  // Cleared implicitly once the stroke is gone (deleted, undone, joined away)
+  public getSelection(): VectorSelection | null {
+    if (this.selection && !this.getStroke(this.selection.layerId, this.selection.strokeId)) {
+      this.selection = null;
+    }
+    return this.selection ? { ...this.selection } : null;
+  }
+
+  public updateStroke(layerId: string, strokeId: string, changes: VectorStrokeChanges): boolean {
+    if (changes.brushId && !brushEngine.getBrush(changes.brushId)) return false;
+
+    const updated = this.replaceStroke(layerId, strokeId, stroke => ({
+      ...stroke,
+      ...changes,
+      size: changes.size !== undefined ? Math.max(0.1, changes.size) : stroke.size,
+    }));
+    if (updated) {
+      this.eventBus.emit('vector:strokeUpdated', { layerId, strokeId, changes });
+    }
+    return updated;
+  }
+
+  // Handles travel with their node
+  public moveNode(layerId: string, strokeId: string, index: number, position: { x: number; y: number }): boolean {
+    return this.replaceNode(layerId, strokeId, index, node => {
+      const dx = position.x - node.x;
+      const dy = position.y - node.y;
+      return {
+        ...node,
+        x: position.x,
+        y: position.y,
+        handleIn: { x: node.handleIn.x + dx, y: node.handleIn.y + dy },
+        handleOut: { x: node.handleOut.x + dx, y: node.handleOut.y + dy },
+      };
+    });
+  }
+
+  // With `smooth`, the opposite handle turns to stay in line, keeping its length
+  public moveHandle(
+    layerId: string,
+    strokeId: string,
+    index: number,
+    handle: 'in' | 'out',
+    position: { x: number; y: number },
+    smooth: boolean = true
+  ): boolean {
+    return this.replaceNode(layerId, strokeId, index, node => {
+      const moved = { ...node, [handle === 'in' ? 'handleIn' : 'handleOut']: { ...position } };
+      const opposite = handle === 'in' ? node.handleOut : node.handleIn;
+      const length = this.distance(opposite, node);
+      const direction = this.normalize(this.subtract(node, position));
+      if (!smooth || length === 0 || (direction.x === 0 && direction.y === 0)) return moved;
+
+      const mirrored = { x: node.x + direction.x * length, y: node.y + direction.y * length };
+      return handle === 'in' ? { ...moved, handleOut: mirrored } : { ...moved, handleIn: mirrored };
+    });
+  }
+
+  public setNodePressure(layerId: string, strokeId: string, index: number, pressure: number): boolean {
+    return this.replaceNode(layerId, strokeId, index, node => ({
+      ...node,
+      pressure: Math.max(0, Math.min(1, pressure)),
+    }));
+  }
+
+  public deleteStroke(layerId: string, strokeId: string): boolean {
+    const strokes = this.getStrokes(layerId);
+    const stroke = strokes.find(candidate => candidate.id === strokeId);
+    if (!stroke || !this.commit(layerId, strokes.filter(candidate => candidate !== stroke), [stroke])) {
+      return false;
+    }
+
+    this.eventBus.emit('vector:strokeDeleted', { layerId, strokeId });
+    return true;
+  }
+
+  // Connects the nearest ends of two open strokes; the result keeps the first stroke's style and place
+  public joinStrokes(layerId: string, firstId: string, secondId: string): VectorStroke | null {
+    const strokes = this.getStrokes(layerId);
+    const first = strokes.find(stroke => stroke.id === firstId);
+    const second = strokes.find(stroke => stroke.id === secondId);
+    if (!first || !second || first === second || first.closed || second.closed) return null;
+
+    // Orient both so the first ends where the second starts
+    const ends = [
+      { a: first.nodes, b: second.nodes },
+      { a: first.nodes, b: this.reverseNodes(second.nodes) },
+      { a: this.reverseNodes(first.nodes), b: second.nodes },
+      { a: this.reverseNodes(first.nodes), b: this.reverseNodes(second.nodes) },
+    ];
+    const { a, b } = ends.reduce((best, candidate) =>
+      this.distance(candidate.a[candidate.a.length - 1], candidate.b[0]) <
+      this.distance(best.a[best.a.length - 1], best.b[0]) ? candidate : best
+    );
+
+    const tail = a[a.length - 1];
+    const head = b[0];
+    const nodes = this.distance(tail, head) <= this.JOIN_DISTANCE
+      ? [...a.slice(0, -1), { ...tail, handleOut: head.handleOut, pressure: (tail.pressure + head.pressure) / 2 }, ...b.slice(1)]
+      : [...a, ...b]; // Straight bridge: the end handles stay on their nodes
+
+    const joined: VectorStroke = { ...first, nodes };
+    const next = strokes
+      .filter(stroke => stroke !== second)
+      .map(stroke => (stroke === first ? joined : stroke));
+    if (!this.commit(layerId, next, [first, second, joined])) return null;
+
+    this.eventBus.emit('vector:strokesJoined', { layerId, strokeId: joined.id, removedId: second.id });
+    return joined;
+  }
+
+  // Splits at `t` along a segment (see hitTest). An open stroke becomes two; a closed one opens there.
+  public splitStroke(layerId: string, strokeId: string, segment: number, t: number): VectorStroke[] {
+    const strokes = this.getStrokes(layerId);
+    const stroke = strokes.find(candidate => candidate.id === strokeId);
+    const segmentCount = stroke ? (stroke.closed ? stroke.nodes.length : stroke.nodes.length - 1) : 0;
+    if (!stroke || segment < 0 || segment >= segmentCount) return [];
+
+    const nodes = this.insertNode(stroke.nodes, segment, Math.max(0, Math.min(1, t)));
+    const splitIndex = nodes.splitIndex;
+    let pieces: VectorStroke[];
+
+    if (stroke.closed) {
+      // Rotate so the path starts and ends at the split point
+      const rotated = [...nodes.nodes.slice(splitIndex), ...nodes.nodes.slice(0, splitIndex + 1)];
+      rotated[0] = { ...rotated[0], handleIn: { x: rotated[0].x, y: rotated[0].y } };
+      const end = rotated[rotated.length - 1];
+      rotated[rotated.length - 1] = { ...end, handleOut: { x: end.x, y: end.y } };
+      pieces = [{ ...stroke, nodes: rotated, closed: false }];
+    } else {
+      if (splitIndex === 0 || splitIndex === nodes.nodes.length - 1) return [];
+
+      const split = nodes.nodes[splitIndex];
+      pieces = [
+        { ...stroke, nodes: [...nodes.nodes.slice(0, splitIndex), { ...split, handleOut: { x: split.x, y: split.y } }] },
+        {
+          ...stroke,
+          id: this.generateStrokeId(),
+          nodes: [{ ...split, handleIn: { x: split.x, y: split.y } }, ...nodes.nodes.slice(splitIndex + 1)],
+        },
+      ];
+    }
+
+    const index = strokes.indexOf(stroke);
+    const next = [...strokes.slice(0, index), ...pieces, ...strokes.slice(index + 1)];
+    if (!this.commit(layerId, next, [stroke, ...pieces])) return [];
+
+    this.eventBus.emit('vector:strokeSplit', { layerId, strokeId, strokeIds: pieces.map(piece => piece.id) });
+    return pieces;
+  }
+
+  // Redraws a vector layer's pixels from its strokes, without history (e.g. after a brush changed)
+  public renderLayer(layerId: string): boolean {
+    const layer = layerManager.getLayer(layerId);
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    if (!layer || layer.type !== 'vector' || !surface) return false;
+
+    try {
+      this.drawStrokes(surface, layerId, layer.vectorStrokes ?? [], null);
+      valkyrieEngine.invalidateLayerEffects(layerId);
+      this.eventBus.emit('layer:pixelsChanged', {
+        layerId,
+        bounds: { x: 0, y: 0, width: surface.width(), height: surface.height() },
+        target: 'layer',
+      });
+      return true;
+    } catch (error) {
+      console.error('Failed to render vector layer:', error);
+      return false;
+    }
+  }
+
+  // Vector layers in stack order as SVG; all of them when no ids are given
+  public exportSVG(layerIds?: string[]): string | null {
+    try {
+      const layers = layerManager.getAllLayers().filter(layer =>
+        layer.type === 'vector' && (!layerIds || layerIds.includes(layer.id))
+      );
+      const size = this.getPixelSize(layers);
+      if (!size) return null;
+
+      const groups: SVGGroup[] = layers.map(layer => ({
+        id: layer.id,
+        name: layer.name,
+        opacity: layer.opacity,
+        visible: layer.visible,
+        paths: (layer.vectorStrokes ?? []).map(stroke => {
+          const meanPressure = stroke.nodes.reduce((sum, node) => sum + node.pressure, 0) / stroke.nodes.length;
+          return {
+            id: stroke.id,
+            nodes: stroke.nodes,
+            closed: stroke.closed,
+            color: stroke.color.hex.toLowerCase(),
+            opacity: stroke.color.alpha,
+            // Plain SVG has one width per path
+            width: stroke.size * meanPressure,
+            size: stroke.size,
+            brushId: stroke.brushId,
+          };
+        }),
+      }));
+
+      const svg = SVGCodec.encode({ width: size.width, height: size.height, groups });
+      this.eventBus.emit('vector:svgExported', { layerCount: layers.length });
+      return svg;
+    } catch (error) {
+      console.error('Failed to export SVG:', error);
+      return null;
+    }
+  }
+
+  // Each top-level SVG group becomes a vector layer above the current one
+  public importSVG(text: string): SVGImportReport | null {
+    try {
+      const { document, warnings } = SVGCodec.decode(text);
+      const reference = layerManager.getCurrentLayer();
+      const surface = reference ? valkyrieEngine.getLayerSurface(reference.id) : null;
+
+      // Oversized drawings are scaled down to fit the canvas
+      const scale = surface && document.width > 0 && document.height > 0
+        ? Math.min(1, surface.width() / document.width, surface.height() / document.height)
+        : 1;
+      if (scale < 1) {
+        warnings.push(`The drawing was scaled to ${Math.round(scale * 100)}% to fit the canvas`);
+      }
+
+      const fallbackBrushId = brushEngine.getBrush(this.FALLBACK_BRUSH_ID)
+        ? this.FALLBACK_BRUSH_ID
+        : brushEngine.getCurrentBrush()?.id ?? this.FALLBACK_BRUSH_ID;
+      const layerIds: string[] = [];
+      let strokeCount = 0;
+
+      document.groups.forEach(group => {
+        if (group.paths.length === 0) return;
+
+        const layer = layerManager.createLayer(group.name, 'vector', {
+          opacity: group.opacity,
+          visible: group.visible,
+        });
+        // Keeps the groups in document order, each above the last
+        layerManager.setCurrentLayer(layer.id);
+
+        const strokes: VectorStroke[] = group.paths.map(path => {
+          const installed = !!path.brushId && !!brushEngine.getBrush(path.brushId);
+          if (path.brushId && !installed) {
+            warnings.push(`Brush "${path.brushId}" is not installed; its strokes use the default pen`);
+          }
+          return {
+            id: this.generateStrokeId(),
+            brushId: installed ? path.brushId! : fallbackBrushId,
+            color: colorManager.createColor(path.color, path.opacity),
+            size: Math.max(0.1, (path.size ?? path.width) * scale),
+            nodes: path.nodes.map(node => this.scaleNode(node, scale)),
+            closed: path.closed,
+            timestamp: Date.now(),
+          };
+        });
+
+        layer.vectorStrokes = strokes;
+        this.renderLayer(layer.id);
+        layerManager.recordCreatedContent(layer.id);
+        layerIds.push(layer.id);
+        strokeCount += strokes.length;
+      });
+
+      const report: SVGImportReport = { layerIds, strokeCount, warnings: Array.from(new Set(warnings)) };
+      this.eventBus.emit('vector:svgImported', report);
+      return report;
+    } catch (error) {
+      console.error('Failed to import SVG:', error);
+      return null;
+    }
+  }
+
+  // ===== PRIVATE METHODS =====
+
+  private getEditableLayer(layerId: string): Layer | null {
+    const layer = layerManager.getLayer(layerId);
+    return layer && layer.type === 'vector' && !layer.locked ? layer : null;
+  }
+
+  private replaceStroke(layerId: string, strokeId: string, change: (stroke: VectorStroke) => VectorStroke): boolean {
+    const strokes = this.getStrokes(layerId);
+    const index = strokes.findIndex(stroke => stroke.id === strokeId);
+    if (index === -1) return false;
+
+    const before = strokes[index];
+    const after = change(before);
+    strokes[index] = after;
+    return this.commit(layerId, strokes, [before, after]);
+  }
+
+  private replaceNode(layerId: string, strokeId: string, index: number, change: (node: VectorNode) => VectorNode): boolean {
+    const stroke = this.getStroke(layerId, strokeId);
+    if (!stroke || index < 0 || index >= stroke.nodes.length) return false;
+
+    return this.replaceStroke(layerId, strokeId, current => ({
+      ...current,
+      nodes: current.nodes.map((node, nodeIndex) => (nodeIndex === index ? change(node) : node)),
+    }));
+  }
+
+  // Replaces the layer's strokes, redraws where `changed` strokes were or now are, and records one undo step
+  private commit(layerId: string, next: VectorStroke[], changed: VectorStroke[]): boolean {
+    const layer = this.getEditableLayer(layerId);
+    const surface = valkyrieEngine.getLayerSurface(layerId);
+    if (!layer || !surface) return false;
+
+    try {
+      const bounds = this.unionBounds(
+        changed.map(stroke => this.getStrokeBounds(stroke, surface.width(), surface.height()))
+      );
+      const rect = bounds ? CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height) : null;
+      const beforeStrokes = layer.vectorStrokes ?? [];
+      const before = rect ? surface.makeImageSnapshot(rect) : null;
+
+      layer.vectorStrokes = next;
+      if (bounds) {
+        this.drawStrokes(surface, layerId, next, bounds);
+      }
+
+      const patch = bounds && before ? pixelHistory.createPatch(bounds, before, surface.makeImageSnapshot(rect!)) : null;
+      valkyrieEngine.invalidateLayerEffects(layerId);
+      layerManager.recordVectorChange(layerId, beforeStrokes, patch);
+      return true;
+    } catch (error) {
+      console.error('Failed to update vector layer:', error);
+      return false;
+    }
+  }
+
+  // Clears `bounds` (the whole surface when null) and draws the strokes that reach it
+  private drawStrokes(surface: SkSurface, layerId: string, strokes: VectorStroke[], bounds: Bounds | null): void {
+    const canvas = surface.getCanvas();
+    canvas.save();
+    if (bounds) {
+      canvas.clipRect(CompatSkia.XYWHRect(bounds.x, bounds.y, bounds.width, bounds.height), ClipOp.Intersect, false);
+    }
+    canvas.clear(CompatSkia.Color('transparent'));
+
+    strokes.forEach(stroke => {
+      const strokeBounds = this.getStrokeBounds(stroke, surface.width(), surface.height());
+      if (!strokeBounds || (bounds && !this.intersects(bounds, strokeBounds))) return;
+
+      const brush = this.getStrokeBrush(stroke);
+      const rasterStroke = this.toRasterStroke(stroke, layerId);
+      if (!brush || rasterStroke.points.length === 0) return;
+
+      const random = new SeededRandom(getStrokeSeed(rasterStroke));
+      const paint = brushEngine.createBrushPaint(brush, stroke.color, rasterStroke.points[0], null, 0, () => random.next());
+      valkyrieEngine.rasterizeStroke(rasterStroke, surface, paint, brush, { ignoreSelection: true });
+    });
+
+    canvas.restore();
+    surface.flush();
+  }
+
+  // The stroke's brush at the stroke's size, scaled like the eraser scales its tip
+  private getStrokeBrush(stroke: VectorStroke): Brush | null {
+    const brush = brushEngine.getBrush(stroke.brushId) ?? brushEngine.getBrush(this.FALLBACK_BRUSH_ID);
+    if (!brush) return null;
+
+    const general = brush.settings.general;
+    const scale = general.size > 0 ? stroke.size / general.size : 1;
+    return {
+      ...brush,
+      settings: {
+        ...brush.settings,
+        general: {
+          ...general,
+          size: stroke.size,
+          sizeMin: general.sizeMin * scale,
+          sizeMax: general.sizeMax * scale,
+        },
+      },
+    };
+  }
+
+  // Curve sampled into pen points; the profile comes through as pressure
+  private toRasterStroke(stroke: VectorStroke, layerId: string): Stroke {
+    return {
+      id: stroke.id,
+      tool: 'brush',
+      brushId: stroke.brushId,
+      color: stroke.color,
+      points: this.samplePoints(stroke),
+      layerId,
+      timestamp: stroke.timestamp,
+    };
+  }
+
+  private samplePoints(stroke: VectorStroke): Point[] {
+    const { nodes } = stroke;
+    if (nodes.length === 0) return [];
+
+    const points: Point[] = [{ x: nodes[0].x, y: nodes[0].y, pressure: nodes[0].pressure }];
+    this.forEachSegment(stroke, (from, to) => {
+      const curve = this.getCurve(from, to);
+      const steps = Math.max(1, Math.ceil(this.getControlLength(curve) / this.SAMPLE_SPACING));
+      for (let step = 1; step <= steps; step++) {
+        const t = step / steps;
+        const point = this.evaluate(curve, t);
+        points.push({ x: point.x, y: point.y, pressure: from.pressure + (to.pressure - from.pressure) * t });
+      }
+    });
+    return points;
+  }
+
+  private findClosest(stroke: VectorStroke, point: { x: number; y: number }): VectorHit | null {
+    if (stroke.nodes.length === 0) return null;
+
+    let best: VectorHit = {
+      strokeId: stroke.id,
+      segment: 0,
+      t: 0,
+      distance: this.distance(stroke.nodes[0], point),
+    };
+    this.forEachSegment(stroke, (from, to, segment) => {
+      const curve = this.getCurve(from, to);
+      const steps = Math.max(8, Math.ceil(this.getControlLength(curve) / this.SAMPLE_SPACING));
+      for (let step = 0; step <= steps; step++) {
+        const t = step / steps;
+        const distance = this.distance(this.evaluate(curve, t), point);
+        if (distance < best.distance) {
+          best = { strokeId: stroke.id, segment, t, distance };
+        }
+      }
+    });
+    return best;
+  }
+
+  private forEachSegment(
+    stroke: VectorStroke,
+    visit: (from: VectorNode, to: VectorNode, segment: number) => void
+  ): void {
+    const { nodes } = stroke;
+    for (let i = 0; i + 1 < nodes.length; i++) {
+      visit(nodes[i], nodes[i + 1], i);
+    }
+    if (stroke.closed && nodes.length > 1) {
+      visit(nodes[nodes.length - 1], nodes[0], nodes.length - 1);
+    }
+  }
+
+  // De Casteljau split; returns the nodes with the new one at `splitIndex`
+  private insertNode(nodes: VectorNode[], segment: number, t: number): { nodes: VectorNode[]; splitIndex: number } {
+    const from = nodes[segment];
+    const toIndex = (segment + 1) % nodes.length;
+    const to = nodes[toIndex];
+
+    // Splitting at an existing node needs no new one
+    if (t <= 0) return { nodes, splitIndex: segment };
+    if (t >= 1) return { nodes, splitIndex: toIndex };
+
+    const [p0, p1, p2, p3] = this.getCurve(from, to);
+    const a = this.lerp(p0, p1, t);
+    const b = this.lerp(p1, p2, t);
+    const c = this.lerp(p2, p3, t);
+    const d = this.lerp(a, b, t);
+    const e = this.lerp(b, c, t);
+    const split = this.lerp(d, e, t);
+
+    const result = [...nodes];
+    result[segment] = { ...from, handleOut: a };
+    result[toIndex] = { ...result[toIndex], handleIn: c };
+    const inserted: VectorNode = {
+      x: split.x,
+      y: split.y,
+      handleIn: d,
+      handleOut: e,
+      pressure: from.pressure + (to.pressure - from.pressure) * t,
+    };
+    result.splice(segment + 1, 0, inserted);
+    return { nodes: result, splitIndex: segment + 1 };
+  }
+
+  private reverseNodes(nodes: VectorNode[]): VectorNode[] {
+    return [...nodes].reverse().map(node => ({ ...node, handleIn: node.handleOut, handleOut: node.handleIn }));
+  }
+
+  // Node and handle extent (the curve stays inside it) padded for the brush, in surface pixels
+  private getStrokeBounds(stroke: VectorStroke, width: number, height: number): Bounds | null {
+    const brush = this.getStrokeBrush(stroke);
+    if (!brush || stroke.nodes.length === 0) return null;
+
+    const xs = stroke.nodes.flatMap(node => [node.x, node.handleIn.x, node.handleOut.x]);
+    const ys = stroke.nodes.flatMap(node => [node.y, node.handleIn.y, node.handleOut.y]);
+    const scatter = (brush.shape.settings.scatter ?? 0) / 100;
+    const pad = Math.ceil(Math.max(brush.settings.general.sizeMax, stroke.size) * (1 + scatter) + 2);
+
+    const left = Math.max(0, Math.floor(Math.min(...xs) - pad));
+    const top = Math.max(0, Math.floor(Math.min(...ys) - pad));
+    const right = Math.min(width, Math.ceil(Math.max(...xs) + pad));
+    const bottom = Math.min(height, Math.ceil(Math.max(...ys) + pad));
+    if (right <= left || bottom <= top) return null;
+
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  private unionBounds(bounds: Array<Bounds | null>): Bounds | null {
+    const present = bounds.filter((entry): entry is Bounds => entry !== null);
+    if (present.length === 0) return null;
+
+    const left = Math.min(...present.map(entry => entry.x));
+    const top = Math.min(...present.map(entry => entry.y));
+    const right = Math.max(...present.map(entry => entry.x + entry.width));
+    const bottom = Math.max(...present.map(entry => entry.y + entry.height));
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+
+  private intersects(a: Bounds, b: Bounds): boolean {
+    return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+  }
+
+  private getPixelSize(layers: Layer[]): { width: number; height: number } | null {
+    const candidates = [...layers, ...layerManager.getAllLayers()];
+    for (const layer of candidates) {
+      const surface = valkyrieEngine.getLayerSurface(layer.id);
+      if (surface) {
+        return { width: surface.width(), height: surface.height() };
+      }
+    }
+    return null;
+  }
+
+  private scaleNode(node: VectorNode, scale: number): VectorNode {
+    const apply = (point: { x: number; y: number }) => ({ x: point.x * scale, y: point.y * scale });
+    return { ...apply(node), handleIn: apply(node.handleIn), handleOut: apply(node.handleOut), pressure: node.pressure };
+  }
+
+  private createNode(point: { x: number; y: number }, pressure: number): VectorNode {
+    return {
+      x: point.x,
+      y: point.y,
+      handleIn: { x: point.x, y: point.y },
+      handleOut: { x: point.x, y: point.y },
+      pressure,
+    };
+  }
+
+  // Points without pressure (finger input) draw at full size
+  private getPressure(point: Point): number {
+    return point.pressure ?? 1;
+  }
+
+  private generateStrokeId(): string {
+    return `vector_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  // ===== CURVE FITTING =====
+
+  private fitCubic(
+    points: Point[],
+    first: number,
+    last: number,
+    startTangent: Vec2,
+    endTangent: Vec2,
+    segments: FittedSegment[]
+  ): void {
+    // Two points: handles a third of the way along the tangents
+    if (last - first === 1) {
+      const offset = this.distance(points[first], points[last]) / 3;
+      segments.push({
+        curve: [
+          points[first],
+          this.add(points[first], this.scale(startTangent, offset)),
+          this.add(points[last], this.scale(endTangent, offset)),
+          points[last],
+        ],
+        last,
+      });
+      return;
+    }
+
+    const tolerance = this.FIT_TOLERANCE * this.FIT_TOLERANCE;
+    let parameters = this.chordLengthParameterize(points, first, last);
+    let curve = this.generateBezier(points, first, last, parameters, startTangent, endTangent);
+    let error = this.computeMaxError(points, first, last, curve, parameters);
+
+    if (error.distance < tolerance && error.pressure < this.PRESSURE_TOLERANCE) {
+      segments.push({ curve, last });
+      return;
+    }
+
+    // Close misses can often be fixed by reparameterizing instead of splitting
+    if (error.distance < tolerance * 4) {
+      for (let i = 0; i < this.MAX_REPARAMETERIZE; i++) {
+        parameters = this.reparameterize(points, first, last, parameters, curve);
+        curve = this.generateBezier(points, first, last, parameters, startTangent, endTangent);
+        error = this.computeMaxError(points, first, last, curve, parameters);
+        if (error.distance < tolerance && error.pressure < this.PRESSURE_TOLERANCE) {
+          segments.push({ curve, last });
+          return;
+        }
+      }
+    }
+
+    const split = Math.max(first + 1, Math.min(last - 1, error.distance >= tolerance ? error.splitIndex : error.pressureIndex));
+    const centerTangent = this.normalize(this.subtract(points[split - 1], points[split + 1]));
+    this.fitCubic(points, first, split, startTangent, centerTangent, segments);
+    this.fitCubic(points, split, last, this.scale(centerTangent, -1), endTangent, segments);
+  }
+
+  private generateBezier(
+    points: Point[],
+    first: number,
+    last: number,
+    parameters: number[],
+    startTangent: Vec2,
+    endTangent: Vec2
+  ): Curve {
+    const start = points[first];
+    const end = points[last];
+    const c = [[0, 0], [0, 0]];
+    const x = [0, 0];
+
+    for (let i = 0; i < parameters.length; i++) {
+      const u = parameters[i];
+      const a1 = this.scale(startTangent, 3 * u * (1 - u) * (1 - u));
+      const a2 = this.scale(endTangent, 3 * u * u * (1 - u));
+      c[0][0] += this.dot(a1, a1);
+      c[0][1] += this.dot(a1, a2);
+      c[1][0] = c[0][1];
+      c[1][1] += this.dot(a2, a2);
+
+      const b0 = (1 - u) * (1 - u) * (1 - u);
+      const b1 = 3 * u * (1 - u) * (1 - u);
+      const b2 = 3 * u * u * (1 - u);
+      const b3 = u * u * u;
+      const shortfall = this.subtract(points[first + i], {
+        x: start.x * (b0 + b1) + end.x * (b2 + b3),
+        y: start.y * (b0 + b1) + end.y * (b2 + b3),
+      });
+      x[0] += this.dot(a1, shortfall);
+      x[1] += this.dot(a2, shortfall);
+    }
+
+    const determinant = c[0][0] * c[1][1] - c[1][0] * c[0][1];
+    let alphaStart = determinant === 0 ? 0 : (x[0] * c[1][1] - x[1] * c[0][1]) / determinant;
+    let alphaEnd = determinant === 0 ? 0 : (c[0][0] * x[1] - c[1][0] * x[0]) / determinant;
+
+    // Degenerate or backwards handles fall back to a third of the chord
+    const chord = this.distance(start, end);
+    const epsilon = 1e-6 * chord;
+    if (alphaStart < epsilon || alphaEnd < epsilon) {
+      alphaStart = alphaEnd = chord / 3;
+    }
+
+    return [
+      start,
+      this.add(start, this.scale(startTangent, alphaStart)),
+      this.add(end, this.scale(endTangent, alphaEnd)),
+      end,
+    ];
+  }
+
+  // Newton-Raphson step for each point's closest parameter on the curve
+  private reparameterize(points: Point[], first: number, last: number, parameters: number[], curve: Curve): number[] {
+    return parameters.map((u, i) => {
+      const point = points[first + i];
+      const q = this.evaluate(curve, u);
+      const q1 = this.evaluateDerivative(curve, u);
+      const q2 = this.evaluateSecondDerivative(curve, u);
+      const difference = this.subtract(q, point);
+      const numerator = this.dot(difference, q1);
+      const denominator = this.dot(q1, q1) + this.dot(difference, q2);
+      if (denominator === 0) return u;
+      return Math.max(0, Math.min(1, u - numerator / denominator));
+    });
+  }
+
+  private computeMaxError(points: Point[], first: number, last: number, curve: Curve, parameters: number[]): FitError {
+    const error: FitError = {
+      distance: 0,
+      splitIndex: Math.floor((first + last) / 2),
+      pressure: 0,
+      pressureIndex: Math.floor((first + last) / 2),
+    };
+    const startPressure = this.getPressure(points[first]);
+    const endPressure = this.getPressure(points[last]);
+
+    for (let i = first + 1; i < last; i++) {
+      const u = parameters[i - first];
+      const offset = this.subtract(this.evaluate(curve, u), points[i]);
+      const distance = this.dot(offset, offset);
+      if (distance >= error.distance) {
+        error.distance = distance;
+        error.splitIndex = i;
+      }
+
+      // Rendering interpolates pressure linearly between nodes
+      const pressure = Math.abs(startPressure + (endPressure - startPressure) * u - this.getPressure(points[i]));
+      if (pressure >= error.pressure) {
+        error.pressure = pressure;
+        error.pressureIndex = i;
+      }
+    }
+    return error;
+  }
+
+  private chordLengthParameterize(points: Point[], first: number, last: number): number[] {
+    const lengths = [0];
+    for (let i = first + 1; i <= last; i++) {
+      lengths.push(lengths[lengths.length - 1] + this.distance(points[i], points[i - 1]));
+    }
+    const total = lengths[lengths.length - 1];
+    return lengths.map(length => (total > 0 ? length / total : 0));
+  }
+
+  // ===== BEZIER MATH =====
+
+  private getCurve(from: VectorNode, to: VectorNode): Curve {
+    return [{ x: from.x, y: from.y }, from.handleOut, to.handleIn, { x: to.x, y: to.y }];
+  }
+
+  private evaluate(curve: Curve, t: number): Vec2 {
+    const mt = 1 - t;
+    const b0 = mt * mt * mt;
+    const b1 = 3 * mt * mt * t;
+    const b2 = 3 * mt * t * t;
+    const b3 = t * t * t;
+    return {
+      x: curve[0].x * b0 + curve[1].x * b1 + curve[2].x * b2 + curve[3].x * b3,
+      y: curve[0].y * b0 + curve[1].y * b1 + curve[2].y * b2 + curve[3].y * b3,
+    };
+  }
+
+  private evaluateDerivative(curve: Curve, t: number): Vec2 {
+    const mt = 1 - t;
+    const d0 = this.subtract(curve[1], curve[0]);
+    const d1 = this.subtract(curve[2], curve[1]);
+    const d2 = this.subtract(curve[3], curve[2]);
+    return {
+      x: 3 * (mt * mt * d0.x + 2 * mt * t * d1.x + t * t * d2.x),
+      y: 3 * (mt * mt * d0.y + 2 * mt * t * d1.y + t * t * d2.y),
+    };
+  }
+
+  private evaluateSecondDerivative(curve: Curve, t: number): Vec2 {
+    const e0 = this.add(this.subtract(curve[2], this.scale(curve[1], 2)), curve[0]);
+    const e1 = this.add(this.subtract(curve[3], this.scale(curve[2], 2)), curve[1]);
+    return {
+      x: 6 * ((1 - t) * e0.x + t * e1.x),
+      y: 6 * ((1 - t) * e0.y + t * e1.y),
+    };
+  }
+
+  private getControlLength(curve: Curve): number {
+    return this.distance(curve[0], curve[1]) + this.distance(curve[1], curve[2]) + this.distance(curve[2], curve[3]);
+  }
+
+  private lerp(a: Vec2, b: Vec2, t: number): Vec2 {
+    return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+  }
+
+  private add(a: Vec2, b: Vec2): Vec2 {
+    return { x: a.x + b.x, y: a.y + b.y };
+  }
+
+  private subtract(a: Vec2, b: Vec2): Vec2 {
+    return { x: a.x - b.x, y: a.y - b.y };
+  }
+
+  private scale(v: Vec2, factor: number): Vec2 {
+    return { x: v.x * factor, y: v.y * factor };
+  }
+
+  private dot(a: Vec2, b: Vec2): number {
+    return a.x * b.x + a.y * b.y;
+  }
+
+  private distance(a: Vec2, b: Vec2): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+
+  private normalize(v: Vec2): Vec2 {
+    const length = Math.hypot(v.x, v.y);
+    return length > 0 ? { x: v.x / length, y: v.y / length } : { x: 0, y: 0 };
+  }
+}
+
+// ===== TYPES =====
+
+type Vec2 = { x: number; y: number };
+
+type Curve = [Vec2, Vec2, Vec2, Vec2];
+
+interface FittedSegment {
+  curve: Curve;
+  last: number; // Input index of the end point
+}
+
+interface FitError {
+  distance: number; // Squared
+  splitIndex: number;
+  pressure: number;
+  pressureIndex: number;
+}
+
+export interface VectorSelection {
+  layerId: string;
+  strokeId: string;
+}
+
+export type VectorStrokeChanges = Partial<Pick<VectorStroke, 'color' | 'size' | 'brushId'>>;
+
+// Export singleton instance
+export const vectorEngine = VectorEngine.getInstance();
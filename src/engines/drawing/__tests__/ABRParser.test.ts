@@ -0,0 +1,83 @@
+// src/engines/drawing/__tests__/ABRParser.test.ts
+import { ABRParser, decodePackBits } from '../ABRParser';
+
+// Big-endian fields, concatenated
+const int16 = (value: number) => [(value >> 8) & 0xff, value & 0xff];
+const int32 = (value: number) => [...int16(value >> 16), ...int16(value)];
+const unicode = (text: string) => [
+  ...int32(text.length + 1),
+  ...Array.from(text + '\0').flatMap(char => int16(char.charCodeAt(0))),
+];
+
+// One brush record: type, size, then the body
+const brush = (type: number, body: number[]) => [...int16(type), ...int32(body.length), ...body];
+
+describe('ABRParser', () => {
+  it('reads computed and sampled brushes from a version 2 library', () => {
+    const computed = brush(1, [
+      0, 0, 0, 0,
+      ...int16(25), // spacing
+      ...int16(30), // diameter
+      ...int16(50), // roundness
+      ...int16(-45), // angle
+      ...int16(80), // hardness
+    ]);
+    const sampled = brush(2, [
+      0, 0, 0, 0,
+      ...int16(10),
+      ...unicode('Chalk'),
+      1,
+      0, 0, 0, 0, 0, 0, 0, 0,
+      ...int32(0),
+      ...int32(0),
+      ...int32(2), // bottom
+      ...int32(3), // right
+      ...int16(8),
+      1, // PackBits rows
+      ...int16(4),
+      ...int16(2),
+      2, 0, 128, 255, // literal run
+      254, 128, // repeat run
+    ]);
+
+    const { version, brushes, warnings } = new ABRParser(
+      Uint8Array.from([...int16(2), ...int16(2), ...computed, ...sampled])
+    ).parse();
+
+    expect(version).toBe(2);
+    expect(warnings).toEqual([]);
+    expect(brushes[0]).toMatchObject({
+      name: 'Brush 1',
+      spacing: 25,
+      diameter: 30,
+      roundness: 50,
+      angle: -45,
+      hardness: 80,
+    });
+    expect(brushes[1]).toMatchObject({ name: 'Chalk', spacing: 10, antiAlias: true, diameter: 3 });
+    expect(Array.from(brushes[1].tip?.data ?? [])).toEqual([0, 128, 255, 128, 128, 128]);
+  });
+
+  it('skips unknown brush types with a warning', () => {
+    const { brushes, warnings } = new ABRParser(
+      Uint8Array.from([...int16(1), ...int16(1), ...brush(9, [0, 0, 0, 0, 0, 0])])
+    ).parse();
+
+    expect(brushes).toEqual([]);
+    expect(warnings).toEqual(['Brush 1: unknown brush type 9, skipped']);
+  });
+
+  it('rejects unsupported versions', () => {
+    expect(() => new ABRParser(Uint8Array.from([0, 3, 0, 0])).parse()).toThrow('Unsupported ABR version: 3');
+  });
+});
+
+describe('decodePackBits', () => {
+  it('expands literal and repeat runs', () => {
+    const output = new Uint8Array(7);
+
+    decodePackBits(Uint8Array.from([2, 1, 2, 3, 253, 9]), output, 0, 7);
+
+    expect(Array.from(output)).toEqual([1, 2, 3, 9, 9, 9, 9]);
+  });
+});
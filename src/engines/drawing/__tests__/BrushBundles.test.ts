@@ -0,0 +1,130 @@
+// src/engines/drawing/__tests__/BrushBundles.test.ts
+import { brushEngine } from '../BrushEngine';
+import { BrushBundleConflict, BrushConflictResolution } from '../../../types/drawing';
+
+jest.mock('../SkiaCompatibility', () => ({
+  CompatSkia: {},
+  PaintStyle: {},
+  StrokeCap: {},
+  StrokeJoin: {},
+  BlendMode: {},
+  TileMode: {},
+}));
+
+jest.mock('@shopify/react-native-skia', () => ({
+  ColorType: { RGBA_8888: 4 },
+  AlphaType: { Unpremul: 3 },
+}));
+
+jest.mock('../ValkyrieEngine', () => ({
+  valkyrieEngine: { setDabSource: jest.fn() },
+}));
+
+jest.mock('../../core/DataManager', () => ({
+  dataManager: {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// Library brushes created by a test are removed again afterwards
+const created: string[] = [];
+
+const createBrush = (name: string, size: number): string => {
+  const id = brushEngine.createCustomBrush(name);
+  brushEngine.getBrush(id)!.settings.general.size = size;
+  created.push(id);
+  return id;
+};
+
+const importBundle = async (bundle: string, resolve?: (conflict: BrushBundleConflict) => BrushConflictResolution) => {
+  const report = await brushEngine.importBrushBundle(bundle, resolve ? { resolve } : {});
+  created.push(...report.brushIds);
+  return report;
+};
+
+describe('Brush bundles', () => {
+  afterEach(() => {
+    created.splice(0).forEach(id => brushEngine.deleteCustomBrush(id));
+  });
+
+  it('skips brushes already in the library', async () => {
+    const id = createBrush('Pencil HB', 12);
+    const bundle = brushEngine.exportBrushBundle([id], 'Sketching')!;
+
+    expect(brushEngine.getBrushBundleConflicts(bundle)).toEqual([
+      { bundleBrushId: id, bundleBrushName: 'Pencil HB', existingBrushId: id, kind: 'identical' },
+    ]);
+
+    const report = await importBundle(bundle);
+
+    expect(report.brushIds).toEqual([]);
+    expect(report.skippedNames).toEqual(['Pencil HB']);
+  });
+
+  it('imports identical brushes in one bundle only once', async () => {
+    const id = createBrush('Charcoal', 30);
+    const bundle = brushEngine.exportBrushBundle([id, id])!;
+    brushEngine.deleteCustomBrush(id);
+
+    const report = await importBundle(bundle);
+
+    expect(report.brushIds).toHaveLength(1);
+    expect(report.skippedNames).toEqual(['Charcoal']);
+    expect(brushEngine.getBrush(report.brushIds[0])?.name).toBe('Charcoal');
+  });
+
+  it('keeps both brushes on a name clash unless told to replace', async () => {
+    const id = createBrush('Ink', 8);
+    const bundle = brushEngine.exportBrushBundle([id])!;
+    brushEngine.getBrush(id)!.settings.general.size = 20;
+
+    const [conflict] = brushEngine.getBrushBundleConflicts(bundle);
+    expect(conflict).toMatchObject({ existingBrushId: id, kind: 'name' });
+
+    const kept = await importBundle(bundle);
+    expect(kept.brushIds).toHaveLength(1);
+    expect(kept.brushIds[0]).not.toBe(id);
+    expect(brushEngine.getBrush(kept.brushIds[0])?.name).toBe('Ink Copy');
+
+    const replaced = await importBundle(bundle, () => 'replace');
+    expect(replaced.replacedIds).toEqual([id]);
+    expect(brushEngine.getBrush(id)?.settings.general.size).toBe(8);
+    expect(brushEngine.getBrush(id)?.category).toBe('custom');
+  });
+
+  it('re-points dual brushes at the imported secondary', async () => {
+    const secondaryId = createBrush('Texture Tip', 40);
+    const primaryId = createBrush('Dual Pencil', 10);
+    brushEngine.getBrush(primaryId)!.dualBrush = {
+      enabled: true,
+      brushId: secondaryId,
+      mode: 'multiply',
+      size: 100,
+      spacing: 10,
+      scatter: 0,
+      count: 1,
+    };
+    const bundle = brushEngine.exportBrushBundle([primaryId])!;
+    brushEngine.deleteCustomBrush(primaryId);
+    brushEngine.deleteCustomBrush(secondaryId);
+
+    const report = await importBundle(bundle);
+
+    expect(report.brushIds).toHaveLength(2);
+    expect(report.warnings).toEqual([]);
+    const primary = report.brushIds.map(id => brushEngine.getBrush(id)!).find(brush => brush.dualBrush)!;
+    expect(primary.name).toBe('Dual Pencil');
+    expect(report.brushIds).toContain(primary.dualBrush!.brushId);
+    expect(primary.dualBrush!.brushId).not.toBe(secondaryId);
+  });
+
+  it('rejects data that is not a brush bundle', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(brushEngine.getBrushBundleConflicts('{"format":"other"}')).toEqual([]);
+    await expect(brushEngine.importBrushBundle('{"format":"other"}')).rejects.toThrow('Invalid brush bundle');
+
+    error.mockRestore();
+  });
+});
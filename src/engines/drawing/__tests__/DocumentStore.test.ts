@@ -0,0 +1,151 @@
+// src/engines/drawing/__tests__/DocumentStore.test.ts
+import { documentStore } from '../DocumentStore';
+import { layerManager } from '../LayerManager';
+import { DocumentManifest } from '../../../types/drawing';
+
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  readAsStringAsync: jest.fn(async (file: string) => {
+    if (!mockFiles.has(file)) throw new Error(`No such file: ${file}`);
+    return mockFiles.get(file);
+  }),
+  writeAsStringAsync: jest.fn(async (file: string, contents: string) => {
+    mockFiles.set(file, contents);
+  }),
+  deleteAsync: jest.fn(async (file: string) => {
+    mockFiles.delete(file);
+  }),
+  moveAsync: jest.fn(async ({ from, to }: { from: string; to: string }) => {
+    mockFiles.set(to, mockFiles.get(from)!);
+    mockFiles.delete(from);
+  }),
+  copyAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock('../SkiaCompatibility', () => ({ CompatSkia: {} }));
+jest.mock('@shopify/react-native-skia', () => ({ ColorType: {}, AlphaType: {}, BlendMode: {} }));
+jest.mock('../BrushEngine', () => ({ brushEngine: { getBrush: jest.fn(() => null), importBrush: jest.fn() } }));
+jest.mock('../LayerManager', () => ({
+  layerManager: { loadStackState: jest.fn(), getAllLayers: jest.fn(() => []) },
+}));
+jest.mock('../TextEngine', () => ({
+  textEngine: { loadFonts: jest.fn(async () => undefined), hasFont: jest.fn(() => true) },
+}));
+jest.mock('../PerspectiveGuideEngine', () => ({ perspectiveGuideEngine: { setGuide: jest.fn() } }));
+jest.mock('../ValkyrieEngine', () => ({ valkyrieEngine: {} }));
+jest.mock('../../core/DataManager', () => ({
+  dataManager: {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const manifestPath = (documentId: string) => `file:///docs/documents/${documentId}.pikaso/manifest.json`;
+
+const writeManifest = (documentId: string, manifest: any) =>
+  mockFiles.set(manifestPath(documentId), JSON.stringify(manifest));
+
+// Duplicating rewrites the manifest as read, so the copy shows what migrate and normalize produced
+const duplicate = async (manifest: any): Promise<DocumentManifest | null> => {
+  writeManifest('source', manifest);
+  const document = await documentStore.duplicate('source', 'Copy');
+  return document ? JSON.parse(mockFiles.get(manifestPath(document.id))!) : null;
+};
+
+const layer = (id: string) => ({ id, name: id, type: 'raster', visible: true, opacity: 1 });
+
+describe('DocumentStore manifests', () => {
+  let error: jest.SpyInstance;
+
+  beforeEach(() => {
+    mockFiles.clear();
+    error = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    error.mockRestore();
+  });
+
+  it('fills in fields a minimal manifest leaves out', async () => {
+    const manifest = await duplicate({
+      format: 'pikaso',
+      version: 1,
+      document: { id: 'source', width: 800, height: 600, layers: [layer('a'), layer('b')], settings: { smoothing: 0.9 } },
+    });
+
+    expect(manifest).toMatchObject({
+      format: 'pikaso',
+      version: 1,
+      minReaderVersion: 1,
+      pixelWidth: 800,
+      pixelHeight: 600,
+      groups: [],
+      rootOrder: ['a', 'b'],
+      brushes: {},
+      fonts: {},
+      layers: {},
+    });
+    expect(manifest!.document).toMatchObject({
+      name: 'Copy',
+      dpi: 300,
+      colorProfile: 'sRGB',
+      layerOrder: ['a', 'b'],
+      currentLayerId: null,
+      perspectiveGuide: null,
+    });
+    expect(manifest!.document.settings).toMatchObject({ smoothing: 0.9, pressureSensitivity: 0.8, gridSize: 50 });
+    expect(manifest!.document.layers.map(entry => entry.strokes)).toEqual([[], []]);
+  });
+
+  it('keeps the fields a manifest does set', async () => {
+    const manifest = await duplicate({
+      format: 'pikaso',
+      version: 1,
+      minReaderVersion: 1,
+      document: { id: 'source', width: 400, height: 400, layers: [layer('a')], layerOrder: ['a'], dpi: 72 },
+      pixelWidth: 1600,
+      pixelHeight: 1600,
+      groups: [{ id: 'g', name: 'Group', children: ['a'] }],
+      rootOrder: ['g'],
+      futureField: true,
+    });
+
+    expect(manifest).toMatchObject({ pixelWidth: 1600, pixelHeight: 1600, rootOrder: ['g'] });
+    expect(manifest!.groups).toEqual([{ id: 'g', name: 'Group', children: ['a'] }]);
+    expect(manifest!.document.dpi).toBe(72);
+    expect(manifest).not.toHaveProperty('futureField');
+  });
+
+  it('opens documents from newer writers that older readers can still read', async () => {
+    writeManifest('newer', {
+      format: 'pikaso',
+      version: 3,
+      minReaderVersion: 1,
+      document: { id: 'newer', width: 100, height: 100, layers: [layer('a')] },
+    });
+
+    const document = await documentStore.open('newer');
+
+    expect(document?.id).toBe('newer');
+    expect(layerManager.loadStackState).toHaveBeenCalledWith(
+      expect.objectContaining({ canvasWidth: 100, rootOrder: ['a'], currentLayerId: null })
+    );
+    documentStore.close();
+  });
+
+  it('rejects manifests it cannot read', async () => {
+    const base = { document: { id: 'source', width: 10, height: 10 } };
+
+    expect(await duplicate({ ...base, format: 'other', version: 1 })).toBeNull();
+    expect(await duplicate({ ...base, format: 'pikaso', version: 2 })).toBeNull();
+    expect(await duplicate({ ...base, format: 'pikaso', version: 0 })).toBeNull();
+
+    expect(error.mock.calls.map(([, cause]) => cause.message)).toEqual([
+      'Not a Pikaso document',
+      'Document format 2 needs a newer version of Pikaso',
+      'No migration from document format 0',
+    ]);
+  });
+});
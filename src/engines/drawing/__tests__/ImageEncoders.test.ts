@@ -0,0 +1,212 @@
+// src/engines/drawing/__tests__/ImageEncoders.test.ts
+import { unzlibSync } from 'fflate';
+import { ImageEncoder } from '../ImageEncoders';
+import { BinaryReader } from '../BinaryReader';
+import { BinaryWriter } from '../BinaryWriter';
+import { decodePackBits } from '../ABRParser';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const ascii = (bytes: Uint8Array): string => String.fromCharCode(...Array.from(bytes));
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => {
+    crc ^= byte;
+    for (let k = 0; k < 8; k++) {
+      crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+    }
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const pngChunk = (writer: BinaryWriter, type: string, data: Uint8Array) => {
+  writer.writeUint32(data.length);
+  writer.writeAscii(type);
+  writer.writeBytes(data);
+  writer.writeUint32(0);
+};
+
+const readPNGChunks = (png: Uint8Array) => {
+  const reader = new BinaryReader(png);
+  reader.skip(PNG_SIGNATURE.length);
+  const chunks: Array<{ type: string; data: Uint8Array; crc: number; expectedCrc: number }> = [];
+  while (!reader.eof()) {
+    const length = reader.readUint32();
+    const typeAndData = reader.readBytes(4 + length);
+    chunks.push({
+      type: ascii(typeAndData.subarray(0, 4)),
+      data: typeAndData.subarray(4),
+      crc: reader.readUint32(),
+      expectedCrc: crc32(typeAndData),
+    });
+  }
+  return chunks;
+};
+
+// Pixels of a 3x2 image, unpremultiplied RGBA
+const RGBA = Uint8Array.from([
+  255, 0, 0, 255, 255, 0, 0, 255, 0, 255, 0, 128,
+  0, 0, 255, 0, 10, 20, 30, 40, 10, 20, 30, 40,
+]);
+
+describe('ImageEncoder', () => {
+  it('writes a well-formed ICC profile', () => {
+    const profile = ImageEncoder.createICCProfile('display-p3');
+    const reader = new BinaryReader(profile);
+
+    expect(reader.readUint32()).toBe(profile.length);
+    reader.seek(12);
+    expect(reader.readAscii(12)).toBe('mntrRGB XYZ ');
+    reader.seek(36);
+    expect(reader.readAscii(4)).toBe('acsp');
+    reader.seek(128);
+
+    const count = reader.readUint32();
+    const signatures: string[] = [];
+    for (let i = 0; i < count; i++) {
+      signatures.push(reader.readAscii(4));
+      const offset = reader.readUint32();
+      const size = reader.readUint32();
+      expect(offset % 4).toBe(0);
+      expect(offset + size).toBeLessThanOrEqual(profile.length);
+    }
+    expect(signatures).toEqual(['desc', 'cprt', 'wtpt', 'rXYZ', 'gXYZ', 'bXYZ', 'rTRC', 'gTRC', 'bTRC']);
+  });
+
+  it('embeds a profile, resolution and text in a PNG after IHDR', () => {
+    const writer = new BinaryWriter();
+    writer.writeBytes(Uint8Array.from(PNG_SIGNATURE));
+    pngChunk(writer, 'IHDR', new Uint8Array(13));
+    pngChunk(writer, 'sRGB', Uint8Array.from([0]));
+    pngChunk(writer, 'IDAT', Uint8Array.from([1, 2, 3]));
+    pngChunk(writer, 'IEND', new Uint8Array(0));
+    const icc = ImageEncoder.createICCProfile('srgb');
+
+    const chunks = readPNGChunks(ImageEncoder.embedPNG(writer.toBytes(), {
+      icc,
+      dpi: 300,
+      text: { Software: 'Pikaso' },
+    }));
+
+    expect(chunks.map(chunk => chunk.type)).toEqual(['IHDR', 'iCCP', 'pHYs', 'tEXt', 'IDAT', 'IEND']);
+    chunks.slice(1, 4).forEach(chunk => expect(chunk.crc).toBe(chunk.expectedCrc));
+
+    const iccp = chunks[1].data;
+    const nameEnd = iccp.indexOf(0);
+    expect(ascii(iccp.subarray(0, nameEnd))).toBe('ICC Profile');
+    expect(unzlibSync(iccp.subarray(nameEnd + 2))).toEqual(icc);
+
+    const phys = new BinaryReader(chunks[2].data);
+    expect(phys.readUint32()).toBe(11811);
+    expect(phys.readUint32()).toBe(11811);
+    expect(phys.readUint8()).toBe(1);
+
+    expect(ascii(chunks[3].data)).toBe('Software\0Pikaso');
+  });
+
+  it('sets the JFIF density and adds the profile and a comment to a JPEG', () => {
+    const writer = new BinaryWriter();
+    writer.writeBytes(Uint8Array.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]));
+    writer.writeAscii('JFIF\0');
+    writer.writeBytes(Uint8Array.from([1, 1, 0, 0, 1, 0, 1, 0, 0]));
+    writer.writeBytes(Uint8Array.from([0xff, 0xdb, 0x00, 0x03, 0x07, 0xff, 0xd9]));
+    const jpeg = writer.toBytes();
+    const icc = ImageEncoder.createICCProfile('adobe-rgb');
+
+    const output = ImageEncoder.embedJPEG(jpeg, { icc, dpi: 144, text: { Title: 'Sketch' } });
+    const reader = new BinaryReader(output);
+
+    expect(reader.readUint16()).toBe(0xffd8);
+    expect(reader.readUint16()).toBe(0xffe0);
+    reader.skip(2 + 5);
+    reader.skip(2);
+    expect(reader.readUint8()).toBe(1);
+    expect(reader.readUint16()).toBe(144);
+    expect(reader.readUint16()).toBe(144);
+    reader.skip(2);
+
+    expect(reader.readUint16()).toBe(0xffe2);
+    const iccLength = reader.readUint16();
+    expect(reader.readAscii(12)).toBe('ICC_PROFILE\0');
+    expect(Array.from(reader.readBytes(2))).toEqual([1, 1]);
+    expect(reader.readBytes(iccLength - 16)).toEqual(icc);
+
+    expect(reader.readUint16()).toBe(0xfffe);
+    expect(reader.readAscii(reader.readUint16() - 2)).toBe('Title: Sketch');
+    expect(Array.from(reader.readBytes(reader.remaining))).toEqual([0xff, 0xdb, 0x00, 0x03, 0x07, 0xff, 0xd9]);
+  });
+
+  it('writes a TIFF whose strips decode back to the pixels', () => {
+    const tiff = ImageEncoder.encodeTIFF(RGBA, 3, 2, { alpha: true, dpi: 300, software: 'Pikaso' });
+    const reader = new BinaryReader(tiff);
+
+    expect(reader.readAscii(2)).toBe('MM');
+    expect(reader.readUint16()).toBe(42);
+    reader.seek(reader.readUint32());
+
+    const entries: Record<number, { type: number; count: number; value: number }> = {};
+    const count = reader.readUint16();
+    for (let i = 0; i < count; i++) {
+      const tag = reader.readUint16();
+      const type = reader.readUint16();
+      const valueCount = reader.readUint32();
+      const value = type === 3 && valueCount === 1 ? reader.readUint16() : reader.readUint32();
+      if (type === 3 && valueCount === 1) reader.skip(2);
+      entries[tag] = { type, count: valueCount, value };
+    }
+
+    expect(entries[256].value).toBe(3);
+    expect(entries[257].value).toBe(2);
+    expect(entries[277].value).toBe(4);
+    expect(entries[338].value).toBe(2);
+
+    // Two strips, so their offsets and byte counts are stored out of line
+    const readLongs = (offset: number) => {
+      reader.seek(offset);
+      return [reader.readUint32(), reader.readUint32()];
+    };
+    const offsets = readLongs(entries[273].value);
+    const lengths = readLongs(entries[279].value);
+    const decoded = new Uint8Array(RGBA.length);
+    offsets.forEach((offset, row) => {
+      decodePackBits(tiff.subarray(offset, offset + lengths[row]), decoded, row * 12, 12);
+    });
+    expect(decoded).toEqual(RGBA);
+
+    reader.seek(entries[282].value);
+    expect([reader.readUint32(), reader.readUint32()]).toEqual([300, 1]);
+  });
+
+  it('writes a PDF with a valid cross-reference table', () => {
+    const pdf = ImageEncoder.encodePDF(RGBA, 3, 2, {
+      alpha: true,
+      pageWidth: 216,
+      pageHeight: 144,
+      title: 'Sketch (draft)',
+    });
+    const text = ascii(pdf);
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('/MediaBox [0 0 216 144]');
+    expect(text).toContain('/SMask 6 0 R');
+    expect(text).toContain('/Title (Sketch \\(draft\\))');
+
+    const startxref = Number(text.slice(text.lastIndexOf('startxref') + 9).trim().split('\n')[0]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+
+    // Every xref offset points at the start of its object
+    const lines = text.slice(startxref).split('\n');
+    const objectCount = Number(lines[1].split(' ')[1]);
+    for (let id = 1; id < objectCount; id++) {
+      const offset = Number(lines[2 + id].slice(0, 10));
+      expect(text.slice(offset, offset + `${id} 0 obj`.length)).toBe(`${id} 0 obj`);
+    }
+
+    const imageStart = text.indexOf('stream\n', text.indexOf('5 0 obj')) + 'stream\n'.length;
+    const imageLength = Number(/\/Length (\d+)/.exec(text.slice(text.indexOf('5 0 obj')))![1]);
+    const rgb = unzlibSync(pdf.subarray(imageStart, imageStart + imageLength));
+    expect(Array.from(rgb.subarray(0, 6))).toEqual([255, 0, 0, 255, 0, 0]);
+  });
+});
@@ -0,0 +1,153 @@
+// src/engines/drawing/__tests__/PSDCodec.test.ts
+import { PSDCodec, PSDFile, PSDGroupLayer, PSDPixelLayer, encodePackBits } from '../PSDCodec';
+import { decodePackBits } from '../ABRParser';
+import { BinaryWriter } from '../BinaryWriter';
+import { BinaryReader } from '../BinaryReader';
+
+const pixels = (width: number, height: number, seed: number): Uint8Array => {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = (i * seed + (i >> 2)) & 0xff;
+  }
+  return data;
+};
+
+const pixelLayer = (overrides: Partial<PSDPixelLayer> = {}): PSDPixelLayer => ({
+  kind: 'pixel',
+  name: 'Layer',
+  visible: true,
+  opacity: 1,
+  blendMode: 'norm',
+  clipping: false,
+  mask: null,
+  unsupported: [],
+  left: 0,
+  top: 0,
+  width: 4,
+  height: 3,
+  pixels: pixels(4, 3, 7),
+  ...overrides,
+});
+
+describe('BinaryWriter', () => {
+  it('writes what BinaryReader reads back', () => {
+    const writer = new BinaryWriter(16);
+    writer.writeAscii('8BPS');
+    writer.writeUint8(0xfe);
+    writer.writeInt8(-3);
+    writer.writeUint16(0xbeef);
+    writer.writeInt16(-1234);
+    writer.writeUint32(0xdeadbeef);
+    writer.writeInt32(-123456789);
+    writer.writePascalString('Layer 1', 4);
+    writer.writeUnicodeString('Ebene ü');
+    writer.writeBytes(Uint8Array.from([1, 2, 3]));
+
+    const reader = new BinaryReader(writer.toBytes());
+
+    expect(reader.readAscii(4)).toBe('8BPS');
+    expect(reader.readUint8()).toBe(0xfe);
+    expect(reader.readInt8()).toBe(-3);
+    expect(reader.readUint16()).toBe(0xbeef);
+    expect(reader.readInt16()).toBe(-1234);
+    expect(reader.readUint32()).toBe(0xdeadbeef);
+    expect(reader.readInt32()).toBe(-123456789);
+    expect(reader.readPascalString(4)).toBe('Layer 1');
+    expect(reader.readUnicodeString()).toBe('Ebene ü');
+    expect(Array.from(reader.readBytes(3))).toEqual([1, 2, 3]);
+    expect(reader.eof()).toBe(true);
+  });
+
+  it('fills in reserved length fields, padded', () => {
+    const writer = new BinaryWriter();
+    const length = writer.beginLength();
+    writer.writeBytes(Uint8Array.from([9, 9, 9]));
+    writer.endLength(length, 4);
+
+    const reader = new BinaryReader(writer.toBytes());
+
+    expect(reader.readUint32()).toBe(4);
+    expect(reader.remaining).toBe(4);
+  });
+});
+
+describe('PackBits', () => {
+  it('decodes what it encodes', () => {
+    const input = Uint8Array.from([
+      ...new Array(200).fill(5),
+      1, 2, 3, 4,
+      ...new Array(3).fill(0),
+      ...Array.from({ length: 140 }, (_, i) => i),
+    ]);
+    const output = new Uint8Array(input.length);
+
+    decodePackBits(encodePackBits(input), output, 0, input.length);
+
+    expect(output).toEqual(input);
+  });
+});
+
+describe('PSDCodec', () => {
+  it('round-trips layers, groups, masks and the flattened image', () => {
+    const mask = {
+      left: 1,
+      top: 0,
+      width: 2,
+      height: 2,
+      defaultColor: 255,
+      disabled: false,
+      data: Uint8Array.from([0, 64, 128, 255]),
+    };
+    const file: PSDFile = {
+      width: 6,
+      height: 5,
+      composite: pixels(6, 5, 3),
+      layers: [
+        pixelLayer({ name: 'Background', width: 6, height: 5, pixels: pixels(6, 5, 11) }),
+        {
+          kind: 'group',
+          name: 'Group',
+          visible: false,
+          opacity: 0.5,
+          blendMode: 'pass',
+          clipping: false,
+          mask: null,
+          unsupported: [],
+          expanded: true,
+          children: [
+            pixelLayer({ name: 'Ink', left: 1, top: 2, blendMode: 'mul ', mask }),
+            pixelLayer({ name: 'Tönung', clipping: true, pixels: null, width: 0, height: 0 }),
+          ],
+        },
+      ],
+    };
+
+    const { file: decoded, warnings } = PSDCodec.decode(PSDCodec.encode(file));
+
+    expect(warnings).toEqual([]);
+    expect(decoded.width).toBe(6);
+    expect(decoded.height).toBe(5);
+    expect(decoded.composite).toEqual(file.composite);
+    expect(decoded.layers.map(layer => layer.name)).toEqual(['Background', 'Group']);
+
+    const background = decoded.layers[0] as PSDPixelLayer;
+    expect(background.pixels).toEqual(pixels(6, 5, 11));
+
+    const group = decoded.layers[1] as PSDGroupLayer;
+    expect(group.kind).toBe('group');
+    expect(group.visible).toBe(false);
+    expect(group.opacity).toBeCloseTo(0.5, 2);
+    expect(group.children.map(layer => layer.name)).toEqual(['Ink', 'Tönung']);
+
+    const ink = group.children[0] as PSDPixelLayer;
+    expect(ink).toMatchObject({ left: 1, top: 2, width: 4, height: 3, blendMode: 'mul ' });
+    expect(ink.pixels).toEqual(pixels(4, 3, 7));
+    expect(ink.mask).toMatchObject({ left: 1, top: 0, width: 2, height: 2, defaultColor: 255 });
+    expect(ink.mask?.data).toEqual(mask.data);
+    expect(group.children[1].clipping).toBe(true);
+  });
+
+  it('rejects files that are not Photoshop documents', () => {
+    expect(() => PSDCodec.decode(new Uint8Array(64))).toThrow('Not a Photoshop document');
+  });
+});
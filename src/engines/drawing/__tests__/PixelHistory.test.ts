@@ -0,0 +1,239 @@
+// src/engines/drawing/__tests__/PixelHistory.test.ts
+import { pixelHistory } from '../PixelHistory';
+import { SkImage, SkSurface } from '../SkiaCompatibility';
+import { Bounds } from '../../../types/drawing';
+
+// Plain RGBA rasters stand in for Skia images and surfaces
+class MockImage {
+  constructor(public readonly w: number, public readonly h: number, public readonly pixels: Uint8Array) {}
+
+  width(): number {
+    return this.w;
+  }
+
+  height(): number {
+    return this.h;
+  }
+
+  readPixels(x: number, y: number, info: { width: number; height: number }): Uint8Array {
+    const output = new Uint8Array(info.width * info.height * 4);
+    for (let row = 0; row < info.height; row++) {
+      const start = ((y + row) * this.w + x) * 4;
+      output.set(this.pixels.subarray(start, start + info.width * 4), row * info.width * 4);
+    }
+    return output;
+  }
+}
+
+class MockSurface {
+  public readonly pixels: Uint8Array;
+  private clip: Bounds | null = null;
+
+  constructor(public readonly w: number, public readonly h: number) {
+    this.pixels = new Uint8Array(w * h * 4);
+  }
+
+  width(): number {
+    return this.w;
+  }
+
+  height(): number {
+    return this.h;
+  }
+
+  flush(): void {}
+
+  makeImageSnapshot(): MockImage {
+    return new MockImage(this.w, this.h, this.pixels.slice());
+  }
+
+  getCanvas() {
+    return {
+      save: () => undefined,
+      restore: () => {
+        this.clip = null;
+      },
+      clipRect: (rect: Bounds) => {
+        this.clip = rect;
+      },
+      clear: () => this.write(this.clip ?? { x: 0, y: 0, width: this.w, height: this.h }, () => null),
+      drawImage: (image: MockImage, x: number, y: number) => {
+        this.write({ x, y, width: image.w, height: image.h }, (left, top, width) => {
+          const start = ((top - y) * image.w + (left - x)) * 4;
+          return image.pixels.subarray(start, start + width * 4);
+        });
+      },
+    };
+  }
+
+  // Copies `row(left, y, width)` (transparent when null) into each row of `rect` inside the clip
+  write(rect: Bounds, row: (left: number, y: number, width: number) => Uint8Array | null): void {
+    const clip = this.clip ?? { x: 0, y: 0, width: this.w, height: this.h };
+    const left = Math.max(rect.x, clip.x, 0);
+    const top = Math.max(rect.y, clip.y, 0);
+    const right = Math.min(rect.x + rect.width, clip.x + clip.width, this.w);
+    const bottom = Math.min(rect.y + rect.height, clip.y + clip.height, this.h);
+    for (let y = top; y < bottom; y++) {
+      const start = (y * this.w + left) * 4;
+      const bytes = row(left, y, right - left);
+      if (bytes) {
+        this.pixels.set(bytes, start);
+      } else {
+        this.pixels.fill(0, start, (y * this.w + right) * 4);
+      }
+    }
+  }
+}
+
+jest.mock('../SkiaCompatibility', () => ({
+  CompatSkia: {
+    XYWHRect: (x: number, y: number, width: number, height: number) => ({ x, y, width, height }),
+    Color: (color: string) => color,
+    Data: { fromBytes: (bytes: Uint8Array) => bytes },
+    Image: {
+      MakeImage: (info: { width: number; height: number }, bytes: Uint8Array) =>
+        new MockImage(info.width, info.height, bytes),
+    },
+  },
+}));
+
+jest.mock('@shopify/react-native-skia', () => ({
+  ColorType: { RGBA_8888: 4 },
+  AlphaType: { Premul: 2 },
+  ClipOp: { Intersect: 1 },
+}));
+
+const mockFiles = new Map<string, string>();
+
+jest.mock('expo-file-system', () => ({
+  cacheDirectory: 'file:///cache/',
+  EncodingType: { Base64: 'base64' },
+  writeAsStringAsync: jest.fn(async (file: string, contents: string) => {
+    mockFiles.set(file, contents);
+  }),
+  readAsStringAsync: jest.fn(async (file: string) => mockFiles.get(file)),
+  deleteAsync: jest.fn(async (file: string) => {
+    mockFiles.delete(file);
+  }),
+  makeDirectoryAsync: jest.fn(async () => undefined),
+}));
+
+jest.mock('../../core/DataManager', () => ({
+  dataManager: {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+const asImage = (image: MockImage) => image as unknown as SkImage;
+const asSurface = (surface: MockSurface) => surface as unknown as SkSurface;
+
+// Opaque pixels whose colour depends on position and `seed`
+const paint = (surface: MockSurface, rect: Bounds, seed: number) =>
+  surface.write(rect, (left, y, width) => {
+    const row = new Uint8Array(width * 4);
+    for (let i = 0; i < width; i++) {
+      row.set([(left + i + seed) & 0xff, (y * seed) & 0xff, seed & 0xff, 255], i * 4);
+    }
+    return row;
+  });
+
+// Large rasters are compared directly; a failing toEqual diff on them exhausts memory
+const samePixels = (a: Uint8Array, b: Uint8Array) => Buffer.compare(a, b) === 0;
+
+const flushSpills = async () => {
+  for (let i = 0; i < 50 && pixelHistory.getStats().spilledBytes === 0; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+  }
+};
+
+describe('PixelHistory', () => {
+  it('keeps only the tiles that changed', () => {
+    const surface = new MockSurface(600, 300);
+    paint(surface, { x: 0, y: 0, width: 600, height: 300 }, 3);
+    const before = surface.makeImageSnapshot();
+    paint(surface, { x: 300, y: 10, width: 20, height: 20 }, 9);
+
+    const patch = pixelHistory.createPatch(
+      { x: 0, y: 0, width: 600, height: 300 },
+      asImage(before),
+      asImage(surface.makeImageSnapshot())
+    );
+
+    expect(patch.tiles.map(tile => [tile.x, tile.y, tile.width, tile.height])).toEqual([[256, 0, 256, 256]]);
+    pixelHistory.release(patch);
+  });
+
+  it('restores either side of a patch exactly', () => {
+    const surface = new MockSurface(300, 300);
+    paint(surface, { x: 0, y: 0, width: 300, height: 300 }, 5);
+    const original = surface.pixels.slice();
+    const bounds = { x: 40, y: 200, width: 100, height: 80 };
+    const before = surface.makeImageSnapshot();
+    paint(surface, bounds, 17);
+    const edited = surface.pixels.slice();
+
+    const patch = pixelHistory.createPatch(
+      { x: 0, y: 0, width: 300, height: 300 },
+      asImage(before),
+      asImage(surface.makeImageSnapshot())
+    );
+    const applied = jest.fn();
+
+    pixelHistory.apply(patch, 'before', asSurface(surface), applied);
+    expect(applied).toHaveBeenCalled();
+    expect(samePixels(surface.pixels, original)).toBe(true);
+
+    pixelHistory.apply(patch, 'after', asSurface(surface));
+    expect(samePixels(surface.pixels, edited)).toBe(true);
+    pixelHistory.release(patch);
+  });
+
+  it('captures a surface so it can be restored onto a blank one', () => {
+    const source = new MockSurface(280, 40);
+    paint(source, { x: 10, y: 5, width: 260, height: 30 }, 11);
+
+    const patch = pixelHistory.captureSurface(asSurface(source));
+    const target = new MockSurface(280, 40);
+    pixelHistory.apply(patch, 'before', asSurface(target));
+
+    expect(samePixels(target.pixels, source.pixels)).toBe(true);
+    expect(patch.tiles.every(tile => tile.after === null)).toBe(true);
+    pixelHistory.release(patch);
+  });
+
+  it('frees memory when a patch is released', () => {
+    const surface = new MockSurface(64, 64);
+    paint(surface, { x: 0, y: 0, width: 64, height: 64 }, 1);
+    const resident = pixelHistory.getStats().residentBytes;
+
+    const patch = pixelHistory.captureSurface(asSurface(surface));
+    expect(pixelHistory.getStats().residentBytes).toBe(resident + 64 * 64 * 4);
+
+    pixelHistory.release(patch);
+    expect(pixelHistory.getStats().residentBytes).toBe(resident);
+  });
+
+  it('spills tiles past the memory budget and reads them back on restore', async () => {
+    pixelHistory.setMemoryBudget(0); // Clamped to the minimum
+    const budget = pixelHistory.getMemoryBudget();
+    const size = 256 * 9;
+    const surface = new MockSurface(size, size);
+    paint(surface, { x: 0, y: 0, width: size, height: size }, 7);
+    const painted = surface.pixels.slice();
+
+    const patch = pixelHistory.captureSurface(asSurface(surface));
+    await flushSpills();
+
+    const stats = pixelHistory.getStats();
+    expect(stats.spilledBytes).toBeGreaterThan(0);
+    expect(stats.residentBytes).toBeLessThanOrEqual(budget);
+
+    const target = new MockSurface(size, size);
+    await new Promise<void>(resolve => pixelHistory.apply(patch, 'before', asSurface(target), resolve));
+    expect(samePixels(target.pixels, painted)).toBe(true);
+
+    pixelHistory.release(patch);
+    expect(pixelHistory.getStats()).toMatchObject({ residentBytes: 0, spilledBytes: 0 });
+  });
+});
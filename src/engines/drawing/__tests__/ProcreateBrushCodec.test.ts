@@ -0,0 +1,125 @@
+// src/engines/drawing/__tests__/ProcreateBrushCodec.test.ts
+import { strToU8, zipSync } from 'fflate';
+import {
+  ProcreateBrushCodec,
+  ProcreateBrushFile,
+  generateBrushUUID,
+  readPlistBoolean,
+  readPlistNumber,
+} from '../ProcreateBrushCodec';
+import { archiveKeyedObject, writeBinaryPropertyList } from '../PropertyList';
+
+// Stand-in PNG payloads; the codec stores them untouched
+const image = (seed: number) => Uint8Array.from({ length: 24 }, (_, i) => (i * seed) & 0xff);
+
+const brushFile = (overrides: Partial<ProcreateBrushFile> = {}): ProcreateBrushFile => ({
+  uuid: '6F1C2D3E-4A5B-4C6D-8E7F-001122334455',
+  name: 'Dry Ink',
+  settings: {
+    paintSize: 0.35,
+    paintOpacity: 1,
+    plotSpacing: 0.08,
+    dynamicsPressureSize: 0.6,
+    shapeRotation: 45,
+    textureMovement: false,
+    bundledShapePath: 'Shape.png',
+  },
+  shape: image(3),
+  grain: image(5),
+  thumbnail: image(7),
+  ...overrides,
+});
+
+const archive = (name: string) =>
+  writeBinaryPropertyList(archiveKeyedObject({ name, paintSize: 0.5 }, 'SilicaBrush'));
+
+describe('ProcreateBrushCodec', () => {
+  it('round-trips a single brush with its images', () => {
+    const brush = brushFile();
+
+    const decoded = ProcreateBrushCodec.decode(ProcreateBrushCodec.encodeBrush(brush));
+
+    expect(decoded.kind).toBe('brush');
+    expect(decoded.name).toBeNull();
+    expect(decoded.warnings).toEqual([]);
+    expect(decoded.brushes).toHaveLength(1);
+
+    const [result] = decoded.brushes;
+    expect(result.name).toBe('Dry Ink');
+    expect(result.settings).toEqual({ ...brush.settings, name: 'Dry Ink' });
+    expect(result.shape).toEqual(brush.shape);
+    expect(result.grain).toEqual(brush.grain);
+    expect(result.thumbnail).toEqual(brush.thumbnail);
+  });
+
+  it('round-trips a brush set in its own order', () => {
+    const brushes = [
+      brushFile({ uuid: 'B-2', name: 'Second', grain: undefined }),
+      brushFile({ uuid: 'A-1', name: 'First', thumbnail: undefined }),
+    ];
+
+    const decoded = ProcreateBrushCodec.decode(ProcreateBrushCodec.encodeBrushSet('Inking', brushes));
+
+    expect(decoded.kind).toBe('brushset');
+    expect(decoded.name).toBe('Inking');
+    expect(decoded.brushes.map(brush => [brush.uuid, brush.name])).toEqual([
+      ['B-2', 'Second'],
+      ['A-1', 'First'],
+    ]);
+    expect(decoded.brushes[0].grain).toBeUndefined();
+    expect(decoded.brushes[1].thumbnail).toBeUndefined();
+    expect(decoded.brushes[1].shape).toEqual(image(3));
+  });
+
+  it('puts brushes missing from the set manifest last', () => {
+    const data = zipSync({
+      'brushset.plist': writeBinaryPropertyList({ name: 'Mixed', brushes: ['two', 'one'] }),
+      'extra/Brush.archive': archive('Extra'),
+      'one/Brush.archive': archive('One'),
+      'two/Brush.archive': archive('Two'),
+      '__MACOSX/one/Brush.archive': strToU8('resource fork'),
+    });
+
+    const decoded = ProcreateBrushCodec.decode(data);
+
+    expect(decoded.warnings).toEqual([]);
+    expect(decoded.brushes.map(brush => brush.name)).toEqual(['Two', 'One', 'Extra']);
+  });
+
+  it('skips unreadable brushes with a warning', () => {
+    const data = zipSync({
+      'good/Brush.archive': archive('Good'),
+      'bad/Brush.archive': strToU8('not a plist'),
+    });
+
+    const decoded = ProcreateBrushCodec.decode(data);
+
+    expect(decoded.brushes.map(brush => brush.name)).toEqual(['Good']);
+    expect(decoded.warnings).toEqual(['Brush "bad" could not be read: Unrecognized property list format']);
+  });
+
+  it('rejects files that are not brush archives', () => {
+    expect(() => ProcreateBrushCodec.decode(strToU8('plain text'))).toThrow('Not a Procreate brush archive');
+    expect(() => ProcreateBrushCodec.decode(zipSync({ 'Shape.png': image(1) }))).toThrow('No Brush.archive found');
+  });
+});
+
+describe('Procreate helpers', () => {
+  it('generates version 4 UUIDs', () => {
+    const uuid = generateBrushUUID();
+
+    expect(uuid).toMatch(/^[0-9A-F]{8}-[0-9A-F]{4}-4[0-9A-F]{3}-[89AB][0-9A-F]{3}-[0-9A-F]{12}$/);
+    expect(generateBrushUUID()).not.toBe(uuid);
+  });
+
+  it('reads numbers and booleans stored as either type', () => {
+    const settings = { size: 0.4, on: true, off: 0, label: 'x' };
+
+    expect(readPlistNumber(settings, 'size')).toBe(0.4);
+    expect(readPlistNumber(settings, 'on')).toBe(1);
+    expect(readPlistNumber(settings, 'label')).toBeUndefined();
+    expect(readPlistBoolean(settings, 'on')).toBe(true);
+    expect(readPlistBoolean(settings, 'off')).toBe(false);
+    expect(readPlistBoolean(settings, 'missing')).toBeUndefined();
+  });
+});
@@ -0,0 +1,150 @@
+// src/engines/drawing/__tests__/PropertyList.test.ts
+import {
+  PlistDictionary,
+  PlistUID,
+  parsePropertyList,
+  writeBinaryPropertyList,
+  archiveKeyedObject,
+  unarchiveKeyedObject,
+  base64ToBytes,
+  bytesToBase64,
+} from '../PropertyList';
+
+describe('PropertyList', () => {
+  it('round-trips a binary plist', () => {
+    const root: PlistDictionary = {
+      name: 'Brush',
+      name2: 'Brush',
+      size: 42,
+      negative: -7,
+      ratio: 0.25,
+      enabled: true,
+      disabled: false,
+      data: Uint8Array.from([1, 2, 3, 250]),
+      list: [1, 'two', [3]],
+      nested: { unicode: 'Pinsel ✎' },
+      reference: new PlistUID(3),
+    };
+
+    const parsed = parsePropertyList(writeBinaryPropertyList(root)) as PlistDictionary;
+
+    expect(parsed).toMatchObject({
+      name: 'Brush',
+      name2: 'Brush',
+      size: 42,
+      negative: -7,
+      ratio: 0.25,
+      enabled: true,
+      disabled: false,
+      list: [1, 'two', [3]],
+      nested: { unicode: 'Pinsel ✎' },
+    });
+    expect(parsed.data).toEqual(root.data);
+    expect((parsed.reference as PlistUID).value).toBe(3);
+  });
+
+  it('widens references and offsets for large plists', () => {
+    const root: PlistDictionary = {
+      big: 5000000000,
+      negativeBig: -1099511627776,
+      created: new Date(Date.UTC(2024, 4, 1, 12, 30)),
+    };
+    for (let i = 0; i < 300; i++) {
+      root[`key${i}`] = `value ${i}`;
+    }
+
+    const bytes = writeBinaryPropertyList(root);
+    const parsed = parsePropertyList(bytes) as PlistDictionary;
+
+    expect(bytes[bytes.length - 32 + 7]).toBe(2); // Reference size in the trailer
+    expect(parsed.big).toBe(5000000000);
+    expect(parsed.negativeBig).toBe(-1099511627776);
+    expect((parsed.created as Date).toISOString()).toBe('2024-05-01T12:30:00.000Z');
+    expect(parsed.key299).toBe('value 299');
+    expect(Object.keys(parsed)).toHaveLength(303);
+  });
+
+  it('reads XML plists', () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+      <plist version="1.0"><dict>
+        <key>title</key><string>Ink &amp; Wash</string>
+        <key>count</key><integer>3</integer>
+        <key>scale</key><real>1.5</real>
+        <key>on</key><true/>
+        <key>items</key><array><string>a</string><false/></array>
+      </dict></plist>`;
+
+    expect(parsePropertyList(new TextEncoder().encode(xml))).toEqual({
+      title: 'Ink & Wash',
+      count: 3,
+      scale: 1.5,
+      on: true,
+      items: ['a', false],
+    });
+  });
+
+  it('unarchives what it archives', () => {
+    const archive = archiveKeyedObject({ name: 'Brush', size: 12, missing: null }, 'SilicaBrush');
+    const parsed = parsePropertyList(writeBinaryPropertyList(archive));
+
+    expect(unarchiveKeyedObject(parsed)).toEqual({
+      $classname: 'SilicaBrush',
+      name: 'Brush',
+      size: 12,
+      missing: null,
+    });
+  });
+
+  it('collapses Foundation wrappers and follows shared references', () => {
+    const archive: PlistDictionary = {
+      $version: 100000,
+      $archiver: 'NSKeyedArchiver',
+      $top: { root: new PlistUID(1) },
+      $objects: [
+        '$null',
+        {
+          name: new PlistUID(2),
+          alias: new PlistUID(2),
+          tags: new PlistUID(3),
+          settings: new PlistUID(6),
+          title: new PlistUID(8),
+          missing: new PlistUID(0),
+          $class: new PlistUID(12),
+        },
+        'Brush',
+        { 'NS.objects': [new PlistUID(4), new PlistUID(5)], $class: new PlistUID(9) },
+        'grain',
+        'shape',
+        { 'NS.keys': [new PlistUID(7)], 'NS.objects': [new PlistUID(2)], $class: new PlistUID(10) },
+        'label',
+        { 'NS.string': 'Inking', $class: new PlistUID(11) },
+        { $classname: 'NSArray', $classes: ['NSArray', 'NSObject'] },
+        { $classname: 'NSDictionary', $classes: ['NSDictionary', 'NSObject'] },
+        { $classname: 'NSMutableString', $classes: ['NSMutableString', 'NSString', 'NSObject'] },
+        { $classname: 'SilicaBrush', $classes: ['SilicaBrush', 'NSObject'] },
+      ],
+    };
+
+    expect(unarchiveKeyedObject(parsePropertyList(writeBinaryPropertyList(archive)))).toEqual({
+      $classname: 'SilicaBrush',
+      name: 'Brush',
+      alias: 'Brush',
+      tags: ['grain', 'shape'],
+      settings: { label: 'Brush' },
+      title: 'Inking',
+      missing: null,
+    });
+  });
+
+  it('rejects plists that are not keyed archives', () => {
+    expect(() => unarchiveKeyedObject({ name: 'Brush' })).toThrow('Not an NSKeyedArchiver archive');
+    expect(() => parsePropertyList(Uint8Array.from([1, 2, 3]))).toThrow('Unrecognized property list format');
+  });
+
+  it('converts base64 both ways', () => {
+    const bytes = Uint8Array.from({ length: 31 }, (_, i) => (i * 37) & 0xff);
+
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+    expect(bytesToBase64(Uint8Array.from([77, 97, 110]))).toBe('TWFu');
+  });
+});
@@ -0,0 +1,90 @@
+// src/engines/drawing/__tests__/ResponseCurves.test.ts
+import { responseCurveManager } from '../ResponseCurves';
+import { dataManager } from '../../core/DataManager';
+import { Point } from '../../../types/drawing';
+
+jest.mock('../../core/DataManager', () => ({
+  dataManager: {
+    get: jest.fn().mockResolvedValue(null),
+    set: jest.fn().mockResolvedValue(undefined),
+  },
+}));
+
+describe('ResponseCurveManager', () => {
+  afterEach(async () => {
+    await responseCurveManager.setGlobalPressureCurve(responseCurveManager.createPreset('linear'));
+  });
+
+  it('evaluates the linear preset as the identity', () => {
+    const linear = responseCurveManager.createPreset('linear');
+
+    [0, 0.2, 0.5, 0.9, 1].forEach(input => {
+      expect(responseCurveManager.evaluate(linear, input)).toBeCloseTo(input, 3);
+    });
+    expect(responseCurveManager.evaluate(linear, -1)).toBe(0);
+    expect(responseCurveManager.evaluate(linear, 2)).toBeCloseTo(1);
+  });
+
+  it('keeps curves monotone between control points', () => {
+    const curve = responseCurveManager.createPreset('soft');
+    let previous = -1;
+
+    for (let i = 0; i <= 100; i++) {
+      const value = responseCurveManager.evaluate(curve, i / 100);
+      expect(value).toBeGreaterThanOrEqual(previous - 1e-6);
+      previous = value;
+    }
+    expect(responseCurveManager.evaluate(curve, 0.25)).toBeCloseTo(0.45, 2);
+  });
+
+  it('resamples a curve whose points were edited in place', () => {
+    const curve = responseCurveManager.createCurve([{ x: 0, y: 0 }, { x: 0.5, y: 0.5 }, { x: 1, y: 1 }]);
+    expect(responseCurveManager.evaluate(curve, 0.5)).toBeCloseTo(0.5, 3);
+
+    curve.points[1].y = 0.8;
+
+    expect(responseCurveManager.evaluate(curve, 0.5)).toBeCloseTo(0.8, 3);
+  });
+
+  it('normalizes user-edited points', () => {
+    const curve = responseCurveManager.createCurve([{ x: 0.8, y: 1.4 }, { x: 0.2, y: 0.1 }]);
+
+    expect(curve.preset).toBe('custom');
+    expect(curve.points).toEqual([
+      { x: 0, y: 0.1 },
+      { x: 0.2, y: 0.1 },
+      { x: 0.8, y: 1 },
+      { x: 1, y: 1 },
+    ]);
+  });
+
+  it('maps pressure through the global curve, then the brush curve', async () => {
+    await responseCurveManager.setGlobalPressureCurve(
+      responseCurveManager.createCurve([{ x: 0, y: 0 }, { x: 1, y: 0.5 }])
+    );
+    const brushCurve = responseCurveManager.createCurve([{ x: 0, y: 0 }, { x: 0.5, y: 1 }]);
+
+    expect(dataManager.set).toHaveBeenCalledWith('global_pressure_curve', expect.objectContaining({ preset: 'custom' }));
+    expect(responseCurveManager.mapPressure(1)).toBeCloseTo(0.5, 3);
+    expect(responseCurveManager.mapPressure(1, brushCurve)).toBeCloseTo(1, 3);
+  });
+
+  it('calibrates a light hand so its usual pressure reaches the middle of the range', () => {
+    const stroke = (count: number): Point[] =>
+      Array.from({ length: count }, (_, i) => ({ x: i, y: 0, pressure: 0.1 + 0.3 * (i / (count - 1)) }));
+
+    expect(responseCurveManager.calibrate([stroke(10)])).toBeNull();
+
+    const curve = responseCurveManager.calibrate([stroke(60), stroke(60)]);
+    expect(curve).not.toBeNull();
+    expect(responseCurveManager.evaluate(curve!, 0.25)).toBeCloseTo(0.5, 1);
+    expect(responseCurveManager.evaluate(curve!, 0.45)).toBeGreaterThan(0.95);
+  });
+
+  it('builds curves from legacy evenly spaced values', () => {
+    const curve = responseCurveManager.fromLegacy([0, 0.25, 1]);
+
+    expect(curve.points).toEqual([{ x: 0, y: 0 }, { x: 0.5, y: 0.25 }, { x: 1, y: 1 }]);
+    expect(responseCurveManager.fromLegacy([1]).preset).toBe('linear');
+  });
+});
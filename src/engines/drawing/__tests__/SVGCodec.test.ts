@@ -0,0 +1,120 @@
+// src/engines/drawing/__tests__/SVGCodec.test.ts
+import { SVGCodec, SVGDocument, SVGPath } from '../SVGCodec';
+import { VectorNode } from '../../../types/drawing';
+
+const node = (x: number, y: number, pressure = 1): VectorNode => ({
+  x,
+  y,
+  handleIn: { x, y },
+  handleOut: { x, y },
+  pressure,
+});
+
+const path = (overrides: Partial<SVGPath> = {}): SVGPath => ({
+  id: 'stroke_1',
+  nodes: [node(10, 10, 0.25), node(40, 20, 0.5), node(70, 60, 1)],
+  closed: false,
+  color: '#ff8000',
+  opacity: 0.5,
+  width: 6,
+  size: 8,
+  brushId: 'ink-pen',
+  ...overrides,
+});
+
+describe('SVGCodec', () => {
+  it('round-trips groups, paths and pressure', () => {
+    const document: SVGDocument = {
+      width: 200,
+      height: 100,
+      groups: [
+        { id: 'layer_1', name: 'Sketch & Ink', opacity: 0.75, visible: true, paths: [path()] },
+        { name: 'Shapes', opacity: 1, visible: true, paths: [path({ id: 'stroke_2', closed: true })] },
+      ],
+    };
+
+    const { document: decoded, warnings } = SVGCodec.decode(SVGCodec.encode(document));
+
+    expect(warnings).toEqual([]);
+    expect(decoded.width).toBe(200);
+    expect(decoded.height).toBe(100);
+    expect(decoded.groups.map(group => group.name)).toEqual(['Sketch & Ink', 'Shapes']);
+    expect(decoded.groups[0].opacity).toBeCloseTo(0.75);
+
+    const [first] = decoded.groups[0].paths;
+    expect(first.id).toBe('stroke_1');
+    expect(first.color).toBe('#ff8000');
+    expect(first.opacity).toBeCloseTo(0.5);
+    expect(first.width).toBeCloseTo(6);
+    expect(first.size).toBeCloseTo(8);
+    expect(first.brushId).toBe('ink-pen');
+    expect(first.nodes.map(({ x, y, pressure }) => [x, y, pressure])).toEqual([
+      [10, 10, 0.25],
+      [40, 20, 0.5],
+      [70, 60, 1],
+    ]);
+    expect(decoded.groups[1].paths[0].closed).toBe(true);
+  });
+
+  it('keeps the paths of hidden groups and marks the group hidden', () => {
+    const document: SVGDocument = {
+      width: 100,
+      height: 100,
+      groups: [{ name: 'Hidden', opacity: 1, visible: false, paths: [path()] }],
+    };
+
+    const { document: decoded } = SVGCodec.decode(SVGCodec.encode(document));
+
+    expect(decoded.groups[0].visible).toBe(false);
+    expect(decoded.groups[0].paths).toHaveLength(1);
+  });
+
+  it('still skips hidden elements inside a group', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100">
+      <g style="visibility:hidden">
+        <path d="M 0 0 L 10 10" stroke="#000"/>
+        <g display="none"><path d="M 0 0 L 20 20" stroke="#000"/></g>
+      </g>
+    </svg>`;
+
+    const { document } = SVGCodec.decode(svg);
+
+    expect(document.groups[0].visible).toBe(false);
+    expect(document.groups[0].paths).toHaveLength(1);
+  });
+
+  it('applies the viewBox and transforms to imported shapes', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="10 10 100 50">
+      <g transform="translate(5 0) scale(2)">
+        <line x1="10" y1="10" x2="20" y2="10" stroke="blue" stroke-width="3"/>
+      </g>
+    </svg>`;
+
+    const { document } = SVGCodec.decode(svg);
+    const [line] = document.groups[0].paths;
+
+    expect(document.width).toBe(100);
+    expect(document.height).toBe(50);
+    expect(line.color).toBe('#0000ff');
+    expect(line.width).toBeCloseTo(6);
+    expect(line.nodes[0]).toMatchObject({ x: 15, y: 10 });
+    expect(line.nodes[line.nodes.length - 1]).toMatchObject({ x: 35, y: 10 });
+  });
+
+  it('imports filled shapes as outlines with a warning', () => {
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="50" height="50">
+      <rect x="5" y="5" width="20" height="10" fill="#123456"/>
+    </svg>`;
+
+    const { document, warnings } = SVGCodec.decode(svg);
+
+    expect(document.groups[0].name).toBe('SVG');
+    expect(document.groups[0].paths[0].color).toBe('#123456');
+    expect(document.groups[0].paths[0].closed).toBe(true);
+    expect(warnings).toContain('Filled shapes were imported as outlines');
+  });
+
+  it('rejects documents without an svg element', () => {
+    expect(() => SVGCodec.decode('<html></html>')).toThrow('Not an SVG document');
+  });
+});
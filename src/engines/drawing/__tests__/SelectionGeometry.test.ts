@@ -0,0 +1,52 @@
+// src/engines/drawing/__tests__/SelectionGeometry.test.ts
+import { SelectionGeometry } from '../SelectionGeometry';
+
+describe('SelectionGeometry', () => {
+  it('bounds a path', () => {
+    expect(SelectionGeometry.getPathBounds([{ x: 5, y: 20 }, { x: -3, y: 4 }, { x: 12, y: 9 }]))
+      .toEqual({ x: -3, y: 4, width: 15, height: 16 });
+    expect(SelectionGeometry.getPathBounds([])).toEqual({ x: 0, y: 0, width: 0, height: 0 });
+  });
+
+  it('turns bounds into a rectangle path and back', () => {
+    const bounds = { x: 10, y: 20, width: 30, height: 40 };
+    const path = SelectionGeometry.rectPath(bounds);
+
+    expect(path).toHaveLength(4);
+    expect(SelectionGeometry.getPathBounds(path)).toEqual(bounds);
+  });
+
+  it('combines bounds the way the mask combines', () => {
+    const current = { x: 0, y: 0, width: 50, height: 50 };
+    const shape = { x: 30, y: 40, width: 40, height: 20 };
+
+    expect(SelectionGeometry.combineBounds('new', current, shape)).toEqual(shape);
+    expect(SelectionGeometry.combineBounds('add', null, shape)).toEqual(shape);
+    expect(SelectionGeometry.combineBounds('add', current, shape)).toEqual({ x: 0, y: 0, width: 70, height: 60 });
+    expect(SelectionGeometry.combineBounds('subtract', current, shape)).toEqual(current);
+    expect(SelectionGeometry.combineBounds('intersect', current, shape)).toEqual({ x: 30, y: 40, width: 20, height: 10 });
+    expect(SelectionGeometry.combineBounds('intersect', current, { x: 80, y: 80, width: 5, height: 5 }))
+      .toEqual({ x: 80, y: 80, width: 0, height: 0 });
+  });
+
+  it('expands bounds and clamps them to whole surface pixels', () => {
+    const expanded = SelectionGeometry.expandBounds({ x: 2.5, y: 10, width: 20, height: 5.2 }, 4);
+
+    expect(expanded).toEqual({ x: -1.5, y: 6, width: 28, height: 13.2 });
+    expect(SelectionGeometry.clampBounds(expanded, 20, 100)).toEqual({ x: 0, y: 6, width: 20, height: 14 });
+    expect(SelectionGeometry.clampBounds({ x: 200, y: 0, width: 10, height: 10 }, 100, 100).width).toBe(0);
+  });
+
+  it('resamples a path at even spacing across segments', () => {
+    const points = SelectionGeometry.resample([{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 5 }], 4);
+
+    expect(points.map(({ x, y }) => [x, y])).toEqual([
+      [0, 0],
+      [4, 0],
+      [8, 0],
+      [10, 2],
+      [10, 5],
+    ]);
+    expect(SelectionGeometry.resample([], 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,122 @@
+// src/engines/drawing/__tests__/ShapeRecognizer.test.ts
+import { ShapeRecognizer } from '../ShapeRecognizer';
+import { Point } from '../../../types/drawing';
+
+// Points along straight segments through `corners`, with a small deterministic wobble
+const polyline = (corners: Point[], step = 2): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < corners.length - 1; i++) {
+    const from = corners[i];
+    const to = corners[i + 1];
+    const count = Math.max(1, Math.round(Math.hypot(to.x - from.x, to.y - from.y) / step));
+    for (let j = 0; j < count; j++) {
+      const t = j / count;
+      const wobble = Math.sin(points.length * 0.7) * 0.5;
+      points.push({ x: from.x + (to.x - from.x) * t + wobble, y: from.y + (to.y - from.y) * t - wobble });
+    }
+  }
+  points.push(corners[corners.length - 1]);
+  return points;
+};
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number, sweep = Math.PI * 2, count = 120): Point[] =>
+  Array.from({ length: count + 1 }, (_, i) => {
+    const angle = (i / count) * sweep;
+    return { x: cx + Math.cos(angle) * rx, y: cy + Math.sin(angle) * ry };
+  });
+
+describe('ShapeRecognizer', () => {
+  it('recognizes a wobbly straight stroke as a line', () => {
+    const shape = ShapeRecognizer.recognize(polyline([{ x: 10, y: 10 }, { x: 210, y: 110 }]));
+
+    expect(shape?.type).toBe('line');
+    expect(shape?.closed).toBe(false);
+    expect(shape?.vertices[0].x).toBeCloseTo(10, 0);
+    expect(shape?.vertices[1].y).toBeCloseTo(110, 0);
+  });
+
+  it('recognizes a closed round stroke as a circle', () => {
+    const shape = ShapeRecognizer.recognize(ellipse(100, 100, 60, 60));
+
+    expect(shape?.type).toBe('ellipse');
+    expect(shape && ShapeRecognizer.getShapeName(shape)).toBe('circle');
+    expect(Math.abs(shape!.vertices[0].x - 100)).toBeLessThan(1);
+    expect(Math.abs(shape!.vertices[0].y - 100)).toBeLessThan(1);
+  });
+
+  it('tells a flat ellipse apart from a circle', () => {
+    const shape = ShapeRecognizer.recognize(ellipse(100, 100, 90, 30));
+
+    expect(shape?.type).toBe('ellipse');
+    expect(shape && ShapeRecognizer.getShapeName(shape)).toBe('ellipse');
+  });
+
+  it('recognizes rectangles and triangles from their corners', () => {
+    const rectangle = ShapeRecognizer.recognize(polyline([
+      { x: 20, y: 20 }, { x: 220, y: 20 }, { x: 220, y: 120 }, { x: 20, y: 120 }, { x: 20, y: 20 },
+    ]));
+    const triangle = ShapeRecognizer.recognize(polyline([
+      { x: 100, y: 20 }, { x: 180, y: 160 }, { x: 20, y: 160 }, { x: 100, y: 20 },
+    ]));
+
+    expect(rectangle?.type).toBe('rectangle');
+    expect(rectangle?.vertices).toHaveLength(4);
+    expect(triangle?.type).toBe('triangle');
+    expect(triangle?.vertices).toHaveLength(3);
+  });
+
+  it('recognizes an open curve as an arc', () => {
+    const shape = ShapeRecognizer.recognize(ellipse(100, 100, 80, 80, Math.PI));
+
+    expect(shape?.type).toBe('arc');
+    expect(shape?.closed).toBe(false);
+  });
+
+  it('leaves short strokes alone', () => {
+    expect(ShapeRecognizer.recognize([{ x: 0, y: 0 }, { x: 5, y: 3 }])).toBeNull();
+  });
+
+  it('scores a clean circle higher than a square drawn for one', () => {
+    const circle = ellipse(100, 100, 60, 60);
+    const square = polyline([
+      { x: 40, y: 40 }, { x: 160, y: 40 }, { x: 160, y: 160 }, { x: 40, y: 160 }, { x: 40, y: 40 },
+    ]);
+
+    expect(ShapeRecognizer.canScore('circle')).toBe(true);
+    expect(ShapeRecognizer.canScore('hexagon')).toBe(false);
+    expect(ShapeRecognizer.score(circle, 'circle')).toBeGreaterThan(0.8);
+    expect(ShapeRecognizer.score(square, 'circle')).toBeLessThan(ShapeRecognizer.score(circle, 'circle'));
+  });
+
+  it('samples a closed outline from the point nearest the start', () => {
+    const shape = ShapeRecognizer.fit(ellipse(100, 100, 50, 50), 'ellipse');
+    expect(shape).not.toBeNull();
+
+    const points = ShapeRecognizer.sample(shape!, 4, { x: 100, y: 150 });
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    expect(Math.hypot(first.x - 100, first.y - 150)).toBeLessThan(4);
+    expect(last).toEqual(first);
+  });
+
+  it('stretches a line to follow the pen after a snap', () => {
+    const shape = ShapeRecognizer.fit(polyline([{ x: 0, y: 0 }, { x: 100, y: 0 }]), 'line');
+    expect(shape).not.toBeNull();
+
+    const moved = ShapeRecognizer.drag(shape!, { x: 100, y: 0 }, { x: 110, y: 20 });
+
+    expect(moved.vertices[0]).toEqual(shape!.vertices[0]);
+    expect(moved.vertices[1].x).toBeCloseTo(shape!.vertices[1].x + 10);
+    expect(moved.vertices[1].y).toBeCloseTo(shape!.vertices[1].y + 20);
+  });
+
+  it('constrains a nearly horizontal line to horizontal', () => {
+    const shape = ShapeRecognizer.fit(polyline([{ x: 0, y: 0 }, { x: 100, y: 4 }]), 'line');
+    expect(shape).not.toBeNull();
+
+    const [start, end] = ShapeRecognizer.constrain(shape!).vertices;
+
+    expect(end.y).toBeCloseTo(start.y);
+  });
+});
@@ -7,7 +7,24 @@
 // ===== CORE ENGINES =====
 export { valkyrieEngine, ValkyrieEngine } from './ValkyrieEngine';
 export { brushEngine, BrushEngine } from './BrushEngine';
+export { brushPreviewService, BrushPreviewService } from './BrushPreviewService';
+export { responseCurveManager, ResponseCurveManager } from './ResponseCurves';
+export { retouchEngine, RetouchEngine } from './RetouchEngine';
+export { eraserEngine, EraserEngine } from './EraserEngine';
+export { adjustmentManager, AdjustmentManager } from './Adjustments';
+export { pixelHistory, PixelHistory } from './PixelHistory';
+export { layerEffectRenderer, LayerEffectRenderer } from './LayerEffects';
 export { layerManager, LayerManager } from './LayerManager';
+export { documentStore, DocumentStore } from './DocumentStore';
+export { psdExchange, PSDExchange } from './PSDExchange';
+export { exportManager, ExportManager } from './ExportManager';
+export { vectorEngine, VectorEngine } from './VectorEngine';
+export { textEngine, TextEngine } from './TextEngine';
+export { quickShapeEngine, QuickShapeEngine } from './QuickShapeEngine';
+export { selectionManager, SelectionManager } from './SelectionManager';
+export { freeTransformEngine, FreeTransformEngine } from './FreeTransformEngine';
+export { liquifyEngine, LiquifyEngine } from './LiquifyEngine';
+export { perspectiveGuideEngine, PerspectiveGuideEngine } from './PerspectiveGuideEngine';
 export { colorManager, ColorManager } from './ColorManager';
 export { gestureRecognizer, GestureRecognizer } from './GestureRecognizer';
 export { transformManager, TransformManager } from './TransformManager';
@@ -69,6 +86,37 @@ export type {
   LayerType,
   LayerTransform,
   LayerEffect,
+  LayerMask,
+  LayerAdjustment,
+  AdjustmentType,
+  LayerGroup,
+  LayerTreeNode,
+  GroupBlendMode,
+  Document,
+  DocumentManifest,
+  DocumentSummary,
+  LayerStackState,
+  PSDWarning,
+  PSDExportResult,
+  PSDImportReport,
+  ExportResult,
+  VectorNode,
+  VectorStroke,
+  VectorHit,
+  SVGImportReport,
+  TextLayer,
+  TextProperties,
+  FontFamilyInfo,
+  QuickShape,
+  QuickShapeType,
+  Selection,
+  FreeTransformMode,
+  FreeTransformState,
+  TransformInterpolation,
+  LiquifyMode,
+  LiquifySettings,
+  PerspectiveGuide,
+  PerspectiveGuideType,
   // Note: BlendMode excluded to prevent conflicts with Skia's BlendMode
   // Use the BlendMode from drawing types by importing directly from types/drawing
 } from '../../types/drawing';
@@ -7,6 +7,7 @@ import {
 import { dataManager } from '../core/DataManager';
 import { errorHandler } from '../core/ErrorHandler';
 import { EventBus } from '../core/EventBus';
+import { ShapeRecognizer } from '../drawing/ShapeRecognizer';
 
 /**
  * COMMERCIAL GRADE LESSON ENGINE
@@ -480,109 +481,30 @@ class DrawingExerciseHandler implements ContentHandler {
   }
 
   private calculateShapeAccuracy(strokes: any[], targetShape: string): number {
-    // Simplified shape accuracy calculation
-    // In production, this would use computer vision algorithms
     if (!strokes || strokes.length === 0) return 0;
     
-    const stroke = strokes[0];
-    const points = stroke.points || [];
-    
+    const points = strokes[0].points || [];
     if (points.length < 3) return 0;
     
-    switch (targetShape) {
-      case 'circle':
-        return this.calculateCircleAccuracy(points);
-      case 'line':
-        return this.calculateLineAccuracy(points);
-      case 'square':
-      case 'rectangle':
-        return this.calculateRectangleAccuracy(points);
-      default:
-        return 0.5; // Default moderate accuracy
-    }
-  }
-
-  private calculateCircleAccuracy(points: any[]): number {
-    // Simple circle accuracy: check if points form roughly circular pattern
-    if (points.length < 10) return 0.3;
-    
-    // Calculate center point
-    const centerX = points.reduce((sum, p) => sum + p.x, 0) / points.length;
-    const centerY = points.reduce((sum, p) => sum + p.y, 0) / points.length;
-    
-    // Calculate average radius
-    const distances = points.map(p => 
-      Math.sqrt(Math.pow(p.x - centerX, 2) + Math.pow(p.y - centerY, 2))
-    );
-    const avgRadius = distances.reduce((sum, d) => sum + d, 0) / distances.length;
-    
-    // Calculate variance in radius (lower = more circular)
-    const variance = distances.reduce((sum, d) => sum + Math.pow(d - avgRadius, 2), 0) / distances.length;
-    const normalizedVariance = variance / (avgRadius * avgRadius);
-    
-    // Convert to accuracy score (0-1)
-    return Math.max(0, Math.min(1, 1 - normalizedVariance * 5));
-  }
-
-  private calculateLineAccuracy(points: any[]): number {
-    if (points.length < 2) return 0;
-    
-    const startPoint = points[0];
-    const endPoint = points[points.length - 1];
-    
-    // Calculate how straight the line is
-    const idealDistance = Math.sqrt(
-      Math.pow(endPoint.x - startPoint.x, 2) + Math.pow(endPoint.y - startPoint.y, 2)
-    );
-    
-    if (idealDistance < 10) return 0.3; // Too short
-    
-    // Calculate total path distance
-    let totalDistance = 0;
-    for (let i = 1; i < points.length; i++) {
-      totalDistance += Math.sqrt(
-        Math.pow(points[i].x - points[i-1].x, 2) + Math.pow(points[i].y - points[i-1].y, 2)
-      );
-    }
-    
-    // Straightness = ideal distance / actual distance
-    const straightness = idealDistance / totalDistance;
-    return Math.max(0, Math.min(1, straightness));
-  }
-
-  private calculateRectangleAccuracy(points: any[]): number {
-    // Simplified rectangle detection
-    if (points.length < 8) return 0.3;
-    
-    // For now, just check if it's roughly rectangular in bounding box
-    const minX = Math.min(...points.map(p => p.x));
-    const maxX = Math.max(...points.map(p => p.x));
-    const minY = Math.min(...points.map(p => p.y));
-    const maxY = Math.max(...points.map(p => p.y));
-    
-    const width = maxX - minX;
-    const height = maxY - minY;
-    
-    if (width < 20 || height < 20) return 0.3; // Too small
-    
-    // Basic rectangle = has width and height
-    return 0.7; // Moderate score for basic rectangle
+    // Targets the recognizer doesn't know get a moderate score
+    if (!ShapeRecognizer.canScore(targetShape)) return 0.5;
+    return ShapeRecognizer.score(points, targetShape);
   }
 
   private recognizeShapes(strokes: any[]): string[] {
     const shapes: string[] = [];
     
-    for (const stroke of strokes) {
+    for (const stroke of strokes || []) {
       const points = stroke.points || [];
       if (points.length < 3) continue;
       
-      const circleAccuracy = this.calculateCircleAccuracy(points);
-      const lineAccuracy = this.calculateLineAccuracy(points);
-      const rectAccuracy = this.calculateRectangleAccuracy(points);
+      const shape = ShapeRecognizer.recognize(points);
+      if (!shape) continue;
       
-      if (circleAccuracy > 0.6) shapes.push('circle');
-      else if (lineAccuracy > 0.7) shapes.push('line');
-      else if (rectAccuracy > 0.6) shapes.push('rectangle');
+      // A square also counts as a rectangle, a circle as an ellipse
+      const name = ShapeRecognizer.getShapeName(shape);
+      shapes.push(name);
+      if (name !== shape.type) shapes.push(shape.type);
     }
     
     return shapes;
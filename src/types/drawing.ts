@@ -22,6 +22,7 @@ export interface Point {
     layerId: string;
     timestamp: number;
     transform?: Transform;
+    seed?: number; // Set when the stroke starts; drives dab and colour jitter so replays are identical
   }
   
   export interface Transform {
@@ -124,6 +125,29 @@ export interface Point {
     | 'perspective'
     | 'reference';
   
+  // Tools that rework existing layer pixels with a brush tip
+  export type RetouchTool = Extract<Tool, 'smudge' | 'blur' | 'sharpen'>;
+  
+  export interface RetouchSettings {
+    strength: number; // 0-1, scaled by pen pressure per dab
+    brushId?: string; // Tip brush; the current brush when unset
+  }
+  
+  export type LiquifyMode = 'push' | 'twirl-left' | 'twirl-right' | 'pinch' | 'expand' | 'reconstruct' | 'smooth';
+  
+  export interface LiquifySettings {
+    mode: LiquifyMode;
+    size: number; // Brush radius in surface pixels
+    pressure: number; // 0-1, scaled by pen pressure
+    momentum: number; // 0-1, how far a push keeps gliding after the pen lifts
+  }
+  
+  // Eraser size/opacity, remembered per tip brush apart from its paint settings
+  export interface EraserBrushSettings {
+    size: number;
+    opacity: number; // 0-1
+  }
+  
   export type BrushCategory = 
     | 'sketching'
     | 'inking'
@@ -160,6 +184,8 @@ export interface Point {
     wetMix?: WetMixSettings;
     behavior?: BrushBehavior;
     blendMode?: BlendMode;
+    responseCurves?: BrushResponseCurves;
+    dualBrush?: DualBrushSettings;
     customizable: boolean;
     tags?: string[];
   }
@@ -222,6 +248,7 @@ export interface Point {
     id: string;
     name?: string;
     texture?: any; // SkImage
+    source?: string; // Base64 PNG for imported grains
     settings: {
       scale: number;
       zoom: number;
@@ -261,6 +288,23 @@ export interface Point {
     velocity?: number;
   }
   
+  export interface CurvePoint {
+    x: number; // Input 0-1
+    y: number; // Output 0-1
+  }
+  
+  export type ResponseCurvePreset = 'linear' | 'soft' | 'firm' | 'light' | 'heavy' | 'custom';
+  
+  export interface ResponseCurve {
+    points: CurvePoint[]; // Sorted by x, first at x=0 and last at x=1
+    preset: ResponseCurvePreset;
+  }
+  
+  export type ResponseCurveInput = 'pressure' | 'tilt' | 'azimuth' | 'velocity';
+  
+  // Per-brush curves; pressure is applied after the global pressure curve
+  export type BrushResponseCurves = Partial<Record<ResponseCurveInput, ResponseCurve>>;
+  
   export interface BrushRendering {
     mode: 'normal' | 'glazed' | 'wet-edges' | 'light-glaze' | 'heavy-glaze' | 'special';
     edgeBlur: number; // 0-10
@@ -291,6 +335,28 @@ export interface Point {
     mix: number; // 0-1
   }
   
+  // How the secondary tip's coverage masks the primary tip
+  export type BrushCombineMode =
+    | 'multiply'
+    | 'subtract'
+    | 'darken'
+    | 'lighten'
+    | 'difference'
+    | 'overlay'
+    | 'color-burn'
+    | 'linear-burn'
+    | 'hard-mix';
+  
+  export interface DualBrushSettings {
+    enabled: boolean;
+    brushId: string; // Secondary brush supplying the tip
+    mode: BrushCombineMode;
+    size: number; // Percentage of the primary size
+    spacing: number; // Percentage of the secondary dab size
+    scatter: number; // Percentage of the secondary dab size
+    count: number; // Dabs per spacing step
+  }
+  
   export interface BrushBehavior {
     accumulated: boolean;
     colorized: boolean;
@@ -300,6 +366,35 @@ export interface Point {
     preserveTransparency: boolean;
   }
   
+  export interface BrushImportWarning {
+    brushId: string | null; // null for library-level warnings
+    brushName: string | null;
+    message: string;
+  }
+  
+  export interface BrushImportReport {
+    brushIds: string[];
+    warnings: BrushImportWarning[];
+  }
+  
+  export type BrushConflictResolution = 'keep-both' | 'replace' | 'skip';
+  
+  export interface BrushBundleConflict {
+    bundleBrushId: string;
+    bundleBrushName: string;
+    existingBrushId: string;
+    kind: 'identical' | 'name'; // identical = same content hash
+  }
+  
+  export interface BrushBundleImportOptions {
+    resolve?: (conflict: BrushBundleConflict) => BrushConflictResolution;
+  }
+  
+  export interface BrushBundleImportReport extends BrushImportReport {
+    replacedIds: string[];
+    skippedNames: string[];
+  }
+  
   export interface BrushPreset {
     id: string;
     brushId: string;
@@ -361,9 +456,13 @@ export interface Point {
     opacity: number; // 0-1
     blendMode: BlendMode;
     locked: boolean;
+    alphaLock: boolean; // Transparency is preserved; pixels keep their coverage
     clippingMask: boolean;
-    maskLayerId: string | null;
-    groupId: string | null;
+    maskLayerId: string | null; // Clipping base when clippingMask is set
+    mask: LayerMask | null; // Pixel mask: white reveals, black hides
+    adjustment?: LayerAdjustment; // Adjustment layers only
+    vectorStrokes?: VectorStroke[]; // Vector layers only, bottom to top
+    groupId: string | null; // Enclosing group; null at the top level
     strokes: Stroke[];
     transform: LayerTransform;
     effects: LayerEffect[];
@@ -371,6 +470,101 @@ export interface Point {
     thumbnail?: string;
   }
   
+  export interface LayerMask {
+    id: string; // Surface holding the grayscale mask bitmap
+    enabled: boolean;
+    inverted: boolean;
+  }
+  
+  // ===== VECTOR TYPES =====
+  
+  // Anchor of a cubic bezier path; handles are absolute positions
+  export interface VectorNode {
+    x: number;
+    y: number;
+    handleIn: { x: number; y: number };
+    handleOut: { x: number; y: number };
+    pressure: number; // Width profile, 0-1; sizes the brush the way pen pressure does
+  }
+  
+  export interface VectorStroke {
+    id: string;
+    brushId: string;
+    color: Color;
+    size: number; // Brush size the width profile scales
+    nodes: VectorNode[];
+    closed: boolean;
+    timestamp: number;
+  }
+  
+  export interface VectorHit {
+    strokeId: string;
+    segment: number; // Index of the node the segment starts from
+    t: number; // 0-1 along that segment
+    distance: number;
+  }
+  
+  export interface SVGImportReport {
+    layerIds: string[];
+    strokeCount: number;
+    warnings: string[];
+  }
+  
+  // ===== ADJUSTMENT TYPES =====
+  
+  export type AdjustmentType =
+    | 'curves'
+    | 'levels'
+    | 'hue-saturation'
+    | 'color-balance'
+    | 'gradient-map';
+  
+  export interface CurvesAdjustment {
+    type: 'curves';
+    master: CurvePoint[];
+    red: CurvePoint[];
+    green: CurvePoint[];
+    blue: CurvePoint[];
+  }
+  
+  export interface LevelsAdjustment {
+    type: 'levels';
+    inputBlack: number; // 0-1
+    inputWhite: number; // 0-1
+    gamma: number; // 0.1-10, 1 = unchanged
+    outputBlack: number; // 0-1
+    outputWhite: number; // 0-1
+  }
+  
+  export interface HueSaturationAdjustment {
+    type: 'hue-saturation';
+    hue: number; // -180 to 180 degrees; absolute hue (0-360) when colorizing
+    saturation: number; // -1 to 1
+    lightness: number; // -1 to 1
+    colorize: boolean;
+  }
+  
+  // Per-range shifts: r = cyan/red, g = magenta/green, b = yellow/blue, each -1 to 1
+  export interface ColorBalanceAdjustment {
+    type: 'color-balance';
+    shadows: { r: number; g: number; b: number };
+    midtones: { r: number; g: number; b: number };
+    highlights: { r: number; g: number; b: number };
+    preserveLuminosity: boolean;
+  }
+  
+  export interface GradientMapAdjustment {
+    type: 'gradient-map';
+    stops: GradientStop[]; // Luminance 0-1 maps to the gradient
+  }
+  
+  export type LayerAdjustment =
+    | CurvesAdjustment
+    | LevelsAdjustment
+    | HueSaturationAdjustment
+    | ColorBalanceAdjustment
+    | GradientMapAdjustment;
+  
   export interface LayerTransform {
     x: number;
     y: number;
@@ -382,16 +576,41 @@ export interface Point {
     skewY?: number;
   }
   
+  // ===== FREE TRANSFORM TYPES =====
+  
+  export type FreeTransformMode = 'uniform' | 'freeform' | 'distort' | 'warp';
+  
+  export type TransformInterpolation = 'nearest' | 'bilinear' | 'bicubic';
+  
+  // Where the lifted pixels are being placed, in surface pixels
+  export interface FreeTransformState {
+    layerId: string;
+    mode: FreeTransformMode;
+    interpolation: TransformInterpolation;
+    source: Bounds; // Area the content was lifted from
+    corners: Point[]; // Source corners (top-left, top-right, bottom-right, bottom-left) after transforming
+    mesh: Point[] | null; // 4x4 bezier control points, row by row, once warped
+  }
+  
+  // Pass-through blends a group's children straight into the layers below it
+  export type GroupBlendMode = BlendMode | 'pass-through';
+  
   export interface LayerGroup {
     id: string;
     name: string;
-    layerIds: string[];
+    parentId: string | null; // Enclosing group; null at the top level
+    children: string[]; // Layer and group ids, bottom to top
     expanded: boolean;
     visible: boolean;
     opacity: number;
-    blendMode: BlendMode;
+    blendMode: GroupBlendMode;
   }
   
+  // Layer stack as composited, bottom to top
+  export type LayerTreeNode =
+    | { type: 'layer'; layer: Layer }
+    | { type: 'group'; group: LayerGroup; children: LayerTreeNode[] };
+  
   export interface ClippingMask {
     baseLayerId: string;
     maskLayerIds: string[];
@@ -434,6 +653,22 @@ export interface Point {
     streamlineAmount: number; // 0-1
   }
   
+  // ===== PERSPECTIVE GUIDE TYPES =====
+  
+  export type PerspectiveGuideType = 'one-point' | 'two-point' | 'three-point';
+  
+  // Points are in canvas coordinates and may lie well outside the canvas
+  export interface PerspectiveGuide {
+    type: PerspectiveGuideType;
+    vanishingPoints: Point[]; // One per point of perspective; the first two sit on the horizon
+    horizonAngle: number; // Degrees; follows the first two points when there are two
+    visible: boolean;
+    drawingAssist: boolean; // Snap new strokes toward the nearest vanishing direction
+    color: string;
+    opacity: number; // 0-1
+    lineCount: number; // Guide lines drawn out of each vanishing point
+  }
+  
   // ===== GESTURE TYPES =====
   
   export type GestureType = 
@@ -499,12 +734,80 @@ export interface Point {
     layerOrder: string[];
     currentLayerId: string | null;
     settings: CanvasSettings;
+    perspectiveGuide?: PerspectiveGuide | null;
+  }
+  
+  // The layer stack without pixels or history, as a document stores it
+  export interface LayerStackState {
+    canvasWidth: number;
+    canvasHeight: number;
+    layers: Layer[];
+    groups: LayerGroup[];
+    rootOrder: string[];
+    currentLayerId: string | null;
+  }
+  
+  // manifest.json inside a .pikaso package
+  export interface DocumentManifest {
+    format: 'pikaso';
+    version: number;
+    minReaderVersion: number; // Oldest format version able to read this package
+    document: Document; // Layer strokes are kept in each layer's stroke file
+    pixelWidth: number; // Size of the layer surfaces the tiles were cut from
+    pixelHeight: number;
+    groups: LayerGroup[];
+    rootOrder: string[];
+    brushes: Record<string, string>; // Brush id -> BrushEngine export
+    fonts: Record<string, string>; // Imported font family -> font file in the package
+    layers: Record<string, DocumentLayerFiles>;
+  }
+  
+  // Paths are relative to the package directory
+  export interface DocumentLayerFiles {
+    directory: string; // Written fresh on each save, so a failed save leaves the last one intact
+    tiles: DocumentTile[];
+    maskTiles: DocumentTile[];
+    strokes: string | null;
+  }
+  
+  export interface DocumentTile {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    file: string; // PNG
+  }
+  
+  export interface DocumentSummary {
+    id: string;
+    name: string;
+    width: number;
+    height: number;
+    modified: number;
+    thumbnail: string | null; // File URI
+  }
+  
+  // Something a PSD import or export could not carry over exactly
+  export interface PSDWarning {
+    layerName: string | null; // null for the document as a whole
+    message: string;
+  }
+  
+  export interface PSDExportResult {
+    data: Uint8Array;
+    warnings: PSDWarning[];
+  }
+  
+  export interface PSDImportReport {
+    layerIds: string[];
+    groupIds: string[];
+    warnings: PSDWarning[];
   }
   
   // ===== EXPORT TYPES =====
   
   export interface ExportSettings {
-    format: 'png' | 'jpeg' | 'psd' | 'procreate' | 'pdf' | 'tiff';
+    format: 'png' | 'jpeg' | 'psd' | 'procreate' | 'pdf' | 'tiff' | 'svg';
     quality: number; // 0-100
     scale: number; // Export scale multiplier
     colorProfile: string;
@@ -513,6 +816,16 @@ export interface Point {
     includeMetadata: boolean;
   }
   
+  export interface ExportResult {
+    uri: string; // Written to the cache directory
+    format: ExportSettings['format'];
+    mimeType: string;
+    width: number;
+    height: number;
+    bytes: number;
+    warnings: string[];
+  }
+  
   // ===== REFERENCE TYPES =====
   
   export interface ReferenceImage {
@@ -545,13 +858,26 @@ export interface Point {
       weight: number;
       style: 'normal' | 'italic' | 'oblique';
     };
+    color: Color;
+    boxWidth: number | null; // Wrap width in surface pixels; null sizes the box to the longest line
     alignment: 'left' | 'center' | 'right' | 'justify';
-    lineHeight: number;
-    letterSpacing: number;
+    lineHeight: number; // Multiple of the font size
+    letterSpacing: number; // Pixels
     textTransform: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
     textPath?: Point[];
   }
   
+  // Everything a text edit can change besides the transform
+  export type TextProperties = Pick<
+    TextLayer,
+    'text' | 'font' | 'color' | 'boxWidth' | 'alignment' | 'lineHeight' | 'letterSpacing' | 'textTransform'
+  >;
+  
+  export interface FontFamilyInfo {
+    family: string;
+    source: 'bundled' | 'imported' | 'system';
+  }
+  
   // ===== SHAPE TYPES =====
   
   export interface Shape {
@@ -571,6 +897,19 @@ export interface Point {
     innerRadius?: number; // For stars
   }
   
+  // ===== QUICKSHAPE TYPES =====
+  
+  export type QuickShapeType = 'line' | 'arc' | 'ellipse' | 'rectangle' | 'triangle' | 'polygon';
+  
+  export interface QuickShape {
+    type: QuickShapeType;
+    // line: ends; arc: start, a point on the arc, end; ellipse: center, end of the
+    // first axis, end of the second axis; rectangle, triangle, polygon: corners in drawing order
+    vertices: Point[];
+    closed: boolean; // Open polygons are polylines
+    error: number; // Mean distance of the drawn points from the shape, in pixels
+  }
+  
   // ===== USER TYPES - FIXED: Added missing SkillLevel =====
   
   export type SkillLevel = 'beginner' | 'some-experience' | 'intermediate' | 'advanced';
\ No newline at end of file